@@ -1,8 +1,8 @@
 import React, { useState, useEffect, lazy, Suspense } from 'react';
 import { Routes, Route, useNavigate, useLocation } from 'react-router-dom';
-import { ProjectConfig, GeneratedPlan, SavedProject, ModificationAnalysis, GenerationProgress } from './types';
+import { ProjectConfig, GeneratedPlan, SavedProject, ModificationAnalysis, ModificationReview, GenerationProgress, RoomLock } from './types';
 import { AuthProvider } from './contexts/AuthContext';
-import { generateFloorPlanWithProgress, analyzePlanFromImage, analyzePlanModification, applyPlanModification, generateAlternatives } from './services/apiService';
+import { generateFloorPlanWithProgress, resumeFloorPlanGeneration, cancelFloorPlanGeneration, GenerationError, analyzePlanFromImage, analyzePlanModification, applyPlanModification, generateAlternatives } from './services/apiService';
 import { saveProject, saveFloorPlan, FloorPlanData } from './services/storageService';
 import { Navbar } from './components/NeoComponents';
 import ProtectedRoute from './components/ProtectedRoute';
@@ -28,6 +28,7 @@ function App() {
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [resumableJobId, setResumableJobId] = useState<string | null>(null);
   const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   const [alternatives, setAlternatives] = useState<GeneratedPlan[]>([]);
   const [isDark, setIsDark] = useState(false);
@@ -113,13 +114,33 @@ function App() {
     });
   };
 
-  const handleGenerate = async (newConfig: ProjectConfig) => {
+  const handleGenerate = (newConfig: ProjectConfig) =>
+    runGeneration(newConfig, () => generateFloorPlanWithProgress(newConfig, false, setGenerationProgress));
+
+  // Continue the last failed generation from its server-side checkpoint
+  const handleResumeGeneration = () => {
+    if (!config || !resumableJobId) return;
+    runGeneration(config, () => resumeFloorPlanGeneration(resumableJobId, setGenerationProgress));
+  };
+
+  const handleCancelGeneration = async () => {
+    if (!generationProgress) return;
+    try {
+      await cancelFloorPlanGeneration(generationProgress.jobId);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to cancel generation.');
+    }
+  };
+
+  const runGeneration = async (newConfig: ProjectConfig, produce: () => Promise<GeneratedPlan>) => {
     setConfig(newConfig);
     setIsProcessing(true);
     setError(null);
+    setResumableJobId(null);
     setCurrentProjectId(null); // Reset current ID for new generation
     try {
-      const plan = await generateFloorPlanWithProgress(newConfig, false, setGenerationProgress);
+      const plan = await produce();
       plan.version = "1.0";
       plan.timestamp = Date.now();
 
@@ -154,6 +175,7 @@ function App() {
     } catch (err: any) {
       console.error(err);
       setError(err.message || "Failed to generate plan. Please check API key or try again.");
+      if (err instanceof GenerationError && err.resumable) setResumableJobId(err.jobId);
     } finally {
       setIsProcessing(false);
       setGenerationProgress(null);
@@ -169,7 +191,7 @@ function App() {
     reader.onload = async () => {
       try {
         const base64 = reader.result as string;
-        const plan = await analyzePlanFromImage(base64);
+        const plan = await analyzePlanFromImage(base64, setGenerationProgress);
 
                 // Save analyzed floor plan to Supabase
                 try {
@@ -200,6 +222,7 @@ function App() {
         setError(err.message || "Failed to analyze image.");
       } finally {
         setIsProcessing(false);
+        setGenerationProgress(null);
       }
     };
     reader.onerror = () => {
@@ -294,11 +317,11 @@ function App() {
     return await analyzePlanModification(generatedPlan, request, config);
   };
 
-  const handleApplyModification = async (request: string) => {
+  const handleApplyModification = async (request: string): Promise<ModificationReview | undefined> => {
     if (!generatedPlan || !config) return;
     setIsProcessing(true);
     try {
-      const newPlan = await applyPlanModification(generatedPlan, request, config);
+      const { plan: newPlan, review } = await applyPlanModification(generatedPlan, request, config, setGenerationProgress);
 
       // Calculate new minor version
       const currentVersion = generatedPlan.version || "1.0";
@@ -332,11 +355,13 @@ function App() {
             }
 
       setCurrentPlanIndex(prev => prev + 1);
+      return review;
     } catch (err: any) {
       console.error(err);
       setError(err.message || "Failed to apply modification.");
     } finally {
       setIsProcessing(false);
+      setGenerationProgress(null);
     }
   };
 
@@ -344,6 +369,10 @@ function App() {
     setCurrentPlanIndex(index);
   };
 
+  const handleRoomLocksChange = (roomLocks: RoomLock[]) => {
+    setConfig(prev => prev ? { ...prev, roomLocks } : prev);
+  };
+
   const handleGenerateAlternatives = async () => {
     if (!config) return;
     setIsProcessing(true);
@@ -391,14 +420,22 @@ function App() {
         </Suspense>
 
         {/* Generation Progress Overlay */}
-        <GenerationProgressOverlay progress={generationProgress} />
+        <GenerationProgressOverlay progress={generationProgress} onCancel={handleCancelGeneration} />
 
         {/* Error Toast */}
         {error && (
           <div className="fixed top-20 right-4 z-50 bg-red-100 dark:bg-red-900 border-2 border-black dark:border-white p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,1)] max-w-sm">
             <h4 className="font-bold text-red-600 dark:text-red-300 mb-1">Error</h4>
             <p className="text-sm dark:text-white">{error}</p>
-            <button onClick={() => setError(null)} className="absolute top-1 right-1 font-bold text-xs px-2 hover:bg-red-200 dark:hover:bg-red-800 dark:text-white">X</button>
+            {resumableJobId && (
+              <button
+                onClick={handleResumeGeneration}
+                className="mt-2 text-xs font-bold px-2 py-1 border-2 border-black dark:border-white bg-white dark:bg-slate-800 dark:text-white hover:bg-gray-100"
+              >
+                Resume from last checkpoint
+              </button>
+            )}
+            <button onClick={() => { setError(null); setResumableJobId(null); }} className="absolute top-1 right-1 font-bold text-xs px-2 hover:bg-red-200 dark:hover:bg-red-800 dark:text-white">X</button>
           </div>
         )}
 
@@ -452,6 +489,7 @@ function App() {
                   alternatives={alternatives}
                   onGenerateAlternatives={handleGenerateAlternatives}
                   onSelectAlternative={handleSelectAlternative}
+                  onRoomLocksChange={handleRoomLocksChange}
                 />
               </ProtectedRoute>
             } />
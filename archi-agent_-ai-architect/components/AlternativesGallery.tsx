@@ -49,6 +49,7 @@ const AlternativesGallery: React.FC<AlternativesGalleryProps> = ({ alternatives,
                   <div className="p-3 flex-1 min-h-[200px] flex items-center justify-center bg-gray-50 dark:bg-slate-800">
                     <FloorPlanSvg
                       rooms={alt.rooms}
+                      boundary={alt.plotBoundary}
                       showDimensions={false}
                       showFeatures={false}
                     />
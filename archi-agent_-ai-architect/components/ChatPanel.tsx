@@ -1,12 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { GeneratedPlan, ModificationAnalysis, ChatMessage } from '../types';
+import type { GeneratedPlan, ModificationAnalysis, ModificationReview, ChatMessage } from '../types';
 import { NeoButton, NeoCard } from './NeoComponents';
 import { MessageSquare, Send, RefreshCw, Lightbulb, CheckCircle } from 'lucide-react';
 
 interface ChatPanelProps {
   plan: GeneratedPlan;
   onAnalyzeModification?: (request: string) => Promise<ModificationAnalysis>;
-  onApplyModification?: (request: string) => Promise<void>;
+  onApplyModification?: (request: string) => Promise<ModificationReview | undefined>;
   isProcessing?: boolean;
 }
 
@@ -59,8 +59,17 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ plan, onAnalyzeModification, onAp
 
   const handleApply = async (msg: ChatMessage) => {
     if (!onApplyModification || !msg.analysis) return;
-    await onApplyModification(msg.analysis.originalRequest);
-    setMessages(prev => prev.map(m => m.id === msg.id ? { ...m, applied: true } : m));
+    const review = await onApplyModification(msg.analysis.originalRequest);
+    if (!review) return;
+    const percent = (score: number) => Math.round(score * 100);
+    const delta = percent(review.scoreAfter) - percent(review.scoreBefore);
+    const reviewMsg: ChatMessage = {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content: `Applied. Plan score ${percent(review.scoreBefore)}% → ${percent(review.scoreAfter)}% (${delta >= 0 ? '+' : ''}${delta})${review.passesThreshold ? '' : ', below the pass threshold'}.`,
+      timestamp: Date.now(),
+    };
+    setMessages(prev => [...prev.map(m => m.id === msg.id ? { ...m, applied: true } : m), reviewMsg]);
   };
 
   return (
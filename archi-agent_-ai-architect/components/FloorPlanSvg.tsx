@@ -1,14 +1,19 @@
 import React from 'react';
-import type { Room, WallFeature, FurnitureItem } from '../types';
+import type { Room, WallFeature, FurnitureItem, Point, StructuralColumn, StructuralLayout } from '../types';
+import { featurePlacement, roomArea, roomCentroid } from '../utils/roomShape';
 
 interface FloorPlanSvgProps {
   rooms: Room[];
+  boundary?: Point[];
   svgRef?: React.RefObject<SVGSVGElement>;
   onRoomClick?: (roomId: string) => void;
   selectedRoomId?: string | null;
   roomOverrides?: Map<string, { fill: string; stroke: string }>;
   furniture?: FurnitureItem[];
   showFurniture?: boolean;
+  structure?: StructuralLayout;
+  showStructure?: boolean;
+  floor?: number; // floor shown, for the structural layer
   showDimensions?: boolean;
   showFeatures?: boolean;
   onSvgClick?: (e: React.MouseEvent) => void;
@@ -47,13 +52,8 @@ function getZoneStyle(type: Room['type'], isSelected: boolean, override?: { fill
 }
 
 function renderFeature(room: Room, feature: WallFeature, index: number) {
-  let cx = 0, cy = 0, rot = 0;
   const featWidth = feature.width || 0.9;
-
-  if (feature.wall === 'top') { cx = room.x + (room.width * feature.position); cy = room.y; rot = 0; }
-  else if (feature.wall === 'bottom') { cx = room.x + (room.width * feature.position); cy = room.y + room.height; rot = 180; }
-  else if (feature.wall === 'left') { cx = room.x; cy = room.y + (room.height * feature.position); rot = 270; }
-  else if (feature.wall === 'right') { cx = room.x + room.width; cy = room.y + (room.height * feature.position); rot = 90; }
+  const { x: cx, y: cy, rotation: rot } = featurePlacement(room, feature);
 
   const transform = `translate(${cx}, ${cy}) rotate(${rot}) translate(${-featWidth / 2}, ${-WALL_THICKNESS / 2})`;
 
@@ -107,20 +107,27 @@ function getFurnitureColor(type: string): string {
 
 const FloorPlanSvg: React.FC<FloorPlanSvgProps> = ({
   rooms,
+  boundary,
   svgRef,
   onRoomClick,
   selectedRoomId,
   roomOverrides,
   furniture,
   showFurniture = true,
+  structure,
+  showStructure = false,
+  floor = 0,
   showDimensions = true,
   showFeatures = true,
   onSvgClick,
   measurementOverlay,
   isMeasuring,
 }) => {
-  const maxX = rooms.length > 0 ? Math.max(...rooms.map(r => r.x + r.width)) : 20;
-  const maxY = rooms.length > 0 ? Math.max(...rooms.map(r => r.y + r.height)) : 20;
+  const hasBoundary = !!boundary && boundary.length >= 3;
+  const extentsX = [...rooms.map(r => r.x + r.width), ...(hasBoundary ? boundary!.map(p => p.x) : [])];
+  const extentsY = [...rooms.map(r => r.y + r.height), ...(hasBoundary ? boundary!.map(p => p.y) : [])];
+  const maxX = extentsX.length > 0 ? Math.max(...extentsX) : 20;
+  const maxY = extentsY.length > 0 ? Math.max(...extentsY) : 20;
 
   return (
     <svg
@@ -154,6 +161,7 @@ const FloorPlanSvg: React.FC<FloorPlanSvgProps> = ({
           const isSelected = selectedRoomId === room.id;
           const override = roomOverrides?.get(room.id);
           const style = getZoneStyle(room.type, isSelected, override);
+          const label = roomCentroid(room);
           return (
             <g
               key={room.id}
@@ -165,16 +173,25 @@ const FloorPlanSvg: React.FC<FloorPlanSvgProps> = ({
               }}
               className={onRoomClick && !isMeasuring ? "cursor-pointer hover:opacity-90" : ""}
             >
-              <rect
-                x={room.x} y={room.y} width={room.width} height={room.height}
-                fill={style.fill} stroke={style.stroke} strokeWidth={style.strokeWidth}
-                strokeDasharray={style.strokeDasharray} opacity={style.opacity}
-              />
+              {room.polygon && room.polygon.length >= 3 ? (
+                <polygon
+                  points={room.polygon.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill={style.fill} stroke={style.stroke} strokeWidth={style.strokeWidth}
+                  strokeDasharray={style.strokeDasharray} opacity={style.opacity}
+                  strokeLinejoin="miter"
+                />
+              ) : (
+                <rect
+                  x={room.x} y={room.y} width={room.width} height={room.height}
+                  fill={style.fill} stroke={style.stroke} strokeWidth={style.strokeWidth}
+                  strokeDasharray={style.strokeDasharray} opacity={style.opacity}
+                />
+              )}
               {showFeatures && room.features && room.features.map((feature, idx) => renderFeature(room, feature, idx))}
 
               {/* Room Label */}
               <text
-                x={room.x + room.width / 2} y={room.y + room.height / 2 - 0.15}
+                x={label.x} y={label.y - 0.15}
                 textAnchor="middle" dominantBaseline="middle"
                 fontSize={room.type === 'room' ? "0.25" : "0.20"}
                 fontWeight={room.type === 'room' ? 'bold' : 'normal'}
@@ -188,18 +205,27 @@ const FloorPlanSvg: React.FC<FloorPlanSvgProps> = ({
               {/* Dimensions */}
               {showDimensions && (
                 <text
-                  x={room.x + room.width / 2} y={room.y + room.height / 2 + 0.25}
+                  x={label.x} y={label.y + 0.25}
                   textAnchor="middle" dominantBaseline="middle" fontSize="0.18" fill="black"
                   className="pointer-events-none select-none"
                   style={{ textShadow: '0px 0px 2px white' }}
                 >
-                  {room.width}m x {room.height}m
+                  {room.polygon && room.polygon.length >= 3 ? `${roomArea(room).toFixed(1)} m²` : `${room.width}m x ${room.height}m`}
                 </text>
               )}
             </g>
           );
         })}
 
+      {/* Plot Boundary (irregular plots) */}
+      {hasBoundary && (
+        <polygon
+          points={boundary!.map(p => `${p.x},${p.y}`).join(' ')}
+          fill="none" stroke="#1e293b" strokeWidth="0.12" strokeDasharray="0.6 0.2 0.1 0.2"
+          className="pointer-events-none"
+        />
+      )}
+
       {/* Furniture */}
       {showFurniture && furniture && furniture.map((item) => (
         <g key={item.id} transform={`translate(${item.x}, ${item.y}) rotate(${item.rotation}, ${item.width / 2}, ${item.height / 2})`}>
@@ -218,6 +244,43 @@ const FloorPlanSvg: React.FC<FloorPlanSvgProps> = ({
         </g>
       ))}
 
+      {/* Structural Layer: beams under this floor's ceiling, columns passing through it */}
+      {showStructure && structure && (() => {
+        const columnsById = new Map<string, StructuralColumn>(structure.columns.map(c => [c.id, c]));
+        return (
+          <g className="pointer-events-none">
+            {structure.beams.filter(b => b.floor === floor).map((beam) => {
+              const from = columnsById.get(beam.from);
+              const to = columnsById.get(beam.to);
+              if (!from || !to) return null;
+              return (
+                <line
+                  key={beam.id}
+                  x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                  stroke="#ea580c" strokeWidth={beam.width} strokeDasharray="0.3 0.15" opacity={0.7}
+                />
+              );
+            })}
+            {structure.columns.filter(c => c.fromFloor <= floor && floor <= c.toFloor).map((column) => (
+              <g key={column.id}>
+                <rect
+                  x={column.x - column.width / 2} y={column.y - column.depth / 2}
+                  width={column.width} height={column.depth}
+                  fill="#1e293b" stroke="#ea580c" strokeWidth="0.03"
+                />
+                <text
+                  x={column.x + column.width / 2 + 0.08} y={column.y - column.depth / 2 - 0.05}
+                  fontSize="0.16" fontFamily="monospace" fill="#9a3412"
+                  className="select-none"
+                >
+                  {column.id}
+                </text>
+              </g>
+            ))}
+          </g>
+        );
+      })()}
+
       {/* Measurement Overlay */}
       {measurementOverlay}
 
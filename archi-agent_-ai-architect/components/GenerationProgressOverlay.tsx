@@ -1,9 +1,10 @@
 import React from 'react';
 import { Loader2, CheckCircle, AlertTriangle, Brain, Zap } from 'lucide-react';
-import type { GenerationProgress } from '../types';
+import type { GenerationProgress, JobKind } from '../types';
 
 interface Props {
   progress: GenerationProgress | null;
+  onCancel?: () => void;
 }
 
 const agentColors: Record<string, string> = {
@@ -13,9 +14,22 @@ const agentColors: Record<string, string> = {
   RefinementAgent: 'bg-green-400',
   CostAgent: 'bg-pink-400',
   FurnitureAgent: 'bg-amber-400',
+  LayoutSolver: 'bg-teal-400',
+  PlanRepair: 'bg-lime-400',
+  PlanModifier: 'bg-green-400',
+  PlanValidator: 'bg-lime-400',
+  MaterialEstimator: 'bg-pink-400',
+  ImageAnalyzer: 'bg-purple-400',
 };
 
-const GenerationProgressOverlay: React.FC<Props> = ({ progress }) => {
+const jobCopy: Record<JobKind, { title: string; subtitle: string; noun: string }> = {
+  generation: { title: 'MULTI-AGENT DESIGN', subtitle: 'AI agents are designing your floor plan', noun: 'Generation' },
+  modification: { title: 'PLAN MODIFICATION', subtitle: 'Applying your change and re-checking the plan', noun: 'Modification' },
+  estimation: { title: 'COST ESTIMATION', subtitle: 'Pricing materials for your project', noun: 'Estimation' },
+  image_analysis: { title: 'PLAN ANALYSIS', subtitle: 'Reading rooms and compliance from your image', noun: 'Analysis' },
+};
+
+const GenerationProgressOverlay: React.FC<Props> = ({ progress, onCancel }) => {
   if (!progress || progress.status === 'completed') return null;
 
   const latestScore = progress.scores.length > 0
@@ -26,6 +40,8 @@ const GenerationProgressOverlay: React.FC<Props> = ({ progress }) => {
     ? progress.violations[progress.violations.length - 1]
     : null;
 
+  const copy = jobCopy[progress.kind];
+
   return (
     <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4">
       <div className="bg-white dark:bg-slate-800 border-2 border-black dark:border-white shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] dark:shadow-[8px_8px_0px_0px_rgba(255,255,255,1)] p-8 max-w-lg w-full">
@@ -33,38 +49,40 @@ const GenerationProgressOverlay: React.FC<Props> = ({ progress }) => {
         <div className="flex items-center gap-3 mb-6">
           <Brain className="w-8 h-8 text-purple-500 animate-pulse" />
           <div>
-            <h2 className="text-xl font-black">MULTI-AGENT DESIGN</h2>
+            <h2 className="text-xl font-black">{copy.title}</h2>
             <p className="text-sm text-gray-500 dark:text-gray-400 font-bold">
-              AI agents are designing your floor plan
+              {copy.subtitle}
             </p>
           </div>
         </div>
 
-        {/* Iteration Progress */}
-        <div className="mb-6">
-          <div className="flex justify-between text-sm font-bold mb-2">
-            <span>Iteration {progress.currentIteration}/{progress.maxIterations}</span>
-            {latestScore && (
-              <span className={latestScore.finalScore >= 0.7 ? 'text-green-600' : 'text-orange-500'}>
-                Score: {(latestScore.finalScore * 100).toFixed(0)}%
-              </span>
-            )}
-          </div>
-          <div className="flex gap-1">
-            {Array.from({ length: progress.maxIterations }, (_, i) => (
-              <div
-                key={i}
-                className={`h-3 flex-1 border border-black dark:border-white transition-all duration-500 ${
-                  i < progress.currentIteration
-                    ? 'bg-green-400'
-                    : i === progress.currentIteration - 1
-                    ? 'bg-yellow-300 animate-pulse'
-                    : 'bg-gray-200 dark:bg-gray-600'
-                }`}
-              />
-            ))}
+        {/* Iteration Progress; only generations iterate */}
+        {progress.kind === 'generation' && (
+          <div className="mb-6">
+            <div className="flex justify-between text-sm font-bold mb-2">
+              <span>Iteration {progress.currentIteration}/{progress.maxIterations}</span>
+              {latestScore && (
+                <span className={latestScore.finalScore >= 0.7 ? 'text-green-600' : 'text-orange-500'}>
+                  Score: {(latestScore.finalScore * 100).toFixed(0)}%
+                </span>
+              )}
+            </div>
+            <div className="flex gap-1">
+              {Array.from({ length: progress.maxIterations }, (_, i) => (
+                <div
+                  key={i}
+                  className={`h-3 flex-1 border border-black dark:border-white transition-all duration-500 ${
+                    i < progress.currentIteration
+                      ? 'bg-green-400'
+                      : i === progress.currentIteration - 1
+                      ? 'bg-yellow-300 animate-pulse'
+                      : 'bg-gray-200 dark:bg-gray-600'
+                  }`}
+                />
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Score Trajectory */}
         {progress.scores.length > 0 && (
@@ -125,7 +143,11 @@ const GenerationProgressOverlay: React.FC<Props> = ({ progress }) => {
 
         {/* Violation Counts */}
         {latestViolations && (
-          <div className="flex gap-4 text-xs font-bold">
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs font-bold">
+            <div className="flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3 text-purple-500" />
+              <span>Geometry: {latestViolations.geometry}</span>
+            </div>
             <div className="flex items-center gap-1">
               <AlertTriangle className="w-3 h-3 text-red-500" />
               <span>Regulatory: {latestViolations.regulatory}</span>
@@ -134,15 +156,49 @@ const GenerationProgressOverlay: React.FC<Props> = ({ progress }) => {
               <AlertTriangle className="w-3 h-3 text-orange-500" />
               <span>Cultural: {latestViolations.cultural}</span>
             </div>
+            <div className="flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3 text-blue-500" />
+              <span>Connectivity: {latestViolations.connectivity}</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3 text-rose-600" />
+              <span>Fire Safety: {latestViolations.fireSafety}</span>
+            </div>
+            {latestViolations.structural > 0 && (
+              <div className="flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3 text-slate-600" />
+                <span>Structure: {latestViolations.structural}</span>
+              </div>
+            )}
+            {latestViolations.accessibility > 0 && (
+              <div className="flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3 text-teal-600" />
+                <span>Accessibility: {latestViolations.accessibility}</span>
+              </div>
+            )}
           </div>
         )}
 
         {/* Status */}
         {progress.status === 'failed' && (
           <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/30 border-2 border-red-300 text-red-700 dark:text-red-300 font-bold text-sm">
-            Generation failed. Please try again.
+            {copy.noun} failed. Please try again.
+          </div>
+        )}
+        {progress.status === 'cancelled' && (
+          <div className="mt-4 p-3 bg-gray-50 dark:bg-slate-700 border-2 border-gray-300 font-bold text-sm">
+            {copy.noun} cancelled.
           </div>
         )}
+
+        {onCancel && progress.status === 'running' && (
+          <button
+            onClick={onCancel}
+            className="mt-6 w-full text-sm font-bold px-3 py-2 border-2 border-black dark:border-white bg-white dark:bg-slate-800 hover:bg-red-100 dark:hover:bg-red-900"
+          >
+            Cancel {copy.noun}
+          </button>
+        )}
       </div>
     </div>
   );
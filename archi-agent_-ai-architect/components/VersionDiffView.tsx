@@ -81,6 +81,7 @@ const VersionDiffView: React.FC<VersionDiffViewProps> = ({ planHistory, onClose
           <div className="border-r border-black dark:border-white p-4 flex items-center justify-center bg-gray-50 dark:bg-slate-900">
             <FloorPlanSvg
               rooms={planHistory[leftIndex].rooms}
+              boundary={planHistory[leftIndex].plotBoundary}
               roomOverrides={leftOverrides}
               showDimensions={false}
               showFeatures={false}
@@ -89,6 +90,7 @@ const VersionDiffView: React.FC<VersionDiffViewProps> = ({ planHistory, onClose
           <div className="p-4 flex items-center justify-center bg-gray-50 dark:bg-slate-900">
             <FloorPlanSvg
               rooms={planHistory[rightIndex].rooms}
+              boundary={planHistory[rightIndex].plotBoundary}
               roomOverrides={rightOverrides}
               showDimensions={false}
               showFeatures={false}
@@ -3,10 +3,13 @@ import type {
   ProjectConfig,
   GeneratedPlan,
   ModificationAnalysis,
+  ModificationResult,
   MaterialEstimationConfig,
   MaterialReport,
   GenerationProgress,
   GenerationStreamEvent,
+  MunicipalCodeInfo,
+  JobKind,
 } from '../types';
 
 function getApiBaseUrl(): string {
@@ -56,12 +59,21 @@ export async function startFloorPlanGeneration(config: ProjectConfig): Promise<{
   });
 }
 
+// Failed or cancelled generation job; `resumable` jobs can continue via resumeFloorPlanGeneration
+export class GenerationError extends Error {
+  constructor(message: string, readonly jobId: string, readonly resumable: boolean, readonly cancelled = false) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+}
+
 export async function streamGenerationProgress(
   jobId: string,
   callbacks: {
     onEvent: (event: GenerationStreamEvent) => void;
-    onComplete: (plan: GeneratedPlan) => void;
-    onError: (error: string) => void;
+    onComplete: (data: any) => void;
+    onError: (error: string, resumable: boolean) => void;
+    onCancelled: (resumable: boolean) => void;
   }
 ): Promise<void> {
   const baseUrl = getApiBaseUrl();
@@ -98,10 +110,12 @@ export async function streamGenerationProgress(
           const event = JSON.parse(line.slice(6)) as GenerationStreamEvent;
           callbacks.onEvent(event);
 
-          if (event.type === 'completed' && event.data.finalPlan) {
-            callbacks.onComplete(event.data.finalPlan);
+          if (event.type === 'completed') {
+            callbacks.onComplete(event.data);
           } else if (event.type === 'error') {
-            callbacks.onError(event.data.message);
+            callbacks.onError(event.data.message, !!event.data.resumable);
+          } else if (event.type === 'cancelled') {
+            callbacks.onCancelled(!!event.data.resumable);
           }
         } catch {
           // Skip malformed events
@@ -117,12 +131,36 @@ export async function generateFloorPlanWithProgress(
   onProgress?: (progress: GenerationProgress) => void
 ): Promise<GeneratedPlan> {
   const { jobId } = await startFloorPlanGeneration(config);
+  return trackJob(jobId, 'generation', onProgress, data => data.finalPlan as GeneratedPlan);
+}
+
+// Continues a failed job from its last checkpoint (spec, spatial plan, iterations, cost)
+export async function resumeFloorPlanGeneration(
+  jobId: string,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<GeneratedPlan> {
+  await apiFetch<{ jobId: string; resumedFrom: string | null }>(`/generate/${jobId}/resume`, { method: 'POST' });
+  return trackJob(jobId, 'generation', onProgress, data => data.finalPlan as GeneratedPlan);
+}
+
+// Stops a pending or running job of any kind; a generation's progress is kept and it can be resumed later
+export async function cancelFloorPlanGeneration(jobId: string): Promise<void> {
+  await apiFetch<{ jobId: string; status: string }>(`/generate/${jobId}`, { method: 'DELETE' });
+}
 
+// Follows any job's stream to its end; `pick` takes the result out of the `completed` event
+async function trackJob<T>(
+  jobId: string,
+  kind: JobKind,
+  onProgress: ((progress: GenerationProgress) => void) | undefined,
+  pick: (data: any) => T
+): Promise<T> {
   const progress: GenerationProgress = {
     jobId,
+    kind,
     status: 'running',
     currentIteration: 0,
-    maxIterations: 3,
+    maxIterations: kind === 'generation' ? 3 : 0,
     scores: [],
     violations: [],
     agentHistory: [],
@@ -138,6 +176,7 @@ export async function generateFloorPlanWithProgress(
         switch (event.type) {
           case 'iteration_start':
             progress.currentIteration = event.data.iteration;
+            progress.maxIterations = event.data.maxIterations ?? progress.maxIterations;
             break;
           case 'agent_start':
             progress.currentAgent = event.data.agent;
@@ -158,14 +197,24 @@ export async function generateFloorPlanWithProgress(
               breakdown: event.data.breakdown,
             });
             break;
-          case 'violation_update':
-            progress.violations.push({
-              iteration: event.data.iteration,
-              regulatory: event.data.regulatoryViolations ?? 0,
-              cultural: event.data.vastuViolations ?? 0,
-              total: (event.data.regulatoryViolations ?? 0) + (event.data.vastuViolations ?? 0),
-            });
+          case 'violation_update': {
+            // Each validator reports separately; merge them into one summary per iteration
+            let summary = progress.violations.find(v => v.iteration === event.data.iteration);
+            if (!summary) {
+              summary = { iteration: event.data.iteration, geometry: 0, regulatory: 0, cultural: 0, connectivity: 0, fireSafety: 0, structural: 0, accessibility: 0, total: 0 };
+              progress.violations.push(summary);
+            }
+            summary.geometry = event.data.geometryViolations ?? summary.geometry;
+            summary.regulatory = event.data.regulatoryViolations ?? summary.regulatory;
+            summary.cultural = event.data.culturalViolations ?? summary.cultural;
+            summary.connectivity = event.data.connectivityViolations ?? summary.connectivity;
+            summary.fireSafety = event.data.egressViolations ?? summary.fireSafety;
+            summary.structural = event.data.structuralViolations ?? summary.structural;
+            summary.accessibility = event.data.accessibilityViolations ?? summary.accessibility;
+            summary.total = summary.geometry + summary.regulatory + summary.cultural + summary.connectivity
+              + summary.fireSafety + summary.structural + summary.accessibility;
             break;
+          }
           case 'moe_routing':
             progress.moeDecisions.push({
               agent: event.data.agent,
@@ -177,26 +226,36 @@ export async function generateFloorPlanWithProgress(
 
         if (onProgress) onProgress({ ...progress });
       },
-      onComplete: (plan) => {
+      onComplete: (data) => {
         progress.status = 'completed';
-        progress.finalPlan = plan;
+        progress.finalPlan = data.finalPlan ?? null;
         if (onProgress) onProgress({ ...progress });
-        resolve(plan);
+        resolve(pick(data));
       },
-      onError: (error) => {
+      onError: (error, resumable) => {
         progress.status = 'failed';
         if (onProgress) onProgress({ ...progress });
-        reject(new Error(error));
+        reject(new GenerationError(error, jobId, resumable));
+      },
+      onCancelled: (resumable) => {
+        progress.status = 'cancelled';
+        if (onProgress) onProgress({ ...progress });
+        reject(new GenerationError(kind === 'generation' ? 'Generation cancelled' : 'Cancelled', jobId, resumable, true));
       },
     }).catch(reject);
   });
 }
 
-export async function analyzePlanFromImage(base64Image: string): Promise<GeneratedPlan> {
-  return apiFetch<GeneratedPlan>('/analyze-image', {
+export async function analyzePlanFromImage(
+  base64Image: string,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<GeneratedPlan> {
+  const { jobId } = await apiFetch<{ jobId: string }>('/analyze-image', {
     method: 'POST',
     body: JSON.stringify({ image: base64Image }),
   });
+  // The job output leaves out the upload, so the plan is paired with it here
+  return trackJob(jobId, 'image_analysis', onProgress, data => ({ ...(data.result as GeneratedPlan), imageUrl: base64Image }));
 }
 
 export async function analyzePlanModification(
@@ -214,19 +273,31 @@ export async function analyzePlanModification(
 export async function applyPlanModification(
   plan: GeneratedPlan,
   request: string,
-  config: ProjectConfig
-): Promise<GeneratedPlan> {
-  return apiFetch<GeneratedPlan>('/modify/apply', {
+  config: ProjectConfig,
+  onProgress?: (progress: GenerationProgress) => void,
+  rejectNewCritical = true
+): Promise<ModificationResult> {
+  const { jobId } = await apiFetch<{ jobId: string }>('/modify/apply', {
     method: 'POST',
-    body: JSON.stringify({ plan, request, config }),
+    body: JSON.stringify({ plan, request, config, rejectNewCritical }),
   });
+  return trackJob(jobId, 'modification', onProgress, data => data.result as ModificationResult);
+}
+
+export async function fetchMunicipalCodes(): Promise<MunicipalCodeInfo[]> {
+  const { codes } = await apiFetch<{ codes: MunicipalCodeInfo[] }>('/codes');
+  return codes;
 }
 
-export async function generateMaterialEstimate(config: MaterialEstimationConfig): Promise<MaterialReport> {
-  return apiFetch<MaterialReport>('/estimate', {
+export async function generateMaterialEstimate(
+  config: MaterialEstimationConfig,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<MaterialReport> {
+  const { jobId } = await apiFetch<{ jobId: string }>('/estimate', {
     method: 'POST',
     body: JSON.stringify(config),
   });
+  return trackJob(jobId, 'estimation', onProgress, data => data.result as MaterialReport);
 }
 
 export async function generateAlternatives(
@@ -280,6 +351,10 @@ export async function generateAlternatives(
                   resolve(event.data.alternatives);
                   return;
                 }
+                if (event.type === 'cancelled') {
+                  reject(new Error('Alternatives generation cancelled'));
+                  return;
+                }
               } catch {
                 // Skip malformed events
               }
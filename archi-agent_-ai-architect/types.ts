@@ -22,11 +22,54 @@ export enum CulturalSystem {
   CHRISTIAN = 'Christian Beliefs',
 }
 
-export enum MunicipalCode {
-  NATIONAL = 'National Building Code',
-  BBMP = 'BBMP (Bengaluru)',
-  BMC = 'BMC (Mumbai)',
-  MCD = 'MCD (Delhi)',
+// Municipal authority id or name; the list comes from GET /api/codes
+export type MunicipalCode = string;
+
+export interface MunicipalCodeInfo {
+  id: string;
+  name: string;
+  jurisdiction?: string;
+  version: string;
+  effectiveFrom: string;
+  source?: string;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Weight of each score category in the final plan score; must sum to 1
+export interface ScoringWeights {
+  regulatory: number;
+  cultural: number;
+  geometry: number;
+  spatial: number;
+  livability: number;
+}
+
+export interface ScoringConfig {
+  weights?: ScoringWeights;
+  threshold?: number; // final score at which refinement stops (default 0.70)
+  maxIterations?: number; // validate/refine passes (default 3, max 6)
+}
+
+// What a room lock keeps: everything, the corner position, the dimensions or the long-side direction
+export type RoomLockMode = 'full' | 'position' | 'size' | 'orientation';
+
+// A client-approved room; `room` is the room as it was when locked
+export interface RoomLock {
+  roomId: string;
+  mode: RoomLockMode;
+  room: Room;
+}
+
+// How the first floor plan is drawn (default 'llm')
+export type LayoutEngine = 'llm' | 'solver' | 'hybrid';
+
+// Universal-design checks; setting this object switches them on
+export interface AccessibilityConfig {
+  plinthHeight?: number; // meters above site level (default 0.45)
 }
 
 export interface ProjectConfig {
@@ -37,6 +80,7 @@ export interface ProjectConfig {
   adjacency: string;
   culturalSystem: CulturalSystem;
   vastuLevel?: 'None' | 'Slightly' | 'Moderately' | 'Strictly';
+  qiblaBearing?: number;
   facingDirection?: string;
   surroundingContext?: string;
   floors?: number;
@@ -47,6 +91,14 @@ export interface ProjectConfig {
   kitchenType?: 'Open' | 'Closed';
   familyMembers?: number;
   municipalCode: MunicipalCode;
+  roadWidth?: number; // meters, abutting road
+  cornerPlot?: boolean;
+  cornerSide?: 'left' | 'right';
+  plotBoundary?: Point[]; // irregular plot outline in meters, origin at front-left
+  scoring?: ScoringConfig;
+  accessibility?: AccessibilityConfig;
+  layoutEngine?: LayoutEngine;
+  roomLocks?: RoomLock[];
 }
 
 export interface WallFeature {
@@ -54,6 +106,7 @@ export interface WallFeature {
   wall: 'top' | 'bottom' | 'left' | 'right';
   position: number; // 0 to 1 normalized along the wall
   width: number; // meters
+  edge?: number; // polygon rooms: outline edge index (vertex i → i+1)
 }
 
 export interface Room {
@@ -64,9 +117,11 @@ export interface Room {
   y: number; // in meters
   width: number; // in meters
   height: number; // in meters
+  polygon?: Point[]; // L-shaped/polygonal rooms; x/y/width/height are then the bounding box
   features: WallFeature[];
   guidance?: string; // Cultural/Furniture placement advice
   floor?: number;
+  stairTurn?: 'clockwise' | 'anticlockwise';
 }
 
 export interface ComplianceItem {
@@ -87,12 +142,15 @@ export interface GeneratedPlan {
   imageUrl?: string; // For uploaded plans
   designLog?: string[]; // AI's reasoning steps
   rooms: Room[]; // "Rooms" now encompasses all zones. Can be empty if analyzing an image without geometry extraction.
+  plotBoundary?: Point[]; // set for irregular plots
   totalArea: number;
   builtUpArea: number;
   plotCoverageRatio: number;
   compliance: {
     regulatory: ComplianceItem[];
     cultural: ComplianceItem[];
+    fireSafety?: ComplianceItem[]; // egress checks (NBC Part 4); absent on uploaded plans
+    accessibility?: ComplianceItem[]; // only when the project asks for accessibility checks
   };
   bom: MaterialItem[];
   totalCostRange: {
@@ -102,6 +160,7 @@ export interface GeneratedPlan {
   };
   furniture?: FurnitureItem[];
   floors?: FloorData[];
+  structure?: StructuralLayout; // proposed RCC column/beam grid
   version?: string; // e.g., "1.0", "1.1"
   timestamp?: number; // Unix timestamp
 }
@@ -189,16 +248,37 @@ export interface ModificationAnalysis {
   suggestion: string;
 }
 
+/** Deterministic re-check of a plan changed through /modify/apply */
+export interface ModificationReview {
+  scoreBefore: number;
+  scoreAfter: number;
+  /** scoreAfter - scoreBefore; negative when the change made the plan worse */
+  scoreDelta: number;
+  breakdown: { category: string; before: number; after: number }[];
+  passesThreshold: boolean;
+  /** Critical violations the modified plan has and the original did not */
+  newCriticalViolations: string[];
+}
+
+export interface ModificationResult {
+  plan: GeneratedPlan;
+  review: ModificationReview;
+}
+
 // --- Multi-Agent Streaming Types ---
 
+/** What a background job runs; every kind streams progress the same way */
+export type JobKind = 'generation' | 'modification' | 'estimation' | 'image_analysis';
+
 export interface GenerationStreamEvent {
-  type: 'connected' | 'iteration_start' | 'agent_start' | 'agent_complete' | 'score_update' | 'violation_update' | 'moe_routing' | 'completed' | 'error';
+  type: 'connected' | 'resumed' | 'iteration_start' | 'agent_start' | 'agent_complete' | 'score_update' | 'violation_update' | 'moe_routing' | 'completed' | 'error' | 'cancelled';
   data: any;
 }
 
 export interface GenerationProgress {
   jobId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  kind: JobKind;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   currentIteration: number;
   maxIterations: number;
   currentAgent?: string;
@@ -221,8 +301,13 @@ export interface GenerationProgress {
 export interface ViolationSummary {
   iteration: number;
   total: number;
+  geometry: number;
   regulatory: number;
   cultural: number;
+  connectivity: number;
+  fireSafety: number;
+  structural: number;
+  accessibility: number;
 }
 
 export interface AgentLogEntry {
@@ -263,4 +348,31 @@ export interface FloorData {
   floorNumber: number;
   floorLabel: string;
   rooms: Room[];
+}
+
+export interface StructuralColumn {
+  id: string;
+  x: number; // center, meters
+  y: number;
+  width: number; // section along x, meters
+  depth: number; // section along y, meters
+  fromFloor: number;
+  toFloor: number;
+}
+
+export interface StructuralBeam {
+  id: string;
+  floor: number; // carries the slab above this floor
+  from: string; // column ids
+  to: string;
+  span: number; // meters, center to center
+  width: number;
+  depth: number;
+}
+
+export interface StructuralLayout {
+  columns: StructuralColumn[];
+  beams: StructuralBeam[];
+  maxSpan: number;
+  longestSpan: number;
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { jsPDF } from 'jspdf';
 import type { GeneratedPlan, ProjectConfig } from '../types';
+import { roomArea } from './roomShape';
 
 export function exportSvgAsPng(svgElement: SVGSVGElement, filename = 'floor-plan.png'): void {
   const clone = svgElement.cloneNode(true) as SVGSVGElement;
@@ -127,7 +128,7 @@ export async function exportPlanAsPdf(
     pdf.text(room.name, margin + 2, yPos);
     pdf.text(room.type, margin + 55, yPos);
     pdf.text(`${room.width}m x ${room.height}m`, margin + 95, yPos);
-    pdf.text((room.width * room.height).toFixed(1), margin + 140, yPos);
+    pdf.text(roomArea(room).toFixed(1), margin + 140, yPos);
     yPos += 6;
   }
 
@@ -164,6 +165,40 @@ export async function exportPlanAsPdf(
     yPos += 6;
   }
 
+  if (plan.compliance.fireSafety) {
+    yPos += 6;
+    if (yPos > pageHeight - 30) { pdf.addPage(); yPos = 20; }
+    pdf.setFontSize(12);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Fire Safety Checks', margin, yPos);
+    yPos += 8;
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'normal');
+    for (const item of plan.compliance.fireSafety) {
+      if (yPos > pageHeight - 20) { pdf.addPage(); yPos = 20; }
+      const status = item.status === 'PASS' ? '[PASS]' : item.status === 'WARN' ? '[WARN]' : '[FAIL]';
+      pdf.text(`${status} ${item.rule}: ${item.message}`, margin + 2, yPos, { maxWidth: contentWidth - 4 });
+      yPos += 6;
+    }
+  }
+
+  if (plan.compliance.accessibility) {
+    yPos += 6;
+    if (yPos > pageHeight - 30) { pdf.addPage(); yPos = 20; }
+    pdf.setFontSize(12);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Accessibility Checks', margin, yPos);
+    yPos += 8;
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'normal');
+    for (const item of plan.compliance.accessibility) {
+      if (yPos > pageHeight - 20) { pdf.addPage(); yPos = 20; }
+      const status = item.status === 'PASS' ? '[PASS]' : item.status === 'WARN' ? '[WARN]' : '[FAIL]';
+      pdf.text(`${status} ${item.rule}: ${item.message}`, margin + 2, yPos, { maxWidth: contentWidth - 4 });
+      yPos += 6;
+    }
+  }
+
   // --- Page 4: BOM & Cost ---
   pdf.addPage();
   pdf.setFontSize(16);
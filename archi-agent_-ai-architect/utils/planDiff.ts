@@ -1,9 +1,10 @@
 import type { Room } from '../types';
+import { sameOutline } from './roomShape';
 
 export interface RoomDiff {
   room: Room;
   status: 'added' | 'removed' | 'modified' | 'unchanged';
-  changes?: { positionChanged: boolean; sizeChanged: boolean; oldRoom?: Room };
+  changes?: { positionChanged: boolean; sizeChanged: boolean; shapeChanged: boolean; oldRoom?: Room };
 }
 
 export interface PlanDiff {
@@ -37,9 +38,11 @@ export function computePlanDiff(planARooms: Room[], planBRooms: Room[]): PlanDif
       matchedBIds.add(matchB.id);
       const posChanged = roomA.x !== matchB.x || roomA.y !== matchB.y;
       const sizeChanged = roomA.width !== matchB.width || roomA.height !== matchB.height;
-      if (posChanged || sizeChanged) {
-        leftRooms.push({ room: roomA, status: 'modified', changes: { positionChanged: posChanged, sizeChanged, oldRoom: roomA } });
-        rightRooms.push({ room: matchB, status: 'modified', changes: { positionChanged: posChanged, sizeChanged, oldRoom: roomA } });
+      // Same bounding box but a different outline (e.g. a rectangle turned L-shaped)
+      const shapeChanged = !sameOutline(roomA, matchB);
+      if (posChanged || sizeChanged || shapeChanged) {
+        leftRooms.push({ room: roomA, status: 'modified', changes: { positionChanged: posChanged, sizeChanged, shapeChanged, oldRoom: roomA } });
+        rightRooms.push({ room: matchB, status: 'modified', changes: { positionChanged: posChanged, sizeChanged, shapeChanged, oldRoom: roomA } });
         modified++;
       } else {
         leftRooms.push({ room: roomA, status: 'unchanged' });
@@ -0,0 +1,67 @@
+import type { Point, Room, WallFeature } from '../types';
+
+const hasPolygon = (room: Room) => !!room.polygon && room.polygon.length >= 3;
+
+function signedArea(polygon: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+export function roomArea(room: Room): number {
+  return hasPolygon(room) ? Math.abs(signedArea(room.polygon!)) : room.width * room.height;
+}
+
+// Area centroid, used to place labels inside L-shaped rooms
+export function roomCentroid(room: Room): Point {
+  if (!hasPolygon(room)) return { x: room.x + room.width / 2, y: room.y + room.height / 2 };
+
+  const polygon = room.polygon!;
+  const area = signedArea(polygon);
+  if (Math.abs(area) < 1e-9) return { x: room.x + room.width / 2, y: room.y + room.height / 2 };
+
+  let cx = 0, cy = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const cross = a.x * b.y - b.x * a.y;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  return { x: cx / (6 * area), y: cy / (6 * area) };
+}
+
+// Centre point and wall direction (degrees, SVG rotation) of a door/window
+export function featurePlacement(room: Room, feature: WallFeature): { x: number; y: number; rotation: number } {
+  if (hasPolygon(room) && feature.edge !== undefined) {
+    const polygon = room.polygon!;
+    const n = polygon.length;
+    const a = polygon[((feature.edge % n) + n) % n];
+    const b = polygon[(((feature.edge + 1) % n) + n) % n];
+    // Keep the door swing on the room side of the edge
+    const clockwise = signedArea(polygon) > 0;
+    const angle = (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+    return {
+      x: a.x + (b.x - a.x) * feature.position,
+      y: a.y + (b.y - a.y) * feature.position,
+      rotation: clockwise ? angle : angle + 180,
+    };
+  }
+
+  switch (feature.wall) {
+    case 'top': return { x: room.x + room.width * feature.position, y: room.y, rotation: 0 };
+    case 'bottom': return { x: room.x + room.width * feature.position, y: room.y + room.height, rotation: 180 };
+    case 'left': return { x: room.x, y: room.y + room.height * feature.position, rotation: 270 };
+    case 'right': return { x: room.x + room.width, y: room.y + room.height * feature.position, rotation: 90 };
+  }
+}
+
+export function sameOutline(a: Room, b: Room): boolean {
+  if (!hasPolygon(a) && !hasPolygon(b)) return true;
+  if (!hasPolygon(a) || !hasPolygon(b) || a.polygon!.length !== b.polygon!.length) return false;
+  return a.polygon!.every((p, i) => p.x === b.polygon![i].x && p.y === b.polygon![i].y);
+}
@@ -1,9 +1,56 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { NeoButton, NeoCard, NeoInput, NeoSelect } from '../components/NeoComponents';
-import { BuildingType, CulturalSystem, MunicipalCode, ProjectConfig } from '../types';
+import { BuildingType, CulturalSystem, LayoutEngine, MunicipalCode, MunicipalCodeInfo, Point, ProjectConfig, ScoringWeights } from '../types';
+import { fetchMunicipalCodes } from '../services/apiService';
 import { ArrowLeft, Sparkles, Plus, Trash2, ArrowRight, Check } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
+// Used until the backend code registry responds
+const FALLBACK_AUTHORITIES = ['National Building Code', 'BBMP (Bengaluru)', 'BMC (Mumbai)', 'MCD (Delhi)'];
+
+const PLOT_SHAPES = ['Rectangle', 'Trapezoid (narrow rear)', 'L-Shape (rear-right notch)', 'Chamfered Corner (front-right)'] as const;
+type PlotShape = typeof PLOT_SHAPES[number];
+
+// Outline in meters, origin at the front-left corner; undefined for plain rectangles
+function buildPlotBoundary(shape: PlotShape, width: number, depth: number, cut: number): Point[] | undefined {
+  if (shape === 'Rectangle' || !width || !depth || cut <= 0) return undefined;
+  const c = Math.min(cut, width - 1, depth - 1);
+  switch (shape) {
+    case 'Trapezoid (narrow rear)':
+      return [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width - c, y: depth }, { x: 0, y: depth }];
+    case 'L-Shape (rear-right notch)':
+      return [
+        { x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: depth - c },
+        { x: width - c, y: depth - c }, { x: width - c, y: depth }, { x: 0, y: depth },
+      ];
+    case 'Chamfered Corner (front-right)':
+      return [{ x: 0, y: 0 }, { x: width - c, y: 0 }, { x: width, y: c }, { x: width, y: depth }, { x: 0, y: depth }];
+  }
+}
+
+// Scoring weight presets; Balanced leaves the backend defaults in place
+const SCORING_PRESETS: Record<string, ScoringWeights | undefined> = {
+  'Balanced (default)': undefined,
+  'Regulation-first': { regulatory: 0.5, cultural: 0.1, geometry: 0.2, spatial: 0.1, livability: 0.1 },
+  'Vastu-first': { regulatory: 0.3, cultural: 0.4, geometry: 0.1, spatial: 0.1, livability: 0.1 },
+  'Livability-first': { regulatory: 0.25, cultural: 0.05, geometry: 0.15, spatial: 0.2, livability: 0.35 },
+};
+
+const WEIGHT_LABELS: Record<keyof ScoringWeights, string> = {
+  regulatory: 'Regulatory',
+  cultural: 'Cultural',
+  geometry: 'Geometry',
+  spatial: 'Spatial',
+  livability: 'Livability',
+};
+
+// How the first draft is drawn; the LLM alone is the backend default
+const LAYOUT_ENGINES: Record<string, LayoutEngine | undefined> = {
+  'LLM (default)': undefined,
+  'Solver': 'solver',
+  'Hybrid': 'hybrid',
+};
+
 interface ConfigurationProps {
   onGenerate: (config: ProjectConfig) => void;
   isGenerating: boolean;
@@ -20,12 +67,16 @@ const Configuration: React.FC<ConfigurationProps> = ({ onGenerate, isGenerating
   const [projectType, setProjectType] = useState<BuildingType>(BuildingType.RESIDENTIAL);
   const [width, setWidth] = useState<number | ''>('');
   const [depth, setDepth] = useState<number | ''>('');
+  const [plotShape, setPlotShape] = useState<PlotShape>('Rectangle');
+  const [shapeCut, setShapeCut] = useState<number | ''>('');
   const [requirements, setRequirements] = useState<string[]>([]);
   const [newReq, setNewReq] = useState("");
   const [adjacency, setAdjacency] = useState("");
   const [culturalSystem, setCulturalSystem] = useState<CulturalSystem>('' as CulturalSystem);
   const [vastuLevel, setVastuLevel] = useState<'None' | 'Slightly' | 'Moderately' | 'Strictly' | ''>('');
+  const [qiblaBearing, setQiblaBearing] = useState<number | ''>('');
   const [facingDirection, setFacingDirection] = useState('');
+  const [facingBearing, setFacingBearing] = useState<number | ''>('');
   const [surroundingContext, setSurroundingContext] = useState('');
 
   // Advanced Params
@@ -37,7 +88,28 @@ const Configuration: React.FC<ConfigurationProps> = ({ onGenerate, isGenerating
   const [kitchenType, setKitchenType] = useState<'Open' | 'Closed' | ''>('');
   const [familyMembers, setFamilyMembers] = useState<number | ''>('');
 
-  const [municipalCode, setMunicipalCode] = useState<MunicipalCode>('' as MunicipalCode);
+  const [municipalCode, setMunicipalCode] = useState<MunicipalCode>('');
+  const [authorities, setAuthorities] = useState<MunicipalCodeInfo[]>([]);
+  const [roadWidth, setRoadWidth] = useState<number | ''>('');
+  const [cornerPlot, setCornerPlot] = useState<'No' | 'Left side on road' | 'Right side on road' | ''>('');
+
+  const [scoringPreset, setScoringPreset] = useState('Balanced (default)');
+  const [scoreThreshold, setScoreThreshold] = useState<number | ''>('');
+  const [maxIterations, setMaxIterations] = useState<number | ''>('');
+
+  const [accessibilityMode, setAccessibilityMode] = useState<'Off' | 'On' | ''>('');
+  const [plinthHeight, setPlinthHeight] = useState<number | ''>('');
+
+  const [layoutEngine, setLayoutEngine] = useState('LLM (default)');
+
+  useEffect(() => {
+    fetchMunicipalCodes()
+      .then(setAuthorities)
+      .catch((err) => console.warn('Failed to load municipal codes:', err));
+  }, []);
+
+  const selectedAuthority = authorities.find(a => a.name === municipalCode);
+  const presetWeights = SCORING_PRESETS[scoringPreset];
 
   const handleAddReq = () => {
     if (newReq.trim()) {
@@ -59,7 +131,8 @@ const Configuration: React.FC<ConfigurationProps> = ({ onGenerate, isGenerating
       adjacency,
       culturalSystem,
       vastuLevel,
-      facingDirection,
+      qiblaBearing: culturalSystem === CulturalSystem.ISLAMIC && qiblaBearing !== '' ? qiblaBearing : undefined,
+      facingDirection: facingDirection === 'Custom Angle' ? `${facingBearing || 0}°` : facingDirection,
       surroundingContext,
       floors,
       floorPlanStyle,
@@ -69,6 +142,19 @@ const Configuration: React.FC<ConfigurationProps> = ({ onGenerate, isGenerating
       kitchenType,
       familyMembers,
       municipalCode,
+      roadWidth: roadWidth === '' ? undefined : roadWidth,
+      cornerPlot: cornerPlot !== '' && cornerPlot !== 'No',
+      cornerSide: cornerPlot === 'Left side on road' ? 'left' : cornerPlot === 'Right side on road' ? 'right' : undefined,
+      plotBoundary: buildPlotBoundary(plotShape, Number(width), Number(depth), Number(shapeCut)),
+      scoring: {
+        weights: presetWeights,
+        threshold: scoreThreshold === '' ? undefined : scoreThreshold,
+        maxIterations: maxIterations === '' ? undefined : maxIterations,
+      },
+      accessibility: accessibilityMode === 'On'
+        ? { plinthHeight: plinthHeight === '' ? undefined : plinthHeight }
+        : undefined,
+      layoutEngine: LAYOUT_ENGINES[layoutEngine],
     });
   };
 
@@ -148,6 +234,25 @@ w - 10 h - 10 rounded - full flex items - center justify - center font - bold bo
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <NeoSelect
+                  label="Plot Shape"
+                  options={[...PLOT_SHAPES]}
+                  value={plotShape}
+                  onChange={(e) => setPlotShape(e.target.value as PlotShape)}
+                />
+                {plotShape !== 'Rectangle' && (
+                  <NeoInput
+                    label="Cut / Notch Size (m)"
+                    type="number"
+                    min={0}
+                    value={shapeCut}
+                    placeholder="e.g. 3"
+                    onChange={(e) => setShapeCut(e.target.value === '' ? '' : Number(e.target.value))}
+                  />
+                )}
+              </div>
+
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <NeoInput
                   label="Floors"
@@ -274,20 +379,43 @@ w - 10 h - 10 rounded - full flex items - center justify - center font - bold bo
                   onChange={(e) => setCulturalSystem(e.target.value as CulturalSystem)}
                 />
                 <NeoSelect
-                  label="Vastu Preference Level"
+                  label={culturalSystem === CulturalSystem.ISLAMIC || culturalSystem === CulturalSystem.CHRISTIAN ? 'Adherence Level' : 'Vastu Preference Level'}
                   options={['None', 'Slightly', 'Moderately', 'Strictly']}
                   value={vastuLevel}
                   onChange={(e) => setVastuLevel(e.target.value as any)}
                 />
               </div>
 
+              {culturalSystem === CulturalSystem.ISLAMIC && (
+                <NeoInput
+                  label="Qibla Bearing (° clockwise from North)"
+                  type="number"
+                  min={0}
+                  max={359}
+                  value={qiblaBearing}
+                  placeholder="Default 285 (India)"
+                  onChange={(e) => setQiblaBearing(e.target.value === '' ? '' : Number(e.target.value))}
+                />
+              )}
+
               <div className="grid md:grid-cols-2 gap-6">
                 <NeoSelect
                   label="Site Facing Direction"
-                  options={['North', 'South', 'East', 'West', 'North-East', 'North-West', 'South-East', 'South-West']}
+                  options={['North', 'South', 'East', 'West', 'North-East', 'North-West', 'South-East', 'South-West', 'Custom Angle']}
                   value={facingDirection}
                   onChange={(e) => setFacingDirection(e.target.value)}
                 />
+                {facingDirection === 'Custom Angle' && (
+                  <NeoInput
+                    label="Front Edge Bearing (° clockwise from North)"
+                    type="number"
+                    min={0}
+                    max={359}
+                    value={facingBearing}
+                    placeholder="e.g. 30"
+                    onChange={(e) => setFacingBearing(e.target.value === '' ? '' : Number(e.target.value))}
+                  />
+                )}
               </div>
 
               <div>
@@ -314,13 +442,113 @@ w - 10 h - 10 rounded - full flex items - center justify - center font - bold bo
             <div className="space-y-4">
               <NeoSelect
                 label="Municipal Authority"
-                options={Object.values(MunicipalCode)}
+                options={authorities.length > 0 ? authorities.map(a => a.name) : FALLBACK_AUTHORITIES}
                 value={municipalCode}
-                onChange={(e) => setMunicipalCode(e.target.value as MunicipalCode)}
+                onChange={(e) => setMunicipalCode(e.target.value)}
               />
+              {selectedAuthority && (
+                <p className="text-xs font-mono">
+                  {selectedAuthority.version} — in force from {selectedAuthority.effectiveFrom}
+                  {selectedAuthority.source ? ` (${selectedAuthority.source})` : ''}
+                </p>
+              )}
+              <div className="grid md:grid-cols-2 gap-6">
+                <NeoInput
+                  label="Abutting Road Width (m)"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={roadWidth}
+                  placeholder="e.g. 9"
+                  onChange={(e) => setRoadWidth(e.target.value === '' ? '' : Number(e.target.value))}
+                />
+                <NeoSelect
+                  label="Corner Plot"
+                  options={['No', 'Left side on road', 'Right side on road']}
+                  value={cornerPlot}
+                  onChange={(e) => setCornerPlot(e.target.value as any)}
+                />
+              </div>
               <p className="text-sm border-l-2 border-black pl-2 italic">
-                Checks for Setbacks, Floor Area Ratio (FAR), and Minimum dimensions based on local by-laws.
+                Checks for Setbacks, Floor Area Ratio (FAR), and Minimum dimensions based on local by-laws. Setback and FAR slabs depend on plot area, road width and building height.
               </p>
+
+              <div className="border-t-2 border-black pt-4 space-y-4">
+                <div className="grid md:grid-cols-3 gap-6">
+                  <NeoSelect
+                    label="Scoring Priority"
+                    options={Object.keys(SCORING_PRESETS)}
+                    value={scoringPreset}
+                    onChange={(e) => setScoringPreset(e.target.value)}
+                  />
+                  <NeoInput
+                    label="Pass Threshold (0–1)"
+                    type="number"
+                    min={0.05}
+                    max={1}
+                    step={0.05}
+                    value={scoreThreshold}
+                    placeholder="Default 0.70"
+                    onChange={(e) => setScoreThreshold(e.target.value === '' ? '' : Number(e.target.value))}
+                  />
+                  <NeoInput
+                    label="Max Refinement Passes"
+                    type="number"
+                    min={1}
+                    max={6}
+                    value={maxIterations}
+                    placeholder="Default 3"
+                    onChange={(e) => setMaxIterations(e.target.value === '' ? '' : Number(e.target.value))}
+                  />
+                </div>
+                {presetWeights && (
+                  <p className="text-xs font-mono">
+                    {(Object.keys(WEIGHT_LABELS) as (keyof ScoringWeights)[])
+                      .map(key => `${WEIGHT_LABELS[key]} ${Math.round(presetWeights[key] * 100)}%`)
+                      .join(' · ')}
+                  </p>
+                )}
+                <p className="text-sm border-l-2 border-black pl-2 italic">
+                  Plans are refined until their weighted score reaches the threshold or the passes run out. Choose a priority to change how much each check counts.
+                </p>
+              </div>
+
+              <div className="border-t-2 border-black pt-4 space-y-4">
+                <div className="grid md:grid-cols-2 gap-6">
+                  <NeoSelect
+                    label="Accessibility Mode"
+                    options={['Off', 'On']}
+                    value={accessibilityMode}
+                    onChange={(e) => setAccessibilityMode(e.target.value as any)}
+                  />
+                  {accessibilityMode === 'On' && (
+                    <NeoInput
+                      label="Plinth Height (m)"
+                      type="number"
+                      min={0}
+                      step={0.05}
+                      value={plinthHeight}
+                      placeholder="Default 0.45"
+                      onChange={(e) => setPlinthHeight(e.target.value === '' ? '' : Number(e.target.value))}
+                    />
+                  )}
+                </div>
+                <p className="text-sm border-l-2 border-black pl-2 italic">
+                  Checks wheelchair turning space in bedrooms and bathrooms, 0.9m doors, a ramp up to the main door, and a ground-floor bedroom and bathroom on multi-storey homes.
+                </p>
+              </div>
+
+              <div className="border-t-2 border-black pt-4 space-y-4">
+                <NeoSelect
+                  label="Layout Engine"
+                  options={Object.keys(LAYOUT_ENGINES)}
+                  value={layoutEngine}
+                  onChange={(e) => setLayoutEngine(e.target.value)}
+                />
+                <p className="text-sm border-l-2 border-black pl-2 italic">
+                  The solver draws the first plan from the room list, minimum areas and Vastu directions without calling a model. Hybrid hands the solver's plan to the LLM to refine.
+                </p>
+              </div>
             </div>
           </NeoCard>
         )}
@@ -1,12 +1,13 @@
 
 import React, { useState, useRef } from 'react';
-import { GeneratedPlan, ViewState, Room, WallFeature, ModificationAnalysis, ProjectConfig, ChatMessage, FurnitureItem } from '../types';
+import { GeneratedPlan, ViewState, Room, WallFeature, ModificationAnalysis, ModificationReview, ProjectConfig, ChatMessage, FurnitureItem, RoomLock, RoomLockMode } from '../types';
 import { NeoButton, NeoCard } from '../components/NeoComponents';
-import { ArrowLeft, Download, AlertTriangle, CheckCircle, XCircle, Layers, Maximize2, ZoomIn, ZoomOut, Sparkles, Save, Grid, Ruler, Lightbulb, Info, FileText, RefreshCw, MessageSquare, Send, ThumbsUp, ThumbsDown, Clock, ChevronDown, Image, FileDown, GitCompare, Sofa, Wand2 } from 'lucide-react';
+import { ArrowLeft, Download, AlertTriangle, CheckCircle, XCircle, Layers, Maximize2, ZoomIn, ZoomOut, Sparkles, Save, Grid, Ruler, Lightbulb, Info, FileText, RefreshCw, MessageSquare, Send, ThumbsUp, ThumbsDown, Clock, ChevronDown, Image, FileDown, GitCompare, Sofa, Wand2, Flame, Accessibility, Landmark, Lock, Unlock } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { useNavigate } from 'react-router-dom';
 import { exportSvgAsPng, exportPlanAsPdf } from '../utils/exportUtils';
 import FloorPlanSvg from '../components/FloorPlanSvg';
+import { roomArea } from '../utils/roomShape';
 import ChatPanel from '../components/ChatPanel';
 import VersionDiffView from '../components/VersionDiffView';
 import AlternativesGallery from '../components/AlternativesGallery';
@@ -17,7 +18,7 @@ interface DashboardProps {
   onSave?: () => void;
   onRegenerate?: () => void;
   onAnalyzeModification?: (request: string) => Promise<ModificationAnalysis>;
-  onApplyModification?: (request: string) => Promise<void>;
+  onApplyModification?: (request: string) => Promise<ModificationReview | undefined>;
   isProcessing?: boolean;
   planHistory?: GeneratedPlan[];
   currentPlanIndex?: number;
@@ -25,9 +26,18 @@ interface DashboardProps {
   alternatives?: GeneratedPlan[];
   onGenerateAlternatives?: () => void;
   onSelectAlternative?: (index: number) => void;
+  onRoomLocksChange?: (locks: RoomLock[]) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ plan, config, onSave, onRegenerate, onAnalyzeModification, onApplyModification, isProcessing, planHistory, currentPlanIndex, onVersionChange, alternatives, onGenerateAlternatives, onSelectAlternative }) => {
+// What each lock mode keeps when the plan is regenerated, refined or modified
+const LOCK_MODES: Record<RoomLockMode, string> = {
+  full: 'Everything',
+  position: 'Position',
+  size: 'Size',
+  orientation: 'Orientation',
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ plan, config, onSave, onRegenerate, onAnalyzeModification, onApplyModification, isProcessing, planHistory, currentPlanIndex, onVersionChange, alternatives, onGenerateAlternatives, onSelectAlternative, onRoomLocksChange }) => {
   const [activeTab, setActiveTab] = useState<'PLAN' | 'BOM'>('PLAN');
   const [zoom, setZoom] = useState(1);
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
@@ -47,6 +57,9 @@ const Dashboard: React.FC<DashboardProps> = ({ plan, config, onSave, onRegenerat
   // Furniture Toggle State
   const [showFurniture, setShowFurniture] = useState(true);
 
+  // Structural Layer Toggle State
+  const [showStructure, setShowStructure] = useState(false);
+
   // Multi-floor State
   const [activeFloor, setActiveFloor] = useState(0);
 
@@ -62,6 +75,14 @@ const Dashboard: React.FC<DashboardProps> = ({ plan, config, onSave, onRegenerat
 
   // Derive selected room
   const selectedRoom = displayRooms.find(r => r.id === selectedRoomId);
+  const roomLocks = config?.roomLocks ?? [];
+  const selectedLock = roomLocks.find(l => l.roomId === selectedRoomId);
+
+  // Locking snapshots the room as shown; regeneration and modification keep it
+  const setRoomLock = (room: Room, mode: RoomLockMode | null) => {
+    const others = roomLocks.filter(l => l.roomId !== room.id);
+    onRoomLocksChange?.(mode ? [...others, { roomId: room.id, mode, room }] : others);
+  };
 
   const handleSvgClick = (e: React.MouseEvent) => {
     if (!isMeasuring || !svgRef.current) return;
@@ -274,16 +295,32 @@ const Dashboard: React.FC<DashboardProps> = ({ plan, config, onSave, onRegenerat
                         </button>
                       </>
                     )}
+                    {plan.structure && plan.structure.columns.length > 0 && (
+                      <>
+                        <div className="h-px bg-black dark:bg-white my-1"></div>
+                        <button
+                          title="Toggle Columns & Beams"
+                          onClick={() => setShowStructure(!showStructure)}
+                          className={`p-2 hover:bg-gray-100 dark:hover:bg-slate-600 dark:text-white ${showStructure ? 'bg-orange-200 text-black' : ''}`}
+                        >
+                          <Landmark size={20} />
+                        </button>
+                      </>
+                    )}
                   </div>
 
                   <div style={{ transform: `scale(${zoom})`, transition: 'transform 0.2s' }} className="w-full h-full flex items-center justify-center cursor-crosshair">
                     <FloorPlanSvg
                       rooms={displayRooms}
+                      boundary={plan.plotBoundary}
                       svgRef={svgRef}
                       onRoomClick={(roomId) => { if (!isMeasuring) setSelectedRoomId(roomId); }}
                       selectedRoomId={selectedRoomId}
                       furniture={plan.furniture}
                       showFurniture={showFurniture}
+                      structure={plan.structure}
+                      showStructure={showStructure}
+                      floor={plan.floors && plan.floors.length > 1 ? activeFloor : 0}
                       onSvgClick={handleSvgClick}
                       measurementOverlay={renderMeasurementOverlay()}
                       isMeasuring={isMeasuring}
@@ -294,7 +331,7 @@ const Dashboard: React.FC<DashboardProps> = ({ plan, config, onSave, onRegenerat
             </div>
 
             {/* Checks Section - Moved below floor plan */}
-            <div className="grid md:grid-cols-2 gap-6">
+            <div className={`grid gap-6 ${[plan.compliance.fireSafety, plan.compliance.accessibility].filter(Boolean).length === 1 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
               {/* Regulatory Compliance */}
               <NeoCard>
                 <h3 className="font-black text-lg mb-2 flex items-center gap-2 dark:text-white">
@@ -333,6 +370,52 @@ const Dashboard: React.FC<DashboardProps> = ({ plan, config, onSave, onRegenerat
                   ))}
                 </div>
               </NeoCard>
+
+              {/* Fire Safety / Egress */}
+              {plan.compliance.fireSafety && (
+                <NeoCard>
+                  <h3 className="font-black text-lg mb-2 flex items-center gap-2 dark:text-white">
+                    <Flame size={20} className="text-red-600" /> Fire Safety Check
+                  </h3>
+                  <div className="space-y-2 max-h-60 overflow-y-auto">
+                    {plan.compliance.fireSafety.map((item, idx) => (
+                      <div key={idx} className={`p-3 border-2 border-black dark:border-gray-500 text-sm ${item.status === 'PASS' ? 'bg-green-100 dark:bg-green-900/30' : item.status === 'WARN' ? 'bg-yellow-100 dark:bg-yellow-900/30' : 'bg-red-100 dark:bg-red-900/30'}`}>
+                        <div className="flex items-center justify-between font-bold mb-1 dark:text-white">
+                          <span>{item.rule}</span>
+                          {item.status === 'PASS' ? <CheckCircle size={16} className="text-green-600" /> : <AlertTriangle size={16} className={item.status === 'WARN' ? 'text-yellow-600' : 'text-red-600'} />}
+                        </div>
+                        <p className="dark:text-gray-200">{item.message}</p>
+                        {item.recommendation && (
+                          <p className="mt-1 text-xs italic text-gray-600 dark:text-gray-400">💡 Fix: {item.recommendation}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </NeoCard>
+              )}
+
+              {/* Accessibility / Universal Design */}
+              {plan.compliance.accessibility && (
+                <NeoCard>
+                  <h3 className="font-black text-lg mb-2 flex items-center gap-2 dark:text-white">
+                    <Accessibility size={20} className="text-teal-600" /> Accessibility Check
+                  </h3>
+                  <div className="space-y-2 max-h-60 overflow-y-auto">
+                    {plan.compliance.accessibility.map((item, idx) => (
+                      <div key={idx} className={`p-3 border-2 border-black dark:border-gray-500 text-sm ${item.status === 'PASS' ? 'bg-green-100 dark:bg-green-900/30' : item.status === 'WARN' ? 'bg-yellow-100 dark:bg-yellow-900/30' : 'bg-red-100 dark:bg-red-900/30'}`}>
+                        <div className="flex items-center justify-between font-bold mb-1 dark:text-white">
+                          <span>{item.rule}</span>
+                          {item.status === 'PASS' ? <CheckCircle size={16} className="text-green-600" /> : <AlertTriangle size={16} className={item.status === 'WARN' ? 'text-yellow-600' : 'text-red-600'} />}
+                        </div>
+                        <p className="dark:text-gray-200">{item.message}</p>
+                        {item.recommendation && (
+                          <p className="mt-1 text-xs italic text-gray-600 dark:text-gray-400">💡 Fix: {item.recommendation}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </NeoCard>
+              )}
             </div>
           </div>
 
@@ -359,8 +442,32 @@ const Dashboard: React.FC<DashboardProps> = ({ plan, config, onSave, onRegenerat
               </div>
               <div className="space-y-2 text-sm">
                 <p><span className="font-bold">Type:</span> {selectedRoom.type}</p>
-                <p><span className="font-bold">Dimensions:</span> {selectedRoom.width}m x {selectedRoom.height}m</p>
-                <p><span className="font-bold">Area:</span> {(selectedRoom.width * selectedRoom.height).toFixed(2)} m²</p>
+                <p><span className="font-bold">Dimensions:</span> {selectedRoom.width}m x {selectedRoom.height}m{selectedRoom.polygon ? ` (${selectedRoom.polygon.length}-sided outline)` : ''}</p>
+                <p><span className="font-bold">Area:</span> {roomArea(selectedRoom).toFixed(2)} m²</p>
+
+                {onRoomLocksChange && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setRoomLock(selectedRoom, selectedLock ? null : 'full')}
+                      className={`flex items-center gap-1 px-2 py-1 border-2 border-black dark:border-white font-bold text-xs ${selectedLock ? 'bg-black text-white dark:bg-white dark:text-black' : 'bg-white dark:bg-slate-700'}`}
+                      title={selectedLock ? 'Unlock this room' : 'Keep this room as it is when regenerating or modifying'}
+                    >
+                      {selectedLock ? <Lock size={12} /> : <Unlock size={12} />}
+                      {selectedLock ? 'Locked' : 'Lock'}
+                    </button>
+                    {selectedLock && (
+                      <select
+                        value={selectedLock.mode}
+                        onChange={(e) => setRoomLock(selectedLock.room, e.target.value as RoomLockMode)}
+                        className="border-2 border-black dark:border-white bg-white dark:bg-slate-700 text-xs font-bold px-1 py-1"
+                      >
+                        {(Object.keys(LOCK_MODES) as RoomLockMode[]).map(mode => (
+                          <option key={mode} value={mode}>{LOCK_MODES[mode]}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                )}
 
                 {/* Guidance Section */}
                 {selectedRoom.guidance && (
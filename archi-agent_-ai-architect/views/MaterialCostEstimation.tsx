@@ -1,8 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { NeoCard, NeoButton, NeoInput, NeoSelect } from '../components/NeoComponents';
-import { MaterialEstimationConfig, MaterialReport, GeneratedPlan, SavedMaterialEstimate } from '../types';
-import { generateMaterialEstimate } from '../services/apiService';
+import { MaterialEstimationConfig, MaterialReport, GeneratedPlan, SavedMaterialEstimate, GenerationProgress } from '../types';
+import { generateMaterialEstimate, cancelFloorPlanGeneration } from '../services/apiService';
+import GenerationProgressOverlay from '../components/GenerationProgressOverlay';
 import { saveMaterialEstimate, getMaterialEstimates } from '../services/storageService';
 import { ChevronRight, ChevronLeft, Check, Loader2, AlertTriangle, History, Save, BarChart2 } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
@@ -20,6 +21,7 @@ const MaterialCostEstimation: React.FC<Props> = ({ plan }) => {
     const [view, setView] = useState<'form' | 'report' | 'history'>('form');
     const [step, setStep] = useState(1);
     const [loading, setLoading] = useState(false);
+    const [progress, setProgress] = useState<GenerationProgress | null>(null);
     const [report, setReport] = useState<MaterialReport | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [history, setHistory] = useState<SavedMaterialEstimate[]>([]);
@@ -60,13 +62,23 @@ const MaterialCostEstimation: React.FC<Props> = ({ plan }) => {
         setLoading(true);
         setError(null);
         try {
-            const result = await generateMaterialEstimate(config);
+            const result = await generateMaterialEstimate(config, setProgress);
             setReport(result);
             setView('report');
         } catch (err) {
             setError(err instanceof Error ? err.message : "Failed to generate estimate");
         } finally {
             setLoading(false);
+            setProgress(null);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!progress) return;
+        try {
+            await cancelFloorPlanGeneration(progress.jobId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to cancel estimate");
         }
     };
 
@@ -555,6 +567,8 @@ transition-all duration-300
 
             {(view === 'report' || report) && renderReport()}
             {view === 'history' && renderHistory()}
+
+            <GenerationProgressOverlay progress={progress} onCancel={handleCancel} />
         </div>
     );
 };
@@ -6,7 +6,8 @@ export abstract class BaseAgent<TInput, TOutput> {
   abstract readonly name: string;
   abstract readonly role: AgentRole;
 
-  abstract execute(input: TInput): Promise<AgentResult<TOutput>>;
+  /** `signal` cancels the agent's pending model calls */
+  abstract execute(input: TInput, signal?: AbortSignal): Promise<AgentResult<TOutput>>;
 
   protected wrapResult(
     data: TOutput,
@@ -1,27 +1,37 @@
 import { Type } from '@google/genai';
 import { BaseAgent } from './base.agent.js';
 import type { AgentResult, AgentRole, NormalizedSpec, FloorPlanGraph, CostEstimate } from '../types/agent.types.js';
+import type { StructuralLayout } from '../types/shared.types.js';
 import { getModelConfig } from '../models/model.router.js';
-import { generateStructuredContent } from '../models/gemini.client.js';
+import { generateStructuredContent } from '../models/llm.client.js';
+import { STOREY_HEIGHT } from './input.agent.js';
 
 interface CostInput {
   plan: FloorPlanGraph;
   spec: NormalizedSpec;
+  structure: StructuralLayout;
 }
 
 export class CostAgent extends BaseAgent<CostInput, CostEstimate> {
   readonly name = 'CostAgent';
   readonly role: AgentRole = 'cost';
 
-  async execute(input: CostInput): Promise<AgentResult<CostEstimate>> {
+  async execute(input: CostInput, signal?: AbortSignal): Promise<AgentResult<CostEstimate>> {
     const startTime = Date.now();
-    const { plan, spec } = input;
+    const { plan, spec, structure } = input;
 
     const roomSummary = plan.rooms
       .filter(r => r.type === 'room' || r.type === 'circulation')
       .map(r => `${r.name}: ${r.area.toFixed(1)} sq.m`)
       .join(', ');
 
+    const { columns, beams } = structure;
+    const column = columns[0];
+    const columnLengths = columns.reduce((sum, c) => sum + (c.toFloor - c.fromFloor + 1) * STOREY_HEIGHT, 0);
+    const beamLength = beams.reduce((sum, b) => sum + b.span, 0);
+    const concrete = (column ? columnLengths * column.width * column.depth : 0)
+      + beams.reduce((sum, b) => sum + b.span * b.width * b.depth, 0);
+
     const prompt = `
 You are a Construction Cost Analyst. Estimate materials and costs for this building.
 
@@ -31,6 +41,11 @@ You are a Construction Cost Analyst. Estimate materials and costs for this build
 - Floors: ${spec.config.floors || 1}
 - Rooms: ${roomSummary}
 
+**STRUCTURE** (RCC frame, fixed — do not re-derive):
+- Columns: ${columns.length}${column ? ` of ${Math.round(column.width * 1000)}x${Math.round(column.depth * 1000)}mm, ${columnLengths.toFixed(1)}m total height` : ''}
+- Beams: ${beams.length}, ${beamLength.toFixed(1)}m total length, longest span ${structure.longestSpan}m
+- Frame concrete: ${concrete.toFixed(1)} cu.m
+
 **ESTIMATE**:
 1. Bill of Materials (BOM) - realistic quantities for:
    - Bricks/Blocks
@@ -42,6 +57,7 @@ You are a Construction Cost Analyst. Estimate materials and costs for this build
    - Plumbing fixtures
    - Electrical work
    - Paint & Finishing
+   - RCC Columns and RCC Beams as separate items, quantities from the STRUCTURE counts above
 
 2. Cost range in INR (min and max)
 
@@ -52,6 +68,7 @@ Consider ${plan.builtUpArea.toFixed(0)} sq.m built-up area with ${spec.config.fl
     const { data, tokenCount } = await generateStructuredContent<CostEstimate>({
       prompt,
       modelConfig,
+      signal,
       responseSchema: {
         type: Type.OBJECT,
         properties: {
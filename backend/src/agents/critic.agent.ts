@@ -5,87 +5,136 @@ import type {
   AgentRole,
   NormalizedSpec,
   FloorPlanGraph,
-  VastuValidationResult,
+  GeometryValidationResult,
+  CulturalValidationResult,
   RegulatoryValidationResult,
+  ConnectivityValidationResult,
+  EgressValidationResult,
+  StructuralValidationResult,
+  AccessibilityValidationResult,
+  SpatialMetrics,
   CritiqueResult,
 } from '../types/agent.types.js';
 import { getModelConfig } from '../models/model.router.js';
-import { generateStructuredContent } from '../models/gemini.client.js';
+import { generateStructuredContent } from '../models/llm.client.js';
+import { plotArea, formatPolygon } from '../utils/polygon.utils.js';
 
 interface CriticInput {
   plan: FloorPlanGraph;
   spec: NormalizedSpec;
-  vastuResult: VastuValidationResult;
+  geometryResult: GeometryValidationResult;
+  culturalResult: CulturalValidationResult;
   regulatoryResult: RegulatoryValidationResult;
+  connectivityResult: ConnectivityValidationResult;
+  egressResult: EgressValidationResult;
+  structuralResult?: StructuralValidationResult;
+  accessibilityResult?: AccessibilityValidationResult;
+  metrics: SpatialMetrics;
 }
 
+const pct = (value: number) => `${(value * 100).toFixed(0)}%`;
+
 export class CriticAgent extends BaseAgent<CriticInput, CritiqueResult> {
   readonly name = 'CriticAgent';
   readonly role: AgentRole = 'critic';
 
-  async execute(input: CriticInput): Promise<AgentResult<CritiqueResult>> {
+  async execute(input: CriticInput, signal?: AbortSignal): Promise<AgentResult<CritiqueResult>> {
     const startTime = Date.now();
-    const { plan, spec, vastuResult, regulatoryResult } = input;
+    const { plan, spec, geometryResult, culturalResult, regulatoryResult, connectivityResult, egressResult, structuralResult, accessibilityResult, metrics } = input;
 
     const roomSummary = plan.rooms
       .filter(r => r.type === 'room')
       .map(r => `${r.name}: ${r.width}x${r.height}m at (${r.x},${r.y}), direction=${r.direction}`)
       .join('\n');
 
-    const vastuSummary = vastuResult.violations.length > 0
-      ? vastuResult.violations.map(v => `- ${v.message}`).join('\n')
-      : 'No Vastu violations';
+    const geometrySummary = geometryResult.violations.length > 0
+      ? geometryResult.violations.map(v => `- ${v.message}`).join('\n')
+      : 'No geometry violations';
+
+    const culturalSummary = culturalResult.violations.length > 0
+      ? culturalResult.violations.map(v => `- ${v.message}`).join('\n')
+      : `No ${culturalResult.packName} violations`;
 
     const regSummary = regulatoryResult.violations.length > 0
       ? regulatoryResult.violations.map(v => `- ${v.message}`).join('\n')
       : 'No regulatory violations';
 
+    const connectivitySummary = connectivityResult.violations.length > 0
+      ? connectivityResult.violations.map(v => `- ${v.message}`).join('\n')
+      : 'Every room reachable; adjacency preferences met';
+
+    const egressSummary = egressResult.violations.length > 0
+      ? egressResult.violations.map(v => `- ${v.message}`).join('\n')
+      : 'No escape-route issues';
+
+    const roomMetrics = metrics.rooms
+      .map(m => `${m.roomName}: window/floor ${pct(m.windowToFloorRatio)}, exterior wall ${m.exteriorWallLength}m, ` +
+        `aspect ${m.aspectRatio}:1, ${m.depthFromEntrance === undefined ? 'unreachable from the entrance' : `${m.depthFromEntrance} doors from the entrance`}`)
+      .join('\n');
+
+    const findings = metrics.findings.length > 0
+      ? metrics.findings.map(f => `- ${f}`).join('\n')
+      : 'No shortfalls';
+
     const prompt = `
-You are a senior architectural critic. Evaluate this floor plan design for quality.
+You are a senior architectural critic. The plan below has already been measured and scored by deterministic
+validators and spatial metrics; do not re-score it. Explain what the numbers mean for the people who will live
+or work here, and point to the rooms and moves that matter most.
 
-**PLOT**: ${spec.config.width}m x ${spec.config.depth}m
+**PLOT**: ${spec.plotGeometry.width}m x ${spec.plotGeometry.depth}m${spec.plotGeometry.boundary ? ` bounding box of an irregular plot, ${plotArea(spec.plotGeometry).toFixed(1)} sq.m inside its outline ${formatPolygon(spec.plotGeometry.boundary)}` : ''}
 **ROOMS**:
 ${roomSummary}
 
-**VASTU VALIDATION** (score: ${vastuResult.score.toFixed(2)}):
-${vastuSummary}
+**GEOMETRY VALIDATION** (score: ${geometryResult.score.toFixed(2)}):
+${geometrySummary}
+
+**CULTURAL VALIDATION — ${culturalResult.packName}** (score: ${culturalResult.score.toFixed(2)}):
+${culturalSummary}
 
 **REGULATORY VALIDATION** (score: ${regulatoryResult.score.toFixed(2)}):
 ${regSummary}
 
-**EVALUATE these dimensions (0.0 to 1.0)**:
-1. spatialEfficiency: How well does the layout use available space? Room proportions, minimal wasted area.
-2. circulationQuality: Are corridors efficient? Is there clear flow from public to private zones?
-3. naturalLighting: Do rooms have adequate window placement? Are habitable rooms on exterior walls?
-4. privacyGradient: Is there proper separation between public (living/dining) and private (bedrooms) zones?
-5. aestheticBalance: Are rooms proportionally balanced? Is the layout visually harmonious?
-6. overallConfidence: Your overall confidence in this design's quality.
+**CONNECTIVITY VALIDATION** (score: ${connectivityResult.score.toFixed(2)}):
+${connectivitySummary}
+
+**FIRE SAFETY / EGRESS** (score: ${egressResult.score.toFixed(2)}, longest travel to an exit ${egressResult.maxTravelDistance}m):
+${egressSummary}
+${structuralResult ? `
+**MULTI-FLOOR STRUCTURE** (score: ${structuralResult.score.toFixed(2)}):
+${structuralResult.violations.length > 0 ? structuralResult.violations.map(v => `- ${v.message}`).join('\n') : 'Floors stack consistently'}
+` : ''}${accessibilityResult ? `
+**ACCESSIBILITY** (wheelchair / elderly users, score: ${accessibilityResult.score.toFixed(2)}):
+${accessibilityResult.violations.length > 0 ? accessibilityResult.violations.map(v => `- ${v.message}`).join('\n') : 'No accessibility issues'}
+` : ''}
+**SPATIAL METRICS**:
+- Circulation: ${pct(metrics.circulationRatio)} of usable area (score ${metrics.circulationScore.toFixed(2)})
+- Natural light, window-to-floor ratio (score ${metrics.lightingScore.toFixed(2)})
+- Exterior-wall exposure of habitable rooms (score ${metrics.exposureScore.toFixed(2)})
+- Privacy gradient, depth from the entrance (score ${metrics.privacyScore.toFixed(2)})
+- Room proportions (score ${metrics.proportionScore.toFixed(2)})
+${roomMetrics}
+
+**METRIC SHORTFALLS**:
+${findings}
 
-Also provide:
-- critiques: List of specific issues or concerns (max 5)
-- strengths: List of design strengths (max 5)`;
+Provide:
+- summary: Two or three sentences on the plan's overall quality, grounded in the metrics above
+- critiques: Specific issues and how to fix them, most important first (max 5)
+- strengths: Design strengths worth keeping (max 5)`;
 
     const modelConfig = getModelConfig(this.role);
     const { data, tokenCount } = await generateStructuredContent<CritiqueResult>({
       prompt,
       modelConfig,
+      signal,
       responseSchema: {
         type: Type.OBJECT,
         properties: {
-          spatialEfficiency: { type: Type.NUMBER },
-          circulationQuality: { type: Type.NUMBER },
-          naturalLighting: { type: Type.NUMBER },
-          privacyGradient: { type: Type.NUMBER },
-          aestheticBalance: { type: Type.NUMBER },
-          overallConfidence: { type: Type.NUMBER },
+          summary: { type: Type.STRING },
           critiques: { type: Type.ARRAY, items: { type: Type.STRING } },
           strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
         },
-        required: [
-          'spatialEfficiency', 'circulationQuality', 'naturalLighting',
-          'privacyGradient', 'aestheticBalance', 'overallConfidence',
-          'critiques', 'strengths',
-        ],
+        required: ['summary', 'critiques', 'strengths'],
       },
     });
 
@@ -3,7 +3,9 @@ import { BaseAgent } from './base.agent.js';
 import type { AgentResult, AgentRole, FloorPlanGraph } from '../types/agent.types.js';
 import type { FurnitureItem, Room } from '../types/shared.types.js';
 import { getModelConfig } from '../models/model.router.js';
-import { generateStructuredContent } from '../models/gemini.client.js';
+import { generateStructuredContent } from '../models/llm.client.js';
+import { logger } from '../utils/logger.js';
+import { formatPolygon, polygonInPolygon, roomOutline } from '../utils/polygon.utils.js';
 
 interface FurnitureInput {
   rooms: Room[];
@@ -13,7 +15,7 @@ export class FurnitureAgent extends BaseAgent<FurnitureInput, FurnitureItem[]> {
   readonly name = 'FurnitureAgent';
   readonly role: AgentRole = 'furniture';
 
-  async execute(input: FurnitureInput): Promise<AgentResult<FurnitureItem[]>> {
+  async execute(input: FurnitureInput, signal?: AbortSignal): Promise<AgentResult<FurnitureItem[]>> {
     const startTime = Date.now();
 
     const habitableRooms = input.rooms.filter(r =>
@@ -23,7 +25,8 @@ export class FurnitureAgent extends BaseAgent<FurnitureInput, FurnitureItem[]> {
     const roomDescriptions = habitableRooms.map(r => {
       const doors = r.features?.filter(f => f.type === 'door') || [];
       const windows = r.features?.filter(f => f.type === 'window') || [];
-      return `- ${r.name} (id: ${r.id}): ${r.width}m x ${r.height}m at (${r.x}, ${r.y}), type: ${r.type}, doors: ${doors.length} (walls: ${doors.map(d => d.wall).join(',')}), windows: ${windows.length} (walls: ${windows.map(w => w.wall).join(',')})`;
+      const outline = r.polygon?.length ? `, ${r.polygon.length}-sided outline: ${formatPolygon(r.polygon)}` : '';
+      return `- ${r.name} (id: ${r.id}): ${r.width}m x ${r.height}m at (${r.x}, ${r.y})${outline}, type: ${r.type}, doors: ${doors.length} (walls: ${doors.map(d => d.wall).join(',')}), windows: ${windows.length} (walls: ${windows.map(w => w.wall).join(',')})`;
     }).join('\n');
 
     const prompt = `
@@ -33,7 +36,7 @@ You are an interior design expert. Place appropriate furniture items within each
 ${roomDescriptions}
 
 **PLACEMENT RULES**:
-1. All furniture must fit within room bounds (room.x to room.x+room.width, room.y to room.y+room.height)
+1. All furniture must fit within room bounds (room.x to room.x+room.width, room.y to room.y+room.height); for rooms with an outline, inside the outline itself
 2. Maintain at least 0.3m clearance from walls
 3. Do NOT block doors or windows — leave 1m clear zone in front of each door
 4. Use standard furniture sizes:
@@ -66,6 +69,7 @@ Place furniture only for habitable rooms (type: room or service). Skip setbacks,
     const { data: items, tokenCount } = await generateStructuredContent<FurnitureItem[]>({
       prompt,
       modelConfig,
+      signal,
       responseSchema: {
         type: Type.ARRAY,
         items: {
@@ -86,6 +90,33 @@ Place furniture only for habitable rooms (type: room or service). Skip setbacks,
       },
     });
 
-    return this.wrapResult(items, startTime, tokenCount);
+    const placed = items.filter(item => fitsInRoom(item, habitableRooms.find(r => r.id === item.roomId)));
+    if (placed.length < items.length) {
+      logger.warn({ dropped: items.length - placed.length }, 'Dropped furniture placed outside its room');
+    }
+
+    return this.wrapResult(placed, startTime, tokenCount);
   }
 }
+
+/**
+ * Footprint of a furniture item after rotation about its centre must lie
+ * inside the room outline (rectangle or polygon).
+ */
+function fitsInRoom(item: FurnitureItem, room: Room | undefined, tolerance = 0.2): boolean {
+  if (!room) return false;
+
+  const cx = item.x + item.width / 2;
+  const cy = item.y + item.height / 2;
+  const angle = ((item.rotation || 0) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const footprint = [
+    [-item.width / 2, -item.height / 2],
+    [item.width / 2, -item.height / 2],
+    [item.width / 2, item.height / 2],
+    [-item.width / 2, item.height / 2],
+  ].map(([dx, dy]) => ({ x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos }));
+
+  return polygonInPolygon(footprint, roomOutline(room), tolerance);
+}
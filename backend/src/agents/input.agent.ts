@@ -6,24 +6,43 @@ import type {
   RoomRequirement,
   AdjacencyPreference,
   RoomClassification,
+  PlotGeometry,
 } from '../types/agent.types.js';
 import type { ProjectConfig } from '../types/shared.types.js';
+import { CulturalSystem } from '../types/shared.types.js';
 import { getModelConfig } from '../models/model.router.js';
-import { generateStructuredContent } from '../models/gemini.client.js';
+import { generateStructuredContent } from '../models/llm.client.js';
 import { getMunicipalConfig } from '../validators/regulatory.validator.js';
-import { getVastuStrictness } from '../validators/vastu.validator.js';
+import { resolveSiteLimits } from '../validators/municipal-codes.js';
+import { getCulturalStrictness } from '../validators/cultural.validator.js';
+import { parseFacingDirection } from '../utils/direction.utils.js';
+import { plotArea, polygonArea, boundingBox } from '../utils/polygon.utils.js';
 import { Type } from '@google/genai';
 
+export const STOREY_HEIGHT = 3.0; // meters, floor-to-floor
+
 export class InputAgent extends BaseAgent<ProjectConfig, NormalizedSpec> {
   readonly name = 'InputAgent';
   readonly role: AgentRole = 'input';
 
-  async execute(config: ProjectConfig): Promise<AgentResult<NormalizedSpec>> {
+  async execute(config: ProjectConfig, signal?: AbortSignal): Promise<AgentResult<NormalizedSpec>> {
     const startTime = Date.now();
 
-    const plotGeometry = { width: config.width, depth: config.depth };
-    const municipalConfig = getMunicipalConfig(config.municipalCode);
-    const vastuStrictness = getVastuStrictness(config.vastuLevel);
+    const plotGeometry = this.buildPlotGeometry(config);
+    const buildingHeight = (config.floors || 1) * STOREY_HEIGHT;
+    const authorityConfig = getMunicipalConfig(config.municipalCode);
+    const siteLimits = resolveSiteLimits(authorityConfig, {
+      plotArea: plotArea(plotGeometry),
+      roadWidth: config.roadWidth || undefined,
+      buildingHeight,
+      cornerSide: config.cornerPlot ? (config.cornerSide || 'right') : undefined,
+    });
+    const municipalConfig = {
+      ...authorityConfig,
+      maxFAR: siteLimits.maxFAR,
+      maxGroundCoverage: siteLimits.maxGroundCoverage,
+    };
+    const culturalStrictness = getCulturalStrictness(config.culturalSystem, config.vastuLevel);
 
     // Build required rooms from config requirements
     const requiredRooms = this.buildRoomRequirements(config);
@@ -31,22 +50,44 @@ export class InputAgent extends BaseAgent<ProjectConfig, NormalizedSpec> {
     // Parse adjacency preferences using Flash
     let adjacencyPreferences: AdjacencyPreference[] = [];
     if (config.adjacency && config.adjacency.trim().length > 0) {
-      adjacencyPreferences = await this.parseAdjacency(config.adjacency);
+      adjacencyPreferences = await this.parseAdjacency(config.adjacency, signal);
     }
 
     const normalizedSpec: NormalizedSpec = {
       config,
       plotGeometry,
       requiredRooms,
-      setbackRequirements: municipalConfig.defaultSetbacks,
+      setbackRequirements: siteLimits.setbacks,
       municipalConfig,
-      vastuStrictness,
+      siteNotes: siteLimits.notes,
+      buildingHeight,
+      culturalStrictness,
       adjacencyPreferences,
     };
 
     return this.wrapResult(normalizedSpec, startTime);
   }
 
+  /**
+   * Irregular plots are normalised so the outline's bounding box starts at
+   * (0, 0); width and depth then describe that bounding box.
+   */
+  private buildPlotGeometry(config: ProjectConfig): PlotGeometry {
+    const orientation = parseFacingDirection(config.facingDirection);
+    const outline = config.plotBoundary;
+    if (!outline || outline.length < 3 || polygonArea(outline) <= 0) {
+      return { width: config.width, depth: config.depth, orientation };
+    }
+
+    const box = boundingBox(outline);
+    return {
+      width: box.width,
+      depth: box.height,
+      orientation,
+      boundary: outline.map(p => ({ x: p.x - box.x, y: p.y - box.y })),
+    };
+  }
+
   private buildRoomRequirements(config: ProjectConfig): RoomRequirement[] {
     const rooms: RoomRequirement[] = [];
     const minSizes = getMunicipalConfig(config.municipalCode).minRoomSizes;
@@ -106,7 +147,17 @@ export class InputAgent extends BaseAgent<ProjectConfig, NormalizedSpec> {
         rooms.push({ classification: 'dining_room', name: 'Dining Room', minArea: minSizes.dining_room || 8, count: 1 });
       }
       if ((req.includes('pooja') || req.includes('prayer') || req.includes('puja')) && !rooms.some(r => r.classification === 'pooja_room')) {
-        rooms.push({ classification: 'pooja_room', name: 'Pooja Room', minArea: minSizes.pooja_room || 3, count: 1 });
+        const name = config.culturalSystem === CulturalSystem.ISLAMIC || config.culturalSystem === CulturalSystem.CHRISTIAN
+          ? 'Prayer Room'
+          : 'Pooja Room';
+        rooms.push({ classification: 'pooja_room', name, minArea: minSizes.pooja_room || 3, count: 1 });
+      }
+      if ((req.includes('majlis') || req.includes('reception')) && !rooms.some(r => r.classification === 'majlis')) {
+        rooms.push({ classification: 'majlis', name: 'Majlis', minArea: minSizes.majlis || 12, count: 1 });
+      }
+      if ((req.includes('courtyard') || req.includes('nadumuttam') || req.includes('aangan')) && !rooms.some(r => r.classification === 'courtyard')) {
+        const name = config.culturalSystem === CulturalSystem.VASTU_SOUTH ? 'Nadumuttam' : 'Courtyard';
+        rooms.push({ classification: 'courtyard', name, minArea: 6, count: 1 });
       }
       if ((req.includes('study') || req.includes('office')) && !rooms.some(r => r.classification === 'study_room')) {
         rooms.push({ classification: 'study_room', name: 'Study Room', minArea: minSizes.study_room || 7, count: 1 });
@@ -150,7 +201,7 @@ export class InputAgent extends BaseAgent<ProjectConfig, NormalizedSpec> {
     return rooms;
   }
 
-  private async parseAdjacency(adjacencyText: string): Promise<AdjacencyPreference[]> {
+  private async parseAdjacency(adjacencyText: string, signal?: AbortSignal): Promise<AdjacencyPreference[]> {
     try {
       const modelConfig = getModelConfig(this.role);
       const prompt = `Parse the following spatial adjacency preferences into structured data.
@@ -166,6 +217,7 @@ Only return valid, reasonable architectural adjacency preferences.`;
       const { data } = await generateStructuredContent<AdjacencyPreference[]>({
         prompt,
         modelConfig,
+        signal,
         responseSchema: {
           type: Type.ARRAY,
           items: {
@@ -184,7 +236,8 @@ Only return valid, reasonable architectural adjacency preferences.`;
       });
 
       return data;
-    } catch {
+    } catch (err) {
+      if (signal?.aborted) throw err;
       return [];
     }
   }
@@ -5,40 +5,93 @@ import type {
   AgentRole,
   NormalizedSpec,
   FloorPlanGraph,
-  VastuViolation,
+  GeometryViolation,
+  CulturalViolation,
   RegulatoryViolation,
+  ConnectivityViolation,
+  EgressViolation,
+  StructuralViolation,
+  AccessibilityViolation,
+  RoomLockViolation,
   RefinementResult,
 } from '../types/agent.types.js';
 import { getModelConfig } from '../models/model.router.js';
-import { generateStructuredContent } from '../models/gemini.client.js';
-import { enrichRoomsWithDirection } from '../utils/direction.utils.js';
+import { generateStructuredContent } from '../models/llm.client.js';
+import { enrichRoomsWithDirection, describeOrientation } from '../utils/direction.utils.js';
+import { plotArea, offsetPolygon, formatPolygon, normalizeRoomShape } from '../utils/polygon.utils.js';
+import { buildAdjacencyGraph } from '../utils/adjacency.utils.js';
+import { describeRoomLocks } from '../validators/lock.validator.js';
 
 interface RefinementInput {
   plan: FloorPlanGraph;
   spec: NormalizedSpec;
-  vastuViolations: VastuViolation[];
+  geometryViolations: GeometryViolation[];
+  culturalViolations: CulturalViolation[];
   regulatoryViolations: RegulatoryViolation[];
+  connectivityViolations: ConnectivityViolation[];
+  egressViolations: EgressViolation[];
+  structuralViolations: StructuralViolation[];
+  accessibilityViolations: AccessibilityViolation[];
+  lockViolations: RoomLockViolation[];
   critiques: string[];
+  /** Shortfalls from the spatial metrics (light, exposure, privacy, proportions) */
+  metricFindings: string[];
 }
 
 export class RefinementAgent extends BaseAgent<RefinementInput, RefinementResult> {
   readonly name = 'RefinementAgent';
   readonly role: AgentRole = 'refinement';
 
-  async execute(input: RefinementInput): Promise<AgentResult<RefinementResult>> {
+  async execute(input: RefinementInput, signal?: AbortSignal): Promise<AgentResult<RefinementResult>> {
     const startTime = Date.now();
-    const { plan, spec, vastuViolations, regulatoryViolations, critiques } = input;
+    const { plan, spec, geometryViolations, culturalViolations, regulatoryViolations, connectivityViolations, egressViolations, structuralViolations, accessibilityViolations, lockViolations, critiques, metricFindings } = input;
 
     // Sort violations by priority
     const allViolations = [
+      ...geometryViolations.map(v => ({
+        type: 'geometry' as const,
+        severity: v.severity,
+        message: v.message,
+        recommendation: v.recommendation,
+      })),
       ...regulatoryViolations.map(v => ({
         type: 'regulatory' as const,
         severity: v.severity,
         message: v.message,
         recommendation: v.recommendation,
       })),
-      ...vastuViolations.map(v => ({
-        type: 'vastu' as const,
+      ...connectivityViolations.map(v => ({
+        type: 'connectivity' as const,
+        severity: v.severity,
+        message: v.message,
+        recommendation: v.recommendation,
+      })),
+      ...egressViolations.map(v => ({
+        type: 'fire safety' as const,
+        severity: v.severity,
+        message: v.message,
+        recommendation: v.recommendation,
+      })),
+      ...structuralViolations.map(v => ({
+        type: 'structural' as const,
+        severity: v.severity,
+        message: v.message,
+        recommendation: v.recommendation,
+      })),
+      ...accessibilityViolations.map(v => ({
+        type: 'accessibility' as const,
+        severity: v.severity,
+        message: v.message,
+        recommendation: v.recommendation,
+      })),
+      ...lockViolations.map(v => ({
+        type: 'room lock' as const,
+        severity: v.severity,
+        message: v.message,
+        recommendation: v.recommendation,
+      })),
+      ...culturalViolations.map(v => ({
+        type: 'cultural' as const,
         severity: v.severity,
         message: v.message,
         recommendation: v.recommendation,
@@ -56,34 +109,52 @@ export class RefinementAgent extends BaseAgent<RefinementInput, RefinementResult
       ? critiques.join('\n')
       : 'No specific critiques';
 
+    const findingText = metricFindings.length > 0
+      ? metricFindings.join('\n')
+      : 'No metric shortfalls';
+
     const currentRooms = JSON.stringify(plan.rooms.map(r => ({
       id: r.id, name: r.name, type: r.type,
-      x: r.x, y: r.y, width: r.width, height: r.height,
-      features: r.features, guidance: r.guidance,
+      x: r.x, y: r.y, width: r.width, height: r.height, polygon: r.polygon,
+      features: r.features, guidance: r.guidance, floor: r.floor, stairTurn: r.stairTurn,
     })));
+    const floors = spec.config.floors || 1;
+    const locks = spec.config.roomLocks ?? [];
 
     const prompt = `
 You are a Senior Architect tasked with REFINING an existing floor plan to fix violations.
 
-**PLOT**: ${spec.config.width}m x ${spec.config.depth}m
+**PLOT**: ${spec.plotGeometry.width}m x ${spec.plotGeometry.depth}m, origin (0,0) at the front-left corner
+${spec.plotGeometry.boundary ? `**IRREGULAR BOUNDARY** (rooms must stay inside): ${formatPolygon(spec.plotGeometry.boundary)}
+**BUILDABLE ENVELOPE**: ${formatPolygon(offsetPolygon(spec.plotGeometry.boundary, spec.setbackRequirements))}
+` : ''}**COMPASS ORIENTATION** (front edge faces ${spec.config.facingDirection || 'North'}):
+${describeOrientation(spec.plotGeometry.orientation)}
 **SETBACKS**: Front=${spec.setbackRequirements.front}m, Left=${spec.setbackRequirements.left}m, Right=${spec.setbackRequirements.right}m, Rear=${spec.setbackRequirements.rear}m
 
 **CURRENT ROOMS**: ${currentRooms}
-
+${locks.length > 0 ? `
+**LOCKED ROOMS** (approved by the client; changes to them are reverted):
+${describeRoomLocks(locks)}
+` : ''}
 **VIOLATIONS TO FIX** (priority: critical > major > minor):
 ${violationText}
 
+**SPATIAL METRIC SHORTFALLS** (fix where it does not break a violation fix):
+${findingText}
+
 **CRITIQUES**:
 ${critiqueText}
 
 **REFINEMENT RULES**:
 1. Fix violations by priority (critical first, then major, then minor)
-2. PRESERVE room count and approximate total areas
-3. Maintain circulation connectivity
+2. PRESERVE room count and approximate total areas (you may add a zone a violation asks for, such as a ramp)
+3. Maintain circulation connectivity: every room needs a door (a "door" feature on a shared wall) to a corridor or room that leads back to the entrance
 4. Keep 100% plot coverage
-5. All coordinates must be within plot bounds (0,0) to (${spec.config.width},${spec.config.depth})
+5. All coordinates must be within plot bounds (0,0) to (${spec.plotGeometry.width},${spec.plotGeometry.depth})${spec.plotGeometry.boundary ? ' and inside the irregular boundary' : ''}
 6. Rooms must not overlap
-7. Document each change you make
+7. L-shaped/polygonal rooms keep a "polygon" outline; when you move or resize one, move its vertices and bounding box together
+8. Document each change you make${floors > 1 ? `
+9. Keep every room's "floor" (0 = ground, up to ${floors - 1}); staircases keep identical x, y, width, height on every floor, and upper-floor rooms stay over the floor below` : ''}
 
 Return the refined room layout and list of changes applied.`;
 
@@ -91,6 +162,7 @@ Return the refined room layout and list of changes applied.`;
     const { data: rawResult, tokenCount } = await generateStructuredContent<any>({
       prompt,
       modelConfig,
+      signal,
       responseSchema: {
         type: Type.OBJECT,
         properties: {
@@ -106,6 +178,14 @@ Return the refined room layout and list of changes applied.`;
                 y: { type: Type.NUMBER },
                 width: { type: Type.NUMBER },
                 height: { type: Type.NUMBER },
+                polygon: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+                    required: ['x', 'y'],
+                  },
+                },
                 features: {
                   type: Type.ARRAY,
                   items: {
@@ -115,11 +195,14 @@ Return the refined room layout and list of changes applied.`;
                       wall: { type: Type.STRING, enum: ['top', 'bottom', 'left', 'right'] },
                       position: { type: Type.NUMBER },
                       width: { type: Type.NUMBER },
+                      edge: { type: Type.INTEGER },
                     },
                     required: ['type', 'wall', 'position', 'width'],
                   },
                 },
                 guidance: { type: Type.STRING },
+                floor: { type: Type.NUMBER },
+                stairTurn: { type: Type.STRING, enum: ['clockwise', 'anticlockwise'] },
               },
               required: ['id', 'name', 'type', 'x', 'y', 'width', 'height', 'features', 'guidance'],
             },
@@ -132,7 +215,10 @@ Return the refined room layout and list of changes applied.`;
     });
 
     // Re-enrich rooms with direction
-    const enrichedRooms = enrichRoomsWithDirection(rawResult.rooms, spec.plotGeometry);
+    const enrichedRooms = enrichRoomsWithDirection(
+      rawResult.rooms.map((r: any) => normalizeRoomShape({ ...r, floor: r.floor ?? 0 })),
+      spec.plotGeometry
+    );
 
     const builtUpArea = enrichedRooms
       .filter(r => r.type === 'room' || r.type === 'service')
@@ -146,17 +232,17 @@ Return the refined room layout and list of changes applied.`;
 
     const refinedPlan: FloorPlanGraph = {
       rooms: enrichedRooms,
-      adjacencies: plan.adjacencies,
+      adjacencies: buildAdjacencyGraph(enrichedRooms),
       designLog: [
         ...plan.designLog,
         `--- Refinement Pass ---`,
         ...rawResult.changesApplied,
       ],
-      totalArea: spec.plotGeometry.width * spec.plotGeometry.depth,
+      totalArea: plotArea(spec.plotGeometry),
       builtUpArea,
       circulationArea,
       setbackArea,
-      plotCoverageRatio: builtUpArea / (spec.plotGeometry.width * spec.plotGeometry.depth),
+      plotCoverageRatio: builtUpArea / plotArea(spec.plotGeometry),
     };
 
     const result: RefinementResult = {
@@ -2,8 +2,19 @@ import { Type } from '@google/genai';
 import { BaseAgent } from './base.agent.js';
 import type { AgentResult, AgentRole, NormalizedSpec, FloorPlanGraph } from '../types/agent.types.js';
 import { getModelConfig } from '../models/model.router.js';
-import { generateStructuredContent } from '../models/gemini.client.js';
-import { enrichRoomsWithDirection } from '../utils/direction.utils.js';
+import { generateStructuredContent } from '../models/llm.client.js';
+import { enrichRoomsWithDirection, describeOrientation } from '../utils/direction.utils.js';
+import { getCulturalRulePack } from '../validators/rule-packs.js';
+import { plotArea, offsetPolygon, formatPolygon, normalizeRoomShape } from '../utils/polygon.utils.js';
+import { buildAdjacencyGraph } from '../utils/adjacency.utils.js';
+import { resolveFireSafety } from '../validators/egress.validator.js';
+import { describeRoomLocks } from '../validators/lock.validator.js';
+import {
+  TURNING_CIRCLE_DIAMETER,
+  MIN_ACCESSIBLE_DOOR_WIDTH,
+  MAX_RAMP_GRADIENT,
+  DEFAULT_PLINTH_HEIGHT,
+} from '../validators/accessibility.validator.js';
 
 export class SpatialAgent extends BaseAgent<NormalizedSpec, FloorPlanGraph> {
   readonly name = 'SpatialAgent';
@@ -12,8 +23,9 @@ export class SpatialAgent extends BaseAgent<NormalizedSpec, FloorPlanGraph> {
   // Optional overrides set by orchestrator
   _strategyPrompt?: string;
   _temperatureOffset?: number;
+  _seedPlan?: FloorPlanGraph;
 
-  async execute(spec: NormalizedSpec): Promise<AgentResult<FloorPlanGraph>> {
+  async execute(spec: NormalizedSpec, signal?: AbortSignal): Promise<AgentResult<FloorPlanGraph>> {
     const startTime = Date.now();
     const { config, plotGeometry, requiredRooms, setbackRequirements, municipalConfig } = spec;
 
@@ -25,13 +37,58 @@ export class SpatialAgent extends BaseAgent<NormalizedSpec, FloorPlanGraph> {
       ? spec.adjacencyPreferences.map(a => `${a.room1} ${a.relationship} ${a.room2}`).join(', ')
       : 'Standard residential flow';
 
+    const culturalPack = spec.culturalStrictness > 0 ? getCulturalRulePack(config) : null;
+    const culturalRules = culturalPack
+      ? culturalPack.rules.map(r => `- ${r.id}: ${r.description}`).join('\n')
+      : '';
+
+    const fireSafety = resolveFireSafety(municipalConfig, config.projectType);
+
+    const plinthHeight = config.accessibility?.plinthHeight ?? DEFAULT_PLINTH_HEIGHT;
+    const accessibilityText = config.accessibility
+      ? `
+**ACCESSIBILITY (universal design — wheelchair users / elderly occupants)**:
+- Bedrooms and bathrooms keep a clear ${TURNING_CIRCLE_DIAMETER}m turning circle beside the bed, WC and basin
+- Every door at least ${MIN_ACCESSIBLE_DOOR_WIDTH}m clear, including bathroom doors
+- Step-free entrance: ${plinthHeight > 0
+    ? `the plinth is ${plinthHeight}m, so add an outdoor zone named "Ramp" against the main door wall, at least ${(plinthHeight / MAX_RAMP_GRADIENT).toFixed(1)}m long (max 1:${Math.round(1 / MAX_RAMP_GRADIENT)})`
+    : 'level entry from the site, no steps'}${(config.floors || 1) > 1 ? `
+- Put one bedroom and one bathroom on the ground floor so the home works without the stairs` : ''}
+`
+      : '';
+
+    const totalPlotArea = plotArea(plotGeometry);
+    const boundaryText = plotGeometry.boundary
+      ? `
+**IRREGULAR PLOT BOUNDARY** (vertices in order, meters):
+${formatPolygon(plotGeometry.boundary)}
+- Only land INSIDE this outline belongs to the plot. Rooms, circulation and service zones must lie entirely inside it.
+- Setback/outdoor bands may be drawn as rectangles along slanted edges; the part outside the outline is ignored.
+- Buildable envelope after setbacks: ${formatPolygon(offsetPolygon(plotGeometry.boundary, setbackRequirements))}
+`
+      : '';
+
+    const lockText = config.roomLocks?.length ? `
+**LOCKED ROOMS** (approved by the client; keep them exactly as stated and fit the rest around them):
+${describeRoomLocks(config.roomLocks)}
+` : '';
+
+    const seedText = this._seedPlan ? `
+**SEED LAYOUT** (from the deterministic layout solver; it meets the minimum areas, setbacks and exits):
+${this._seedPlan.rooms
+  .filter(r => r.type !== 'setback')
+  .map(r => `- ${r.name} (${r.type}${r.floor !== undefined ? `, floor ${r.floor}` : ''}): x=${r.x}, y=${r.y}, ${r.width}m x ${r.height}m`)
+  .join('\n')}
+Start from this layout. Keep its envelope, corridors and staircases; improve room proportions, cultural placement and openings, and keep every room at or above its minimum area.
+` : '';
+
     const prompt = `
 Act as a Senior Principal Architect. Design a technically precise, code-compliant floor plan.
 
 **PROJECT SPECIFICATIONS**:
 - Building Type: ${config.projectType}
-- Plot Dimensions: ${config.width}m (Width) x ${config.depth}m (Depth)
-- Total Plot Area: ${config.width * config.depth} sq.m
+- Plot Dimensions: ${plotGeometry.width}m (Width) x ${plotGeometry.depth}m (Depth)${plotGeometry.boundary ? ' bounding box of an irregular plot' : ''}
+- Total Plot Area: ${totalPlotArea.toFixed(1)} sq.m
 - Floors: ${config.floors || 1} (${config.floorPlanStyle || 'Simplex'})
 - Family Size: ${config.familyMembers || 4} members
 - Bathrooms: ${config.bathrooms || 2} (${config.bathroomType || 'Western'})
@@ -47,10 +104,18 @@ ${roomList}
 **ADJACENCY PREFERENCES**: ${adjacencyText}
 
 **COORDINATE SYSTEM**:
-- Origin: (0, 0) at Northwest corner
-- Extent: (0, 0) to (${config.width}, ${config.depth})
-- Total Canvas: EXACTLY ${config.width * config.depth} sq.m - EVERY SQUARE METER MUST BE ACCOUNTED FOR
-
+- Origin: (0, 0) at the front-left corner of the plot (the Northwest corner when the site faces North)
+- X runs left → right along the front edge, Y runs front → rear
+- Extent: (0, 0) to (${plotGeometry.width}, ${plotGeometry.depth})
+- Total Canvas: EXACTLY ${totalPlotArea.toFixed(1)} sq.m - EVERY SQUARE METER MUST BE ACCOUNTED FOR
+${boundaryText}
+**COMPASS ORIENTATION** (front edge y=0 faces ${config.facingDirection || 'North'}, bearing ${plotGeometry.orientation ?? 0}°):
+${describeOrientation(plotGeometry.orientation)}
+Use this mapping for every directional (Vastu/cultural) placement decision.
+${culturalPack ? `
+**CULTURAL RULES** (${culturalPack.name}, ${config.vastuLevel || 'Moderately'}):
+${culturalRules}
+` : ''}
 **REGULATORY SETBACKS** (${config.municipalCode}):
 - Front Setback: ${setbackRequirements.front}m
 - Left Side: ${setbackRequirements.left}m
@@ -58,21 +123,28 @@ ${roomList}
 - Rear Setback: ${setbackRequirements.rear}m
 Label all setback areas as type: "setback"
 
-**BUILDABLE ENVELOPE**:
-- Usable Width: ${config.width - setbackRequirements.left - setbackRequirements.right}m
-- Usable Depth: ${config.depth - setbackRequirements.front - setbackRequirements.rear}m
-- Building starts at x=${setbackRequirements.left}, y=${setbackRequirements.front}
+**DEVELOPMENT LIMITS**:
+- Max FAR: ${municipalConfig.maxFAR}, Max Ground Coverage: ${(municipalConfig.maxGroundCoverage * 100).toFixed(0)}%
+- Road Width: ${config.roadWidth ? `${config.roadWidth}m` : 'not specified'}${config.cornerPlot ? `, corner plot (${config.cornerSide || 'right'} side also faces a road)` : ''}
+${spec.siteNotes.map(n => `- ${n}`).join('\n')}
 
+${plotGeometry.boundary ? '' : `**BUILDABLE ENVELOPE**:
+- Usable Width: ${plotGeometry.width - setbackRequirements.left - setbackRequirements.right}m
+- Usable Depth: ${plotGeometry.depth - setbackRequirements.front - setbackRequirements.rear}m
+- Building starts at x=${setbackRequirements.left}, y=${setbackRequirements.front}
+`}
 **DESIGN RULES**:
 1. **100% COVERAGE**: Room + Circulation + Setback + Outdoor = Total Area. No gaps.
 2. **SPATIAL HIERARCHY**: Entrance → Foyer → Living (public) → Dining → Kitchen (family) → Bedrooms (private)
 3. **CIRCULATION SPINE**: Design primary corridor connecting all spaces, min 1.2m wide, type: "circulation"
 4. **MINIMUM AREAS**: Master Bedroom ≥ 12 sq.m, Other Bedrooms ≥ 9 sq.m, Kitchen ≥ 6 sq.m, Living ≥ 12 sq.m, Bathroom ≥ 3 sq.m, Corridors ≥ 1.2m wide
 5. **WALL COORDINATION**: 0.23m exterior walls, 0.115m interior partitions
-6. **OPENINGS**: Standard doors 0.9m, main entrance 1.2m. Windows: min 10% of floor area for habitable rooms.
-7. **MULTI-LEVEL**: If floors > 1, place staircase (min 2.5m x 4m). Mark as 'circulation'.
-8. **PARKING**: ${config.parking !== 'None' ? `Provide parking space (min 2.5m x 5m for car)` : 'No parking required'}
-
+6. **OPENINGS**: Standard doors 0.9m, main entrance 1.2m. Windows: min 10% of floor area for habitable rooms. Every room needs a door on a wall it shares with a corridor or room that leads back to the entrance; place it on both rooms' features.
+7. **MULTI-LEVEL**: If floors > 1, place staircase (min 2.5m x 4m). Mark as 'circulation' and set "stairTurn" to the direction the flight turns going up.
+8. **NON-RECTANGULAR ROOMS**: An L-shaped living-dining or other polygonal room is ONE room: give its outline as "polygon" (absolute vertices in order) and set x, y, width, height to the outline's bounding box. Features on such rooms set "edge" to the outline edge index (vertex i → i+1) and "position" along that edge. Rectangular rooms omit "polygon".
+9. **PARKING**: ${config.parking !== 'None' ? `Provide parking space (min 2.5m x 5m for car)` : 'No parking required'}
+10. **FIRE SAFETY** (NBC Part 4): Main door (min ${fireSafety.minMainDoorWidth}m) on the entrance's outside wall. No point in a room more than ${fireSafety.maxTravelDistance}m walk from the main door or an upper-floor staircase. No dead-end corridor longer than ${fireSafety.maxDeadEndLength}m. Stair flights at least ${fireSafety.minStairWidth}m wide.
+${accessibilityText}
 For each room provide detailed "guidance" including furniture placement, functional layout tips, and storage recommendations.
 ${(config.floors || 1) > 1 ? `
 **MULTI-FLOOR REQUIREMENTS**:
@@ -80,9 +152,10 @@ ${(config.floors || 1) > 1 ? `
 - Staircase rooms MUST have IDENTICAL (x, y, width, height) values across ALL floors for structural alignment
 - Ground floor (floor=0): Public spaces (living, dining, kitchen, parking, entrance)
 - Upper floors (floor=1+): Private spaces (bedrooms, study)
-- Bathrooms may appear on any floor
+- Bathrooms may appear on any floor, but stack upper-floor bathrooms and kitchens over ground-floor wet areas (never over a bedroom)
+- Every upper-floor room sits over rooms on the floor below; only outdoor balconies may cantilever
 ` : ''}
-${this._strategyPrompt ? `\n**DESIGN STRATEGY**: ${this._strategyPrompt}\n` : ''}
+${this._strategyPrompt ? `\n**DESIGN STRATEGY**: ${this._strategyPrompt}\n` : ''}${lockText}${seedText}
 Generate the complete floor plan with designLog documenting key architectural decisions.`;
 
     const modelConfig = { ...getModelConfig(this.role) };
@@ -92,6 +165,7 @@ Generate the complete floor plan with designLog documenting key architectural de
     const { data: rawPlan, tokenCount } = await generateStructuredContent<any>({
       prompt,
       modelConfig,
+      signal,
       responseSchema: {
         type: Type.OBJECT,
         properties: {
@@ -114,6 +188,14 @@ Generate the complete floor plan with designLog documenting key architectural de
                 y: { type: Type.NUMBER },
                 width: { type: Type.NUMBER },
                 height: { type: Type.NUMBER },
+                polygon: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+                    required: ['x', 'y'],
+                  },
+                },
                 features: {
                   type: Type.ARRAY,
                   items: {
@@ -123,11 +205,13 @@ Generate the complete floor plan with designLog documenting key architectural de
                       wall: { type: Type.STRING, enum: ['top', 'bottom', 'left', 'right'] },
                       position: { type: Type.NUMBER },
                       width: { type: Type.NUMBER },
+                      edge: { type: Type.INTEGER },
                     },
                     required: ['type', 'wall', 'position', 'width'],
                   },
                 },
                 guidance: { type: Type.STRING },
+                stairTurn: { type: Type.STRING, enum: ['clockwise', 'anticlockwise'] },
                 floor: { type: Type.NUMBER },
               },
               required: ['id', 'name', 'type', 'x', 'y', 'width', 'height', 'features', 'guidance'],
@@ -144,7 +228,7 @@ Generate the complete floor plan with designLog documenting key architectural de
     });
 
     // Preserve floor field from raw rooms
-    const roomsWithFloor = (rawPlan.rooms || []).map((r: any) => ({
+    const roomsWithFloor = (rawPlan.rooms || []).map((r: any) => normalizeRoomShape({
       ...r,
       floor: r.floor ?? 0,
     }));
@@ -164,13 +248,13 @@ Generate the complete floor plan with designLog documenting key architectural de
 
     const floorPlanGraph: FloorPlanGraph = {
       rooms: enrichedRooms,
-      adjacencies: [],
+      adjacencies: buildAdjacencyGraph(enrichedRooms),
       designLog: rawPlan.designLog || [],
-      totalArea: plotGeometry.width * plotGeometry.depth,
+      totalArea: totalPlotArea,
       builtUpArea,
       circulationArea,
       setbackArea,
-      plotCoverageRatio: builtUpArea / (plotGeometry.width * plotGeometry.depth),
+      plotCoverageRatio: builtUpArea / totalPlotArea,
     };
 
     return this.wrapResult(floorPlanGraph, startTime, tokenCount);
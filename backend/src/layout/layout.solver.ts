@@ -0,0 +1,561 @@
+import type {
+  CardinalDirection,
+  FloorPlanGraph,
+  NormalizedSpec,
+  RoomClassification,
+  RoomRequirement,
+} from '../types/agent.types.js';
+import type { LayoutEngine, Point, Room, WallFeature } from '../types/shared.types.js';
+import type { Rect } from '../utils/geometry.utils.js';
+import { findSharedWall } from '../utils/geometry.utils.js';
+import {
+  boundingBox,
+  distanceToPolygonEdge,
+  offsetPolygon,
+  plotArea,
+  pointInPolygon,
+  polygonInPolygon,
+  rectToPolygon,
+} from '../utils/polygon.utils.js';
+import { enrichRoomsWithDirection, getPreferredDirections, worldToPlotDirection } from '../utils/direction.utils.js';
+import { buildAdjacencyGraph } from '../utils/adjacency.utils.js';
+import { classifyRoom } from '../utils/room-classifier.js';
+import { getCulturalRulePack } from '../validators/rule-packs.js';
+import { resolveFireSafety } from '../validators/egress.validator.js';
+
+export const LAYOUT_ENGINES: LayoutEngine[] = ['llm', 'solver', 'hybrid'];
+
+const FOYER_DEPTH = 1.8; // meters, front end of the spine
+const REAR_MIN_DEPTH = 3.0; // meters
+const REAR_MAX_DEPTH = 4.5; // meters
+const REAR_THRESHOLD = 0.75; // rooms whose target lies deeper than this go to the rear row
+const MIN_STAIR_LENGTH = 4.0; // meters, one straight flight and landing
+const DOOR_WIDTH = 0.9;
+const TARGET_WINDOW_RATIO = 0.125; // glazing over floor area, as in the spatial metrics
+const WINDOW_HEIGHT = 1.2; // meters
+const SHRINK_STEP = 0.1; // meters, for fitting the envelope rectangle into an irregular plot
+
+/** Shortest side a room can be squeezed to, meters */
+const MIN_SIDE: Partial<Record<RoomClassification, number>> = {
+  master_bedroom: 3.0,
+  bedroom: 2.7,
+  children_bedroom: 2.7,
+  guest_bedroom: 2.7,
+  bathroom: 1.5,
+  toilet: 1.2,
+  pooja_room: 1.5,
+  storage: 1.2,
+  utility: 1.5,
+  balcony: 1.2,
+  parking: 2.5,
+  staircase: MIN_STAIR_LENGTH,
+};
+const DEFAULT_MIN_SIDE = 2.4;
+
+/**
+ * Front-to-rear zoning when no Vastu pack applies: public rooms near the
+ * entrance, bedrooms at the back. 0 = front edge, 1 = rear edge.
+ */
+const ZONING_DEPTH: Record<RoomClassification, number> = {
+  entrance: 0,
+  foyer: 0,
+  parking: 0,
+  balcony: 0,
+  majlis: 0.1,
+  living_room: 0.2,
+  pooja_room: 0.3,
+  dining_room: 0.4,
+  kitchen: 0.5,
+  study_room: 0.5,
+  courtyard: 0.5,
+  corridor: 0.5,
+  staircase: 0.55,
+  utility: 0.6,
+  guest_bedroom: 0.6,
+  bathroom: 0.7,
+  toilet: 0.7,
+  bedroom: 0.8,
+  children_bedroom: 0.8,
+  master_bedroom: 0.9,
+  storage: 0.9,
+};
+
+/** Plot-frame direction as a target point, x left → right, y front → rear */
+const DIRECTION_TARGET: Record<CardinalDirection, [number, number]> = {
+  N: [0.5, 0], NE: [1, 0], E: [1, 0.5], SE: [1, 1],
+  S: [0.5, 1], SW: [0, 1], W: [0, 0.5], NW: [0, 0], CENTER: [0.5, 0.5],
+};
+
+/** Rooms that stay downstairs in a multi-floor house */
+const GROUND_ONLY: RoomClassification[] = [
+  'living_room', 'dining_room', 'kitchen', 'pooja_room', 'majlis', 'courtyard', 'parking', 'utility', 'storage', 'guest_bedroom',
+];
+const BEDROOMS: RoomClassification[] = ['master_bedroom', 'bedroom', 'children_bedroom'];
+
+const GUIDANCE: Record<Room['type'], string> = {
+  room: 'Keep the wall opposite the door for the main furniture; leave the window wall clear.',
+  service: 'Wet area; slope the floor to the drain and keep the window high.',
+  circulation: 'Keep the full width clear.',
+  outdoor: 'Open to sky; permeable paving.',
+  setback: 'Open land required by the setback rules.',
+};
+
+type Zone = 'left' | 'right' | 'rear';
+
+interface Slot {
+  id: string;
+  name: string;
+  classification: RoomClassification;
+  type: Room['type'];
+  minArea: number;
+  floor: number;
+  /** Target position in the envelope, 0–1 across and front to rear */
+  tx: number;
+  ty: number;
+  zone?: Zone;
+  /** Room this one should share a band with (adjacency preference) */
+  follows?: Slot;
+  /** Why the slot went where it did, for the design log */
+  reason?: string;
+}
+
+interface Frame {
+  envelope: Rect;
+  corridorWidth: number;
+  spineX: number;
+  frontDepth: number;
+  rearDepth: number;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Deterministic floor plan. Zero LLM calls.
+ * Partitions the buildable envelope around a central corridor spine running
+ * back from the entrance foyer: rooms stack front to rear in a band either
+ * side of it, and a cross corridor at the back serves a row of rear rooms.
+ * Rooms get their minimum areas (or grow to fill their band), Vastu preferred
+ * directions or a public-to-private zoning pick each room's band and order,
+ * and adjacency preferences pull paired rooms next to each other. Upper floors
+ * reuse the ground-floor frame, so staircases and corridors stack.
+ */
+export function solveLayout(spec: NormalizedSpec): FloorPlanGraph {
+  const { config, plotGeometry, setbackRequirements, municipalConfig } = spec;
+  const floorCount = Math.max(1, config.floors || 1);
+  const fireSafety = resolveFireSafety(municipalConfig, config.projectType);
+  const culturalPack = spec.culturalStrictness > 0 ? getCulturalRulePack(config) : null;
+  const vastu = culturalPack?.id.startsWith('vastu') ?? false;
+  const designLog: string[] = [];
+
+  // 1. Envelope and frame
+  const envelope = plotGeometry.boundary
+    ? fitRectangle(offsetPolygon(plotGeometry.boundary, setbackRequirements))
+    : {
+      x: setbackRequirements.left,
+      y: setbackRequirements.front,
+      width: plotGeometry.width - setbackRequirements.left - setbackRequirements.right,
+      height: plotGeometry.depth - setbackRequirements.front - setbackRequirements.rear,
+    };
+  const corridorWidth = round(Math.max(municipalConfig.minCorridorWidth, fireSafety.minMainDoorWidth + 0.3));
+  designLog.push(
+    `Layout solver: ${envelope.width.toFixed(1)}m x ${envelope.height.toFixed(1)}m building envelope at (${envelope.x}, ${envelope.y}) inside the setbacks`
+  );
+
+  // 2. Rooms per floor, each with a target position
+  const slots = distributeRooms(spec.requiredRooms, floorCount, !!config.accessibility);
+  for (const slot of slots) {
+    const sameKind = slots.filter(s => s.classification === slot.classification && s.floor === slot.floor);
+    const preferred = vastu ? getPreferredDirections(slot.classification) : [];
+    if (preferred.length > 0) {
+      const direction = preferred[sameKind.indexOf(slot) % preferred.length];
+      [slot.tx, slot.ty] = DIRECTION_TARGET[worldToPlotDirection(direction, plotGeometry.orientation)];
+      slot.reason = `Vastu ${direction}`;
+    } else {
+      [slot.tx, slot.ty] = [0.5, ZONING_DEPTH[slot.classification]];
+    }
+    // Cars come in from the road, whatever the preferred corner
+    if (slot.classification === 'parking') slot.ty = 0;
+  }
+  for (const pref of spec.adjacencyPreferences) {
+    const [a, b] = [classifyRoom(pref.room1), classifyRoom(pref.room2)];
+    for (const first of slots.filter(s => s.classification === a)) {
+      const second = slots.find(s => s.classification === b && s.floor === first.floor && s !== first);
+      if (!second) continue;
+      if (pref.relationship === 'separated') {
+        second.tx = first.tx < 0.5 ? 1 : 0;
+        second.reason = `apart from ${first.name}`;
+      } else {
+        [second.tx, second.ty] = [first.tx, first.ty + 0.01];
+        second.follows = first;
+        second.reason = `${pref.relationship} to ${first.name}`;
+      }
+    }
+  }
+
+  // 3. Zones: a band either side of the spine and, on deep envelopes, a rear row
+  const hasRear = envelope.height >= REAR_MIN_DEPTH + corridorWidth + MIN_STAIR_LENGTH + FOYER_DEPTH;
+  for (let f = 0; f < floorCount; f++) {
+    assignZones(slots.filter(s => s.floor === f), hasRear, f === 0);
+  }
+  // Upper staircases stay in the ground-floor staircase's band
+  const stairZone = slots.find(s => s.floor === 0 && s.classification === 'staircase')?.zone;
+  for (const slot of slots.filter(s => s.floor > 0 && s.classification === 'staircase')) slot.zone = stairZone;
+  // The rear row takes the share of the depth its rooms need on the busiest floor
+  const areaOf = (f: number, zone?: Zone) => slots
+    .filter(s => s.floor === f && (!zone || s.zone === zone))
+    .reduce((sum, s) => sum + s.minArea, 0);
+  const rearShare = Math.max(0, ...Array.from({ length: floorCount }, (_, f) => areaOf(f, 'rear') / (areaOf(f) || 1)));
+  const rearDepth = hasRear
+    ? round(Math.min(REAR_MAX_DEPTH, Math.max(REAR_MIN_DEPTH, rearShare * (envelope.height - corridorWidth))))
+    : 0;
+  const frame: Frame = {
+    envelope,
+    corridorWidth,
+    spineX: round(envelope.x + (envelope.width - corridorWidth) / 2),
+    frontDepth: round(envelope.height - (hasRear ? rearDepth + corridorWidth : 0)),
+    rearDepth,
+  };
+  for (let f = 0; f < floorCount; f++) rebalanceZones(slots.filter(s => s.floor === f), frame);
+  designLog.push(hasRear
+    ? `${corridorWidth}m corridor spine from the entrance foyer, rooms either side; a cross corridor serves a ${rearDepth}m row of rear rooms`
+    : `${corridorWidth}m corridor spine from the entrance foyer with rooms either side`);
+
+  // 4. Rooms, floor by floor; the ground-floor staircase fixes the upper ones
+  const rooms: Room[] = [];
+  let stair: Rect | undefined;
+  for (let f = 0; f < floorCount; f++) {
+    const floorRooms = layoutFloor(slots.filter(s => s.floor === f), frame, f, stair, floorCount > 1);
+    stair ??= floorRooms.find(r => classifyRoom(r.name) === 'staircase');
+    rooms.push(...floorRooms);
+  }
+  for (const slot of slots.filter(s => s.reason)) {
+    designLog.push(`${slot.name}${slot.floor > 0 ? ` (floor ${slot.floor})` : ''} in the ${slot.zone === 'rear' ? 'rear row' : `${slot.zone} band`}: ${slot.reason}`);
+  }
+
+  // 5. Doors onto the corridors, windows on the envelope edge, the main door, setbacks
+  addOpenings(rooms, frame, fireSafety.minMainDoorWidth);
+  rooms.unshift(...setbackBands(envelope, plotGeometry.width, plotGeometry.depth, floorCount > 1));
+
+  const enrichedRooms = enrichRoomsWithDirection(rooms, plotGeometry);
+  const builtUpArea = enrichedRooms
+    .filter(r => r.type === 'room' || r.type === 'service')
+    .reduce((sum, r) => sum + r.area, 0);
+  const circulationArea = enrichedRooms
+    .filter(r => r.type === 'circulation')
+    .reduce((sum, r) => sum + r.area, 0);
+  const setbackArea = enrichedRooms
+    .filter(r => r.type === 'setback')
+    .reduce((sum, r) => sum + r.area, 0);
+
+  return {
+    rooms: enrichedRooms,
+    adjacencies: buildAdjacencyGraph(enrichedRooms),
+    designLog,
+    totalArea: plotArea(plotGeometry),
+    builtUpArea,
+    circulationArea,
+    setbackArea,
+    plotCoverageRatio: builtUpArea / plotArea(plotGeometry),
+  };
+}
+
+/**
+ * One slot per room, on its floor. Multi-floor houses keep the public rooms
+ * and one bathroom downstairs and share bedrooms and the other bathrooms out
+ * over the upper floors; an accessible house also keeps a bedroom downstairs.
+ * Every floor gets a staircase.
+ */
+function distributeRooms(requirements: RoomRequirement[], floorCount: number, accessible: boolean): Slot[] {
+  const slots: Slot[] = [];
+  const load = Array.from({ length: floorCount }, () => 0);
+  let bedrooms = 0;
+  let bathrooms = 0;
+  const add = (req: RoomRequirement, name: string, floor: number) => {
+    const classification = req.classification;
+    load[floor] += req.minArea;
+    slots.push({
+      id: name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      name,
+      classification,
+      type: roomType(classification),
+      minArea: req.minArea,
+      floor,
+      tx: 0.5,
+      ty: 0.5,
+    });
+  };
+  const leastLoaded = () => load.slice(1).reduce((best, l, i) => (l < load[best] ? i + 1 : best), 1);
+
+  for (const req of requirements) {
+    if (req.classification === 'foyer' || req.classification === 'entrance') continue;
+    for (let i = 0; i < req.count; i++) {
+      const name = req.count > 1 && i > 0 ? `${req.name} ${i + 1}` : req.name;
+      if (floorCount === 1 || GROUND_ONLY.includes(req.classification)) {
+        add(req, name, 0);
+      } else if (req.classification === 'staircase') {
+        for (let f = 0; f < floorCount; f++) add(req, name, f);
+      } else if (BEDROOMS.includes(req.classification)) {
+        const downstairs = accessible && bedrooms === 0 && req.classification !== 'master_bedroom';
+        add(req, name, downstairs ? 0 : 1 + (bedrooms - (accessible && bedrooms > 0 ? 1 : 0)) % (floorCount - 1));
+        bedrooms++;
+      } else if (req.classification === 'bathroom' || req.classification === 'toilet') {
+        add(req, name, bathrooms === 0 ? 0 : 1 + (bathrooms - 1) % (floorCount - 1));
+        bathrooms++;
+      } else {
+        add(req, name, leastLoaded());
+      }
+    }
+  }
+  return slots;
+}
+
+function roomType(classification: RoomClassification): Room['type'] {
+  if (classification === 'staircase') return 'circulation';
+  if (['balcony', 'courtyard'].includes(classification)) return 'outdoor';
+  if (['bathroom', 'toilet', 'storage', 'utility', 'parking'].includes(classification)) return 'service';
+  return 'room';
+}
+
+/**
+ * Deep targets go to the rear row, the rest to the band on their side, or the
+ * emptier band when they have no side. The ground floor needs every zone
+ * occupied, or the envelope would have a hole in it.
+ */
+function assignZones(slots: Slot[], hasRear: boolean, ground: boolean): void {
+  const area = (zone: Zone) => slots.filter(s => s.zone === zone).reduce((sum, s) => sum + s.minArea, 0);
+  const ordered = [...slots].sort((a, b) => Math.abs(b.tx - 0.5) - Math.abs(a.tx - 0.5) || b.minArea - a.minArea);
+  for (const slot of ordered.filter(s => !s.follows)) {
+    if (hasRear && slot.ty >= REAR_THRESHOLD && slot.classification !== 'staircase') slot.zone = 'rear';
+    else if (slot.tx !== 0.5) slot.zone = slot.tx < 0.5 ? 'left' : 'right';
+    else slot.zone = area('left') <= area('right') ? 'left' : 'right';
+  }
+  for (const slot of ordered.filter(s => s.follows)) slot.zone = slot.follows!.zone;
+  if (!ground) return;
+  const zones: Zone[] = hasRear ? ['left', 'right', 'rear'] : ['left', 'right'];
+  for (const empty of zones.filter(z => !slots.some(s => s.zone === z))) {
+    const movable = slots
+      .filter(s => s.classification !== 'staircase' && slots.filter(o => o.zone === s.zone).length > 1)
+      .sort((a, b) => empty === 'rear'
+        // A habitable room fills the rear row better than a bathroom stretched across it
+        ? Number(b.type === 'room') - Number(a.type === 'room') || b.ty - a.ty
+        : Math.abs(a.tx - (empty === 'left' ? 0 : 1)) - Math.abs(b.tx - (empty === 'left' ? 0 : 1)))[0];
+    if (movable) movable.zone = empty;
+  }
+}
+
+/**
+ * Moves rooms out of a zone too short for their minimum sizes into the zone
+ * with the most room to spare, nearest targets first. Staircases and rooms
+ * paired by an adjacency preference stay put.
+ */
+function rebalanceZones(slots: Slot[], frame: Frame): void {
+  const { envelope: e, corridorWidth: w, spineX, frontDepth, rearDepth } = frame;
+  const zones: Zone[] = rearDepth > 0 ? ['left', 'right', 'rear'] : ['left', 'right'];
+  const cross: Record<Zone, number> = { left: spineX - e.x, right: e.x + e.width - spineX - w, rear: rearDepth };
+  const capacity: Record<Zone, number> = { left: frontDepth, right: frontDepth, rear: e.width };
+  const need = (slot: Slot, zone: Zone) => Math.max(slot.minArea / cross[zone], MIN_SIDE[slot.classification] ?? DEFAULT_MIN_SIDE);
+  const spare = (zone: Zone) => capacity[zone] - slots.filter(s => s.zone === zone).reduce((sum, s) => sum + need(s, zone), 0);
+  const distance = (slot: Slot, zone: Zone) => (zone === 'rear' ? 1 - slot.ty : zone === 'left' ? slot.tx : 1 - slot.tx);
+
+  for (let k = 0; k < slots.length; k++) {
+    const from = [...zones].sort((a, b) => spare(a) - spare(b))[0];
+    if (spare(from) >= 0) return;
+    const to = zones.filter(z => z !== from).sort((a, b) => spare(b) - spare(a))[0];
+    const slot = slots
+      .filter(s => s.zone === from && s.classification !== 'staircase' && !s.follows && !slots.some(o => o.follows === s))
+      .filter(s => need(s, to) <= spare(to))
+      .sort((a, b) => distance(a, to) - distance(b, to) || a.minArea - b.minArea)[0];
+    if (!slot) return;
+    slot.zone = to;
+  }
+}
+
+/**
+ * Lays out one floor inside the frame. `stair` is the ground-floor staircase
+ * the upper floors must repeat exactly; the rest of its band fills the space
+ * in front of and behind it.
+ */
+function layoutFloor(slots: Slot[], frame: Frame, floor: number, stair: Rect | undefined, multiFloor: boolean): Room[] {
+  const { envelope: e, corridorWidth: w, spineX, frontDepth, rearDepth } = frame;
+  const rooms: Room[] = [];
+  const make = (id: string, name: string, type: Room['type'], rect: Rect): Room => ({
+    id: floor > 0 ? `${id}-f${floor}` : id,
+    name,
+    type,
+    x: round(rect.x),
+    y: round(rect.y),
+    width: round(rect.width),
+    height: round(rect.height),
+    features: [],
+    guidance: GUIDANCE[type],
+    ...(multiFloor ? { floor } : {}),
+  });
+
+  // Circulation: foyer and spine, then the cross corridor
+  const spineStart = floor === 0 ? e.y + FOYER_DEPTH : e.y;
+  if (floor === 0) rooms.push(make('foyer', 'Entrance Foyer', 'circulation', { x: spineX, y: e.y, width: w, height: FOYER_DEPTH }));
+  rooms.push(make('corridor', 'Corridor', 'circulation', { x: spineX, y: spineStart, width: w, height: e.y + frontDepth - spineStart }));
+  if (rearDepth > 0) {
+    rooms.push(make('cross-corridor', 'Rear Corridor', 'circulation', { x: e.x, y: e.y + frontDepth, width: e.width, height: w }));
+  }
+
+  const bands: Array<{ zone: Zone; rect: Rect; along: 'x' | 'y' }> = [
+    { zone: 'left', rect: { x: e.x, y: e.y, width: spineX - e.x, height: frontDepth }, along: 'y' },
+    { zone: 'right', rect: { x: spineX + w, y: e.y, width: e.x + e.width - spineX - w, height: frontDepth }, along: 'y' },
+  ];
+  if (rearDepth > 0) {
+    bands.push({ zone: 'rear', rect: { x: e.x, y: e.y + frontDepth + w, width: e.width, height: rearDepth }, along: 'x' });
+  }
+
+  for (const band of bands) {
+    const members = slots
+      .filter(s => s.zone === band.zone)
+      .sort((a, b) => {
+        const [ta, tb] = band.along === 'y' ? [a.ty, b.ty] : [a.tx, b.tx];
+        // Of two rooms after the same spot, the bigger one gets closest to the end it targets
+        return ta - tb || (ta < 0.5 ? b.minArea - a.minArea : a.minArea - b.minArea);
+      });
+    const [start, end] = band.along === 'y' ? [band.rect.y, band.rect.y + band.rect.height] : [band.rect.x, band.rect.x + band.rect.width];
+    const cross = band.along === 'y' ? band.rect.width : band.rect.height;
+    const pinned = stair && members.find(s => s.classification === 'staircase');
+
+    const segments: Array<{ slots: Slot[]; start: number; end: number }> = [];
+    if (pinned && stair) {
+      const index = members.indexOf(pinned);
+      segments.push({ slots: members.slice(0, index), start, end: stair.y });
+      segments.push({ slots: [pinned], start: stair.y, end: stair.y + stair.height });
+      segments.push({ slots: members.slice(index + 1), start: stair.y + stair.height, end });
+    } else {
+      segments.push({ slots: members, start, end });
+    }
+
+    for (const segment of segments) {
+      const lengths = fillLengths(segment.slots, segment.end - segment.start, cross);
+      let position = segment.start;
+      segment.slots.forEach((slot, i) => {
+        const next = i === segment.slots.length - 1 ? segment.end : position + lengths[i];
+        const rect = band.along === 'y'
+          ? { x: band.rect.x, y: position, width: band.rect.width, height: next - position }
+          : { x: position, y: band.rect.y, width: next - position, height: band.rect.height };
+        const room = make(slot.id, slot.name, slot.type, rect);
+        if (slot.classification === 'staircase') room.stairTurn = 'clockwise';
+        rooms.push(room);
+        position = round(next);
+      });
+    }
+  }
+  return rooms;
+}
+
+/**
+ * Lengths along a band for its rooms: each room's minimum area over the band
+ * width, no shorter than its minimum side. Spare length goes to the habitable
+ * rooms in proportion; a band too short squeezes every room alike.
+ */
+function fillLengths(slots: Slot[], length: number, cross: number): number[] {
+  const minimums = slots.map(s => Math.max(s.minArea / cross, MIN_SIDE[s.classification] ?? DEFAULT_MIN_SIDE));
+  const total = minimums.reduce((sum, l) => sum + l, 0);
+  if (total >= length) return minimums.map(l => l * length / total);
+
+  const growable = slots.map(s => s.type === 'room');
+  const growableTotal = minimums.reduce((sum, l, i) => sum + (growable[i] ? l : 0), 0);
+  const spare = length - total;
+  return growableTotal > 0
+    ? minimums.map((l, i) => (growable[i] ? l + spare * l / growableTotal : l))
+    : minimums.map(l => l + spare * l / total);
+}
+
+/**
+ * A door from every room to the corridor it shares the longest wall with,
+ * mirrored on the corridor, and a window on the room's envelope edge. The
+ * foyer's front wall takes the main door.
+ */
+function addOpenings(rooms: Room[], frame: Frame, mainDoorWidth: number): void {
+  const { envelope: e } = frame;
+  const along = (room: Room, wall: WallFeature['wall']) => (wall === 'top' || wall === 'bottom' ? room.width : room.height);
+  const offset = (room: Room, wall: WallFeature['wall']) => (wall === 'top' || wall === 'bottom' ? room.x : room.y);
+
+  for (const room of rooms.filter(r => r.type !== 'circulation')) {
+    const corridors = rooms
+      .filter(r => r.type === 'circulation' && (r.floor ?? 0) === (room.floor ?? 0) && classifyRoom(r.name) !== 'staircase')
+      .map(r => ({ corridor: r, wall: findSharedWall(room, r) }))
+      .filter(c => c.wall !== null)
+      .sort((a, b) => (b.wall!.end - b.wall!.start) - (a.wall!.end - a.wall!.start));
+    const access = corridors[0];
+    if (access) {
+      const wall = access.wall!;
+      const middle = (wall.start + wall.end) / 2;
+      const type: WallFeature['type'] = room.type === 'outdoor' ? 'opening' : 'door';
+      const width = Math.min(DOOR_WIDTH, round(wall.end - wall.start - 0.2));
+      room.features.push({ type, wall: wall.wallA, position: round((middle - offset(room, wall.wallA)) / along(room, wall.wallA)), width });
+      access.corridor.features.push({
+        type,
+        wall: wall.wallB,
+        position: round((middle - offset(access.corridor, wall.wallB)) / along(access.corridor, wall.wallB)),
+        width,
+      });
+    }
+
+    if (room.type === 'outdoor') continue;
+    const exterior: WallFeature['wall'][] = [
+      ...(Math.abs(room.x - e.x) < 0.01 ? ['left' as const] : []),
+      ...(Math.abs(room.x + room.width - e.x - e.width) < 0.01 ? ['right' as const] : []),
+      ...(Math.abs(room.y + room.height - e.y - e.height) < 0.01 ? ['bottom' as const] : []),
+      ...(Math.abs(room.y - e.y) < 0.01 ? ['top' as const] : []),
+    ];
+    const wall = exterior[0];
+    if (!wall) continue;
+    const glazing = room.type === 'service' ? 0.6 : Math.max(1.0, room.width * room.height * TARGET_WINDOW_RATIO / WINDOW_HEIGHT);
+    room.features.push({ type: 'window', wall, position: 0.5, width: round(Math.min(glazing, along(room, wall) - 0.4)) });
+  }
+
+  const foyer = rooms.find(r => r.id === 'foyer');
+  if (foyer) {
+    foyer.features.push({ type: 'door', wall: 'top', position: 0.5, width: round(Math.min(mainDoorWidth, foyer.width - 0.2)) });
+  }
+}
+
+/** Setback bands around the envelope, on the ground floor */
+function setbackBands(envelope: Rect, plotWidth: number, plotDepth: number, multiFloor: boolean): Room[] {
+  const right = envelope.x + envelope.width;
+  const rear = envelope.y + envelope.height;
+  const bands: Array<[string, string, Rect]> = [
+    ['setback-front', 'Front Setback', { x: 0, y: 0, width: plotWidth, height: envelope.y }],
+    ['setback-rear', 'Rear Setback', { x: 0, y: rear, width: plotWidth, height: plotDepth - rear }],
+    ['setback-left', 'Left Setback', { x: 0, y: envelope.y, width: envelope.x, height: envelope.height }],
+    ['setback-right', 'Right Setback', { x: right, y: envelope.y, width: plotWidth - right, height: envelope.height }],
+  ];
+  return bands
+    .filter(([, , rect]) => rect.width > 0.01 && rect.height > 0.01)
+    .map(([id, name, rect]) => ({
+      id,
+      name,
+      type: 'setback' as const,
+      x: round(rect.x),
+      y: round(rect.y),
+      width: round(rect.width),
+      height: round(rect.height),
+      features: [],
+      guidance: GUIDANCE.setback,
+      ...(multiFloor ? { floor: 0 } : {}),
+    }));
+}
+
+/**
+ * Largest-ish axis-aligned rectangle inside an irregular envelope: starts from
+ * its bounding box and pulls in the sides at every corner that sticks out.
+ */
+function fitRectangle(envelope: Point[]): Rect {
+  let { x, y, width, height } = boundingBox(envelope);
+  for (let k = 0; k < 500 && width > 0 && height > 0; k++) {
+    const corners = rectToPolygon({ x, y, width, height });
+    if (polygonInPolygon(corners, envelope, 0.01)) break;
+    const outside = corners.map(c => !pointInPolygon(c, envelope) && distanceToPolygonEdge(c, envelope) > 0.01);
+    const [topLeft, topRight, bottomRight, bottomLeft] = outside.every(o => !o) ? [true, true, true, true] : outside;
+    if (topLeft || topRight) { y += SHRINK_STEP; height -= SHRINK_STEP; }
+    if (bottomLeft || bottomRight) height -= SHRINK_STEP;
+    if (topLeft || bottomLeft) { x += SHRINK_STEP; width -= SHRINK_STEP; }
+    if (topRight || bottomRight) width -= SHRINK_STEP;
+  }
+  return { x: round(x), y: round(y), width: round(Math.max(0, width)), height: round(Math.max(0, height)) };
+}
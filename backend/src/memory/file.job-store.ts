@@ -0,0 +1,172 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type {
+  GenerationJob,
+  GenerationJobSummary,
+  IterationRecord,
+  JobQuery,
+  JobStore,
+} from '../types/agent.types.js';
+import type { JobKind } from '../types/shared.types.js';
+import { logger } from '../utils/logger.js';
+import { JOB_TTL_MS, isExpired, matchesQuery, newJob, summarizeJob } from './job.store.js';
+
+const DEFAULT_DIR = fileURLToPath(new URL('../../data/jobs', import.meta.url));
+const JOB_ID_PATTERN = /^[\w-]+$/;
+
+interface JobFile {
+  job: GenerationJob;
+  iterations: IterationRecord[];
+}
+
+/**
+ * One JSON file per job, written atomically (temp file + rename). Survives
+ * restarts, but the directory belongs to a single process: updates are only
+ * serialized within this process, and on startup every job still marked
+ * running or pending is taken to have died with the previous process and is
+ * marked failed. Do not point two instances at the same directory.
+ */
+export class FileJobStore implements JobStore {
+  readonly kind = 'file';
+  private readonly ready: Promise<void>;
+  /** Per-job write queue so read-modify-write updates never interleave */
+  private readonly writes = new Map<string, Promise<void>>();
+
+  constructor(private readonly dir = process.env.JOB_STORE_DIR || DEFAULT_DIR, private readonly ttlMs = JOB_TTL_MS) {
+    this.ready = this.recover();
+  }
+
+  async createJob(jobId: string, userId: string, kind?: JobKind): Promise<GenerationJob> {
+    const job = newJob(jobId, userId, kind);
+    await this.mutate(jobId, () => ({ job, iterations: [] }));
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<GenerationJob | undefined> {
+    const file = await this.read(jobId);
+    if (file && isExpired(file.job, this.ttlMs)) {
+      await this.deleteJob(jobId);
+      return undefined;
+    }
+    return file?.job;
+  }
+
+  async updateJob(jobId: string, updates: Partial<GenerationJob>): Promise<void> {
+    await this.mutate(jobId, file => file && {
+      ...file,
+      job: { ...file.job, ...updates, updatedAt: Date.now() },
+    });
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    if (!JOB_ID_PATTERN.test(jobId)) return;
+    await this.enqueue(jobId, () => rm(this.path(jobId), { force: true }));
+  }
+
+  async listJobs(query: JobQuery = {}): Promise<GenerationJobSummary[]> {
+    const files = await this.readAll();
+    return files
+      .filter(file => matchesQuery(file.job, query))
+      .map(file => summarizeJob(file.job, file.iterations.length));
+  }
+
+  async purgeJobs(query: JobQuery): Promise<number> {
+    const matching = (await this.readAll()).filter(file => matchesQuery(file.job, query));
+    await Promise.all(matching.map(file => this.deleteJob(file.job.jobId)));
+    return matching.length;
+  }
+
+  async appendIteration(jobId: string, record: IterationRecord): Promise<void> {
+    await this.mutate(jobId, file => file && { ...file, iterations: [...file.iterations, record] });
+  }
+
+  async getIterations(jobId: string): Promise<IterationRecord[]> {
+    return (await this.read(jobId))?.iterations ?? [];
+  }
+
+  private path(jobId: string): string {
+    return join(this.dir, `${jobId}.json`);
+  }
+
+  private async recover(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    let interrupted = 0;
+    let expired = 0;
+
+    for (const file of await this.readAll(false)) {
+      const { job } = file;
+      if (job.status === 'running' || job.status === 'pending') {
+        interrupted++;
+        await this.write(job.jobId, {
+          ...file,
+          job: { ...job, status: 'failed', error: 'Interrupted by server restart', updatedAt: Date.now() },
+        });
+      } else if (isExpired(job, this.ttlMs)) {
+        expired++;
+        await rm(this.path(job.jobId), { force: true });
+      }
+    }
+    logger.info({ dir: this.dir, interrupted, expired }, 'File job store ready');
+  }
+
+  private async read(jobId: string): Promise<JobFile | undefined> {
+    if (!JOB_ID_PATTERN.test(jobId)) return undefined;
+    await this.ready;
+    await this.writes.get(jobId);
+    try {
+      return JSON.parse(await readFile(this.path(jobId), 'utf8')) as JobFile;
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') logger.error({ err, jobId }, 'Job file could not be read');
+      return undefined;
+    }
+  }
+
+  private async readAll(waitForReady = true): Promise<JobFile[]> {
+    if (waitForReady) await this.ready;
+    const names = (await readdir(this.dir)).filter(name => name.endsWith('.json'));
+    const files = await Promise.all(names.map(async name => {
+      try {
+        return JSON.parse(await readFile(join(this.dir, name), 'utf8')) as JobFile;
+      } catch (err) {
+        logger.warn({ err, file: name }, 'Skipping unreadable job file');
+        return undefined;
+      }
+    }));
+    return files.filter((f): f is JobFile => !!f);
+  }
+
+  private async write(jobId: string, file: JobFile): Promise<void> {
+    const target = this.path(jobId);
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(file));
+    await rename(temp, target);
+  }
+
+  /** Read-modify-write; returning undefined from `update` leaves the job untouched */
+  private async mutate(jobId: string, update: (file: JobFile | undefined) => JobFile | undefined): Promise<void> {
+    if (!JOB_ID_PATTERN.test(jobId)) throw new Error(`Invalid job id "${jobId}"`);
+    await this.ready;
+    await this.enqueue(jobId, async () => {
+      let current: JobFile | undefined;
+      try {
+        current = JSON.parse(await readFile(this.path(jobId), 'utf8')) as JobFile;
+      } catch {
+        current = undefined;
+      }
+      const next = update(current);
+      if (next) await this.write(jobId, next);
+    });
+  }
+
+  private enqueue(jobId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(jobId) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    const settled = run.catch(() => undefined);
+    this.writes.set(jobId, settled);
+    settled.then(() => {
+      if (this.writes.get(jobId) === settled) this.writes.delete(jobId);
+    });
+    return run;
+  }
+}
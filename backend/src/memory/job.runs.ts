@@ -0,0 +1,25 @@
+/**
+ * Abort controllers for the job runs in this process, one per job. Resuming
+ * a cancelled job starts a new run while the old one may still be settling,
+ * so a run only ever unregisters itself, never its successor.
+ */
+const runs = new Map<string, AbortController>();
+
+/** Registers a new run of the job, replacing any earlier one */
+export function startJobRun(jobId: string): AbortController {
+  const controller = new AbortController();
+  runs.set(jobId, controller);
+  return controller;
+}
+
+/** Unregisters a settled run unless a newer run of the job has taken its place */
+export function endJobRun(jobId: string, controller: AbortController): void {
+  if (runs.get(jobId) === controller) runs.delete(jobId);
+}
+
+/** Aborts the job's current run; false when none runs in this process */
+export function abortJobRun(jobId: string, reason: Error): boolean {
+  const controller = runs.get(jobId);
+  controller?.abort(reason);
+  return !!controller;
+}
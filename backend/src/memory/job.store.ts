@@ -0,0 +1,38 @@
+import type { GenerationJob, GenerationJobSummary, JobQuery } from '../types/agent.types.js';
+import type { JobKind } from '../types/shared.types.js';
+import { DEFAULT_SCORING } from '../scoring/plan.scorer.js';
+
+/** Finished jobs expire after this long (JOB_TTL_MINUTES, default 30) */
+export const JOB_TTL_MS = (Number(process.env.JOB_TTL_MINUTES) || 30) * 60 * 1000;
+
+export function newJob(jobId: string, userId: string, kind: JobKind = 'generation'): GenerationJob {
+  return {
+    jobId,
+    userId,
+    kind,
+    status: 'pending',
+    progress: {
+      phase: 'queued',
+      iteration: 0,
+      // Only generations iterate
+      maxIterations: kind === 'generation' ? DEFAULT_SCORING.maxIterations : 0,
+    },
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+}
+
+export function isExpired(job: GenerationJob, ttlMs: number): boolean {
+  return Date.now() - job.createdAt > ttlMs && job.status !== 'running';
+}
+
+export function matchesQuery(job: GenerationJob, query: JobQuery): boolean {
+  return (query.userId === undefined || job.userId === query.userId)
+    && (query.status === undefined || job.status === query.status)
+    && (query.createdBefore === undefined || job.createdAt < query.createdBefore);
+}
+
+export function summarizeJob(job: GenerationJob, iterationCount: number): GenerationJobSummary {
+  const { result: _result, output: _output, config: _config, checkpoint, ...summary } = job;
+  return { ...summary, iterationCount, checkpointPhase: checkpoint?.phase };
+}
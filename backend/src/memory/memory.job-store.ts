@@ -0,0 +1,83 @@
+import type {
+  GenerationJob,
+  GenerationJobSummary,
+  IterationRecord,
+  JobQuery,
+  JobStore,
+} from '../types/agent.types.js';
+import type { JobKind } from '../types/shared.types.js';
+import { JOB_TTL_MS, isExpired, matchesQuery, newJob, summarizeJob } from './job.store.js';
+
+const MAX_SESSIONS = 1000;
+
+/**
+ * Process-local store. Fast and dependency-free, but every job is lost on
+ * restart and it cannot be shared between instances.
+ */
+export class MemoryJobStore implements JobStore {
+  readonly kind = 'memory';
+  private readonly jobs = new Map<string, GenerationJob>();
+  private readonly iterations = new Map<string, IterationRecord[]>();
+
+  constructor(private readonly ttlMs = JOB_TTL_MS) {}
+
+  async createJob(jobId: string, userId: string, kind?: JobKind): Promise<GenerationJob> {
+    // Evict oldest if at capacity
+    if (this.jobs.size >= MAX_SESSIONS) {
+      const oldest = [...this.jobs.entries()]
+        .sort((a, b) => a[1].createdAt - b[1].createdAt)[0];
+      if (oldest) this.remove(oldest[0]);
+    }
+
+    const job = newJob(jobId, userId, kind);
+    this.jobs.set(jobId, job);
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<GenerationJob | undefined> {
+    const job = this.jobs.get(jobId);
+    if (job && isExpired(job, this.ttlMs)) {
+      this.remove(jobId);
+      return undefined;
+    }
+    return job;
+  }
+
+  async updateJob(jobId: string, updates: Partial<GenerationJob>): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      Object.assign(job, updates, { updatedAt: Date.now() });
+    }
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    this.remove(jobId);
+  }
+
+  async listJobs(query: JobQuery = {}): Promise<GenerationJobSummary[]> {
+    return [...this.jobs.values()]
+      .filter(job => matchesQuery(job, query))
+      .map(job => summarizeJob(job, this.iterations.get(job.jobId)?.length ?? 0));
+  }
+
+  async purgeJobs(query: JobQuery): Promise<number> {
+    const matching = [...this.jobs.values()].filter(job => matchesQuery(job, query));
+    for (const job of matching) this.remove(job.jobId);
+    return matching.length;
+  }
+
+  async appendIteration(jobId: string, record: IterationRecord): Promise<void> {
+    if (!this.jobs.has(jobId)) return;
+    if (!this.iterations.has(jobId)) this.iterations.set(jobId, []);
+    this.iterations.get(jobId)!.push(record);
+  }
+
+  async getIterations(jobId: string): Promise<IterationRecord[]> {
+    return this.iterations.get(jobId) ?? [];
+  }
+
+  private remove(jobId: string): void {
+    this.jobs.delete(jobId);
+    this.iterations.delete(jobId);
+  }
+}
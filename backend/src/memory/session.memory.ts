@@ -1,55 +1,28 @@
-import type { GenerationJob } from '../types/agent.types.js';
-
-const TTL_MS = 30 * 60 * 1000; // 30 minutes
-const MAX_SESSIONS = 1000;
-
-const jobs = new Map<string, GenerationJob>();
-
-export function createJob(jobId: string, userId: string): GenerationJob {
-  // Evict oldest if at capacity
-  if (jobs.size >= MAX_SESSIONS) {
-    const oldest = [...jobs.entries()]
-      .sort((a, b) => a[1].createdAt - b[1].createdAt)[0];
-    if (oldest) jobs.delete(oldest[0]);
-  }
-
-  const job: GenerationJob = {
-    jobId,
-    userId,
-    status: 'pending',
-    progress: {
-      phase: 'queued',
-      iteration: 0,
-      maxIterations: 3,
-    },
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
-  };
-
-  jobs.set(jobId, job);
-  return job;
-}
-
-export function getJob(jobId: string): GenerationJob | undefined {
-  const job = jobs.get(jobId);
-  if (job && Date.now() - job.createdAt > TTL_MS && job.status !== 'running') {
-    jobs.delete(jobId);
-    return undefined;
+import type { JobStore } from '../types/agent.types.js';
+import { MemoryJobStore } from './memory.job-store.js';
+import { FileJobStore } from './file.job-store.js';
+import { logger } from '../utils/logger.js';
+
+let store: JobStore | null = null;
+
+/**
+ * The process-wide job store, chosen by JOB_STORE: "memory" (default) or
+ * "file" (JSON files under JOB_STORE_DIR, default backend/data/jobs).
+ */
+export function getJobStore(): JobStore {
+  if (!store) {
+    const kind = (process.env.JOB_STORE || 'memory').toLowerCase();
+    switch (kind) {
+      case 'file':
+        store = new FileJobStore();
+        break;
+      case 'memory':
+        store = new MemoryJobStore();
+        break;
+      default:
+        logger.warn({ kind }, 'Unknown JOB_STORE, falling back to memory');
+        store = new MemoryJobStore();
+    }
   }
-  return job;
-}
-
-export function updateJob(jobId: string, updates: Partial<GenerationJob>): void {
-  const job = jobs.get(jobId);
-  if (job) {
-    Object.assign(job, updates, { updatedAt: Date.now() });
-  }
-}
-
-export function deleteJob(jobId: string): void {
-  jobs.delete(jobId);
-}
-
-export function getJobsByUser(userId: string): GenerationJob[] {
-  return [...jobs.values()].filter(j => j.userId === userId);
+  return store;
 }
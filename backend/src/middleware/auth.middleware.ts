@@ -79,3 +79,19 @@ export async function authMiddleware(
     res.status(401).json({ error: 'Authentication failed' });
   }
 }
+
+const adminUserIds = new Set(
+  (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean)
+);
+
+/**
+ * Restricts a route to the user ids listed in ADMIN_USER_IDS. Runs after
+ * authMiddleware; with no admins configured every request is refused.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.userId || !adminUserIds.has(req.userId)) {
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+  next();
+}
@@ -0,0 +1,92 @@
+import { GoogleGenAI } from '@google/genai';
+import type { LLMProvider, LLMRequest, LLMResponse } from '../types/agent.types.js';
+import { logger } from '../utils/logger.js';
+import { parseJson } from '../utils/json.utils.js';
+
+// Fallback chain: gemini-3-*-preview → gemini-2.5-*
+const FALLBACK_MODELS: Record<string, string[]> = {
+  'gemini-3-pro-preview': ['gemini-2.5-pro', 'gemini-2.5-flash'],
+  'gemini-3-flash-preview': ['gemini-2.5-flash'],
+  'gemini-2.5-pro': ['gemini-2.5-flash'],
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly kind = 'gemini';
+  private client: GoogleGenAI | null = null;
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const { prompt, modelConfig, responseSchema, imageParts, signal } = request;
+
+    const config: any = {
+      responseMimeType: 'application/json',
+      temperature: modelConfig.temperature,
+      maxOutputTokens: modelConfig.maxOutputTokens,
+      abortSignal: signal,
+    };
+
+    if (responseSchema) {
+      config.responseSchema = responseSchema;
+    }
+
+    let contents: any;
+    if (imageParts && imageParts.length > 0) {
+      contents = {
+        parts: [...imageParts, { text: prompt }],
+      };
+    } else {
+      contents = prompt;
+    }
+
+    try {
+      logger.info({ model: modelConfig.model }, 'Generating content with Gemini');
+      return await this.call(modelConfig.model, contents, config);
+    } catch (error: any) {
+      // A cancelled request is not a model failure
+      if (signal?.aborted) throw signal.reason;
+
+      for (const fallbackModel of FALLBACK_MODELS[modelConfig.model] ?? []) {
+        signal?.throwIfAborted();
+        try {
+          logger.warn(
+            { primary: modelConfig.model, fallback: fallbackModel, error: error.message },
+            'Primary model failed, trying fallback'
+          );
+          return await this.call(fallbackModel, contents, config);
+        } catch (fallbackError: any) {
+          if (signal?.aborted) throw signal.reason;
+          logger.warn(
+            { fallback: fallbackModel, error: fallbackError.message },
+            'Fallback model also failed'
+          );
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async call(model: string, contents: any, config: any): Promise<LLMResponse> {
+    const response = await this.getClient().models.generateContent({ model, contents, config });
+
+    const text = response.text;
+    if (!text) {
+      throw new Error(`No response text from ${model}`);
+    }
+
+    return {
+      data: parseJson(text),
+      model,
+      tokenCount: response.usageMetadata?.totalTokenCount,
+    };
+  }
+
+  private getClient(): GoogleGenAI {
+    if (!this.client) {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY environment variable is not set');
+      }
+      this.client = new GoogleGenAI({ apiKey });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,17 @@
+import type { LLMRequest } from '../types/agent.types.js';
+import { getProvider } from './llm.provider.js';
+
+/**
+ * Structured JSON generation through the provider the router assigns to the
+ * calling role (Gemini, an OpenAI-compatible server, or recorded fixtures).
+ */
+export async function generateStructuredContent<T>(
+  options: LLMRequest
+): Promise<{ data: T; tokenCount?: number }> {
+  options.signal?.throwIfAborted();
+
+  const provider = getProvider(options.modelConfig.provider);
+  const { data, tokenCount } = await provider.generate(options);
+
+  return { data: data as T, tokenCount };
+}
@@ -0,0 +1,39 @@
+import type { LLMProvider, LLMProviderKind } from '../types/agent.types.js';
+import { GeminiProvider } from './gemini.provider.js';
+import { OpenAICompatibleProvider } from './openai.provider.js';
+import { ReplayProvider } from './replay.provider.js';
+
+export const LLM_PROVIDERS: LLMProviderKind[] = ['gemini', 'openai', 'replay'];
+
+const providers = new Map<LLMProviderKind, LLMProvider>();
+
+/**
+ * Replaces the provider used for a kind, e.g. to record or replay a run in
+ * tests; `null` restores the default.
+ */
+export function setProvider(kind: LLMProviderKind, provider: LLMProvider | null): void {
+  if (provider) providers.set(kind, provider);
+  else providers.delete(kind);
+}
+
+/** Process-wide provider instance for a kind, created on first use */
+export function getProvider(kind: LLMProviderKind): LLMProvider {
+  let provider = providers.get(kind);
+  if (!provider) {
+    switch (kind) {
+      case 'gemini':
+        provider = new GeminiProvider();
+        break;
+      case 'openai':
+        provider = new OpenAICompatibleProvider();
+        break;
+      case 'replay':
+        provider = new ReplayProvider();
+        break;
+      default:
+        throw new Error(`Unknown LLM provider "${kind}"`);
+    }
+    providers.set(kind, provider);
+  }
+  return provider;
+}
@@ -1,42 +1,69 @@
-import type { AgentRole, ModelRouterConfig } from '../types/agent.types.js';
+import type { AgentRole, LLMProviderKind, ModelRouterConfig } from '../types/agent.types.js';
+import { LLM_PROVIDERS } from './llm.provider.js';
 
 const routerConfig: Record<AgentRole, ModelRouterConfig> = {
   input: {
+    provider: 'gemini',
     model: 'gemini-3-flash-preview',
     temperature: 0.2,
     maxOutputTokens: 4096,
   },
   spatial: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview',
     temperature: 0.7,
     maxOutputTokens: 16384,
   },
   critic: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview',
     temperature: 0.3,
     maxOutputTokens: 8192,
   },
   refinement: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview',
     temperature: 0.5,
     maxOutputTokens: 16384,
   },
   cost: {
+    provider: 'gemini',
     model: 'gemini-3-flash-preview',
     temperature: 0.2,
     maxOutputTokens: 8192,
   },
   furniture: {
+    provider: 'gemini',
     model: 'gemini-3-flash-preview',
     temperature: 0.4,
     maxOutputTokens: 8192,
   },
 };
 
+/**
+ * Role config with environment overrides applied:
+ * LLM_PROVIDER_<ROLE> / LLM_PROVIDER pick the provider, LLM_MODEL_<ROLE> the
+ * model. For the OpenAI-compatible provider OPENAI_MODEL replaces the Gemini
+ * model names.
+ */
 export function getModelConfig(role: AgentRole): ModelRouterConfig {
-  return routerConfig[role];
+  const base = routerConfig[role];
+  const key = role.toUpperCase();
+
+  const provider = (process.env[`LLM_PROVIDER_${key}`] || process.env.LLM_PROVIDER || base.provider).toLowerCase() as LLMProviderKind;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM provider "${provider}" for role ${role} (expected ${LLM_PROVIDERS.join(', ')})`);
+  }
+
+  const model = process.env[`LLM_MODEL_${key}`]
+    || (provider === 'openai' ? process.env.OPENAI_MODEL : undefined)
+    || base.model;
+
+  return { ...base, provider, model };
 }
 
 export function getRouterConfig(): Record<AgentRole, ModelRouterConfig> {
-  return { ...routerConfig };
+  return Object.fromEntries(
+    (Object.keys(routerConfig) as AgentRole[]).map(role => [role, getModelConfig(role)])
+  ) as Record<AgentRole, ModelRouterConfig>;
 }
@@ -0,0 +1,92 @@
+import type { LLMProvider, LLMRequest, LLMResponse } from '../types/agent.types.js';
+import { logger } from '../utils/logger.js';
+import { parseJson } from '../utils/json.utils.js';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Any server speaking the OpenAI chat-completions API (vLLM, llama.cpp,
+ * Ollama, LM Studio, OpenAI itself). Configured with OPENAI_BASE_URL and an
+ * optional OPENAI_API_KEY; response schemas are sent as JSON Schema.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly kind = 'openai';
+
+  constructor(
+    private readonly baseUrl = process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL,
+    private readonly apiKey = process.env.OPENAI_API_KEY
+  ) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const { prompt, modelConfig, responseSchema, imageParts, signal } = request;
+
+    const content = imageParts && imageParts.length > 0
+      ? [
+          ...imageParts.map(part => ({
+            type: 'image_url',
+            image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+          })),
+          { type: 'text', text: prompt },
+        ]
+      : prompt;
+
+    const body = {
+      model: modelConfig.model,
+      messages: [{ role: 'user', content }],
+      temperature: modelConfig.temperature,
+      max_tokens: modelConfig.maxOutputTokens,
+      response_format: responseSchema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(responseSchema) } }
+        : { type: 'json_object' },
+    };
+
+    logger.info({ model: modelConfig.model, baseUrl: this.baseUrl }, 'Generating content with OpenAI-compatible server');
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => response.statusText);
+      throw new Error(`OpenAI-compatible request failed: ${response.status} ${detail}`);
+    }
+
+    const result = await response.json() as {
+      model?: string;
+      choices?: Array<{ message?: { content?: string } }>;
+      usage?: { total_tokens?: number };
+    };
+    const text = result.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error(`No response text from ${modelConfig.model}`);
+    }
+
+    return {
+      data: parseJson(text),
+      model: result.model || modelConfig.model,
+      tokenCount: result.usage?.total_tokens,
+    };
+  }
+}
+
+/** Gemini `Type` schemas use upper-case type names; JSON Schema wants lower case */
+function toJsonSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const converted: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      converted.type = value.toLowerCase();
+    } else {
+      converted[key] = toJsonSchema(value);
+    }
+  }
+  return converted;
+}
@@ -0,0 +1,71 @@
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { LLMFixture, LLMProvider, LLMRequest, LLMResponse } from '../types/agent.types.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_DIR = fileURLToPath(new URL('../../fixtures/llm', import.meta.url));
+
+/**
+ * Stable key for a request: SHA-256 of the prompt, plus any image payloads.
+ * Model and temperature are left out so fixtures survive model upgrades.
+ */
+export function promptHash(request: Pick<LLMRequest, 'prompt' | 'imageParts'>): string {
+  const hash = createHash('sha256').update(request.prompt);
+  for (const part of request.imageParts ?? []) {
+    hash.update(part.inlineData.mimeType).update(part.inlineData.data);
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * Deterministic offline provider: serves recorded responses by prompt hash.
+ * Fixtures come from a map or from every *.json file in a directory
+ * (LLM_FIXTURES_DIR, default backend/fixtures/llm), each a
+ * `{ [promptHash]: LLMFixture }` object. Unknown prompts are an error.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly kind = 'replay';
+  private readonly fixtures: Promise<Map<string, LLMFixture>>;
+
+  constructor(source: string | Record<string, LLMFixture> = process.env.LLM_FIXTURES_DIR || DEFAULT_DIR) {
+    this.fixtures = typeof source === 'string'
+      ? loadFixtures(source)
+      : Promise.resolve(new Map(Object.entries(source)));
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    request.signal?.throwIfAborted();
+    const hash = promptHash(request);
+    const fixture = (await this.fixtures).get(hash);
+    if (!fixture) {
+      throw new Error(`No recorded response for prompt ${hash} ("${request.prompt.trim().slice(0, 60)}…")`);
+    }
+
+    logger.info({ hash, model: fixture.model }, 'Replaying recorded response');
+    // Hand out a copy; callers normalize responses in place
+    return { data: structuredClone(fixture.response), model: fixture.model };
+  }
+}
+
+async function loadFixtures(dir: string): Promise<Map<string, LLMFixture>> {
+  const fixtures = new Map<string, LLMFixture>();
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter(f => f.endsWith('.json')).sort();
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') throw err;
+    logger.warn({ dir }, 'Replay fixture directory not found');
+    return fixtures;
+  }
+
+  for (const file of files) {
+    const entries = JSON.parse(await readFile(join(dir, file), 'utf-8')) as Record<string, LLMFixture>;
+    for (const [hash, fixture] of Object.entries(entries)) {
+      fixtures.set(hash, fixture);
+    }
+  }
+  logger.info({ dir, files: files.length, fixtures: fixtures.size }, 'Loaded replay fixtures');
+  return fixtures;
+}
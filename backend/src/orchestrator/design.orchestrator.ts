@@ -5,21 +5,26 @@ import type {
   IterationRecord,
   CritiqueResult,
   PlanScore,
+  CostEstimate,
+  CheckpointPhase,
+  OrchestrationCheckpoint,
 } from '../types/agent.types.js';
-import type { ProjectConfig, GeneratedPlan, ComplianceItem, FloorData } from '../types/shared.types.js';
+import type { ProjectConfig, GeneratedPlan, FloorData, FurnitureItem } from '../types/shared.types.js';
 import { InputAgent } from '../agents/input.agent.js';
 import { SpatialAgent } from '../agents/spatial.agent.js';
 import { CriticAgent } from '../agents/critic.agent.js';
 import { RefinementAgent } from '../agents/refinement.agent.js';
 import { CostAgent } from '../agents/cost.agent.js';
 import { FurnitureAgent } from '../agents/furniture.agent.js';
-import { validateVastu } from '../validators/vastu.validator.js';
-import { validateRegulatory } from '../validators/regulatory.validator.js';
-import { scorePlan } from '../scoring/plan.scorer.js';
+import { enforceRoomLocks } from '../validators/lock.validator.js';
+import { resolveScoringConfig } from '../scoring/plan.scorer.js';
+import { computeSpatialMetrics } from '../scoring/spatial.metrics.js';
+import { validatePlan, scoreValidation, validationCompliance } from '../scoring/plan.evaluation.js';
+import { generateColumnGrid } from '../structure/column.grid.js';
+import { solveLayout } from '../layout/layout.solver.js';
+import { repairPlan } from '../repair/plan.repair.js';
 import { logger } from '../utils/logger.js';
 
-const MAX_ITERATIONS = 3;
-
 export interface ProgressCallback {
   (event: {
     type: string;
@@ -30,6 +35,14 @@ export interface ProgressCallback {
 export interface OrchestrationOptions {
   strategyPrompt?: string;
   temperatureOffset?: number;
+  /** Called with each iteration record as soon as it is scored, e.g. to persist it */
+  onIteration?: (record: IterationRecord) => void | Promise<void>;
+  /** Called after every completed phase with the state needed to resume */
+  onCheckpoint?: (checkpoint: OrchestrationCheckpoint) => void | Promise<void>;
+  /** Continue from a checkpoint instead of starting over */
+  resumeFrom?: OrchestrationCheckpoint;
+  /** Cancels pending model calls; the run rejects with the signal's reason */
+  signal?: AbortSignal;
 }
 
 export async function orchestrate(
@@ -52,71 +65,240 @@ export async function orchestrate(
     (spatialAgent as any)._temperatureOffset = options.temperatureOffset;
   }
 
-  const iterations: IterationRecord[] = [];
+  // Rejects a bad scoring config before any model is called
+  const scoring = resolveScoringConfig(config.scoring);
+  const resume = options?.resumeFrom;
+  const signal = options?.signal;
+  const iterations: IterationRecord[] = [...(resume?.iterations ?? [])];
+  let nextIteration = resume?.nextIteration ?? 1;
+  let refinementPending = resume?.refinementPending ?? false;
+  let converged = resume?.converged ?? false;
+  let finalScore: PlanScore | null = resume?.finalScore ?? null;
+  let costEstimate: CostEstimate | undefined = resume?.cost;
+  let allFurniture: FurnitureItem[] | undefined = resume?.furniture;
+
+  if (resume) {
+    logger.info({ phase: resume.phase, nextIteration }, 'Resuming orchestration from checkpoint');
+    emitProgress(onProgress, 'resumed', { phase: resume.phase, iteration: nextIteration });
+  }
 
   // Step 1: Normalize input
-  emitProgress(onProgress, 'agent_start', { agent: 'InputAgent', phase: 'normalization' });
-  const specResult = await inputAgent.execute(config);
-  const spec = specResult.data;
-  emitProgress(onProgress, 'agent_complete', {
-    agent: 'InputAgent',
-    durationMs: specResult.metadata.durationMs,
-    model: specResult.metadata.modelUsed,
-  });
+  let spec: NormalizedSpec;
+  if (resume) {
+    spec = resume.spec;
+  } else {
+    emitProgress(onProgress, 'agent_start', { agent: 'InputAgent', phase: 'normalization' });
+    const specResult = await inputAgent.execute(config, signal);
+    spec = specResult.data;
+    emitProgress(onProgress, 'agent_complete', {
+      agent: 'InputAgent',
+      durationMs: specResult.metadata.durationMs,
+      model: specResult.metadata.modelUsed,
+    });
+  }
+
+  let currentPlan: FloorPlanGraph | undefined = resume?.plan;
+  const saveCheckpoint = async (phase: CheckpointPhase) => {
+    await options?.onCheckpoint?.({
+      phase,
+      spec,
+      plan: currentPlan,
+      iterations: [...iterations],
+      nextIteration,
+      refinementPending,
+      converged,
+      finalScore: finalScore ?? undefined,
+      cost: costEstimate,
+      furniture: allFurniture,
+      savedAt: Date.now(),
+    });
+    // Phase boundary: a cancelled run stops here, with this phase already recorded
+    signal?.throwIfAborted();
+  };
+  if (!resume) await saveCheckpoint('spec');
 
   // Step 2: Generate initial spatial plan
-  emitProgress(onProgress, 'agent_start', { agent: 'SpatialAgent', phase: 'spatial_generation' });
-  const spatialResult = await spatialAgent.execute(spec);
-  let currentPlan = spatialResult.data;
-  emitProgress(onProgress, 'agent_complete', {
-    agent: 'SpatialAgent',
-    durationMs: spatialResult.metadata.durationMs,
-    model: spatialResult.metadata.modelUsed,
-  });
+  if (!currentPlan) {
+    const layoutEngine = config.layoutEngine ?? 'llm';
+    if (layoutEngine !== 'llm') {
+      emitProgress(onProgress, 'agent_start', { agent: 'LayoutSolver', phase: 'layout_solver' });
+      const solverStart = Date.now();
+      const seed = solveLayout(spec);
+      emitProgress(onProgress, 'agent_complete', {
+        agent: 'LayoutSolver',
+        durationMs: Date.now() - solverStart,
+        model: 'deterministic',
+      });
+      if (layoutEngine === 'solver') currentPlan = seed;
+      else spatialAgent._seedPlan = seed;
+    }
+    if (!currentPlan) {
+      emitProgress(onProgress, 'agent_start', { agent: 'SpatialAgent', phase: 'spatial_generation' });
+      const spatialResult = await spatialAgent.execute(spec, signal);
+      currentPlan = spatialResult.data;
+      emitProgress(onProgress, 'agent_complete', {
+        agent: 'SpatialAgent',
+        durationMs: spatialResult.metadata.durationMs,
+        model: spatialResult.metadata.modelUsed,
+      });
+    }
+    currentPlan = enforceRoomLocks(currentPlan, config.roomLocks, spec.plotGeometry);
+    await saveCheckpoint('spatial');
+  }
+
+  const refine = async (record: IterationRecord) => {
+    // Mechanical fixes first; only the violations they leave go to the LLM
+    emitProgress(onProgress, 'agent_start', { agent: 'PlanRepair', phase: 'auto_repair' });
+    const repairStart = Date.now();
+    const { plan, repairs } = repairPlan(record.plan, spec);
+    emitProgress(onProgress, 'agent_complete', {
+      agent: 'PlanRepair',
+      durationMs: Date.now() - repairStart,
+      model: 'deterministic',
+      changesApplied: repairs,
+    });
+    const residual = repairs.length > 0 ? validatePlan(plan, spec) : record;
+    const violations = {
+      geometryViolations: residual.geometryResult.violations,
+      culturalViolations: residual.culturalResult.violations,
+      regulatoryViolations: residual.regulatoryResult.violations,
+      connectivityViolations: residual.connectivityResult.violations,
+      egressViolations: residual.egressResult.violations,
+      structuralViolations: residual.structuralResult?.violations ?? [],
+      accessibilityViolations: residual.accessibilityResult?.violations ?? [],
+      lockViolations: residual.lockResult?.violations ?? [],
+    };
+    if (repairs.length > 0 && Object.values(violations).every(list => list.length === 0)) {
+      currentPlan = plan;
+      refinementPending = false;
+      await saveCheckpoint('refinement');
+      return;
+    }
+
+    emitProgress(onProgress, 'agent_start', { agent: 'RefinementAgent', phase: 'refinement' });
+    const refinementResult = await refinementAgent.execute({
+      plan,
+      spec,
+      ...violations,
+      critiques: record.critique.critiques,
+      metricFindings: repairs.length > 0
+        ? computeSpatialMetrics(plan.rooms, plan.adjacencies, config.projectType).findings
+        : record.spatialMetrics.findings,
+    }, signal);
+    // Whatever the LLM did to a locked room is undone
+    currentPlan = enforceRoomLocks(refinementResult.data.refinedPlan, config.roomLocks, spec.plotGeometry);
+    refinementPending = false;
+    emitProgress(onProgress, 'agent_complete', {
+      agent: 'RefinementAgent',
+      durationMs: refinementResult.metadata.durationMs,
+      model: refinementResult.metadata.modelUsed,
+      changesApplied: refinementResult.data.changesApplied,
+    });
+    await saveCheckpoint('refinement');
+  };
 
   // Step 3: Iterative refinement loop
-  let finalScore: PlanScore | null = null;
-  let converged = false;
+  // Checkpointed between scoring and refinement: finish that refinement first
+  if (refinementPending && iterations.length > 0) {
+    await refine(iterations[iterations.length - 1]);
+  }
 
-  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+  for (let i = nextIteration; i <= scoring.maxIterations && !converged; i++) {
+    const plan: FloorPlanGraph = currentPlan;
     emitProgress(onProgress, 'iteration_start', {
       iteration: i,
-      maxIterations: MAX_ITERATIONS,
+      maxIterations: scoring.maxIterations,
+    });
+
+    const validation = validatePlan(plan, spec);
+    const {
+      geometryResult,
+      culturalResult,
+      regulatoryResult,
+      connectivityResult,
+      egressResult,
+      structuralResult,
+      accessibilityResult,
+      lockResult,
+    } = validation;
+    emitProgress(onProgress, 'violation_update', {
+      iteration: i,
+      geometryViolations: geometryResult.violations.length,
+      geometryScore: geometryResult.score,
     });
 
-    // Deterministic validation
-    const vastuResult = validateVastu(
-      currentPlan.rooms,
-      spec.plotGeometry,
-      spec.vastuStrictness
-    );
     emitProgress(onProgress, 'violation_update', {
       iteration: i,
-      vastuViolations: vastuResult.violations.length,
-      vastuScore: vastuResult.score,
+      culturalViolations: culturalResult.violations.length,
+      culturalScore: culturalResult.score,
     });
 
-    const regulatoryResult = validateRegulatory(
-      currentPlan.rooms,
-      spec.plotGeometry,
-      spec.municipalConfig,
-      spec.setbackRequirements,
-      config.floors || 1
-    );
     emitProgress(onProgress, 'violation_update', {
       iteration: i,
       regulatoryViolations: regulatoryResult.violations.length,
       regulatoryScore: regulatoryResult.score,
     });
 
-    // Critic evaluation
+    emitProgress(onProgress, 'violation_update', {
+      iteration: i,
+      connectivityViolations: connectivityResult.violations.length,
+      connectivityScore: connectivityResult.score,
+    });
+
+    emitProgress(onProgress, 'violation_update', {
+      iteration: i,
+      egressViolations: egressResult.violations.length,
+      egressScore: egressResult.score,
+      maxTravelDistance: egressResult.maxTravelDistance,
+    });
+
+    if (structuralResult) {
+      emitProgress(onProgress, 'violation_update', {
+        iteration: i,
+        structuralViolations: structuralResult.violations.length,
+        structuralScore: structuralResult.score,
+      });
+    }
+
+    if (accessibilityResult) {
+      emitProgress(onProgress, 'violation_update', {
+        iteration: i,
+        accessibilityViolations: accessibilityResult.violations.length,
+        accessibilityScore: accessibilityResult.score,
+      });
+    }
+
+    if (lockResult) {
+      emitProgress(onProgress, 'violation_update', {
+        iteration: i,
+        lockViolations: lockResult.violations.length,
+        lockScore: lockResult.score,
+      });
+    }
+
+    const spatialMetrics = computeSpatialMetrics(plan.rooms, plan.adjacencies, config.projectType);
+    emitProgress(onProgress, 'metrics_update', {
+      iteration: i,
+      circulationRatio: spatialMetrics.circulationRatio,
+      efficiencyScore: spatialMetrics.efficiencyScore,
+      livabilityScore: spatialMetrics.livabilityScore,
+      findings: spatialMetrics.findings.length,
+    });
+
+    // Critic explains the validator and metric results; it does not score
     emitProgress(onProgress, 'agent_start', { agent: 'CriticAgent', phase: 'critique' });
     const critiqueResult = await criticAgent.execute({
-      plan: currentPlan,
+      plan,
       spec,
-      vastuResult,
+      geometryResult,
+      culturalResult,
       regulatoryResult,
-    });
+      connectivityResult,
+      egressResult,
+      structuralResult,
+      accessibilityResult,
+      metrics: spatialMetrics,
+    }, signal);
     const critique = critiqueResult.data;
     emitProgress(onProgress, 'agent_complete', {
       agent: 'CriticAgent',
@@ -124,13 +306,7 @@ export async function orchestrate(
       model: critiqueResult.metadata.modelUsed,
     });
 
-    // Score
-    const score = scorePlan(
-      regulatoryResult.score,
-      vastuResult.score,
-      critique.spatialEfficiency,
-      critique.overallConfidence
-    );
+    const score = scoreValidation(validation, spatialMetrics, scoring);
     finalScore = score;
 
     emitProgress(onProgress, 'score_update', {
@@ -141,75 +317,75 @@ export async function orchestrate(
     });
 
     // Record iteration
-    iterations.push({
+    const record: IterationRecord = {
       iteration: i,
-      plan: currentPlan,
-      vastuResult,
-      regulatoryResult,
+      plan,
+      ...validation,
+      spatialMetrics,
       critique,
       score,
-    });
+    };
+    iterations.push(record);
+    await options?.onIteration?.(record);
+
+    // Floors that do not stack cannot be built, whatever the weighted score
+    const misaligned = structuralResult?.violations.some(v => v.severity === 'critical') ?? false;
+    converged = score.passesThreshold && !misaligned;
+    nextIteration = i + 1;
+    // Refine if not converged and not the last iteration
+    refinementPending = !converged && i < scoring.maxIterations;
+    await saveCheckpoint('iteration');
 
-    // Check convergence
-    if (score.passesThreshold) {
-      converged = true;
+    if (converged) {
       logger.info({ iteration: i, score: score.finalScore }, 'Plan converged');
       break;
     }
 
-    // Refine if not last iteration
-    if (i < MAX_ITERATIONS) {
-      emitProgress(onProgress, 'agent_start', { agent: 'RefinementAgent', phase: 'refinement' });
-      const refinementResult = await refinementAgent.execute({
-        plan: currentPlan,
-        spec,
-        vastuViolations: vastuResult.violations,
-        regulatoryViolations: regulatoryResult.violations,
-        critiques: critique.critiques,
-      });
-      currentPlan = refinementResult.data.refinedPlan;
-      emitProgress(onProgress, 'agent_complete', {
-        agent: 'RefinementAgent',
-        durationMs: refinementResult.metadata.durationMs,
-        model: refinementResult.metadata.modelUsed,
-        changesApplied: refinementResult.data.changesApplied,
-      });
+    if (refinementPending) {
+      await refine(record);
     }
   }
 
-  // Step 4: Cost estimation
-  emitProgress(onProgress, 'agent_start', { agent: 'CostAgent', phase: 'cost_estimation' });
-  const costResult = await costAgent.execute({ plan: currentPlan, spec });
-  emitProgress(onProgress, 'agent_complete', {
-    agent: 'CostAgent',
-    durationMs: costResult.metadata.durationMs,
-    model: costResult.metadata.modelUsed,
-  });
-
-  // Step 5: Furniture placement
-  emitProgress(onProgress, 'agent_start', { agent: 'FurnitureAgent', phase: 'furniture_placement' });
-  let allFurniture: any[] = [];
-  try {
-    const furnitureResult = await furnitureAgent.execute({ rooms: currentPlan.rooms });
-    allFurniture = furnitureResult.data;
+  // Step 4: Structural grid and cost estimation
+  const structure = generateColumnGrid(currentPlan.rooms);
+  if (!costEstimate) {
+    emitProgress(onProgress, 'agent_start', { agent: 'CostAgent', phase: 'cost_estimation' });
+    const costResult = await costAgent.execute({ plan: currentPlan, spec, structure }, signal);
+    costEstimate = costResult.data;
     emitProgress(onProgress, 'agent_complete', {
-      agent: 'FurnitureAgent',
-      durationMs: furnitureResult.metadata.durationMs,
-      model: furnitureResult.metadata.modelUsed,
-    });
-  } catch (err) {
-    logger.warn({ err }, 'Furniture placement failed, continuing without furniture');
-    emitProgress(onProgress, 'agent_complete', {
-      agent: 'FurnitureAgent',
-      durationMs: 0,
-      model: 'skipped',
+      agent: 'CostAgent',
+      durationMs: costResult.metadata.durationMs,
+      model: costResult.metadata.modelUsed,
     });
+    await saveCheckpoint('cost');
+  }
+
+  // Step 5: Furniture placement
+  if (!allFurniture) {
+    emitProgress(onProgress, 'agent_start', { agent: 'FurnitureAgent', phase: 'furniture_placement' });
+    try {
+      const furnitureResult = await furnitureAgent.execute({ rooms: currentPlan.rooms }, signal);
+      allFurniture = furnitureResult.data;
+      emitProgress(onProgress, 'agent_complete', {
+        agent: 'FurnitureAgent',
+        durationMs: furnitureResult.metadata.durationMs,
+        model: furnitureResult.metadata.modelUsed,
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      logger.warn({ err }, 'Furniture placement failed, continuing without furniture');
+      allFurniture = [];
+      emitProgress(onProgress, 'agent_complete', {
+        agent: 'FurnitureAgent',
+        durationMs: 0,
+        model: 'skipped',
+      });
+    }
+    await saveCheckpoint('furniture');
   }
 
   // Step 6: Assemble final GeneratedPlan
   const lastIteration = iterations[iterations.length - 1];
-  const allComplianceRegulatory: ComplianceItem[] = lastIteration?.regulatoryResult.complianceItems || [];
-  const allComplianceCultural: ComplianceItem[] = lastIteration?.vastuResult.complianceItems || [];
 
   const planRooms = currentPlan.rooms.map(r => ({
     id: r.id,
@@ -219,9 +395,11 @@ export async function orchestrate(
     y: r.y,
     width: r.width,
     height: r.height,
+    polygon: r.polygon,
     features: r.features,
     guidance: r.guidance,
     floor: r.floor,
+    stairTurn: r.stairTurn,
   }));
 
   // Assemble per-floor data if multi-floor
@@ -230,11 +408,10 @@ export async function orchestrate(
   if (floorCount > 1) {
     floors = [];
     for (let f = 0; f < floorCount; f++) {
-      const floorRooms = planRooms.filter(r => (r.floor ?? 0) === f);
       floors.push({
         floorNumber: f,
         floorLabel: f === 0 ? 'Ground Floor' : `Floor ${f}`,
-        rooms: floorRooms.length > 0 ? floorRooms : planRooms, // fallback if floor field not set
+        rooms: planRooms.filter(r => (r.floor ?? 0) === f),
       });
     }
   }
@@ -242,17 +419,18 @@ export async function orchestrate(
   const finalPlan: GeneratedPlan = {
     designLog: currentPlan.designLog,
     rooms: planRooms,
+    plotBoundary: spec.plotGeometry.boundary,
     totalArea: currentPlan.totalArea,
     builtUpArea: currentPlan.builtUpArea,
     plotCoverageRatio: currentPlan.plotCoverageRatio,
-    compliance: {
-      regulatory: allComplianceRegulatory,
-      cultural: allComplianceCultural,
-    },
-    bom: costResult.data.bom,
-    totalCostRange: costResult.data.totalCostRange,
+    compliance: lastIteration
+      ? validationCompliance(lastIteration)
+      : { regulatory: [], cultural: [], fireSafety: [] },
+    bom: costEstimate.bom,
+    totalCostRange: costEstimate.totalCostRange,
     furniture: allFurniture.length > 0 ? allFurniture : undefined,
     floors,
+    structure,
   };
 
   const result: OrchestrationResult = {
@@ -0,0 +1,218 @@
+import { Type } from '@google/genai';
+import type { FloorData, GeneratedPlan, ModificationResult, ModificationReview, ProjectConfig } from '../types/shared.types.js';
+import type { ProgressCallback } from './design.orchestrator.js';
+import { InputAgent } from '../agents/input.agent.js';
+import { CostAgent } from '../agents/cost.agent.js';
+import { generateStructuredContent } from '../models/llm.client.js';
+import { getModelConfig } from '../models/model.router.js';
+import { resolveScoringConfig } from '../scoring/plan.scorer.js';
+import {
+  buildPlanGraph,
+  evaluatePlan,
+  introducedCriticalViolations,
+  prepareClientRooms,
+  validationCompliance,
+} from '../scoring/plan.evaluation.js';
+import { generateColumnGrid } from '../structure/column.grid.js';
+import { describeRoomLocks, restoreLockedRooms } from '../validators/lock.validator.js';
+
+export interface ModificationOptions {
+  signal?: AbortSignal;
+  /** Throw instead of returning the plan when the change adds a critical violation */
+  rejectNewCritical?: boolean;
+}
+
+/**
+ * Applies a client's change request to a plan. The plan is validated and
+ * scored before and after the change exactly as the orchestrator scores its
+ * own, locked rooms are put back, and the result is re-priced on its new walls.
+ */
+export async function modifyPlan(
+  plan: GeneratedPlan,
+  request: string,
+  config: ProjectConfig,
+  emit: ProgressCallback,
+  { signal, rejectNewCritical }: ModificationOptions = {}
+): Promise<ModificationResult> {
+  // The plan as it stands, checked the same way the orchestrator checks its own
+  emit({ type: 'agent_start', data: { agent: 'InputAgent', phase: 'normalization' } });
+  const specResult = await new InputAgent().execute(config, signal);
+  const spec = specResult.data;
+  emit({
+    type: 'agent_complete',
+    data: { agent: 'InputAgent', durationMs: specResult.metadata.durationMs, model: specResult.metadata.modelUsed },
+  });
+  const scoring = resolveScoringConfig(config.scoring);
+  const current = prepareClientRooms(plan.rooms);
+  const before = evaluatePlan(
+    buildPlanGraph(current.rooms, [...(plan.designLog || []), ...current.skipped], spec.plotGeometry),
+    spec,
+    scoring
+  );
+  // The progress overlay's score trajectory: iteration 0 is the plan before the change, 1 after it
+  emit({
+    type: 'score_update',
+    data: {
+      iteration: 0,
+      finalScore: before.score.finalScore,
+      breakdown: before.score.breakdown,
+      passesThreshold: before.score.passesThreshold,
+    },
+  });
+
+  const locks = config.roomLocks ?? [];
+  const prompt = `
+Act as a Senior Principal Architect. Modify the existing floor plan based on the user's request.
+
+**ORIGINAL SPECIFICATIONS**:
+- Plot: ${config.width}m x ${config.depth}m
+- Requirements: ${config.requirements.join(', ')}
+- Cultural System: ${config.culturalSystem}
+
+**CURRENT PLAN STATE**:
+- Rooms: ${JSON.stringify(plan.rooms)}
+${locks.length > 0 ? `
+**LOCKED ROOMS** (approved by the client; changes to them are reverted):
+${describeRoomLocks(locks)}
+` : ''}
+**MODIFICATION REQUEST**: "${request}"
+
+**INSTRUCTIONS**:
+1. Apply the modification if feasible.
+2. Adjust adjacent spaces to maintain 100% plot coverage and valid circulation.
+3. Ensure all Vastu/Regulatory rules are still met.
+4. Update the 'designLog' to reflect this change.
+
+Generate the complete updated floor plan JSON.`;
+
+  const modelConfig = getModelConfig('refinement');
+  emit({ type: 'agent_start', data: { agent: 'PlanModifier', phase: 'modification' } });
+  const modifyStart = Date.now();
+  const { data: modifiedPlan } = await generateStructuredContent<Pick<GeneratedPlan, 'designLog' | 'rooms'>>({
+    prompt,
+    modelConfig,
+    signal,
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        designLog: { type: Type.ARRAY, items: { type: Type.STRING } },
+        rooms: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING },
+              name: { type: Type.STRING },
+              type: { type: Type.STRING, enum: ['room', 'circulation', 'outdoor', 'setback', 'service'] },
+              x: { type: Type.NUMBER },
+              y: { type: Type.NUMBER },
+              width: { type: Type.NUMBER },
+              height: { type: Type.NUMBER },
+              polygon: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+                  required: ['x', 'y'],
+                },
+              },
+              features: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    type: { type: Type.STRING, enum: ['door', 'window', 'opening'] },
+                    wall: { type: Type.STRING, enum: ['top', 'bottom', 'left', 'right'] },
+                    position: { type: Type.NUMBER },
+                    width: { type: Type.NUMBER },
+                    edge: { type: Type.INTEGER },
+                  },
+                },
+              },
+              guidance: { type: Type.STRING },
+            },
+            required: ['id', 'name', 'type', 'x', 'y', 'width', 'height', 'features', 'guidance'],
+          },
+        },
+      },
+      required: ['designLog', 'rooms'],
+    },
+  });
+
+  emit({
+    type: 'agent_complete',
+    data: { agent: 'PlanModifier', durationMs: Date.now() - modifyStart, model: modelConfig.model },
+  });
+
+  // A locked room comes back as approved, whatever the model did to it
+  const modified = prepareClientRooms(modifiedPlan.rooms);
+  const { rooms, reverted } = restoreLockedRooms(modified.rooms, locks);
+  const modifiedGraph = buildPlanGraph(rooms, [...(modifiedPlan.designLog || []), ...modified.skipped, ...reverted], spec.plotGeometry);
+  emit({ type: 'agent_start', data: { agent: 'PlanValidator', phase: 'validation' } });
+  const validationStart = Date.now();
+  const after = evaluatePlan(modifiedGraph, spec, scoring);
+  const review: ModificationReview = {
+    scoreBefore: before.score.finalScore,
+    scoreAfter: after.score.finalScore,
+    scoreDelta: after.score.finalScore - before.score.finalScore,
+    breakdown: after.score.breakdown.map((b, i) => ({
+      category: b.category,
+      before: before.score.breakdown[i].score,
+      after: b.score,
+    })),
+    passesThreshold: after.score.passesThreshold,
+    newCriticalViolations: introducedCriticalViolations(before, after),
+  };
+  emit({
+    type: 'agent_complete',
+    data: { agent: 'PlanValidator', durationMs: Date.now() - validationStart, model: 'deterministic' },
+  });
+  emit({
+    type: 'score_update',
+    data: {
+      iteration: 1,
+      finalScore: after.score.finalScore,
+      breakdown: after.score.breakdown,
+      passesThreshold: after.score.passesThreshold,
+    },
+  });
+  if (rejectNewCritical && review.newCriticalViolations.length > 0) {
+    throw new Error(`Modification rejected — it introduces ${review.newCriticalViolations.length} critical violation(s): ${review.newCriticalViolations.join('; ')}`);
+  }
+
+  // Re-priced on the new walls, as at the end of a generation run
+  const structure = generateColumnGrid(modifiedGraph.rooms);
+  emit({ type: 'agent_start', data: { agent: 'CostAgent', phase: 'cost_estimation' } });
+  const costResult = await new CostAgent().execute({ plan: modifiedGraph, spec, structure }, signal);
+  const cost = costResult.data;
+  emit({
+    type: 'agent_complete',
+    data: { agent: 'CostAgent', durationMs: costResult.metadata.durationMs, model: costResult.metadata.modelUsed },
+  });
+
+  let floors: FloorData[] | undefined;
+  if ((config.floors || 1) > 1) {
+    floors = Array.from({ length: config.floors! }, (_, f) => ({
+      floorNumber: f,
+      floorLabel: f === 0 ? 'Ground Floor' : `Floor ${f}`,
+      rooms: rooms.filter(r => (r.floor ?? 0) === f),
+    }));
+  }
+
+  return {
+    plan: {
+      designLog: modifiedGraph.designLog,
+      rooms,
+      plotBoundary: spec.plotGeometry.boundary,
+      totalArea: modifiedGraph.totalArea,
+      builtUpArea: modifiedGraph.builtUpArea,
+      plotCoverageRatio: modifiedGraph.plotCoverageRatio,
+      compliance: validationCompliance(after),
+      bom: cost.bom,
+      totalCostRange: cost.totalCostRange,
+      floors,
+      structure,
+    },
+    review,
+  };
+}
@@ -0,0 +1,233 @@
+import type {
+  FloorPlanGraph,
+  NormalizedSpec,
+  PlanRepairResult,
+  RoomWithDirection,
+} from '../types/agent.types.js';
+import type { Room } from '../types/shared.types.js';
+import { enrichRoomsWithDirection, getPreferredDirections } from '../utils/direction.utils.js';
+import { buildAdjacencyGraph } from '../utils/adjacency.utils.js';
+import { findSharedWall, type Rect } from '../utils/geometry.utils.js';
+import { plotArea } from '../utils/polygon.utils.js';
+import { validateGeometry } from '../validators/geometry.validator.js';
+import { validateCultural } from '../validators/cultural.validator.js';
+import { getCulturalRulePack } from '../validators/rule-packs.js';
+import { validateRegulatory } from '../validators/regulatory.validator.js';
+import { validateConnectivity } from '../validators/connectivity.validator.js';
+import { validateEgress, resolveFireSafety } from '../validators/egress.validator.js';
+import { validateStructure } from '../validators/structural.validator.js';
+import { validateAccessibility } from '../validators/accessibility.validator.js';
+import { validateRoomLocks } from '../validators/lock.validator.js';
+
+const SCORE_EPSILON = 1e-6;
+const EDGE_TOLERANCE = 0.05; // meters
+const SWAPPABLE_TYPES: Room['type'][] = ['room', 'service'];
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const onFloor = (room: Room) => room.floor ?? 0;
+
+/**
+ * Deterministic fixes for violations that need no design judgement, tried
+ * before the refinement agent is called. Zero LLM calls.
+ * - A room reaching into a setback is cut back to the building envelope.
+ * - A room below its municipal minimum grows into an adjoining corridor; the
+ *   other rooms along that side of the corridor grow with it.
+ * - A room in the wrong Vastu zone trades places with a room of the same type
+ *   standing in one of its preferred directions.
+ * Each change is kept only when it raises at least one validator score and
+ * lowers none, so a repair never trades one violation for another (or moves
+ * a locked room).
+ */
+export function repairPlan(plan: FloorPlanGraph, spec: NormalizedSpec): PlanRepairResult {
+  const { config, plotGeometry, setbackRequirements, municipalConfig } = spec;
+  const culturalPack = getCulturalRulePack(config);
+  const fireSafety = resolveFireSafety(municipalConfig, config.projectType);
+  const floors = config.floors || 1;
+
+  const evaluate = (rooms: RoomWithDirection[]) => {
+    const adjacencies = buildAdjacencyGraph(rooms);
+    return {
+      geometry: validateGeometry(rooms, plotGeometry),
+      cultural: validateCultural(rooms, plotGeometry, spec.culturalStrictness, culturalPack),
+      regulatory: validateRegulatory(rooms, plotGeometry, municipalConfig, setbackRequirements),
+      connectivity: validateConnectivity(rooms, adjacencies, spec.adjacencyPreferences),
+      egress: validateEgress(rooms, adjacencies, fireSafety, spec.buildingHeight),
+      structural: floors > 1 ? validateStructure(rooms, floors) : undefined,
+      accessibility: config.accessibility ? validateAccessibility(rooms, config.accessibility) : undefined,
+      locks: config.roomLocks?.length ? validateRoomLocks(rooms, config.roomLocks) : undefined,
+    };
+  };
+  const scores = (evaluation: ReturnType<typeof evaluate>) =>
+    Object.values(evaluation).map(result => result?.score ?? 1);
+
+  let rooms = plan.rooms;
+  let current = evaluate(rooms);
+  const repairs: string[] = [];
+
+  const attempt = (candidate: Room[], note: string): boolean => {
+    const enriched = enrichRoomsWithDirection(candidate, plotGeometry);
+    const next = evaluate(enriched);
+    const [before, after] = [scores(current), scores(next)];
+    if (after.some((score, i) => score < before[i] - SCORE_EPSILON)) return false;
+    if (!after.some((score, i) => score > before[i] + SCORE_EPSILON)) return false;
+    rooms = enriched;
+    current = next;
+    repairs.push(note);
+    return true;
+  };
+
+  // 1. Setbacks (rectangular plots; irregular envelopes are left to the LLM)
+  if (!plotGeometry.boundary) {
+    const envelope: Rect = {
+      x: setbackRequirements.left,
+      y: setbackRequirements.front,
+      width: plotGeometry.width - setbackRequirements.left - setbackRequirements.right,
+      height: plotGeometry.depth - setbackRequirements.front - setbackRequirements.rear,
+    };
+    for (const violation of current.regulatory.violations.filter(v => v.category === 'setback')) {
+      const room = rooms.find(r => r.id === violation.roomId);
+      const clipped = room && !room.polygon ? intersectRect(room, envelope) : null;
+      if (!room || !clipped) continue;
+      attempt(
+        rooms.map(r => (r === room ? resize(room, clipped) : r)),
+        `Auto-repair: cut ${room.name} back to the setback line (now ${clipped.width}m x ${clipped.height}m)`
+      );
+    }
+  }
+
+  // 2. Minimum room sizes
+  for (const violation of current.regulatory.violations.filter(v => v.category === 'room_size')) {
+    const room = rooms.find(r => r.id === violation.roomId);
+    const minSize = room ? municipalConfig.minRoomSizes[room.classification] : undefined;
+    if (!room || !minSize || room.polygon) continue;
+    const corridors = rooms.filter(r =>
+      r.type === 'circulation' && r.classification !== 'staircase' && !r.polygon && onFloor(r) === onFloor(room)
+    );
+    for (const corridor of corridors) {
+      const candidate = borrowFromCorridor(rooms, room, corridor, minSize, municipalConfig.minCorridorWidth);
+      if (candidate && attempt(candidate, `Auto-repair: grew ${room.name} to ${minSize} sq.m by narrowing ${corridor.name}`)) break;
+    }
+  }
+
+  // 3. Cultural zones
+  for (const violation of current.cultural.violations) {
+    const room = rooms.find(r => r.id === violation.roomId);
+    if (!room || !SWAPPABLE_TYPES.includes(room.type)) continue;
+    const preferred = getPreferredDirections(room.classification);
+    const partners = rooms.filter(r =>
+      r.id !== room.id && r.type === room.type && onFloor(r) === onFloor(room) && preferred.includes(r.direction)
+    );
+    for (const partner of partners) {
+      const swapped = rooms.map(r => (r.id === room.id ? place(r, partner) : r.id === partner.id ? place(r, room) : r));
+      if (attempt(swapped, `Auto-repair: swapped ${room.name} and ${partner.name} to move ${room.name} to ${partner.direction}`)) break;
+    }
+  }
+
+  if (repairs.length === 0) return { plan, repairs };
+
+  const builtUpArea = rooms
+    .filter(r => r.type === 'room' || r.type === 'service')
+    .reduce((sum, r) => sum + r.area, 0);
+  const circulationArea = rooms
+    .filter(r => r.type === 'circulation')
+    .reduce((sum, r) => sum + r.area, 0);
+  const setbackArea = rooms
+    .filter(r => r.type === 'setback')
+    .reduce((sum, r) => sum + r.area, 0);
+
+  return {
+    plan: {
+      rooms,
+      adjacencies: buildAdjacencyGraph(rooms),
+      designLog: [...plan.designLog, '--- Auto-Repair Pass ---', ...repairs],
+      totalArea: plotArea(plotGeometry),
+      builtUpArea,
+      circulationArea,
+      setbackArea,
+      plotCoverageRatio: builtUpArea / plotArea(plotGeometry),
+    },
+    repairs,
+  };
+}
+
+/**
+ * Widens `room` into `corridor` far enough to reach `minSize`. The corridor's
+ * facing wall moves, so every room along that side moves its wall with it;
+ * they must tile the side exactly, and the corridor must stay `minWidth` wide.
+ * Returns the new room list, or null when the corridor cannot give the space.
+ */
+function borrowFromCorridor(
+  rooms: RoomWithDirection[],
+  room: RoomWithDirection,
+  corridor: RoomWithDirection,
+  minSize: number,
+  minWidth: number
+): Room[] | null {
+  const wall = findSharedWall(room, corridor);
+  if (!wall) return null;
+  const horizontal = wall.orientation === 'horizontal';
+  const depth = Math.ceil(((minSize - room.area) / (horizontal ? room.width : room.height)) * 100) / 100;
+  if ((horizontal ? corridor.height : corridor.width) - depth < minWidth - EDGE_TOLERANCE) return null;
+
+  const [start, end] = horizontal
+    ? [corridor.x, corridor.x + corridor.width]
+    : [corridor.y, corridor.y + corridor.height];
+  const side = rooms.filter(r =>
+    r !== corridor && r.type !== 'setback' && onFloor(r) === onFloor(corridor) &&
+    findSharedWall(r, corridor)?.wallB === wall.wallB
+  );
+  const span = (r: Room) => (horizontal ? [r.x, r.x + r.width] : [r.y, r.y + r.height]);
+  if (side.some(r => r.polygon || span(r)[0] < start - EDGE_TOLERANCE || span(r)[1] > end + EDGE_TOLERANCE)) return null;
+  const covered = side.reduce((sum, r) => sum + span(r)[1] - span(r)[0], 0);
+  if (Math.abs(covered - (end - start)) > EDGE_TOLERANCE) return null;
+
+  // wallB is the corridor wall the rooms stand against
+  const grow = (r: Room): Rect => {
+    switch (wall.wallB) {
+      case 'top': return { x: r.x, y: r.y, width: r.width, height: round(r.height + depth) };
+      case 'bottom': return { x: r.x, y: round(r.y - depth), width: r.width, height: round(r.height + depth) };
+      case 'left': return { x: r.x, y: r.y, width: round(r.width + depth), height: r.height };
+      case 'right': return { x: round(r.x - depth), y: r.y, width: round(r.width + depth), height: r.height };
+    }
+  };
+  const narrowed: Rect = {
+    x: wall.wallB === 'left' ? round(corridor.x + depth) : corridor.x,
+    y: wall.wallB === 'top' ? round(corridor.y + depth) : corridor.y,
+    width: horizontal ? corridor.width : round(corridor.width - depth),
+    height: horizontal ? round(corridor.height - depth) : corridor.height,
+  };
+  return rooms.map(r => (r === corridor ? resize(r, narrowed) : side.includes(r) ? resize(r, grow(r)) : r));
+}
+
+function intersectRect(a: Rect, b: Rect): Rect | null {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const width = round(Math.min(a.x + a.width, b.x + b.width) - x);
+  const height = round(Math.min(a.y + a.height, b.y + b.height) - y);
+  return width > 0 && height > 0 ? { x: round(x), y: round(y), width, height } : null;
+}
+
+/** Moves a rectangular room's walls, keeping each opening where it was on its wall */
+function resize<T extends Room>(room: T, rect: Rect): T {
+  const features = room.features.map(feature => {
+    const alongX = feature.wall === 'top' || feature.wall === 'bottom';
+    const centre = alongX ? room.x + room.width * feature.position : room.y + room.height * feature.position;
+    const position = (centre - (alongX ? rect.x : rect.y)) / (alongX ? rect.width : rect.height);
+    return { ...feature, position: Math.round(Math.min(Math.max(position, 0), 1) * 1000) / 1000 };
+  });
+  return { ...room, ...rect, features };
+}
+
+/** `room` moved into `spot`'s outline, taking over its openings */
+function place<T extends Room>(room: T, spot: Room): T {
+  const { polygon: _polygon, ...rest } = room;
+  return {
+    ...rest,
+    x: spot.x,
+    y: spot.y,
+    width: spot.width,
+    height: spot.height,
+    features: spot.features,
+    ...(spot.polygon ? { polygon: spot.polygon } : {}),
+  } as T;
+}
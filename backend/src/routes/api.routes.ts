@@ -1,15 +1,30 @@
 import { Router } from 'express';
 import type { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { orchestrate } from '../orchestrator/design.orchestrator.js';
+import { orchestrate, type ProgressCallback } from '../orchestrator/design.orchestrator.js';
+import { modifyPlan } from '../orchestrator/plan.modifier.js';
 import { FurnitureAgent } from '../agents/furniture.agent.js';
-import { createJob, getJob, updateJob } from '../memory/session.memory.js';
+import { getJobStore } from '../memory/session.memory.js';
+import { abortJobRun, endJobRun, startJobRun } from '../memory/job.runs.js';
 import { generationLimiter } from '../middleware/rate-limiter.js';
-import { generateStructuredContent } from '../models/gemini.client.js';
+import { requireAdmin } from '../middleware/auth.middleware.js';
+import { generateStructuredContent } from '../models/llm.client.js';
 import { getModelConfig } from '../models/model.router.js';
 import { logger } from '../utils/logger.js';
+import { listMunicipalCodes } from '../validators/municipal-codes.js';
+import { resolveScoringConfig } from '../scoring/plan.scorer.js';
+import { LAYOUT_ENGINES } from '../layout/layout.solver.js';
+import { ROOM_LOCK_MODES, describeRoomLocks } from '../validators/lock.validator.js';
 import { Type } from '@google/genai';
-import type { ProjectConfig, GeneratedPlan, ModificationAnalysis, MaterialEstimationConfig, MaterialReport } from '../types/shared.types.js';
+import type {
+  ProjectConfig,
+  GeneratedPlan,
+  ModificationAnalysis,
+  MaterialEstimationConfig,
+  MaterialReport,
+  JobKind,
+} from '../types/shared.types.js';
+import type { GenerationJob, JobQuery, OrchestrationCheckpoint } from '../types/agent.types.js';
 
 const router = Router();
 
@@ -40,6 +55,157 @@ function broadcastSSE(jobId: string, event: { type: string; data: any }): void {
   }
 }
 
+/**
+ * Aborts a job's orchestration if it runs here and records it as cancelled.
+ * The run is aborted first so it cannot record a result over the cancellation.
+ * Progress and checkpoint are kept, so the job shows how far it got.
+ */
+async function cancelJob(job: GenerationJob): Promise<void> {
+  const cancelledAt = Date.now();
+  abortJobRun(job.jobId, new Error('Generation cancelled'));
+  await getJobStore().updateJob(job.jobId, { status: 'cancelled', cancelledAt });
+  logger.info({ jobId: job.jobId, phase: job.progress.phase, checkpoint: job.checkpoint?.phase }, 'Generation cancelled');
+  broadcastSSE(job.jobId, {
+    type: 'cancelled',
+    data: { progress: job.progress, checkpointPhase: job.checkpoint?.phase, resumable: !!job.config, cancelledAt },
+  });
+}
+
+/** Why the orchestrator would reject this config's scoring section, layout engine or room locks, or null */
+function projectConfigError(config: ProjectConfig): string | null {
+  if (config.layoutEngine !== undefined && !LAYOUT_ENGINES.includes(config.layoutEngine)) {
+    return `Unknown layout engine "${config.layoutEngine}" (expected ${LAYOUT_ENGINES.join(', ')})`;
+  }
+  const badLock = config.roomLocks?.find(lock => !lock.roomId || !lock.room || !ROOM_LOCK_MODES.includes(lock.mode));
+  if (badLock) {
+    return `Room lock "${badLock.roomId}" needs the approved room and a mode (${ROOM_LOCK_MODES.join(', ')})`;
+  }
+  try {
+    resolveScoringConfig(config.scoring);
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+}
+
+/**
+ * Runs (or resumes) the orchestrator for a stored job, persisting progress,
+ * iteration records and phase checkpoints, and relaying events to SSE clients.
+ */
+async function runGenerationJob(jobId: string, config: ProjectConfig, resumeFrom?: OrchestrationCheckpoint): Promise<void> {
+  const store = getJobStore();
+  const controller = startJobRun(jobId);
+  try {
+    await store.updateJob(jobId, { status: 'running', error: undefined, cancelledAt: undefined });
+    const { maxIterations } = resolveScoringConfig(config.scoring);
+
+    const result = await orchestrate(config, (event) => {
+      // Update job progress
+      store.updateJob(jobId, {
+        progress: {
+          phase: event.type,
+          iteration: event.data.iteration || 0,
+          maxIterations,
+          agentName: event.data.agent,
+        },
+      }).catch(err => logger.warn({ err, jobId }, 'Job progress update failed'));
+      // Broadcast to SSE clients
+      broadcastSSE(jobId, event);
+    }, {
+      resumeFrom,
+      signal: controller.signal,
+      onIteration: (record) => store.appendIteration(jobId, record),
+      onCheckpoint: (checkpoint) => store.updateJob(jobId, { checkpoint }),
+    });
+    // Cancelled as the last phase finished: the cancellation stands
+    if (controller.signal.aborted) return;
+
+    await store.updateJob(jobId, {
+      status: 'completed',
+      result,
+    });
+
+    broadcastSSE(jobId, { type: 'completed', data: completedEventData({ result }) });
+  } catch (err: any) {
+    // cancelJob has already recorded the cancellation
+    if (controller.signal.aborted) return;
+
+    logger.error({ err, jobId }, 'Generation failed');
+    await store.updateJob(jobId, {
+      status: 'failed',
+      error: err.message,
+    }).catch(storeErr => logger.error({ err: storeErr, jobId }, 'Job failure could not be recorded'));
+    broadcastSSE(jobId, {
+      type: 'error',
+      data: { message: err.message, resumable: true },
+    });
+  } finally {
+    endJobRun(jobId, controller);
+  }
+}
+
+/** Payload of a job's `completed` event: a generation summary, or the output of any other job */
+function completedEventData(job: Pick<GenerationJob, 'result' | 'output'>): Record<string, unknown> {
+  if (job.result) {
+    return {
+      finalPlan: job.result.finalPlan,
+      finalScore: job.result.finalScore.finalScore,
+      converged: job.result.converged,
+      iterationCount: job.result.iterations.length,
+    };
+  }
+  return { result: job.output };
+}
+
+/**
+ * Stores a modification, estimation or image analysis job and runs it in the
+ * background. Its progress events reach SSE clients like a generation's, and
+ * what `task` returns becomes the job's output. These jobs cannot be resumed.
+ */
+async function startTaskJob(
+  req: Request,
+  kind: Exclude<JobKind, 'generation'>,
+  task: (emit: ProgressCallback, signal: AbortSignal) => Promise<NonNullable<GenerationJob['output']>>
+): Promise<string> {
+  const jobId = uuidv4();
+  const store = getJobStore();
+  await store.createJob(jobId, req.userId || 'anonymous', kind);
+
+  const controller = startJobRun(jobId);
+  void (async () => {
+    try {
+      await store.updateJob(jobId, { status: 'running' });
+      const output = await task((event) => {
+        store.updateJob(jobId, {
+          progress: { phase: event.type, iteration: 0, maxIterations: 0, agentName: event.data.agent },
+        }).catch(err => logger.warn({ err, jobId }, 'Job progress update failed'));
+        broadcastSSE(jobId, event);
+      }, controller.signal);
+      if (controller.signal.aborted) return;
+
+      await store.updateJob(jobId, { status: 'completed', output });
+      broadcastSSE(jobId, { type: 'completed', data: completedEventData({ output }) });
+    } catch (err: any) {
+      // cancelJob has already recorded the cancellation
+      if (controller.signal.aborted) return;
+
+      logger.error({ err, jobId, kind }, 'Job failed');
+      await store.updateJob(jobId, {
+        status: 'failed',
+        error: err.message,
+      }).catch(storeErr => logger.error({ err: storeErr, jobId }, 'Job failure could not be recorded'));
+      broadcastSSE(jobId, {
+        type: 'error',
+        data: { message: err.message, resumable: false },
+      });
+    } finally {
+      endJobRun(jobId, controller);
+    }
+  })();
+
+  return jobId;
+}
+
 // POST /api/generate — Start async generation
 router.post('/generate', generationLimiter, async (req: Request, res: Response) => {
   try {
@@ -48,56 +214,20 @@ router.post('/generate', generationLimiter, async (req: Request, res: Response)
       res.status(400).json({ error: 'Invalid project configuration' });
       return;
     }
+    const configError = projectConfigError(config);
+    if (configError) {
+      res.status(400).json({ error: configError });
+      return;
+    }
 
     const jobId = uuidv4();
     const userId = req.userId || 'anonymous';
-    createJob(jobId, userId);
+    const store = getJobStore();
+    await store.createJob(jobId, userId);
+    await store.updateJob(jobId, { config });
 
     // Start orchestration asynchronously
-    (async () => {
-      try {
-        updateJob(jobId, { status: 'running' });
-
-        const result = await orchestrate(config, (event) => {
-          // Update job progress
-          updateJob(jobId, {
-            progress: {
-              phase: event.type,
-              iteration: event.data.iteration || 0,
-              maxIterations: 3,
-              agentName: event.data.agent,
-            },
-          });
-          // Broadcast to SSE clients
-          broadcastSSE(jobId, event);
-        });
-
-        updateJob(jobId, {
-          status: 'completed',
-          result,
-        });
-
-        broadcastSSE(jobId, {
-          type: 'completed',
-          data: {
-            finalPlan: result.finalPlan,
-            finalScore: result.finalScore.finalScore,
-            converged: result.converged,
-            iterationCount: result.iterations.length,
-          },
-        });
-      } catch (err: any) {
-        logger.error({ err, jobId }, 'Generation failed');
-        updateJob(jobId, {
-          status: 'failed',
-          error: err.message,
-        });
-        broadcastSSE(jobId, {
-          type: 'error',
-          data: { message: err.message },
-        });
-      }
-    })();
+    void runGenerationJob(jobId, config);
 
     res.json({ jobId });
   } catch (err: any) {
@@ -106,88 +236,193 @@ router.post('/generate', generationLimiter, async (req: Request, res: Response)
   }
 });
 
-// GET /api/generate/:jobId/stream — SSE stream
-router.get('/generate/:jobId/stream', (req: Request, res: Response) => {
-  const jobId = req.params.jobId as string;
-  const job = getJob(jobId);
+// POST /api/generate/:jobId/resume — Continue a failed or cancelled job from its last checkpoint
+router.post('/generate/:jobId/resume', generationLimiter, async (req: Request, res: Response) => {
+  try {
+    const jobId = req.params.jobId as string;
+    const store = getJobStore();
+    const job = await store.getJob(jobId);
 
-  if (!job) {
-    res.status(404).json({ error: 'Job not found' });
-    return;
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    if (job.userId !== (req.userId || 'anonymous')) {
+      res.status(403).json({ error: 'Job belongs to another user' });
+      return;
+    }
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      res.status(409).json({ error: `Only failed or cancelled jobs can be resumed (job is ${job.status})` });
+      return;
+    }
+    if (!job.config) {
+      res.status(409).json({ error: 'Job has no stored configuration to resume from' });
+      return;
+    }
+
+    await store.updateJob(jobId, { status: 'pending', resumeCount: (job.resumeCount ?? 0) + 1 });
+    void runGenerationJob(jobId, job.config, job.checkpoint);
+
+    res.json({ jobId, resumedFrom: job.checkpoint?.phase ?? null });
+  } catch (err: any) {
+    logger.error({ err }, 'Error resuming generation');
+    res.status(500).json({ error: err.message });
   }
+});
 
-  // Set up SSE
-  res.writeHead(200, {
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    Connection: 'keep-alive',
-    'X-Accel-Buffering': 'no',
-  });
+// DELETE /api/generate/:jobId — Cancel a pending or running job
+router.delete('/generate/:jobId', async (req: Request, res: Response) => {
+  try {
+    const jobId = req.params.jobId as string;
+    const job = await getJobStore().getJob(jobId);
 
-  // Send initial status
-  res.write(`data: ${JSON.stringify({ type: 'connected', data: { jobId, status: job.status } })}\n\n`);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    if (job.userId !== (req.userId || 'anonymous')) {
+      res.status(403).json({ error: 'Job belongs to another user' });
+      return;
+    }
+    if (job.status !== 'pending' && job.status !== 'running') {
+      res.status(409).json({ error: `Only pending or running jobs can be cancelled (job is ${job.status})` });
+      return;
+    }
 
-  // If already completed, send the result immediately
-  if (job.status === 'completed' && job.result) {
-    res.write(`data: ${JSON.stringify({
-      type: 'completed',
-      data: {
-        finalPlan: job.result.finalPlan,
-        finalScore: job.result.finalScore.finalScore,
-        converged: job.result.converged,
-        iterationCount: job.result.iterations.length,
-      },
-    })}\n\n`);
-    res.end();
-    return;
-  }
+    await cancelJob(job);
 
-  if (job.status === 'failed') {
-    res.write(`data: ${JSON.stringify({ type: 'error', data: { message: job.error } })}\n\n`);
-    res.end();
-    return;
+    res.json({ jobId, status: 'cancelled', progress: job.progress, checkpointPhase: job.checkpoint?.phase ?? null });
+  } catch (err: any) {
+    logger.error({ err }, 'Error cancelling generation');
+    res.status(500).json({ error: err.message });
   }
+});
 
-  // Register SSE client
-  addSSEClient(jobId as string, res);
+// GET /api/generate/:jobId/stream — SSE stream
+router.get('/generate/:jobId/stream', async (req: Request, res: Response) => {
+  try {
+    const jobId = req.params.jobId as string;
+    const job = await getJobStore().getJob(jobId);
 
-  req.on('close', () => {
-    removeSSEClient(jobId as string, res);
-  });
-});
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
 
-// GET /api/generate/:jobId/status — Polling fallback
-router.get('/generate/:jobId/status', (req: Request, res: Response) => {
-  const jobId = req.params.jobId as string;
-  const job = getJob(jobId);
+    // Set up SSE
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
 
-  if (!job) {
-    res.status(404).json({ error: 'Job not found' });
-    return;
+    // Send initial status
+    res.write(`data: ${JSON.stringify({ type: 'connected', data: { jobId, status: job.status } })}\n\n`);
+
+    // If already completed, send the result immediately
+    if (job.status === 'completed') {
+      res.write(`data: ${JSON.stringify({ type: 'completed', data: completedEventData(job) })}\n\n`);
+      res.end();
+      return;
+    }
+
+    if (job.status === 'failed') {
+      res.write(`data: ${JSON.stringify({ type: 'error', data: { message: job.error, resumable: !!job.config, checkpointPhase: job.checkpoint?.phase } })}\n\n`);
+      res.end();
+      return;
+    }
+
+    if (job.status === 'cancelled') {
+      res.write(`data: ${JSON.stringify({ type: 'cancelled', data: { progress: job.progress, checkpointPhase: job.checkpoint?.phase, resumable: !!job.config, cancelledAt: job.cancelledAt } })}\n\n`);
+      res.end();
+      return;
+    }
+
+    // Register SSE client
+    addSSEClient(jobId as string, res);
+
+    req.on('close', () => {
+      removeSSEClient(jobId as string, res);
+    });
+  } catch (err: any) {
+    logger.error({ err }, 'Error opening job stream');
+    // Once the stream is open the client only sees it close
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(500).json({ error: err.message });
   }
+});
 
-  const response: any = {
-    jobId: job.jobId,
-    status: job.status,
-    progress: job.progress,
-  };
+// GET /api/generate/:jobId/status — Polling fallback
+router.get('/generate/:jobId/status', async (req: Request, res: Response) => {
+  try {
+    const jobId = req.params.jobId as string;
+    const job = await getJobStore().getJob(jobId);
 
-  if (job.status === 'completed' && job.result) {
-    response.result = {
-      finalPlan: job.result.finalPlan,
-      finalScore: job.result.finalScore.finalScore,
-      converged: job.result.converged,
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    const response: any = {
+      jobId: job.jobId,
+      kind: job.kind ?? 'generation',
+      status: job.status,
+      progress: job.progress,
     };
-  }
 
-  if (job.status === 'failed') {
-    response.error = job.error;
+    if (job.status === 'completed' && job.result) {
+      response.result = {
+        finalPlan: job.result.finalPlan,
+        finalScore: job.result.finalScore.finalScore,
+        converged: job.result.converged,
+      };
+    } else if (job.status === 'completed') {
+      response.result = job.output;
+    }
+
+    if (job.status === 'failed') {
+      response.error = job.error;
+      response.resumable = !!job.config;
+      response.checkpointPhase = job.checkpoint?.phase;
+    }
+
+    if (job.status === 'cancelled') {
+      response.cancelledAt = job.cancelledAt;
+      response.resumable = !!job.config;
+      response.checkpointPhase = job.checkpoint?.phase;
+    }
+
+    res.json(response);
+  } catch (err: any) {
+    logger.error({ err }, 'Error reading job status');
+    res.status(500).json({ error: err.message });
   }
+});
 
-  res.json(response);
+// GET /api/generate/:jobId/iterations — Per-iteration plans, validation results and scores
+router.get('/generate/:jobId/iterations', async (req: Request, res: Response) => {
+  try {
+    const jobId = req.params.jobId as string;
+    const store = getJobStore();
+    const job = await store.getJob(jobId);
+
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    res.json({ jobId, iterations: await store.getIterations(jobId) });
+  } catch (err: any) {
+    logger.error({ err }, 'Error reading job iterations');
+    res.status(500).json({ error: err.message });
+  }
 });
 
-// POST /api/analyze-image — Image analysis
+// POST /api/analyze-image — Image analysis, as a background job
 router.post('/analyze-image', async (req: Request, res: Response) => {
   try {
     const { image } = req.body;
@@ -196,9 +431,10 @@ router.post('/analyze-image', async (req: Request, res: Response) => {
       return;
     }
 
-    const base64Data = image.split(',')[1] || image;
+    const jobId = await startTaskJob(req, 'image_analysis', async (emit, signal) => {
+      const base64Data = image.split(',')[1] || image;
 
-    const prompt = `
+      const prompt = `
 Analyze this architectural floor plan image with expert precision.
 
 **ANALYSIS TASKS**:
@@ -212,104 +448,113 @@ Analyze this architectural floor plan image with expert precision.
 
 **OUTPUT FORMAT**: Strictly follow the JSON schema provided.`;
 
-    const modelConfig = getModelConfig('spatial');
-    const { data: plan } = await generateStructuredContent<GeneratedPlan>({
-      prompt,
-      modelConfig,
-      imageParts: [{
-        inlineData: { mimeType: 'image/jpeg', data: base64Data },
-      }],
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          designLog: { type: Type.ARRAY, items: { type: Type.STRING } },
-          rooms: {
-            type: Type.ARRAY,
-            items: {
+      const modelConfig = getModelConfig('spatial');
+      emit({ type: 'agent_start', data: { agent: 'ImageAnalyzer', phase: 'image_analysis' } });
+      const start = Date.now();
+      const { data: plan } = await generateStructuredContent<GeneratedPlan>({
+        prompt,
+        modelConfig,
+        signal,
+        imageParts: [{
+          inlineData: { mimeType: 'image/jpeg', data: base64Data },
+        }],
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            designLog: { type: Type.ARRAY, items: { type: Type.STRING } },
+            rooms: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  name: { type: Type.STRING },
+                  type: { type: Type.STRING, enum: ['room', 'circulation', 'outdoor', 'setback', 'service'] },
+                  x: { type: Type.NUMBER },
+                  y: { type: Type.NUMBER },
+                  width: { type: Type.NUMBER },
+                  height: { type: Type.NUMBER },
+                  features: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        type: { type: Type.STRING, enum: ['door', 'window', 'opening'] },
+                        wall: { type: Type.STRING, enum: ['top', 'bottom', 'left', 'right'] },
+                        position: { type: Type.NUMBER },
+                        width: { type: Type.NUMBER },
+                      },
+                    },
+                  },
+                  guidance: { type: Type.STRING },
+                },
+                required: ['id', 'name', 'type', 'guidance'],
+              },
+            },
+            totalArea: { type: Type.NUMBER },
+            builtUpArea: { type: Type.NUMBER },
+            plotCoverageRatio: { type: Type.NUMBER },
+            compliance: {
               type: Type.OBJECT,
               properties: {
-                id: { type: Type.STRING },
-                name: { type: Type.STRING },
-                type: { type: Type.STRING, enum: ['room', 'circulation', 'outdoor', 'setback', 'service'] },
-                x: { type: Type.NUMBER },
-                y: { type: Type.NUMBER },
-                width: { type: Type.NUMBER },
-                height: { type: Type.NUMBER },
-                features: {
+                regulatory: {
                   type: Type.ARRAY,
                   items: {
                     type: Type.OBJECT,
                     properties: {
-                      type: { type: Type.STRING, enum: ['door', 'window', 'opening'] },
-                      wall: { type: Type.STRING, enum: ['top', 'bottom', 'left', 'right'] },
-                      position: { type: Type.NUMBER },
-                      width: { type: Type.NUMBER },
+                      rule: { type: Type.STRING },
+                      status: { type: Type.STRING, enum: ['PASS', 'FAIL', 'WARN', 'UNKNOWN'] },
+                      message: { type: Type.STRING },
+                      recommendation: { type: Type.STRING },
                     },
                   },
                 },
-                guidance: { type: Type.STRING },
-              },
-              required: ['id', 'name', 'type', 'guidance'],
-            },
-          },
-          totalArea: { type: Type.NUMBER },
-          builtUpArea: { type: Type.NUMBER },
-          plotCoverageRatio: { type: Type.NUMBER },
-          compliance: {
-            type: Type.OBJECT,
-            properties: {
-              regulatory: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    rule: { type: Type.STRING },
-                    status: { type: Type.STRING, enum: ['PASS', 'FAIL', 'WARN', 'UNKNOWN'] },
-                    message: { type: Type.STRING },
-                    recommendation: { type: Type.STRING },
+                cultural: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      rule: { type: Type.STRING },
+                      status: { type: Type.STRING, enum: ['PASS', 'FAIL', 'WARN', 'UNKNOWN'] },
+                      message: { type: Type.STRING },
+                      recommendation: { type: Type.STRING },
+                    },
                   },
                 },
               },
-              cultural: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    rule: { type: Type.STRING },
-                    status: { type: Type.STRING, enum: ['PASS', 'FAIL', 'WARN', 'UNKNOWN'] },
-                    message: { type: Type.STRING },
-                    recommendation: { type: Type.STRING },
-                  },
+            },
+            bom: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  material: { type: Type.STRING },
+                  quantity: { type: Type.STRING },
+                  unit: { type: Type.STRING },
+                  estimatedCost: { type: Type.NUMBER },
                 },
               },
             },
-          },
-          bom: {
-            type: Type.ARRAY,
-            items: {
+            totalCostRange: {
               type: Type.OBJECT,
               properties: {
-                material: { type: Type.STRING },
-                quantity: { type: Type.STRING },
-                unit: { type: Type.STRING },
-                estimatedCost: { type: Type.NUMBER },
+                min: { type: Type.NUMBER },
+                max: { type: Type.NUMBER },
+                currency: { type: Type.STRING },
               },
             },
           },
-          totalCostRange: {
-            type: Type.OBJECT,
-            properties: {
-              min: { type: Type.NUMBER },
-              max: { type: Type.NUMBER },
-              currency: { type: Type.STRING },
-            },
-          },
         },
-      },
+      });
+      emit({
+        type: 'agent_complete',
+        data: { agent: 'ImageAnalyzer', durationMs: Date.now() - start, model: modelConfig.model },
+      });
+
+      // The job output is rewritten on every update; the client already holds the image
+      return plan;
     });
-
-    plan.imageUrl = image;
-    res.json(plan);
+    res.json({ jobId });
   } catch (err: any) {
     logger.error({ err }, 'Image analysis failed');
     res.status(500).json({ error: err.message });
@@ -330,7 +575,13 @@ router.post('/modify/analyze', async (req: Request, res: Response) => {
       res.status(400).json({ error: 'Missing plan, request, or config' });
       return;
     }
+    const configError = projectConfigError(config);
+    if (configError) {
+      res.status(400).json({ error: configError });
+      return;
+    }
 
+    const locks = config.roomLocks ?? [];
     const chatContext = chatHistory && chatHistory.length > 0
       ? `\n**CONVERSATION HISTORY**:\n${chatHistory.map(m => `${m.role}: ${m.content}`).join('\n')}\n`
       : '';
@@ -342,13 +593,17 @@ ${chatContext}
 - Project Type: ${config.projectType}
 - Cultural System: ${config.culturalSystem} (Vastu Level: ${config.vastuLevel})
 - Current Layout: ${plan.rooms.map(r => `${r.name} (${r.width}x${r.height}m) at (${r.x},${r.y})`).join(', ')}
-
+${locks.length > 0 ? `
+**LOCKED ROOMS** (approved by the client):
+${describeRoomLocks(locks)}
+` : ''}
 **USER REQUEST**: "${request}"
 
 **ANALYSIS TASKS**:
 1. Check Vastu/Cultural compliance of the requested change.
 2. Check Regulatory compliance (setbacks, minimum dimensions).
-3. Assess structural/functional feasibility.
+3. Assess structural/functional feasibility.${locks.length > 0 ? `
+4. A change to a locked room cannot be applied until the room is unlocked: mark it NOT_RECOMMENDED and say which lock is in the way.` : ''}
 
 Return feasibility, implications, and suggestions.`;
 
@@ -378,143 +633,38 @@ Return feasibility, implications, and suggestions.`;
   }
 });
 
-// POST /api/modify/apply — Apply modification
+// POST /api/modify/apply — Apply modification, as a background job
 router.post('/modify/apply', async (req: Request, res: Response) => {
   try {
-    const { plan, request, config } = req.body as {
+    const { plan, request, config, rejectNewCritical } = req.body as {
       plan: GeneratedPlan;
       request: string;
       config: ProjectConfig;
+      /** Fail the job instead of returning the plan when the change adds a critical violation */
+      rejectNewCritical?: boolean;
     };
 
     if (!plan || !request || !config) {
       res.status(400).json({ error: 'Missing plan, request, or config' });
       return;
     }
+    const configError = projectConfigError(config);
+    if (configError) {
+      res.status(400).json({ error: configError });
+      return;
+    }
 
-    const prompt = `
-Act as a Senior Principal Architect. Modify the existing floor plan based on the user's request.
-
-**ORIGINAL SPECIFICATIONS**:
-- Plot: ${config.width}m x ${config.depth}m
-- Requirements: ${config.requirements.join(', ')}
-- Cultural System: ${config.culturalSystem}
-
-**CURRENT PLAN STATE**:
-- Rooms: ${JSON.stringify(plan.rooms)}
-
-**MODIFICATION REQUEST**: "${request}"
-
-**INSTRUCTIONS**:
-1. Apply the modification if feasible.
-2. Adjust adjacent spaces to maintain 100% plot coverage and valid circulation.
-3. Ensure all Vastu/Regulatory rules are still met.
-4. Update the 'designLog' to reflect this change.
-
-Generate the complete updated floor plan JSON.`;
-
-    const modelConfig = getModelConfig('refinement');
-    const { data: modifiedPlan } = await generateStructuredContent<GeneratedPlan>({
-      prompt,
-      modelConfig,
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          designLog: { type: Type.ARRAY, items: { type: Type.STRING } },
-          rooms: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.STRING },
-                name: { type: Type.STRING },
-                type: { type: Type.STRING, enum: ['room', 'circulation', 'outdoor', 'setback', 'service'] },
-                x: { type: Type.NUMBER },
-                y: { type: Type.NUMBER },
-                width: { type: Type.NUMBER },
-                height: { type: Type.NUMBER },
-                features: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      type: { type: Type.STRING, enum: ['door', 'window', 'opening'] },
-                      wall: { type: Type.STRING, enum: ['top', 'bottom', 'left', 'right'] },
-                      position: { type: Type.NUMBER },
-                      width: { type: Type.NUMBER },
-                    },
-                  },
-                },
-                guidance: { type: Type.STRING },
-              },
-              required: ['id', 'name', 'type', 'x', 'y', 'width', 'height', 'features', 'guidance'],
-            },
-          },
-          totalArea: { type: Type.NUMBER },
-          builtUpArea: { type: Type.NUMBER },
-          plotCoverageRatio: { type: Type.NUMBER },
-          compliance: {
-            type: Type.OBJECT,
-            properties: {
-              regulatory: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    rule: { type: Type.STRING },
-                    status: { type: Type.STRING, enum: ['PASS', 'FAIL', 'WARN'] },
-                    message: { type: Type.STRING },
-                    recommendation: { type: Type.STRING },
-                  },
-                },
-              },
-              cultural: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    rule: { type: Type.STRING },
-                    status: { type: Type.STRING, enum: ['PASS', 'FAIL', 'WARN'] },
-                    message: { type: Type.STRING },
-                    recommendation: { type: Type.STRING },
-                  },
-                },
-              },
-            },
-          },
-          bom: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                material: { type: Type.STRING },
-                quantity: { type: Type.STRING },
-                unit: { type: Type.STRING },
-                estimatedCost: { type: Type.NUMBER },
-              },
-            },
-          },
-          totalCostRange: {
-            type: Type.OBJECT,
-            properties: {
-              min: { type: Type.NUMBER },
-              max: { type: Type.NUMBER },
-              currency: { type: Type.STRING },
-            },
-          },
-        },
-        required: ['designLog', 'rooms', 'totalArea', 'builtUpArea', 'compliance', 'bom', 'totalCostRange'],
-      },
-    });
-
-    res.json(modifiedPlan);
+    const jobId = await startTaskJob(req, 'modification', (emit, signal) =>
+      modifyPlan(plan, request, config, emit, { signal, rejectNewCritical })
+    );
+    res.json({ jobId });
   } catch (err: any) {
     logger.error({ err }, 'Modification application failed');
     res.status(500).json({ error: err.message });
   }
 });
 
-// POST /api/estimate — Material cost estimation
+// POST /api/estimate — Material cost estimation, as a background job
 router.post('/estimate', async (req: Request, res: Response) => {
   try {
     const config = req.body as MaterialEstimationConfig;
@@ -523,7 +673,8 @@ router.post('/estimate', async (req: Request, res: Response) => {
       return;
     }
 
-    const prompt = `
+    const jobId = await startTaskJob(req, 'estimation', async (emit, signal) => {
+      const prompt = `
 You are a expert Civil Engineer and Construction Cost Analyst with 20+ years in Indian real estate.
 Generate a comprehensive material estimation report.
 
@@ -544,84 +695,93 @@ Provide:
 4. Cost distribution data for charts
 5. Recommendations and risks`;
 
-    const modelConfig = getModelConfig('cost');
-    const { data: report } = await generateStructuredContent<MaterialReport>({
-      prompt,
-      modelConfig,
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          executiveSummary: {
-            type: Type.OBJECT,
-            properties: {
-              totalCost: { type: Type.STRING },
-              costPerSqft: { type: Type.STRING },
-              timelineImpact: { type: Type.STRING },
-            },
-            required: ['totalCost', 'costPerSqft', 'timelineImpact'],
-          },
-          grandTotal: { type: Type.NUMBER },
-          quotations: {
-            type: Type.ARRAY,
-            items: {
+      const modelConfig = getModelConfig('cost');
+      emit({ type: 'agent_start', data: { agent: 'MaterialEstimator', phase: 'material_estimation' } });
+      const start = Date.now();
+      const { data: report } = await generateStructuredContent<MaterialReport>({
+        prompt,
+        modelConfig,
+        signal,
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            executiveSummary: {
               type: Type.OBJECT,
               properties: {
-                title: { type: Type.STRING },
-                description: { type: Type.STRING },
-                estimatedCost: { type: Type.NUMBER },
-                items: { type: Type.ARRAY, items: { type: Type.STRING } },
+                totalCost: { type: Type.STRING },
+                costPerSqft: { type: Type.STRING },
+                timelineImpact: { type: Type.STRING },
               },
-              required: ['title', 'description', 'estimatedCost', 'items'],
+              required: ['totalCost', 'costPerSqft', 'timelineImpact'],
             },
-          },
-          breakdown: {
-            type: Type.ARRAY,
-            items: {
+            grandTotal: { type: Type.NUMBER },
+            quotations: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  title: { type: Type.STRING },
+                  description: { type: Type.STRING },
+                  estimatedCost: { type: Type.NUMBER },
+                  items: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['title', 'description', 'estimatedCost', 'items'],
+              },
+            },
+            breakdown: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  category: { type: Type.STRING },
+                  items: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        item: { type: Type.STRING },
+                        quantity: { type: Type.STRING },
+                        unitPrice: { type: Type.STRING },
+                        total: { type: Type.STRING },
+                      },
+                      required: ['item', 'quantity', 'unitPrice', 'total'],
+                    },
+                  },
+                },
+                required: ['category', 'items'],
+              },
+            },
+            visuals: {
               type: Type.OBJECT,
               properties: {
-                category: { type: Type.STRING },
-                items: {
+                costDistribution: {
                   type: Type.ARRAY,
                   items: {
                     type: Type.OBJECT,
                     properties: {
-                      item: { type: Type.STRING },
-                      quantity: { type: Type.STRING },
-                      unitPrice: { type: Type.STRING },
-                      total: { type: Type.STRING },
+                      name: { type: Type.STRING },
+                      value: { type: Type.NUMBER },
                     },
-                    required: ['item', 'quantity', 'unitPrice', 'total'],
+                    required: ['name', 'value'],
                   },
                 },
               },
-              required: ['category', 'items'],
+              required: ['costDistribution'],
             },
+            recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
+            risks: { type: Type.ARRAY, items: { type: Type.STRING } },
           },
-          visuals: {
-            type: Type.OBJECT,
-            properties: {
-              costDistribution: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    name: { type: Type.STRING },
-                    value: { type: Type.NUMBER },
-                  },
-                  required: ['name', 'value'],
-                },
-              },
-            },
-            required: ['costDistribution'],
-          },
-          recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
-          risks: { type: Type.ARRAY, items: { type: Type.STRING } },
+          required: ['executiveSummary', 'grandTotal', 'quotations', 'breakdown', 'visuals', 'recommendations', 'risks'],
         },
-        required: ['executiveSummary', 'grandTotal', 'quotations', 'breakdown', 'visuals', 'recommendations', 'risks'],
-      },
-    });
+      });
+      emit({
+        type: 'agent_complete',
+        data: { agent: 'MaterialEstimator', durationMs: Date.now() - start, model: modelConfig.model },
+      });
 
-    res.json(report);
+      return report;
+    });
+    res.json({ jobId });
   } catch (err: any) {
     logger.error({ err }, 'Material estimation failed');
     res.status(500).json({ error: err.message });
@@ -654,10 +814,26 @@ router.post('/generate-alternatives', generationLimiter, async (req: Request, re
       res.status(400).json({ error: 'Invalid project configuration' });
       return;
     }
+    const configError = projectConfigError(config);
+    if (configError) {
+      res.status(400).json({ error: configError });
+      return;
+    }
 
     const jobId = uuidv4();
     const userId = req.userId || 'anonymous';
-    createJob(jobId, userId);
+    const store = getJobStore();
+    await store.createJob(jobId, userId);
+    await store.updateJob(jobId, { status: 'running' });
+
+    // Closing the stream (or DELETE /generate/:jobId) stops all three orchestrations
+    const controller = startJobRun(jobId);
+    res.on('close', () => {
+      if (res.writableEnded || controller.signal.aborted) return;
+      store.getJob(jobId)
+        .then(job => job && cancelJob(job))
+        .catch(err => logger.warn({ err, jobId }, 'Alternatives cancellation could not be recorded'));
+    });
 
     // Set up SSE
     res.writeHead(200, {
@@ -684,19 +860,30 @@ router.post('/generate-alternatives', generationLimiter, async (req: Request, re
 
         const result = await orchestrate(config, (event) => {
           res.write(`data: ${JSON.stringify({ type: 'alternative_progress', data: { index: idx, ...event.data } })}\n\n`);
-        }, { strategyPrompt: strategy.prompt, temperatureOffset: strategy.tempOffset });
+        }, { strategyPrompt: strategy.prompt, temperatureOffset: strategy.tempOffset, signal: controller.signal });
 
         results[idx] = result.finalPlan;
 
         res.write(`data: ${JSON.stringify({ type: 'alternative_complete', data: { index: idx } })}\n\n`);
       } catch (err: any) {
+        if (controller.signal.aborted) return;
         logger.error({ err, strategyIndex: idx }, 'Alternative generation failed');
         res.write(`data: ${JSON.stringify({ type: 'alternative_error', data: { index: idx, message: err.message } })}\n\n`);
       }
     });
 
     await Promise.all(promises);
+    endJobRun(jobId, controller);
 
+    if (controller.signal.aborted) {
+      if (!res.writableEnded) {
+        res.write(`data: ${JSON.stringify({ type: 'cancelled', data: { jobId, completed: results.filter(Boolean).length } })}\n\n`);
+        res.end();
+      }
+      return;
+    }
+
+    await store.updateJob(jobId, { status: 'completed' });
     res.write(`data: ${JSON.stringify({ type: 'alternatives_completed', data: { alternatives: results.filter(Boolean) } })}\n\n`);
     res.end();
   } catch (err: any) {
@@ -707,6 +894,70 @@ router.post('/generate-alternatives', generationLimiter, async (req: Request, re
   }
 });
 
+const JOB_STATUSES: GenerationJob['status'][] = ['pending', 'running', 'completed', 'failed', 'cancelled'];
+
+function parseJobQuery(query: Request['query']): JobQuery | string {
+  const parsed: JobQuery = {};
+  if (typeof query.userId === 'string' && query.userId) parsed.userId = query.userId;
+  if (typeof query.status === 'string') {
+    if (!JOB_STATUSES.includes(query.status as GenerationJob['status'])) return `Invalid status "${query.status}"`;
+    parsed.status = query.status as GenerationJob['status'];
+  }
+  if (typeof query.before === 'string') {
+    const before = new Date(query.before).getTime();
+    if (isNaN(before)) return 'Invalid before date';
+    parsed.createdBefore = before;
+  }
+  return parsed;
+}
+
+// GET /api/admin/jobs — List jobs (?userId=&status=&before=)
+router.get('/admin/jobs', requireAdmin, async (req: Request, res: Response) => {
+  const query = parseJobQuery(req.query);
+  if (typeof query === 'string') {
+    res.status(400).json({ error: query });
+    return;
+  }
+  try {
+    const jobs = await getJobStore().listJobs(query);
+    res.json({ store: getJobStore().kind, jobs: jobs.sort((a, b) => b.createdAt - a.createdAt) });
+  } catch (err: any) {
+    logger.error({ err }, 'Job listing failed');
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// DELETE /api/admin/jobs — Purge jobs by user and/or age (?userId=&status=&before=)
+router.delete('/admin/jobs', requireAdmin, async (req: Request, res: Response) => {
+  const query = parseJobQuery(req.query);
+  if (typeof query === 'string') {
+    res.status(400).json({ error: query });
+    return;
+  }
+  if (query.userId === undefined && query.createdBefore === undefined) {
+    res.status(400).json({ error: 'Specify userId and/or before to purge jobs' });
+    return;
+  }
+  try {
+    const purged = await getJobStore().purgeJobs(query);
+    logger.info({ ...query, purged, admin: req.userId }, 'Jobs purged');
+    res.json({ purged });
+  } catch (err: any) {
+    logger.error({ err }, 'Job purge failed');
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// GET /api/codes — Municipal authorities in force (optionally ?asOf=YYYY-MM-DD)
+router.get('/codes', (req: Request, res: Response) => {
+  const asOf = typeof req.query.asOf === 'string' ? new Date(req.query.asOf) : new Date();
+  if (isNaN(asOf.getTime())) {
+    res.status(400).json({ error: 'Invalid asOf date' });
+    return;
+  }
+  res.json({ codes: listMunicipalCodes(asOf) });
+});
+
 // GET /api/health — Health check (no auth)
 router.get('/health', (_req: Request, res: Response) => {
   res.json({
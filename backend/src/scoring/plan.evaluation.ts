@@ -0,0 +1,161 @@
+import type {
+  FloorPlanGraph,
+  NormalizedSpec,
+  PlanEvaluation,
+  PlanScore,
+  PlanValidation,
+  PlotGeometry,
+  ResolvedScoringConfig,
+  SpatialMetrics,
+} from '../types/agent.types.js';
+import type { GeneratedPlan, Room } from '../types/shared.types.js';
+import { validateGeometry } from '../validators/geometry.validator.js';
+import { validateCultural } from '../validators/cultural.validator.js';
+import { getCulturalRulePack } from '../validators/rule-packs.js';
+import { validateRegulatory } from '../validators/regulatory.validator.js';
+import { validateConnectivity } from '../validators/connectivity.validator.js';
+import { validateEgress, resolveFireSafety } from '../validators/egress.validator.js';
+import { validateAccessibility } from '../validators/accessibility.validator.js';
+import { validateStructure } from '../validators/structural.validator.js';
+import { validateRoomLocks } from '../validators/lock.validator.js';
+import { enrichRoomsWithDirection } from '../utils/direction.utils.js';
+import { buildAdjacencyGraph } from '../utils/adjacency.utils.js';
+import { normalizeRoomShape, plotArea } from '../utils/polygon.utils.js';
+import { scorePlan } from './plan.scorer.js';
+import { computeSpatialMetrics } from './spatial.metrics.js';
+
+/**
+ * Runs every deterministic validator the project calls for. Geometry comes
+ * first; the other validators assume a sound plan. Zero LLM calls.
+ */
+export function validatePlan(plan: FloorPlanGraph, spec: NormalizedSpec): PlanValidation {
+  const { config } = spec;
+  const fireSafety = resolveFireSafety(spec.municipalConfig, config.projectType);
+  return {
+    geometryResult: validateGeometry(plan.rooms, spec.plotGeometry),
+    culturalResult: validateCultural(plan.rooms, spec.plotGeometry, spec.culturalStrictness, getCulturalRulePack(config)),
+    regulatoryResult: validateRegulatory(plan.rooms, spec.plotGeometry, spec.municipalConfig, spec.setbackRequirements),
+    connectivityResult: validateConnectivity(plan.rooms, plan.adjacencies, spec.adjacencyPreferences),
+    egressResult: validateEgress(plan.rooms, plan.adjacencies, fireSafety, spec.buildingHeight),
+    structuralResult: (config.floors || 1) > 1 ? validateStructure(plan.rooms, config.floors!) : undefined,
+    accessibilityResult: config.accessibility ? validateAccessibility(plan.rooms, config.accessibility) : undefined,
+    lockResult: config.roomLocks?.length ? validateRoomLocks(plan.rooms, config.roomLocks) : undefined,
+  };
+}
+
+/**
+ * Weighted plan score from the validator results and metrics. Egress joins
+ * regulatory; connectivity, structure and room locks (when checked) join
+ * geometry; accessibility (when checked) joins livability.
+ */
+export function scoreValidation(
+  validation: PlanValidation,
+  metrics: SpatialMetrics,
+  scoring: ResolvedScoringConfig
+): PlanScore {
+  const { geometryResult, connectivityResult, structuralResult, lockResult, accessibilityResult } = validation;
+  const geometryScores = [geometryResult.score, connectivityResult.score, structuralResult?.score, lockResult?.score]
+    .filter((score): score is number => score !== undefined);
+  return scorePlan(
+    (validation.regulatoryResult.score + validation.egressResult.score) / 2,
+    validation.culturalResult.score,
+    geometryScores.reduce((sum, score) => sum + score, 0) / geometryScores.length,
+    metrics.efficiencyScore,
+    accessibilityResult
+      ? (metrics.livabilityScore + accessibilityResult.score) / 2
+      : metrics.livabilityScore,
+    scoring.weights,
+    scoring.threshold
+  );
+}
+
+/** validatePlan, spatial metrics and score in one pass, for plans outside the refinement loop */
+export function evaluatePlan(
+  plan: FloorPlanGraph,
+  spec: NormalizedSpec,
+  scoring: ResolvedScoringConfig
+): PlanEvaluation {
+  const validation = validatePlan(plan, spec);
+  const spatialMetrics = computeSpatialMetrics(plan.rooms, plan.adjacencies, spec.config.projectType);
+  return { ...validation, spatialMetrics, score: scoreValidation(validation, spatialMetrics, scoring) };
+}
+
+/** The compliance section of a GeneratedPlan, straight from the validators */
+export function validationCompliance(validation: PlanValidation): GeneratedPlan['compliance'] {
+  return {
+    regulatory: [
+      ...validation.geometryResult.complianceItems,
+      ...validation.connectivityResult.complianceItems,
+      ...(validation.structuralResult?.complianceItems || []),
+      ...(validation.lockResult?.complianceItems || []),
+      ...validation.regulatoryResult.complianceItems,
+    ],
+    cultural: validation.culturalResult.complianceItems,
+    fireSafety: validation.egressResult.complianceItems,
+    accessibility: validation.accessibilityResult?.complianceItems,
+  };
+}
+
+/**
+ * Messages of the critical violations in `after` that `before` did not have.
+ * Violations are matched by validator, rule and room, so one whose numbers
+ * merely changed (a larger overlap, a longer walk) does not count as new.
+ */
+export function introducedCriticalViolations(before: PlanValidation, after: PlanValidation): string[] {
+  const existing = new Set(criticalViolations(before).map(v => v.key));
+  return criticalViolations(after).filter(v => !existing.has(v.key)).map(v => v.message);
+}
+
+function criticalViolations(validation: PlanValidation): { key: string; message: string }[] {
+  return Object.entries(validation).flatMap(([validator, result]) =>
+    ((result?.violations ?? []) as { severity: string; category?: string; ruleId?: string; roomName?: string; message: string }[])
+      .filter(v => v.severity === 'critical')
+      .map(v => ({ key: `${validator}:${v.category ?? v.ruleId}:${v.roomName ?? ''}`, message: v.message }))
+  );
+}
+
+/**
+ * Rooms of a plan sent back by the client, ready for buildPlanGraph. Plans
+ * read from an image may lack features or a position and size: features
+ * default to none, and rooms without a usable outline are left out, with a
+ * design-log note for each.
+ */
+export function prepareClientRooms(rooms: Partial<Room>[] | undefined): { rooms: Room[]; skipped: string[] } {
+  const prepared: Room[] = [];
+  const skipped: string[] = [];
+  for (const room of rooms ?? []) {
+    const normalized = normalizeRoomShape({ ...room, features: room.features ?? [] } as Room);
+    const { x, y, width, height } = normalized;
+    if ([x, y, width, height].every(Number.isFinite) && width > 0 && height > 0) {
+      prepared.push(normalized);
+    } else {
+      skipped.push(`${room.name || room.id || 'Unnamed room'} has no position or size and was left out of validation`);
+    }
+  }
+  return { rooms: prepared, skipped };
+}
+
+/** FloorPlanGraph for rooms that come from outside the agents, e.g. a plan sent back by the client */
+export function buildPlanGraph(rooms: Room[], designLog: string[], plotGeometry: PlotGeometry): FloorPlanGraph {
+  const enrichedRooms = enrichRoomsWithDirection(rooms, plotGeometry);
+  const builtUpArea = enrichedRooms
+    .filter(r => r.type === 'room' || r.type === 'service')
+    .reduce((sum, r) => sum + r.area, 0);
+  const circulationArea = enrichedRooms
+    .filter(r => r.type === 'circulation')
+    .reduce((sum, r) => sum + r.area, 0);
+  const setbackArea = enrichedRooms
+    .filter(r => r.type === 'setback')
+    .reduce((sum, r) => sum + r.area, 0);
+
+  return {
+    rooms: enrichedRooms,
+    adjacencies: buildAdjacencyGraph(enrichedRooms),
+    designLog,
+    totalArea: plotArea(plotGeometry),
+    builtUpArea,
+    circulationArea,
+    setbackArea,
+    plotCoverageRatio: builtUpArea / plotArea(plotGeometry),
+  };
+}
@@ -1,44 +1,88 @@
-import type { PlanScore } from '../types/agent.types.js';
+import { z } from 'zod';
+import type { PlanScore, ResolvedScoringConfig } from '../types/agent.types.js';
+import type { ScoringConfig, ScoringWeights } from '../types/shared.types.js';
 
-const DEFAULT_THRESHOLD = 0.70;
+export const DEFAULT_SCORING: ResolvedScoringConfig = {
+  weights: {
+    regulatory: 0.35,
+    cultural: 0.25,
+    geometry: 0.15,
+    spatial: 0.15,
+    livability: 0.1,
+  },
+  threshold: 0.70,
+  maxIterations: 3,
+};
+
+/** Upper bound on the iteration budget; each pass costs a critic and a refinement call */
+export const MAX_ITERATION_BUDGET = 6;
+
+const WEIGHT_SUM_TOLERANCE = 1e-3;
+
+const weight = z.number().min(0).max(1);
+
+const scoringConfigSchema = z.object({
+  weights: z.object({
+    regulatory: weight,
+    cultural: weight,
+    geometry: weight,
+    spatial: weight,
+    livability: weight,
+  }).strict().refine(
+    w => Math.abs(Object.values(w).reduce((sum, v) => sum + v, 0) - 1) <= WEIGHT_SUM_TOLERANCE,
+    { message: 'weights must sum to 1' }
+  ).optional(),
+  threshold: z.number().gt(0).lte(1).optional(),
+  maxIterations: z.number().int().min(1).max(MAX_ITERATION_BUDGET).optional(),
+}).strict();
+
+/**
+ * Checks a project's scoring config and fills in the defaults. Throws with
+ * every problem listed, e.g. "scoring.weights: weights must sum to 1".
+ */
+export function resolveScoringConfig(scoring?: ScoringConfig): ResolvedScoringConfig {
+  if (scoring === undefined || scoring === null) return DEFAULT_SCORING;
+
+  const parsed = scoringConfigSchema.safeParse(scoring);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${['scoring', ...issue.path].join('.')}: ${issue.message}`);
+    throw new Error(`Invalid scoring config — ${problems.join('; ')}`);
+  }
+
+  return {
+    weights: parsed.data.weights ?? DEFAULT_SCORING.weights,
+    threshold: parsed.data.threshold ?? DEFAULT_SCORING.threshold,
+    maxIterations: parsed.data.maxIterations ?? DEFAULT_SCORING.maxIterations,
+  };
+}
 
 /**
  * Weighted scoring:
- * finalScore = 0.4 * regulatoryScore + 0.3 * vastuScore + 0.2 * spatialEfficiency + 0.1 * criticConfidence
+ * finalScore = w.regulatory * regulatoryScore + w.cultural * vastuScore + w.geometry * geometryScore
+ *            + w.spatial * spatialEfficiency + w.livability * livability
+ * regulatoryScore averages the regulatory and egress validators, geometryScore
+ * the geometry and connectivity validators, plus the structural validator on
+ * multi-floor plans; the last two come from the
+ * deterministic spatial metrics, with livability averaged with the
+ * accessibility validator when the project asks for it. The defaults are
+ * 0.35 / 0.25 / 0.15 / 0.15 / 0.1 with a 0.70 threshold.
  */
 export function scorePlan(
   regulatoryScore: number,
   vastuScore: number,
+  geometryScore: number,
   spatialEfficiency: number,
-  criticConfidence: number,
-  threshold: number = DEFAULT_THRESHOLD
+  livability: number,
+  weights: ScoringWeights = DEFAULT_SCORING.weights,
+  threshold: number = DEFAULT_SCORING.threshold
 ): PlanScore {
   const breakdown = [
-    {
-      category: 'Regulatory Compliance',
-      weight: 0.4,
-      score: regulatoryScore,
-      weightedScore: 0.4 * regulatoryScore,
-    },
-    {
-      category: 'Vastu/Cultural Compliance',
-      weight: 0.3,
-      score: vastuScore,
-      weightedScore: 0.3 * vastuScore,
-    },
-    {
-      category: 'Spatial Efficiency',
-      weight: 0.2,
-      score: spatialEfficiency,
-      weightedScore: 0.2 * spatialEfficiency,
-    },
-    {
-      category: 'Critic Confidence',
-      weight: 0.1,
-      score: criticConfidence,
-      weightedScore: 0.1 * criticConfidence,
-    },
-  ];
+    { category: 'Regulatory & Fire Safety', weight: weights.regulatory, score: regulatoryScore },
+    { category: 'Vastu/Cultural Compliance', weight: weights.cultural, score: vastuScore },
+    { category: 'Geometry & Connectivity', weight: weights.geometry, score: geometryScore },
+    { category: 'Spatial Efficiency', weight: weights.spatial, score: spatialEfficiency },
+    { category: 'Livability', weight: weights.livability, score: livability },
+  ].map(b => ({ ...b, weightedScore: b.weight * b.score }));
 
   const finalScore = breakdown.reduce((sum, b) => sum + b.weightedScore, 0);
 
@@ -0,0 +1,180 @@
+import type {
+  RoomWithDirection,
+  RoomAdjacency,
+  RoomClassification,
+  RoomSpatialMetrics,
+  SpatialMetrics,
+} from '../types/agent.types.js';
+import type { Room, WallFeature } from '../types/shared.types.js';
+import { BuildingType } from '../types/shared.types.js';
+import { findSharedWall, groupRoomsByFloor } from '../utils/geometry.utils.js';
+import { doorDistances, findEntrance } from '../utils/adjacency.utils.js';
+
+/** Circulation up to this share of usable area costs nothing */
+const IDEAL_CIRCULATION_RATIO = 0.20;
+/** ...and the circulation score reaches 0 at this share */
+const MAX_CIRCULATION_RATIO = 0.45;
+/** Glazing target for habitable rooms (1/8 of floor area) */
+const TARGET_WINDOW_RATIO = 0.125;
+const WINDOW_HEIGHT = 1.2; // meters, as in the regulatory ventilation check
+/** Exterior wall a habitable room needs to count as exposed */
+const MIN_EXTERIOR_WALL = 1.5; // meters
+const MAX_ASPECT_RATIO: Partial<Record<Room['type'], number>> = { room: 2.0, service: 2.5 };
+/** The proportion score reaches 0 at this multiple of the allowed aspect ratio */
+const ASPECT_RATIO_FALLOFF = 2;
+
+const INTERIOR_TYPES: Room['type'][] = ['room', 'circulation', 'service'];
+
+const HABITABLE: RoomClassification[] = [
+  'master_bedroom', 'bedroom', 'children_bedroom', 'guest_bedroom',
+  'kitchen', 'living_room', 'dining_room', 'study_room', 'majlis',
+];
+const PUBLIC_ROOMS: RoomClassification[] = ['foyer', 'entrance', 'living_room', 'dining_room', 'majlis'];
+const PRIVATE_ROOMS: RoomClassification[] = ['master_bedroom', 'bedroom', 'children_bedroom', 'guest_bedroom'];
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+const mean = (values: number[], empty = 1) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : empty;
+
+/**
+ * Deterministic spatial metrics. Zero LLM calls.
+ * Works on the rooms' bounding boxes; walls count as exterior unless another
+ * interior room on the same floor sits against them. The privacy gradient is
+ * only judged for homes, where bedrooms are the private zone.
+ */
+export function computeSpatialMetrics(
+  rooms: RoomWithDirection[],
+  adjacencies: RoomAdjacency[],
+  projectType: BuildingType = BuildingType.RESIDENTIAL
+): SpatialMetrics {
+  const findings: string[] = [];
+  const interior = rooms.filter(r => INTERIOR_TYPES.includes(r.type) && r.width > 0 && r.height > 0);
+  const habitable = interior.filter(r => r.type === 'room' && HABITABLE.includes(r.classification));
+
+  // 1. Circulation-to-usable area
+  const circulationArea = interior.filter(r => r.type === 'circulation').reduce((sum, r) => sum + r.area, 0);
+  const usableArea = interior.filter(r => r.type !== 'circulation').reduce((sum, r) => sum + r.area, 0);
+  const circulationRatio = usableArea > 0 ? circulationArea / usableArea : 0;
+  const circulationScore = Math.max(0, Math.min(1,
+    1 - (circulationRatio - IDEAL_CIRCULATION_RATIO) / (MAX_CIRCULATION_RATIO - IDEAL_CIRCULATION_RATIO)
+  ));
+  if (circulationRatio > IDEAL_CIRCULATION_RATIO) {
+    findings.push(
+      `Circulation is ${(circulationRatio * 100).toFixed(0)}% of usable area ` +
+      `(aim for at most ${(IDEAL_CIRCULATION_RATIO * 100).toFixed(0)}%)`
+    );
+  }
+
+  const entrance = findEntrance(interior);
+  const depths = entrance ? doorDistances([entrance.id], adjacencies) : new Map<string, number>();
+  const byFloor = groupRoomsByFloor(interior);
+
+  const roomMetrics: RoomSpatialMetrics[] = habitable.map(room => {
+    const windowArea = room.features
+      .filter(f => f.type === 'window')
+      .reduce((sum, w) => sum + w.width * WINDOW_HEIGHT, 0);
+    return {
+      roomId: room.id,
+      roomName: room.name,
+      classification: room.classification,
+      area: round(room.area),
+      windowToFloorRatio: round(room.area > 0 ? windowArea / room.area : 0, 3),
+      exteriorWallLength: round(exteriorWallLength(room, byFloor.get(room.floor ?? 0) ?? [])),
+      aspectRatio: round(aspectRatio(room)),
+      depthFromEntrance: depths.get(room.id),
+    };
+  });
+
+  // 2. Window-to-floor ratio per habitable room
+  const lightingScore = mean(roomMetrics.map(m => Math.min(1, m.windowToFloorRatio / TARGET_WINDOW_RATIO)));
+  for (const m of roomMetrics.filter(m => m.windowToFloorRatio < TARGET_WINDOW_RATIO)) {
+    findings.push(
+      `${m.roomName}: window-to-floor ratio ${(m.windowToFloorRatio * 100).toFixed(0)}% ` +
+      `(target ${(TARGET_WINDOW_RATIO * 100).toFixed(1)}%)`
+    );
+  }
+
+  // 3. Exterior-wall exposure
+  const exposed = roomMetrics.filter(m => m.exteriorWallLength >= MIN_EXTERIOR_WALL);
+  const exposureScore = roomMetrics.length > 0 ? exposed.length / roomMetrics.length : 1;
+  for (const m of roomMetrics.filter(m => m.exteriorWallLength < MIN_EXTERIOR_WALL)) {
+    findings.push(`${m.roomName} has ${m.exteriorWallLength.toFixed(1)}m of exterior wall (needs ${MIN_EXTERIOR_WALL}m)`);
+  }
+
+  // 4. Privacy ordering: private rooms should lie deeper from the entrance than public ones
+  const judgePrivacy = projectType !== BuildingType.COMMERCIAL;
+  const publicRooms = interior.filter(r => PUBLIC_ROOMS.includes(r.classification) && depths.has(r.id));
+  const privateRooms = judgePrivacy
+    ? interior.filter(r => PRIVATE_ROOMS.includes(r.classification) && depths.has(r.id))
+    : [];
+  const pairScores: number[] = [];
+  for (const priv of privateRooms) {
+    const privDepth = depths.get(priv.id)!;
+    const shallower = publicRooms.filter(pub => depths.get(pub.id)! >= privDepth);
+    for (const pub of publicRooms) {
+      const pubDepth = depths.get(pub.id)!;
+      pairScores.push(privDepth > pubDepth ? 1 : privDepth === pubDepth ? 0.5 : 0);
+    }
+    if (shallower.length > 0) {
+      findings.push(`${priv.name} is no deeper from the entrance than ${shallower.map(r => r.name).join(', ')}`);
+    }
+  }
+  const privacyScore = mean(pairScores);
+
+  // 5. Aspect-ratio sanity
+  const proportionScores = interior
+    .filter(r => MAX_ASPECT_RATIO[r.type] !== undefined)
+    .map(room => {
+      const limit = MAX_ASPECT_RATIO[room.type]!;
+      const ratio = aspectRatio(room);
+      if (ratio <= limit) return 1;
+      findings.push(`${room.name} is ${ratio.toFixed(1)}:1 (at most ${limit}:1 for a ${room.type === 'room' ? 'room' : 'service space'})`);
+      return Math.max(0, 1 - (ratio - limit) / (limit * (ASPECT_RATIO_FALLOFF - 1)));
+    });
+  const proportionScore = mean(proportionScores);
+
+  return {
+    circulationRatio: round(circulationRatio, 3),
+    circulationScore,
+    lightingScore,
+    exposureScore,
+    privacyScore,
+    proportionScore,
+    efficiencyScore: (circulationScore + proportionScore) / 2,
+    livabilityScore: (lightingScore + exposureScore + privacyScore) / 3,
+    rooms: roomMetrics,
+    findings,
+  };
+}
+
+function aspectRatio(room: RoomWithDirection): number {
+  return Math.max(room.width, room.height) / Math.min(room.width, room.height);
+}
+
+/**
+ * Perimeter of the room's bounding box minus every stretch another interior
+ * room on the same floor sits against.
+ */
+function exteriorWallLength(room: RoomWithDirection, sameFloor: RoomWithDirection[]): number {
+  const shared: Record<WallFeature['wall'], Array<[number, number]>> = { top: [], bottom: [], left: [], right: [] };
+  for (const other of sameFloor) {
+    if (other.id === room.id) continue;
+    const wall = findSharedWall(room, other);
+    if (wall) shared[wall.wallA].push([wall.start, wall.end]);
+  }
+
+  const sideLength = { top: room.width, bottom: room.width, left: room.height, right: room.height };
+  return (Object.keys(sideLength) as WallFeature['wall'][])
+    .reduce((sum, side) => sum + Math.max(0, sideLength[side] - mergedLength(shared[side])), 0);
+}
+
+function mergedLength(intervals: Array<[number, number]>): number {
+  let total = 0;
+  let end = -Infinity;
+  for (const [a, b] of [...intervals].sort((p, q) => p[0] - q[0])) {
+    const start = Math.max(a, end);
+    if (b > start) total += b - start;
+    end = Math.max(end, b);
+  }
+  return total;
+}
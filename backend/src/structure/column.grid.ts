@@ -0,0 +1,135 @@
+import type {
+  Point,
+  Room,
+  StructuralBeam,
+  StructuralColumn,
+  StructuralLayout,
+} from '../types/shared.types.js';
+import { roomOutline } from '../utils/polygon.utils.js';
+
+/** Longest beam between two columns for an ordinary RCC frame, meters */
+export const DEFAULT_MAX_SPAN = 4.5;
+
+const MERGE_TOLERANCE = 0.3; // meters; wall corners closer than this share a column
+const ON_WALL_TOLERANCE = MERGE_TOLERANCE / 2; // meters
+const BEAM_WIDTH = 0.23; // meters, flush with a 230mm wall
+const MIN_BEAM_DEPTH = 0.3; // meters
+
+const INTERIOR_TYPES: Room['type'][] = ['room', 'circulation', 'service'];
+
+interface Wall {
+  a: Point;
+  b: Point;
+  floor: number;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Deterministic RCC frame for a plan. Zero LLM calls.
+ * Puts a column at every wall corner of every built room, then adds columns
+ * along any wall run longer than `maxSpan` so no beam spans further. Beams
+ * follow the walls between consecutive columns, one set per floor. Outdoor
+ * zones and setbacks carry no frame.
+ */
+export function generateColumnGrid(rooms: Room[], maxSpan: number = DEFAULT_MAX_SPAN): StructuralLayout {
+  const walls: Wall[] = rooms
+    .filter(r => INTERIOR_TYPES.includes(r.type) && r.width > 0 && r.height > 0)
+    .flatMap(room => {
+      const outline = roomOutline(room);
+      return outline.map((a, i) => ({ a, b: outline[(i + 1) % outline.length], floor: room.floor ?? 0 }));
+    });
+
+  const points: Point[] = [];
+  const addPoint = (p: Point) => {
+    if (!points.some(q => Math.hypot(q.x - p.x, q.y - p.y) < MERGE_TOLERANCE)) {
+      points.push({ x: round(p.x), y: round(p.y) });
+    }
+  };
+
+  // 1. A column at every wall corner
+  for (const wall of walls) addPoint(wall.a);
+
+  // 2. Intermediate columns on wall runs longer than the span limit
+  for (const wall of walls) {
+    const along = pointsOnWall(points, wall);
+    for (let k = 0; k < along.length - 1; k++) {
+      const [p, q] = [along[k].point, along[k + 1].point];
+      const gap = Math.hypot(q.x - p.x, q.y - p.y);
+      if (gap <= maxSpan + 1e-6) continue;
+      const bays = Math.ceil(gap / maxSpan);
+      for (let j = 1; j < bays; j++) {
+        addPoint({ x: p.x + (q.x - p.x) * j / bays, y: p.y + (q.y - p.y) * j / bays });
+      }
+    }
+  }
+
+  // Reading order, front row first, so ids are stable for the same plan
+  points.sort((p, q) => p.y - q.y || p.x - q.x);
+  const storeys = Math.max(1, ...walls.map(w => w.floor + 1));
+  const [columnWidth, columnDepth] = storeys <= 2 ? [0.23, 0.3] : [0.3, 0.45];
+  const columns: StructuralColumn[] = points.map((p, i) => {
+    const floors = walls.filter(w => distanceToWall(p, w) <= ON_WALL_TOLERANCE).map(w => w.floor);
+    return {
+      id: `C${i + 1}`,
+      x: p.x,
+      y: p.y,
+      width: columnWidth,
+      depth: columnDepth,
+      fromFloor: floors.length > 0 ? Math.min(...floors) : 0,
+      toFloor: floors.length > 0 ? Math.max(...floors) : 0,
+    };
+  });
+
+  // 3. Beams between consecutive columns along each wall, shared walls counted once
+  const beams: StructuralBeam[] = [];
+  const seen = new Set<string>();
+  for (const wall of walls) {
+    const along = pointsOnWall(points, wall);
+    for (let k = 0; k < along.length - 1; k++) {
+      const [from, to] = [columns[along[k].index], columns[along[k + 1].index]];
+      const key = `${wall.floor}:${[from.id, to.id].sort().join('-')}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const span = round(Math.hypot(to.x - from.x, to.y - from.y));
+      beams.push({
+        id: `B${beams.length + 1}`,
+        floor: wall.floor,
+        from: from.id,
+        to: to.id,
+        span,
+        width: BEAM_WIDTH,
+        // span/12 rule of thumb, rounded up to 50mm
+        depth: Math.max(MIN_BEAM_DEPTH, round(Math.ceil(span / 12 / 0.05) * 0.05)),
+      });
+    }
+  }
+
+  return {
+    columns,
+    beams,
+    maxSpan,
+    longestSpan: beams.reduce((max, b) => Math.max(max, b.span), 0),
+  };
+}
+
+/** Columns lying on a wall, ordered from its start to its end */
+function pointsOnWall(points: Point[], wall: Wall): Array<{ point: Point; index: number }> {
+  const dx = wall.b.x - wall.a.x;
+  const dy = wall.b.y - wall.a.y;
+  const lengthSq = dx * dx + dy * dy;
+  return points
+    .map((point, index) => ({ point, index, t: ((point.x - wall.a.x) * dx + (point.y - wall.a.y) * dy) / lengthSq }))
+    .filter(({ point }) => distanceToWall(point, wall) <= ON_WALL_TOLERANCE)
+    .sort((p, q) => p.t - q.t)
+    .map(({ point, index }) => ({ point, index }));
+}
+
+function distanceToWall(p: Point, wall: Wall): number {
+  const dx = wall.b.x - wall.a.x;
+  const dy = wall.b.y - wall.a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - wall.a.x, p.y - wall.a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - wall.a.x) * dx + (p.y - wall.a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (wall.a.x + t * dx), p.y - (wall.a.y + t * dy));
+}
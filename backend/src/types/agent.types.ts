@@ -1,4 +1,15 @@
-import type { Room, ComplianceItem, GeneratedPlan, ProjectConfig } from './shared.types.js';
+import type {
+  Room,
+  ComplianceItem,
+  GeneratedPlan,
+  ProjectConfig,
+  Point,
+  FurnitureItem,
+  ScoringWeights,
+  JobKind,
+  MaterialReport,
+  ModificationResult,
+} from './shared.types.js';
 
 export type CardinalDirection = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW' | 'CENTER';
 
@@ -13,6 +24,8 @@ export type RoomClassification =
   | 'bathroom'
   | 'toilet'
   | 'pooja_room'
+  | 'majlis'
+  | 'courtyard'
   | 'study_room'
   | 'balcony'
   | 'staircase'
@@ -35,6 +48,16 @@ export interface RoomWithDirection extends Room {
 export interface PlotGeometry {
   width: number;
   depth: number;
+  /**
+   * Compass bearing (degrees clockwise from North) faced by the plot's front
+   * edge (y = 0). 0 = north-facing, where plan "up" is true North.
+   */
+  orientation?: number;
+  /**
+   * Outline of an irregular plot in plan coordinates, with its bounding box
+   * starting at (0, 0) and spanning width × depth. Absent = rectangular plot.
+   */
+  boundary?: Point[];
 }
 
 export interface SetbackRequirements {
@@ -44,6 +67,45 @@ export interface SetbackRequirements {
   rear: number;
 }
 
+/**
+ * Conditions under which a slab applies. Lower bounds are inclusive, upper
+ * bounds exclusive; omitted bounds are open. The first matching slab wins.
+ */
+export interface SlabBounds {
+  minPlotArea?: number;
+  maxPlotArea?: number;
+  minRoadWidth?: number;
+  maxRoadWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+}
+
+export interface SetbackSlab extends SlabBounds {
+  setbacks: SetbackRequirements;
+}
+
+export interface FARSlab extends SlabBounds {
+  maxFAR: number;
+  maxGroundCoverage?: number;
+}
+
+/** Escape-route limits (NBC Part 4 — Fire and Life Safety) */
+export interface FireSafetyConfig {
+  /** Longest walk from any point of a room to an exit, meters */
+  maxTravelDistance: number;
+  /** Longest stretch of corridor with only one way out, meters */
+  maxDeadEndLength: number;
+  /** Buildings at least this tall (m) need a second staircase */
+  secondStairHeight: number;
+  /** ...as do buildings with a floor holding more people than this */
+  secondStairOccupancy: number;
+  /** Floor area per person (sq.m) used for the occupant load */
+  occupantLoadFactor: number;
+  minMainDoorWidth: number;
+  /** Clear width of each stair flight, meters */
+  minStairWidth: number;
+}
+
 export interface MunicipalConfig {
   maxFAR: number;
   maxGroundCoverage: number;
@@ -51,15 +113,56 @@ export interface MunicipalConfig {
   minCorridorWidth: number;
   minVentilationRatio: number;
   defaultSetbacks: SetbackRequirements;
+  setbackSlabs?: SetbackSlab[];
+  farSlabs?: FARSlab[];
+  /** Overrides for the NBC Part 4 egress limits */
+  fireSafety?: Partial<FireSafetyConfig>;
+}
+
+/** Site inputs the slab tables are keyed on */
+export interface SiteParameters {
+  plotArea: number;
+  /** Width of the abutting road in meters (undefined = unknown) */
+  roadWidth?: number;
+  /** Building height in meters */
+  buildingHeight: number;
+  /** Side of a corner plot that abuts the second road */
+  cornerSide?: 'left' | 'right';
+}
+
+export interface ResolvedSiteLimits {
+  setbacks: SetbackRequirements;
+  maxFAR: number;
+  maxGroundCoverage: number;
+  /** Human-readable description of the slabs that applied */
+  notes: string[];
+}
+
+/** Identity of one versioned municipal code file */
+export interface MunicipalCodeInfo {
+  id: string;
+  name: string;
+  jurisdiction?: string;
+  version: string;
+  /** ISO date (YYYY-MM-DD) from which this version applies */
+  effectiveFrom: string;
+  source?: string;
 }
 
+export interface MunicipalCodeDefinition extends MunicipalCodeInfo, MunicipalConfig {}
+
 export interface NormalizedSpec {
   config: ProjectConfig;
   plotGeometry: PlotGeometry;
   requiredRooms: RoomRequirement[];
   setbackRequirements: SetbackRequirements;
+  /** Municipal config with maxFAR/maxGroundCoverage resolved for this site */
   municipalConfig: MunicipalConfig;
-  vastuStrictness: number;
+  /** Which setback/FAR slabs applied, for prompts and logs */
+  siteNotes: string[];
+  /** Floors × storey height, meters */
+  buildingHeight: number;
+  culturalStrictness: number;
   adjacencyPreferences: AdjacencyPreference[];
 }
 
@@ -76,9 +179,19 @@ export interface AdjacencyPreference {
   relationship: 'adjacent' | 'nearby' | 'separated';
 }
 
+/** Two rooms on the same floor that share a wall, or stacked staircases */
+export interface RoomAdjacency {
+  room1Id: string;
+  room2Id: string;
+  /** Length of the shared wall segment in meters (0 between stacked staircases) */
+  sharedWallLength: number;
+  /** A door, opening or stair flight lets people pass between the two */
+  connected: boolean;
+}
+
 export interface FloorPlanGraph {
   rooms: RoomWithDirection[];
-  adjacencies: Array<{ room1Id: string; room2Id: string }>;
+  adjacencies: RoomAdjacency[];
   designLog: string[];
   totalArea: number;
   builtUpArea: number;
@@ -87,7 +200,36 @@ export interface FloorPlanGraph {
   plotCoverageRatio: number;
 }
 
-export interface VastuViolation {
+export interface CulturalRuleOutcome {
+  pass: boolean;
+  message: string;
+  recommendation: string;
+}
+
+export interface CulturalRule {
+  id: string;
+  description: string;
+  appliesTo: RoomClassification[];
+  severity: 'critical' | 'major' | 'minor';
+  penalty: number;
+  /** Classical text the rule follows, cited in its compliance message */
+  source?: string;
+  check: (
+    room: RoomWithDirection,
+    allRooms: RoomWithDirection[],
+    plotGeometry: PlotGeometry
+  ) => CulturalRuleOutcome;
+}
+
+export interface CulturalRulePack {
+  id: string;
+  name: string;
+  /** Regional variant of a tradition, e.g. 'North Indian' for Vastu */
+  variant?: string;
+  rules: CulturalRule[];
+}
+
+export interface CulturalViolation {
   ruleId: string;
   severity: 'critical' | 'major' | 'minor';
   penalty: number;
@@ -97,12 +239,18 @@ export interface VastuViolation {
   recommendation: string;
 }
 
-export interface VastuValidationResult {
-  violations: VastuViolation[];
+export interface CulturalValidationResult {
+  packId: string | null;
+  packName: string;
+  variant?: string;
+  violations: CulturalViolation[];
   score: number;
   complianceItems: ComplianceItem[];
 }
 
+export type VastuViolation = CulturalViolation;
+export type VastuValidationResult = CulturalValidationResult;
+
 export interface RegulatoryViolation {
   category: string;
   severity: 'critical' | 'major' | 'minor';
@@ -112,6 +260,102 @@ export interface RegulatoryViolation {
   recommendation: string;
 }
 
+export interface GeometryViolation {
+  category: 'zero_size' | 'out_of_bounds' | 'overlap' | 'coverage' | 'feature_alignment';
+  severity: 'critical' | 'major' | 'minor';
+  roomId?: string;
+  roomName?: string;
+  message: string;
+  recommendation: string;
+}
+
+export interface GeometryValidationResult {
+  violations: GeometryViolation[];
+  score: number;
+  uncoveredArea: number;
+  complianceItems: ComplianceItem[];
+}
+
+export interface ConnectivityViolation {
+  category: 'no_entrance' | 'unreachable' | 'adjacency_preference';
+  severity: 'critical' | 'major' | 'minor';
+  roomId?: string;
+  roomName?: string;
+  message: string;
+  recommendation: string;
+}
+
+export interface ConnectivityValidationResult {
+  violations: ConnectivityViolation[];
+  score: number;
+  /** Room people enter the plan through; undefined when none could be found */
+  entranceId?: string;
+  complianceItems: ComplianceItem[];
+}
+
+export interface EgressViolation {
+  category: 'no_exit' | 'travel_distance' | 'dead_end' | 'second_staircase' | 'door_width' | 'stair_width';
+  severity: 'critical' | 'major' | 'minor';
+  roomId?: string;
+  roomName?: string;
+  message: string;
+  recommendation: string;
+}
+
+export interface EgressValidationResult {
+  violations: EgressViolation[];
+  score: number;
+  /** Longest walk to an exit over all reachable rooms, meters */
+  maxTravelDistance: number;
+  complianceItems: ComplianceItem[];
+}
+
+export interface StructuralViolation {
+  category: 'empty_floor' | 'stair_alignment' | 'wet_stack' | 'unsupported';
+  severity: 'critical' | 'major' | 'minor';
+  roomId?: string;
+  roomName?: string;
+  floor?: number;
+  message: string;
+  recommendation: string;
+}
+
+export interface StructuralValidationResult {
+  violations: StructuralViolation[];
+  score: number;
+  complianceItems: ComplianceItem[];
+}
+
+export interface RoomLockViolation {
+  category: 'missing' | 'moved' | 'resized' | 'rotated';
+  severity: 'critical' | 'major' | 'minor';
+  roomId?: string;
+  roomName?: string;
+  message: string;
+  recommendation: string;
+}
+
+export interface RoomLockValidationResult {
+  violations: RoomLockViolation[];
+  score: number;
+  complianceItems: ComplianceItem[];
+}
+
+export interface AccessibilityViolation {
+  category: 'turning_circle' | 'door_width' | 'step_free_entrance' | 'ramp_gradient' | 'ground_floor_suite';
+  severity: 'critical' | 'major' | 'minor';
+  roomId?: string;
+  roomName?: string;
+  message: string;
+  recommendation: string;
+}
+
+export interface AccessibilityValidationResult {
+  violations: AccessibilityViolation[];
+  score: number;
+  complianceItems: ComplianceItem[];
+}
+
 export interface RegulatoryValidationResult {
   violations: RegulatoryViolation[];
   score: number;
@@ -119,23 +363,74 @@ export interface RegulatoryValidationResult {
   complianceItems: ComplianceItem[];
 }
 
+/** Per-room figures behind the spatial metrics */
+export interface RoomSpatialMetrics {
+  roomId: string;
+  roomName: string;
+  classification: RoomClassification;
+  area: number;
+  /** Estimated glazed area over floor area (windows taken as 1.2m tall) */
+  windowToFloorRatio: number;
+  /** Wall length not shared with another interior room, in meters */
+  exteriorWallLength: number;
+  /** Longer side over shorter side */
+  aspectRatio: number;
+  /** Doors passed on the way in from the entrance; undefined when unreachable */
+  depthFromEntrance?: number;
+}
+
+/**
+ * Deterministic layout-quality metrics computed from the room graph. Each
+ * score is 0–1; efficiencyScore and livabilityScore feed the plan scorer.
+ */
+export interface SpatialMetrics {
+  /** Circulation area over usable (room + service) area */
+  circulationRatio: number;
+  circulationScore: number;
+  /** Habitable rooms' window-to-floor ratio against the daylight target */
+  lightingScore: number;
+  /** Share of habitable rooms with a usable length of exterior wall */
+  exposureScore: number;
+  /** Share of public/private room pairs where the private room lies deeper from the entrance */
+  privacyScore: number;
+  /** Habitable and service rooms within a sane aspect ratio */
+  proportionScore: number;
+  /** Mean of circulation and proportion */
+  efficiencyScore: number;
+  /** Mean of lighting, exposure and privacy */
+  livabilityScore: number;
+  rooms: RoomSpatialMetrics[];
+  /** One line per shortfall, for the critic and the refinement agent */
+  findings: string[];
+}
+
+/** The critic's reading of the validators and metrics; it does not score */
 export interface CritiqueResult {
-  spatialEfficiency: number;
-  circulationQuality: number;
-  naturalLighting: number;
-  privacyGradient: number;
-  aestheticBalance: number;
-  overallConfidence: number;
+  summary: string;
   critiques: string[];
   strengths: string[];
 }
 
+export interface PlanRepairResult {
+  /** The input plan when nothing could be repaired */
+  plan: FloorPlanGraph;
+  /** One line per change kept, also appended to the plan's designLog */
+  repairs: string[];
+}
+
 export interface RefinementResult {
   refinedPlan: FloorPlanGraph;
   changesApplied: string[];
   violationsAddressed: string[];
 }
 
+/** A project's ScoringConfig with the defaults filled in */
+export interface ResolvedScoringConfig {
+  weights: ScoringWeights;
+  threshold: number;
+  maxIterations: number;
+}
+
 export interface PlanScore {
   finalScore: number;
   breakdown: {
@@ -147,13 +442,31 @@ export interface PlanScore {
   passesThreshold: boolean;
 }
 
-export interface IterationRecord {
+/** Every deterministic validator result for one plan */
+export interface PlanValidation {
+  geometryResult: GeometryValidationResult;
+  culturalResult: CulturalValidationResult;
+  regulatoryResult: RegulatoryValidationResult;
+  connectivityResult: ConnectivityValidationResult;
+  egressResult: EgressValidationResult;
+  /** Only for multi-floor projects */
+  structuralResult?: StructuralValidationResult;
+  /** Only when the project asks for accessibility */
+  accessibilityResult?: AccessibilityValidationResult;
+  /** Only when the project has locked rooms */
+  lockResult?: RoomLockValidationResult;
+}
+
+/** A validated plan with its metrics and score, as the orchestrator scores it */
+export interface PlanEvaluation extends PlanValidation {
+  spatialMetrics: SpatialMetrics;
+  score: PlanScore;
+}
+
+export interface IterationRecord extends PlanEvaluation {
   iteration: number;
   plan: FloorPlanGraph;
-  vastuResult: VastuValidationResult;
-  regulatoryResult: RegulatoryValidationResult;
   critique: CritiqueResult;
-  score: PlanScore;
 }
 
 export interface OrchestrationResult {
@@ -163,22 +476,85 @@ export interface OrchestrationResult {
   converged: boolean;
 }
 
+export type CheckpointPhase = 'spec' | 'spatial' | 'iteration' | 'refinement' | 'cost' | 'furniture';
+
+/**
+ * Orchestrator state after its last completed phase. Everything needed to
+ * continue without repeating LLM calls that already succeeded.
+ */
+export interface OrchestrationCheckpoint {
+  phase: CheckpointPhase;
+  spec: NormalizedSpec;
+  /** Spatial output or latest refined plan */
+  plan?: FloorPlanGraph;
+  iterations: IterationRecord[];
+  /** Next iteration to validate */
+  nextIteration: number;
+  /** The latest iteration was scored but its refinement has not run yet */
+  refinementPending: boolean;
+  converged: boolean;
+  finalScore?: PlanScore;
+  cost?: CostEstimate;
+  furniture?: FurnitureItem[];
+  savedAt: number;
+}
+
 export interface GenerationJob {
   jobId: string;
   userId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  /** Absent on jobs stored before other kinds existed, which are all generations */
+  kind?: JobKind;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: {
     phase: string;
     iteration: number;
     maxIterations: number;
     agentName?: string;
   };
+  /** Kept so the job can be resumed */
+  config?: ProjectConfig;
+  checkpoint?: OrchestrationCheckpoint;
+  resumeCount?: number;
+  /** Set when the job was cancelled; progress and checkpoint show how far it got */
+  cancelledAt?: number;
   result?: OrchestrationResult;
+  /** Result of a modification, estimation or image analysis job */
+  output?: ModificationResult | MaterialReport | GeneratedPlan;
   error?: string;
   createdAt: number;
   updatedAt: number;
 }
 
+/** Job summary for listings; result, output, config and checkpoint payloads are left out */
+export type GenerationJobSummary = Omit<GenerationJob, 'result' | 'output' | 'config' | 'checkpoint'> & {
+  iterationCount: number;
+  checkpointPhase?: CheckpointPhase;
+};
+
+export interface JobQuery {
+  userId?: string;
+  status?: GenerationJob['status'];
+  /** Only jobs created before this epoch-ms timestamp */
+  createdBefore?: number;
+}
+
+/**
+ * Storage for generation jobs and their per-iteration records. Async so that
+ * out-of-process backends fit behind the same interface.
+ */
+export interface JobStore {
+  readonly kind: string;
+  createJob(jobId: string, userId: string, kind?: JobKind): Promise<GenerationJob>;
+  getJob(jobId: string): Promise<GenerationJob | undefined>;
+  updateJob(jobId: string, updates: Partial<GenerationJob>): Promise<void>;
+  deleteJob(jobId: string): Promise<void>;
+  listJobs(query?: JobQuery): Promise<GenerationJobSummary[]>;
+  /** Deletes every matching job and returns how many were removed */
+  purgeJobs(query: JobQuery): Promise<number>;
+  appendIteration(jobId: string, record: IterationRecord): Promise<void>;
+  getIterations(jobId: string): Promise<IterationRecord[]>;
+}
+
 export interface AgentResult<T> {
   success: boolean;
   data: T;
@@ -192,12 +568,49 @@ export interface AgentResult<T> {
 
 export type AgentRole = 'input' | 'spatial' | 'critic' | 'refinement' | 'cost' | 'furniture';
 
+export type LLMProviderKind = 'gemini' | 'openai' | 'replay';
+
 export interface ModelRouterConfig {
+  provider: LLMProviderKind;
   model: string;
   temperature: number;
   maxOutputTokens: number;
 }
 
+export interface LLMRequest {
+  prompt: string;
+  modelConfig: ModelRouterConfig;
+  responseSchema?: any;
+  imageParts?: Array<{ inlineData: { mimeType: string; data: string } }>;
+  /** Aborts the pending request and skips any remaining fallbacks */
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  /** Parsed JSON response */
+  data: unknown;
+  /** Model that actually answered, e.g. a fallback */
+  model: string;
+  tokenCount?: number;
+}
+
+/**
+ * A backend that turns a prompt (plus optional response schema and images)
+ * into a structured JSON response.
+ */
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/** A recorded model response, keyed by prompt hash in replay fixture files */
+export interface LLMFixture {
+  model: string;
+  /** Prompt text, kept for readability and diffing */
+  prompt: string;
+  response: unknown;
+}
+
 export interface CostEstimate {
   bom: Array<{
     material: string;
@@ -15,21 +15,69 @@ export enum CulturalSystem {
   CHRISTIAN = 'Christian Beliefs',
 }
 
-export enum MunicipalCode {
-  NATIONAL = 'National Building Code',
-  BBMP = 'BBMP (Bengaluru)',
-  BMC = 'BMC (Mumbai)',
-  MCD = 'MCD (Delhi)',
+/** Municipal authority id or name, resolved by the code registry (see GET /api/codes) */
+export type MunicipalCode = string;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Weight of each score category in the final plan score; the weights sum to 1 */
+export interface ScoringWeights {
+  regulatory: number;
+  cultural: number;
+  geometry: number;
+  spatial: number;
+  livability: number;
+}
+
+/** Per-project scoring; anything left out uses the scorer's defaults */
+export interface ScoringConfig {
+  weights?: ScoringWeights;
+  /** Final score a plan needs for the refinement loop to stop */
+  threshold?: number;
+  /** Validate/refine passes before the loop gives up */
+  maxIterations?: number;
+}
+
+/**
+ * What a room lock holds: the whole room ('full'), its corner position, its
+ * dimensions, or which way its long side runs
+ */
+export type RoomLockMode = 'full' | 'position' | 'size' | 'orientation';
+
+/** A client-approved room that regeneration, refinement and modification must keep */
+export interface RoomLock {
+  roomId: string;
+  mode: RoomLockMode;
+  /** The room as approved; the locked part is checked against and restored from it */
+  room: Room;
+}
+
+/**
+ * How the first floor plan is drawn: one LLM call ('llm'), the deterministic
+ * layout solver ('solver'), or the solver's plan refined by the LLM ('hybrid')
+ */
+export type LayoutEngine = 'llm' | 'solver' | 'hybrid';
+
+/** Universal-design requirements; setting it switches the accessibility checks on */
+export interface AccessibilityConfig {
+  /** Ground-floor plinth above site level in meters (default 0.45; 0 = level entry) */
+  plinthHeight?: number;
 }
 
 export interface ProjectConfig {
   projectType: BuildingType;
   width: number;
   depth: number;
+  /** Plot outline for non-rectangular plots, origin at the front-left corner */
+  plotBoundary?: Point[];
   requirements: string[];
   adjacency: string;
   culturalSystem: CulturalSystem;
   vastuLevel?: 'None' | 'Slightly' | 'Moderately' | 'Strictly';
+  qiblaBearing?: number;
   facingDirection?: string;
   surroundingContext?: string;
   floors?: number;
@@ -40,6 +88,16 @@ export interface ProjectConfig {
   kitchenType?: 'Open' | 'Closed';
   familyMembers?: number;
   municipalCode: MunicipalCode;
+  /** Width of the abutting road in meters */
+  roadWidth?: number;
+  cornerPlot?: boolean;
+  /** Side of a corner plot that abuts the second road */
+  cornerSide?: 'left' | 'right';
+  scoring?: ScoringConfig;
+  accessibility?: AccessibilityConfig;
+  /** Defaults to 'llm' */
+  layoutEngine?: LayoutEngine;
+  roomLocks?: RoomLock[];
 }
 
 export interface WallFeature {
@@ -47,6 +105,8 @@ export interface WallFeature {
   wall: 'top' | 'bottom' | 'left' | 'right';
   position: number;
   width: number;
+  /** Polygon rooms: outline edge (vertex i → i+1) the feature sits on; position runs along it */
+  edge?: number;
 }
 
 export interface Room {
@@ -57,9 +117,13 @@ export interface Room {
   y: number;
   width: number;
   height: number;
+  /** Outline of an L-shaped or polygonal room (absolute meters); x/y/width/height are then its bounding box */
+  polygon?: Point[];
   features: WallFeature[];
   guidance?: string;
   floor?: number;
+  /** Turning direction of a staircase on the way up, seen from above */
+  stairTurn?: 'clockwise' | 'anticlockwise';
 }
 
 export interface FurnitureItem {
@@ -80,6 +144,39 @@ export interface FloorData {
   rooms: Room[];
 }
 
+/** RCC column, centered on (x, y) */
+export interface StructuralColumn {
+  id: string;
+  x: number;
+  y: number;
+  /** Section along x and along y, meters */
+  width: number;
+  depth: number;
+  /** Lowest and highest floor whose walls it carries */
+  fromFloor: number;
+  toFloor: number;
+}
+
+/** RCC beam between two columns, under the slab above `floor` */
+export interface StructuralBeam {
+  id: string;
+  floor: number;
+  from: string;
+  to: string;
+  /** Center-to-center length, meters */
+  span: number;
+  width: number;
+  depth: number;
+}
+
+export interface StructuralLayout {
+  columns: StructuralColumn[];
+  beams: StructuralBeam[];
+  /** Span limit the grid was laid out for, meters */
+  maxSpan: number;
+  longestSpan: number;
+}
+
 export interface ComplianceItem {
   rule: string;
   status: 'PASS' | 'FAIL' | 'WARN';
@@ -98,12 +195,18 @@ export interface GeneratedPlan {
   imageUrl?: string;
   designLog?: string[];
   rooms: Room[];
+  /** Outline of an irregular plot; absent for rectangular plots */
+  plotBoundary?: Point[];
   totalArea: number;
   builtUpArea: number;
   plotCoverageRatio: number;
   compliance: {
     regulatory: ComplianceItem[];
     cultural: ComplianceItem[];
+    /** Egress checks (NBC Part 4); absent on plans that were not validated */
+    fireSafety?: ComplianceItem[];
+    /** Universal-design checks; only when the project asks for accessibility */
+    accessibility?: ComplianceItem[];
   };
   bom: MaterialItem[];
   totalCostRange: {
@@ -113,6 +216,8 @@ export interface GeneratedPlan {
   };
   furniture?: FurnitureItem[];
   floors?: FloorData[];
+  /** Proposed column and beam layout; absent on uploaded plans */
+  structure?: StructuralLayout;
   version?: string;
   timestamp?: number;
 }
@@ -183,6 +288,27 @@ export interface MaterialReport {
   risks: string[];
 }
 
+/** Deterministic re-check of a plan changed through /modify/apply */
+export interface ModificationReview {
+  scoreBefore: number;
+  scoreAfter: number;
+  /** scoreAfter - scoreBefore; negative when the change made the plan worse */
+  scoreDelta: number;
+  /** Per-category scores, in the scorer's order */
+  breakdown: { category: string; before: number; after: number }[];
+  passesThreshold: boolean;
+  /** Critical violations the modified plan has and the original did not */
+  newCriticalViolations: string[];
+}
+
+export interface ModificationResult {
+  plan: GeneratedPlan;
+  review: ModificationReview;
+}
+
+/** What a background job runs; all kinds share the job store and its stream and status endpoints */
+export type JobKind = 'generation' | 'modification' | 'estimation' | 'image_analysis';
+
 export interface ModificationAnalysis {
   originalRequest: string;
   analysis: string;
@@ -0,0 +1,106 @@
+import type { RoomAdjacency, RoomClassification } from '../types/agent.types.js';
+import type { Point, Room, WallFeature } from '../types/shared.types.js';
+import { findSharedWall, hasConnectingOpening, isFeatureOnSharedWall } from './geometry.utils.js';
+import { featurePoint } from './polygon.utils.js';
+import { classifyRoom } from './room-classifier.js';
+
+type GraphRoom = Room & { classification?: RoomClassification };
+
+const classificationOf = (room: GraphRoom) => room.classification ?? classifyRoom(room.name);
+
+/**
+ * Adjacency graph of a plan: one edge per pair of rooms on the same floor
+ * that share a wall, plus one between staircases on consecutive floors.
+ * An edge is connected when a door or opening on the shared wall lets people
+ * through; circulation spaces that share a wall are open to each other.
+ * Setbacks are open land, not rooms, and are left out.
+ */
+export function buildAdjacencyGraph(rooms: GraphRoom[]): RoomAdjacency[] {
+  const nodes = rooms.filter(r => r.type !== 'setback' && r.width > 0 && r.height > 0);
+  const edges: RoomAdjacency[] = [];
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i];
+      const b = nodes[j];
+      const floorA = a.floor ?? 0;
+      const floorB = b.floor ?? 0;
+
+      if (floorA !== floorB) {
+        if (Math.abs(floorA - floorB) === 1 && classificationOf(a) === 'staircase' && classificationOf(b) === 'staircase') {
+          edges.push({ room1Id: a.id, room2Id: b.id, sharedWallLength: 0, connected: true });
+        }
+        continue;
+      }
+
+      const wall = findSharedWall(a, b);
+      if (!wall) continue;
+      edges.push({
+        room1Id: a.id,
+        room2Id: b.id,
+        sharedWallLength: Math.round((wall.end - wall.start) * 100) / 100,
+        connected: hasConnectingOpening(a, b) || (a.type === 'circulation' && b.type === 'circulation'),
+      });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * The room people enter through: a foyer or entrance, else the ground-floor
+ * circulation space (then room) nearest the front edge.
+ */
+export function findEntrance<T extends GraphRoom>(rooms: T[]): T | undefined {
+  const ground = rooms.filter(r => (r.floor ?? 0) === 0 && (r.type === 'room' || r.type === 'circulation'));
+  const frontMost = (candidates: T[]) => [...candidates].sort((a, b) => a.y - b.y)[0];
+  return ground.find(r => ['foyer', 'entrance'].includes(classificationOf(r)))
+    ?? ground.find(r => /entrance|entry/i.test(r.name))
+    ?? frontMost(ground.filter(r => r.type === 'circulation'))
+    ?? frontMost(ground);
+}
+
+/**
+ * The entrance's door or opening on a wall no other interior room on its
+ * floor sits against. The widest one counts when there are several.
+ */
+export function findMainDoor(
+  entrance: GraphRoom,
+  sameFloor: GraphRoom[]
+): { point: Point; width: number; wall: WallFeature['wall'] } | undefined {
+  const walls = sameFloor
+    .filter(r => r.id !== entrance.id && ['room', 'circulation', 'service'].includes(r.type))
+    .map(r => findSharedWall(entrance, r))
+    .filter(w => w !== null);
+
+  return entrance.features
+    .filter(f => f.type !== 'window' && !walls.some(w => isFeatureOnSharedWall(entrance, f, w.wallA, w)))
+    .map(f => ({ point: featurePoint(entrance, f), width: f.width, wall: f.wall }))
+    .sort((a, b) => b.width - a.width)[0];
+}
+
+/**
+ * Doors passed from the nearest source to every reachable room,
+ * breadth-first over connected edges.
+ */
+export function doorDistances(sourceIds: string[], adjacencies: RoomAdjacency[]): Map<string, number> {
+  const neighbours = new Map<string, string[]>();
+  for (const edge of adjacencies.filter(e => e.connected)) {
+    if (!neighbours.has(edge.room1Id)) neighbours.set(edge.room1Id, []);
+    if (!neighbours.has(edge.room2Id)) neighbours.set(edge.room2Id, []);
+    neighbours.get(edge.room1Id)!.push(edge.room2Id);
+    neighbours.get(edge.room2Id)!.push(edge.room1Id);
+  }
+
+  const distances = new Map<string, number>(sourceIds.map(id => [id, 0]));
+  const queue = [...sourceIds];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of neighbours.get(current) ?? []) {
+      if (distances.has(next)) continue;
+      distances.set(next, distances.get(current)! + 1);
+      queue.push(next);
+    }
+  }
+  return distances;
+}
@@ -1,30 +1,143 @@
 import type { CardinalDirection, RoomWithDirection, PlotGeometry, RoomClassification } from '../types/agent.types.js';
-import type { Room } from '../types/shared.types.js';
+import type { Room, WallFeature, Point } from '../types/shared.types.js';
 import { classifyRoom } from './room-classifier.js';
+import { polygonCentroid, roomArea, roomCentroid } from './polygon.utils.js';
+
+type CompassDirection = Exclude<CardinalDirection, 'CENTER'>;
+
+const COMPASS: CompassDirection[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+const FACING_ALIASES: Record<string, CompassDirection> = {
+  north: 'N',
+  northeast: 'NE',
+  east: 'E',
+  southeast: 'SE',
+  south: 'S',
+  southwest: 'SW',
+  west: 'W',
+  northwest: 'NW',
+};
+
+/**
+ * Parses ProjectConfig.facingDirection into a compass bearing (degrees clockwise
+ * from North) for the plot's front edge. Accepts names ("North-East"),
+ * abbreviations ("NE") and numeric bearings ("30", "30°") for non-cardinal plots.
+ * Defaults to 0 (north-facing).
+ */
+export function parseFacingDirection(facing?: string): number {
+  if (!facing) return 0;
+  const trimmed = facing.trim();
+
+  const numeric = trimmed.match(/^(-?\d+(?:\.\d+)?)\s*(?:°|deg|degrees)?$/i);
+  if (numeric) return normalizeBearing(parseFloat(numeric[1]));
+
+  const key = trimmed.toLowerCase().replace(/[\s_-]/g, '');
+  const upper = trimmed.toUpperCase() as CompassDirection;
+  const direction = FACING_ALIASES[key] || (COMPASS.includes(upper) ? upper : undefined);
+  return direction ? COMPASS.indexOf(direction) * 45 : 0;
+}
+
+export function normalizeBearing(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Rotates a direction clockwise by `degrees`, snapping to the nearest of the
+ * eight compass points. CENTER is unaffected by rotation.
+ */
+export function rotateDirection(direction: CardinalDirection, degrees: number): CardinalDirection {
+  if (direction === 'CENTER') return 'CENTER';
+  const bearing = normalizeBearing(COMPASS.indexOf(direction) * 45 + degrees);
+  return COMPASS[Math.round(bearing / 45) % 8];
+}
+
+/**
+ * Converts a plot-frame direction (named as if the plot faced North, i.e.
+ * "N" = front edge, "W" = left edge as drawn) into a true compass direction.
+ */
+export function plotToWorldDirection(direction: CardinalDirection, orientation = 0): CardinalDirection {
+  return rotateDirection(direction, orientation);
+}
+
+/**
+ * Converts a true compass direction into the plot-frame direction where it lies.
+ */
+export function worldToPlotDirection(direction: CardinalDirection, orientation = 0): CardinalDirection {
+  return rotateDirection(direction, -orientation);
+}
+
+const PLOT_REGION_LABELS: Record<CardinalDirection, string> = {
+  N: 'front',
+  NE: 'front-right corner',
+  E: 'right side',
+  SE: 'rear-right corner',
+  S: 'rear',
+  SW: 'rear-left corner',
+  W: 'left side',
+  NW: 'front-left corner',
+  CENTER: 'center',
+};
+
+/**
+ * Describes where a true compass direction falls on the plot as drawn,
+ * e.g. "rear-left corner" for SW on a north-facing plot.
+ */
+export function describePlotRegion(direction: CardinalDirection, orientation = 0): string {
+  return PLOT_REGION_LABELS[worldToPlotDirection(direction, orientation)];
+}
+
+/**
+ * Human-readable compass legend for prompts, one line per direction.
+ */
+export function describeOrientation(orientation = 0): string {
+  return COMPASS
+    .map(d => `- ${d} → ${describePlotRegion(d, orientation)}`)
+    .join('\n');
+}
+
+const WALLS_CLOCKWISE: WallFeature['wall'][] = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Room wall whose outward face points closest to a compass bearing. The top
+ * wall (y=min) faces the plot's front edge, so it looks along `orientation`.
+ */
+export function wallFacingBearing(bearing: number, orientation = 0): WallFeature['wall'] {
+  const relative = normalizeBearing(bearing - orientation);
+  return WALLS_CLOCKWISE[Math.round(relative / 90) % 4];
+}
+
+export function oppositeWall(wall: WallFeature['wall']): WallFeature['wall'] {
+  return WALLS_CLOCKWISE[(WALLS_CLOCKWISE.indexOf(wall) + 2) % 4];
+}
 
 /**
- * Divides plot into 3x3 grid. Origin (0,0) at NW corner, X→East, Y→South.
- * Returns the cardinal direction of the given center point.
+ * Divides plot into 3x3 grid. Origin (0,0) at the plot's front-left corner,
+ * X→right, Y→rear. The grid cell is named in the plot frame and rotated by
+ * the plot orientation to give the true cardinal direction of the point.
+ * For irregular plots pass the boundary centroid as `plotCenter`: the central
+ * cell (Brahmasthan) is then a third of the plot's extent centred on it.
  */
 export function computeDirection(
   centerX: number,
   centerY: number,
   plotWidth: number,
-  plotDepth: number
+  plotDepth: number,
+  orientation = 0,
+  plotCenter: Point = { x: plotWidth / 2, y: plotDepth / 2 }
 ): CardinalDirection {
-  const colThird = plotWidth / 3;
-  const rowThird = plotDepth / 3;
+  const halfColumn = plotWidth / 6;
+  const halfRow = plotDepth / 6;
 
-  // Column: 0=W, 1=CENTER, 2=E
+  // Column: 0=left, 1=CENTER, 2=right
   let col: number;
-  if (centerX < colThird) col = 0;
-  else if (centerX < colThird * 2) col = 1;
+  if (centerX < plotCenter.x - halfColumn) col = 0;
+  else if (centerX < plotCenter.x + halfColumn) col = 1;
   else col = 2;
 
-  // Row: 0=N, 1=CENTER, 2=S
+  // Row: 0=front, 1=CENTER, 2=rear
   let row: number;
-  if (centerY < rowThird) row = 0;
-  else if (centerY < rowThird * 2) row = 1;
+  if (centerY < plotCenter.y - halfRow) row = 0;
+  else if (centerY < plotCenter.y + halfRow) row = 1;
   else row = 2;
 
   const grid: CardinalDirection[][] = [
@@ -33,7 +146,7 @@ export function computeDirection(
     ['SW', 'S', 'SE'],
   ];
 
-  return grid[row][col];
+  return plotToWorldDirection(grid[row][col], orientation);
 }
 
 /**
@@ -43,11 +156,14 @@ export function enrichRoomsWithDirection(
   rooms: Room[],
   plotGeometry: PlotGeometry
 ): RoomWithDirection[] {
+  const plotCenter = plotGeometry.boundary && plotGeometry.boundary.length >= 3
+    ? polygonCentroid(plotGeometry.boundary)
+    : undefined;
+
   return rooms.map((room) => {
-    const centerX = room.x + room.width / 2;
-    const centerY = room.y + room.height / 2;
-    const area = room.width * room.height;
-    const direction = computeDirection(centerX, centerY, plotGeometry.width, plotGeometry.depth);
+    const { x: centerX, y: centerY } = roomCentroid(room);
+    const area = roomArea(room);
+    const direction = computeDirection(centerX, centerY, plotGeometry.width, plotGeometry.depth, plotGeometry.orientation, plotCenter);
     const classification = classifyRoom(room.name);
 
     return {
@@ -62,9 +178,14 @@ export function enrichRoomsWithDirection(
 }
 
 /**
- * Vastu-preferred directions per room type.
+ * Vastu-preferred directions per room type. When an orientation is given the
+ * directions are returned in the plot frame (see worldToPlotDirection), ready
+ * to be used for placement in plan coordinates.
  */
-export function getPreferredDirections(classification: RoomClassification): CardinalDirection[] {
+export function getPreferredDirections(
+  classification: RoomClassification,
+  orientation?: number
+): CardinalDirection[] {
   const lookup: Record<RoomClassification, CardinalDirection[]> = {
     master_bedroom: ['SW'],
     children_bedroom: ['W', 'NW', 'E'],
@@ -76,6 +197,8 @@ export function getPreferredDirections(classification: RoomClassification): Card
     bathroom: ['W', 'S', 'NW'],
     toilet: ['W', 'S', 'NW'],
     pooja_room: ['NE', 'E', 'N'],
+    majlis: ['N', 'E', 'NW'],
+    courtyard: ['CENTER', 'NE', 'N', 'E'],
     study_room: ['W', 'E', 'NE'],
     balcony: ['N', 'E', 'NE'],
     staircase: ['SW', 'S', 'W'],
@@ -87,5 +210,7 @@ export function getPreferredDirections(classification: RoomClassification): Card
     utility: ['NW', 'W'],
   };
 
-  return lookup[classification] || [];
+  const directions = lookup[classification] || [];
+  if (orientation === undefined) return directions;
+  return [...new Set(directions.map(d => worldToPlotDirection(d, orientation)))];
 }
@@ -0,0 +1,156 @@
+import type { Room, WallFeature } from '../types/shared.types.js';
+import { featurePoint } from './polygon.utils.js';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SharedWall {
+  orientation: 'horizontal' | 'vertical';
+  /** Wall of room A that touches room B */
+  wallA: WallFeature['wall'];
+  /** Wall of room B that touches room A */
+  wallB: WallFeature['wall'];
+  /** Fixed coordinate of the shared line (y for horizontal, x for vertical) */
+  coord: number;
+  /** Extent of the shared segment along the wall */
+  start: number;
+  end: number;
+}
+
+const EPSILON = 1e-6;
+
+/**
+ * Area of the intersection of two axis-aligned rectangles (0 if disjoint).
+ */
+export function rectIntersectionArea(a: Rect, b: Rect): number {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return w > EPSILON && h > EPSILON ? w * h : 0;
+}
+
+/**
+ * Exact area of the union of rectangles, clipped to `bounds`.
+ * Uses coordinate compression, so cost is O(n^3) in the number of rectangles —
+ * fine for floor plans with a few dozen zones.
+ */
+export function rectUnionArea(rects: Rect[], bounds: Rect): number {
+  const clipped = rects
+    .map(r => {
+      const x1 = Math.max(r.x, bounds.x);
+      const y1 = Math.max(r.y, bounds.y);
+      const x2 = Math.min(r.x + r.width, bounds.x + bounds.width);
+      const y2 = Math.min(r.y + r.height, bounds.y + bounds.height);
+      return { x1, y1, x2, y2 };
+    })
+    .filter(r => r.x2 - r.x1 > EPSILON && r.y2 - r.y1 > EPSILON);
+
+  if (clipped.length === 0) return 0;
+
+  const xs = [...new Set(clipped.flatMap(r => [r.x1, r.x2]))].sort((a, b) => a - b);
+  const ys = [...new Set(clipped.flatMap(r => [r.y1, r.y2]))].sort((a, b) => a - b);
+
+  let area = 0;
+  for (let i = 0; i < xs.length - 1; i++) {
+    const cx = (xs[i] + xs[i + 1]) / 2;
+    for (let j = 0; j < ys.length - 1; j++) {
+      const cy = (ys[j] + ys[j + 1]) / 2;
+      if (clipped.some(r => cx > r.x1 && cx < r.x2 && cy > r.y1 && cy < r.y2)) {
+        area += (xs[i + 1] - xs[i]) * (ys[j + 1] - ys[j]);
+      }
+    }
+  }
+  return area;
+}
+
+/**
+ * Detects whether two rooms touch along a wall. Returns the shared segment
+ * when the touching length exceeds `minLength`, otherwise null.
+ */
+export function findSharedWall(a: Rect, b: Rect, tolerance = 0.05, minLength = 0.1): SharedWall | null {
+  // A's bottom touches B's top (or vice versa)
+  const horizontalOverlap = [Math.max(a.x, b.x), Math.min(a.x + a.width, b.x + b.width)] as const;
+  if (horizontalOverlap[1] - horizontalOverlap[0] >= minLength) {
+    if (Math.abs(a.y + a.height - b.y) <= tolerance) {
+      return { orientation: 'horizontal', wallA: 'bottom', wallB: 'top', coord: b.y, start: horizontalOverlap[0], end: horizontalOverlap[1] };
+    }
+    if (Math.abs(b.y + b.height - a.y) <= tolerance) {
+      return { orientation: 'horizontal', wallA: 'top', wallB: 'bottom', coord: a.y, start: horizontalOverlap[0], end: horizontalOverlap[1] };
+    }
+  }
+
+  const verticalOverlap = [Math.max(a.y, b.y), Math.min(a.y + a.height, b.y + b.height)] as const;
+  if (verticalOverlap[1] - verticalOverlap[0] >= minLength) {
+    if (Math.abs(a.x + a.width - b.x) <= tolerance) {
+      return { orientation: 'vertical', wallA: 'right', wallB: 'left', coord: b.x, start: verticalOverlap[0], end: verticalOverlap[1] };
+    }
+    if (Math.abs(b.x + b.width - a.x) <= tolerance) {
+      return { orientation: 'vertical', wallA: 'left', wallB: 'right', coord: a.x, start: verticalOverlap[0], end: verticalOverlap[1] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Absolute coordinate of a feature's center along its wall
+ * (x for top/bottom walls, y for left/right walls).
+ */
+export function featureCenter(room: Rect & Pick<Room, 'polygon'>, feature: WallFeature): number {
+  const point = featurePoint(room, feature);
+  return feature.wall === 'top' || feature.wall === 'bottom' ? point.x : point.y;
+}
+
+/**
+ * True when a feature of `room` sits on the given side of a shared wall, within
+ * the shared segment. Edge-based features on polygon rooms must also lie on
+ * the shared line, not just face the same way.
+ */
+export function isFeatureOnSharedWall(
+  room: Rect & Pick<Room, 'polygon'>,
+  feature: WallFeature,
+  side: WallFeature['wall'],
+  wall: SharedWall,
+  tolerance = 0.05
+): boolean {
+  if (feature.wall !== side) return false;
+  const point = featurePoint(room, feature);
+  const along = wall.orientation === 'horizontal' ? point.x : point.y;
+  const across = wall.orientation === 'horizontal' ? point.y : point.x;
+  return along >= wall.start && along <= wall.end && Math.abs(across - wall.coord) <= tolerance;
+}
+
+/**
+ * Groups rooms by their floor index (missing floor = ground floor).
+ */
+export function groupRoomsByFloor<T extends Pick<Room, 'floor'>>(rooms: T[]): Map<number, T[]> {
+  const byFloor = new Map<number, T[]>();
+  for (const room of rooms) {
+    const floor = room.floor ?? 0;
+    if (!byFloor.has(floor)) byFloor.set(floor, []);
+    byFloor.get(floor)!.push(room);
+  }
+  return byFloor;
+}
+
+/** True when two rooms are on the same floor (missing floor = ground floor) */
+export function sameFloor(a: Pick<Room, 'floor'>, b: Pick<Room, 'floor'>): boolean {
+  return (a.floor ?? 0) === (b.floor ?? 0);
+}
+
+/**
+ * True when two rooms share a wall and a door or opening on that wall lets
+ * one pass directly into the other.
+ */
+export function hasConnectingOpening(a: Room, b: Room): boolean {
+  const wall = findSharedWall(a, b);
+  if (!wall) return false;
+
+  const opensOnto = (room: Room, side: WallFeature['wall']) =>
+    (room.features || []).some(f => f.type !== 'window' && isFeatureOnSharedWall(room, f, side, wall));
+
+  return opensOnto(a, wall.wallA) || opensOnto(b, wall.wallB);
+}
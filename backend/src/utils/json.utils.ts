@@ -0,0 +1,22 @@
+function sanitizeJsonString(raw: string): string {
+  let s = raw.trim();
+  // Strip markdown fences
+  if (s.startsWith('```json')) s = s.slice(7);
+  else if (s.startsWith('```')) s = s.slice(3);
+  if (s.endsWith('```')) s = s.slice(0, -3);
+  s = s.trim();
+  // Remove trailing commas before } or ]
+  s = s.replace(/,\s*([\]}])/g, '$1');
+  return s;
+}
+
+/** Parses model output, tolerating markdown fences and trailing commas */
+export function parseJson<T>(text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    // Try sanitized version
+    const sanitized = sanitizeJsonString(text);
+    return JSON.parse(sanitized) as T;
+  }
+}
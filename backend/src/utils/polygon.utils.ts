@@ -0,0 +1,386 @@
+import type { Point, Room, WallFeature } from '../types/shared.types.js';
+import type { PlotGeometry, SetbackRequirements } from '../types/agent.types.js';
+import type { Rect } from './geometry.utils.js';
+
+const EPSILON = 1e-9;
+
+/**
+ * Signed shoelace area: positive when vertices run clockwise in plan
+ * coordinates (Y grows toward the rear), negative when anticlockwise.
+ */
+function signedArea(polygon: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+export function polygonArea(polygon: Point[]): number {
+  return Math.abs(signedArea(polygon));
+}
+
+/**
+ * Area centroid of a simple polygon (falls back to the vertex mean for
+ * degenerate input).
+ */
+export function polygonCentroid(polygon: Point[]): Point {
+  const area = signedArea(polygon);
+  if (Math.abs(area) < EPSILON) {
+    return {
+      x: polygon.reduce((s, p) => s + p.x, 0) / polygon.length,
+      y: polygon.reduce((s, p) => s + p.y, 0) / polygon.length,
+    };
+  }
+
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const cross = a.x * b.y - b.x * a.y;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  return { x: cx / (6 * area), y: cy / (6 * area) };
+}
+
+export function rectToPolygon(rect: Rect): Point[] {
+  return [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+  ];
+}
+
+/**
+ * The plot outline: the explicit boundary for irregular plots, otherwise the
+ * width × depth rectangle.
+ */
+export function plotPolygon(plot: PlotGeometry): Point[] {
+  return plot.boundary && plot.boundary.length >= 3
+    ? plot.boundary
+    : rectToPolygon({ x: 0, y: 0, width: plot.width, height: plot.depth });
+}
+
+export function plotArea(plot: PlotGeometry): number {
+  return plot.boundary && plot.boundary.length >= 3
+    ? polygonArea(plot.boundary)
+    : plot.width * plot.depth;
+}
+
+export function boundingBox(polygon: Point[]): Rect {
+  const xs = polygon.map(p => p.x);
+  const ys = polygon.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Ray-casting point-in-polygon test. Points on an edge may report either way;
+ * use distanceToPolygonEdge for tolerant checks.
+ */
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y)) {
+      const xCross = a.x + ((point.y - a.y) / (b.y - a.y)) * (b.x - a.x);
+      if (point.x < xCross) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function distanceToPolygonEdge(point: Point, polygon: Point[]): number {
+  let best = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq)) : 0;
+    best = Math.min(best, Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy)));
+  }
+  return best;
+}
+
+/**
+ * True when `inner` lies inside `outer`, allowing vertices to sit up to
+ * `tolerance` outside. Also rejects shapes that straddle a notch of a concave
+ * outer polygon (an outer vertex strictly inside `inner`).
+ */
+export function polygonInPolygon(inner: Point[], outer: Point[], tolerance = 0): boolean {
+  const verticesInside = inner.every(p =>
+    pointInPolygon(p, outer) || distanceToPolygonEdge(p, outer) <= tolerance
+  );
+  if (!verticesInside) return false;
+
+  return !outer.some(v => pointInPolygon(v, inner) && distanceToPolygonEdge(v, inner) > tolerance);
+}
+
+/**
+ * Clips a polygon (convex or concave) to a convex polygon with
+ * Sutherland–Hodgman. Concave input may yield zero-width slivers along the
+ * clip edges, which do not affect the area.
+ */
+export function clipToConvex(polygon: Point[], convex: Point[]): Point[] {
+  const orientation = Math.sign(signedArea(convex)) || 1;
+  // Positive when p lies on the inner side of the directed clip edge a→b
+  const side = (a: Point, b: Point, p: Point) =>
+    orientation * ((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x));
+
+  let output = polygon;
+  for (let e = 0; e < convex.length && output.length > 0; e++) {
+    const a = convex[e];
+    const b = convex[(e + 1) % convex.length];
+    const input = output;
+    output = [];
+    for (let i = 0; i < input.length; i++) {
+      const current = input[i];
+      const previous = input[(i + input.length - 1) % input.length];
+      const sc = side(a, b, current);
+      const sp = side(a, b, previous);
+      if (sc >= 0) {
+        if (sp < 0) output.push(lerp(previous, current, sp / (sp - sc)));
+        output.push(current);
+      } else if (sp >= 0) {
+        output.push(lerp(previous, current, sp / (sp - sc)));
+      }
+    }
+  }
+  return output;
+}
+
+function lerp(a: Point, b: Point, t: number): Point {
+  return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+}
+
+/**
+ * Ear-clipping triangulation of a simple polygon.
+ */
+function triangulate(polygon: Point[]): Point[][] {
+  const orientation = Math.sign(signedArea(polygon)) || 1;
+  const cross = (a: Point, b: Point, c: Point) =>
+    orientation * ((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+
+  const remaining = [...polygon];
+  const triangles: Point[][] = [];
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const prev = remaining[(i + remaining.length - 1) % remaining.length];
+      const curr = remaining[i];
+      const next = remaining[(i + 1) % remaining.length];
+      if (cross(prev, curr, next) <= EPSILON) continue;
+      const ear = [prev, curr, next];
+      if (remaining.some(p => !ear.includes(p) && pointInPolygon(p, ear))) continue;
+
+      triangles.push(ear);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    // Degenerate (collinear or self-touching) input: stop rather than loop
+    if (!clipped) break;
+  }
+  if (remaining.length === 3) triangles.push(remaining);
+  return triangles;
+}
+
+export function rectPolygonIntersectionArea(rect: Rect, polygon: Point[]): number {
+  const clipped = clipToConvex(polygon, rectToPolygon(rect));
+  return clipped.length >= 3 ? polygonArea(clipped) : 0;
+}
+
+/**
+ * Area shared by two simple polygons: `a` is clipped against each triangle of `b`.
+ */
+export function polygonIntersectionArea(a: Point[], b: Point[]): number {
+  return triangulate(b).reduce((sum, triangle) => {
+    const clipped = clipToConvex(a, triangle);
+    return sum + (clipped.length >= 3 ? polygonArea(clipped) : 0);
+  }, 0);
+}
+
+/**
+ * Area of the union of room outlines within a polygon. Coordinate compression
+ * on the outline vertices; each cell counts the room area inside it, capped at
+ * the cell's share of the polygon. Exact for rectangles and for polygon rooms
+ * that do not overlap each other (overlaps are reported by the geometry validator).
+ */
+export function roomUnionAreaInPolygon(rooms: Array<Rect & Pick<Room, 'polygon'>>, polygon: Point[]): number {
+  const usable = rooms.filter(r => r.width > EPSILON && r.height > EPSILON);
+  if (usable.length === 0) return 0;
+
+  const outlines = usable.map(r => ({ room: r, outline: roomOutline(r), isPolygon: !!r.polygon && r.polygon.length >= 3 }));
+  const xs = [...new Set(outlines.flatMap(o => o.outline.map(p => p.x)))].sort((a, b) => a - b);
+  const ys = [...new Set(outlines.flatMap(o => o.outline.map(p => p.y)))].sort((a, b) => a - b);
+
+  let area = 0;
+  for (let i = 0; i < xs.length - 1; i++) {
+    for (let j = 0; j < ys.length - 1; j++) {
+      const cell = { x: xs[i], y: ys[j], width: xs[i + 1] - xs[i], height: ys[j + 1] - ys[j] };
+      const cx = cell.x + cell.width / 2;
+      const cy = cell.y + cell.height / 2;
+      const touching = outlines.filter(({ room }) =>
+        cx > room.x && cx < room.x + room.width && cy > room.y && cy < room.y + room.height);
+      if (touching.length === 0) continue;
+
+      const available = rectPolygonIntersectionArea(cell, polygon);
+      if (available <= EPSILON) continue;
+
+      let covered = 0;
+      for (const { outline, isPolygon } of touching) {
+        covered += isPolygon
+          ? polygonIntersectionArea(clipToConvex(outline, rectToPolygon(cell)), polygon)
+          : available;
+        if (covered >= available) break;
+      }
+      area += Math.min(covered, available);
+    }
+  }
+  return area;
+}
+
+/**
+ * A room's floor outline: its polygon for L-shaped and other non-rectangular
+ * rooms, otherwise its rectangle. x/y/width/height always hold the bounding box.
+ */
+export function roomOutline(room: Rect & Pick<Room, 'polygon'>): Point[] {
+  return room.polygon && room.polygon.length >= 3 ? room.polygon : rectToPolygon(room);
+}
+
+export function roomArea(room: Rect & Pick<Room, 'polygon'>): number {
+  return room.polygon && room.polygon.length >= 3 ? polygonArea(room.polygon) : room.width * room.height;
+}
+
+export function roomCentroid(room: Rect & Pick<Room, 'polygon'>): Point {
+  return room.polygon && room.polygon.length >= 3
+    ? polygonCentroid(room.polygon)
+    : { x: room.x + room.width / 2, y: room.y + room.height / 2 };
+}
+
+/**
+ * Floor area two rooms share; exact for rectangles and polygons alike.
+ */
+export function roomIntersectionArea(a: Rect & Pick<Room, 'polygon'>, b: Rect & Pick<Room, 'polygon'>): number {
+  if (!a.polygon?.length && !b.polygon?.length) {
+    const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    return w > 0 && h > 0 ? w * h : 0;
+  }
+  return polygonIntersectionArea(roomOutline(a), roomOutline(b));
+}
+
+const SIDE_TO_WALL: Record<keyof SetbackRequirements, WallFeature['wall']> = {
+  front: 'top',
+  rear: 'bottom',
+  left: 'left',
+  right: 'right',
+};
+
+/**
+ * Point on the room outline where a feature is centred. Features on polygon
+ * rooms name the outline edge (vertex `edge` → `edge + 1`); the rest use the
+ * rectangle wall.
+ */
+export function featurePoint(room: Rect & Pick<Room, 'polygon'>, feature: WallFeature): Point {
+  if (room.polygon && room.polygon.length >= 3 && feature.edge !== undefined) {
+    const n = room.polygon.length;
+    const a = room.polygon[((feature.edge % n) + n) % n];
+    const b = room.polygon[(((feature.edge + 1) % n) + n) % n];
+    return lerp(a, b, feature.position);
+  }
+  switch (feature.wall) {
+    case 'top': return { x: room.x + room.width * feature.position, y: room.y };
+    case 'bottom': return { x: room.x + room.width * feature.position, y: room.y + room.height };
+    case 'left': return { x: room.x, y: room.y + room.height * feature.position };
+    case 'right': return { x: room.x + room.width, y: room.y + room.height * feature.position };
+  }
+}
+
+/**
+ * Makes an LLM-produced room self-consistent: drops outlines with fewer than
+ * three vertices, sets the bounding box from the outline, and points each
+ * edge-based feature's `wall` at the side its edge faces.
+ */
+export function normalizeRoomShape<T extends Room>(room: T): T {
+  if (!room.polygon || room.polygon.length < 3) {
+    const { polygon: _dropped, ...rest } = room;
+    return rest as T;
+  }
+
+  const polygon = room.polygon;
+  const bounds = boundingBox(polygon);
+  const clockwise = signedArea(polygon) > 0;
+  const features = (room.features || []).map(f => {
+    if (f.edge === undefined) return f;
+    const edge = ((Math.round(f.edge) % polygon.length) + polygon.length) % polygon.length;
+    const wall = SIDE_TO_WALL[edgeSide(polygon[edge], polygon[(edge + 1) % polygon.length], clockwise)];
+    return { ...f, edge, wall };
+  });
+
+  return { ...room, ...bounds, features };
+}
+
+/**
+ * Which plot side an edge belongs to, from its outward normal: front (y=0
+ * side), rear, left or right.
+ */
+function edgeSide(a: Point, b: Point, clockwise: boolean): keyof SetbackRequirements {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  // Outward normal for clockwise winding (Y down) is (dy, -dx)
+  const nx = clockwise ? dy : -dy;
+  const ny = clockwise ? -dx : dx;
+  if (Math.abs(ny) >= Math.abs(nx)) return ny < 0 ? 'front' : 'rear';
+  return nx < 0 ? 'left' : 'right';
+}
+
+/**
+ * Offsets every edge inward by the setback for the side it faces and
+ * re-intersects neighbouring edges, giving the buildable envelope.
+ * Suitable for plot outlines whose edges are long compared to the setbacks.
+ */
+export function offsetPolygon(polygon: Point[], setbacks: SetbackRequirements): Point[] {
+  const clockwise = signedArea(polygon) > 0;
+  const n = polygon.length;
+
+  const lines = polygon.map((a, i) => {
+    const b = polygon[(i + 1) % n];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const ux = (b.x - a.x) / length;
+    const uy = (b.y - a.y) / length;
+    // Inward normal is the opposite of the outward one
+    const nx = clockwise ? -uy : uy;
+    const ny = clockwise ? ux : -ux;
+    const d = setbacks[edgeSide(a, b, clockwise)];
+    return { px: a.x + nx * d, py: a.y + ny * d, ux, uy };
+  });
+
+  return lines.map((line, i) => {
+    const prev = lines[(i + n - 1) % n];
+    const denom = prev.ux * line.uy - prev.uy * line.ux;
+    if (Math.abs(denom) < EPSILON) {
+      // Collinear neighbours: the offset start point is already the vertex
+      return { x: line.px, y: line.py };
+    }
+    const t = ((line.px - prev.px) * line.uy - (line.py - prev.py) * line.ux) / denom;
+    return { x: prev.px + prev.ux * t, y: prev.py + prev.uy * t };
+  });
+}
+
+/**
+ * Compact vertex list for prompts, e.g. "(0, 0) → (12, 0) → (10, 15) → (0, 15)".
+ */
+export function formatPolygon(polygon: Point[]): string {
+  const round = (v: number) => Math.round(v * 100) / 100;
+  return polygon.map(p => `(${round(p.x)}, ${round(p.y)})`).join(' → ');
+}
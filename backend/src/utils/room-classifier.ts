@@ -6,12 +6,14 @@ const patterns: Array<{ regex: RegExp; classification: RoomClassification }> = [
   { regex: /guest\s*bed/i, classification: 'guest_bedroom' },
   { regex: /bed\s*room|bedroom/i, classification: 'bedroom' },
   { regex: /kitchen|pantry|cooking/i, classification: 'kitchen' },
+  { regex: /majlis|diwan|mardana|reception/i, classification: 'majlis' },
   { regex: /living|lounge|drawing/i, classification: 'living_room' },
   { regex: /dining/i, classification: 'dining_room' },
   { regex: /bath|shower|wash\s*room/i, classification: 'bathroom' },
   { regex: /toilet|wc|water\s*closet|restroom|lavatory/i, classification: 'toilet' },
-  { regex: /pooja|puja|prayer|mandir|temple/i, classification: 'pooja_room' },
+  { regex: /pooja|puja|prayer|mandir|temple|musalla|chapel/i, classification: 'pooja_room' },
   { regex: /study|office|library|work\s*room/i, classification: 'study_room' },
+  { regex: /courtyard|nadumuttam|aangan|angan|atrium/i, classification: 'courtyard' },
   { regex: /balcony|terrace|verandah|porch|deck/i, classification: 'balcony' },
   { regex: /stair|step/i, classification: 'staircase' },
   { regex: /corridor|hallway|passage|lobby/i, classification: 'corridor' },
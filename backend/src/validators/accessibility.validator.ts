@@ -0,0 +1,186 @@
+import type {
+  RoomWithDirection,
+  RoomClassification,
+  AccessibilityViolation,
+  AccessibilityValidationResult,
+} from '../types/agent.types.js';
+import type { AccessibilityConfig, ComplianceItem } from '../types/shared.types.js';
+import { findSharedWall, groupRoomsByFloor } from '../utils/geometry.utils.js';
+import { featurePoint } from '../utils/polygon.utils.js';
+import { findEntrance, findMainDoor } from '../utils/adjacency.utils.js';
+
+/** Wheelchair turning circle, meters */
+export const TURNING_CIRCLE_DIAMETER = 1.5;
+/** Clear width of every door on an accessible route, meters */
+export const MIN_ACCESSIBLE_DOOR_WIDTH = 0.9;
+/** Steepest ramp allowed (rise over run) */
+export const MAX_RAMP_GRADIENT = 1 / 12;
+/** Typical plinth when the project does not give one, meters */
+export const DEFAULT_PLINTH_HEIGHT = 0.45;
+
+/**
+ * Depth of fixed furniture or fittings along one wall that the turning circle
+ * has to clear: a bed along the long wall, a WC and basin in a bathroom.
+ */
+const FIXTURE_DEPTH: Partial<Record<RoomClassification, number>> = {
+  master_bedroom: 1.8,
+  bedroom: 1.5,
+  guest_bedroom: 1.5,
+  children_bedroom: 1.0,
+  bathroom: 0.7,
+  toilet: 0.7,
+};
+
+const BEDROOMS: RoomClassification[] = ['master_bedroom', 'bedroom', 'children_bedroom', 'guest_bedroom'];
+const BATHROOMS: RoomClassification[] = ['bathroom', 'toilet'];
+
+/**
+ * Deterministic universal-design validator. Zero LLM calls.
+ * Runs only for projects with `accessibility` set. Rooms are judged on their
+ * bounding box before furniture is placed, so turning space is checked
+ * against a typical fixture depth rather than the actual layout.
+ */
+export function validateAccessibility(
+  rooms: RoomWithDirection[],
+  accessibility: AccessibilityConfig
+): AccessibilityValidationResult {
+  const violations: AccessibilityViolation[] = [];
+  const complianceItems: ComplianceItem[] = [];
+  const interior = rooms.filter(r => ['room', 'circulation', 'service'].includes(r.type) && r.width > 0 && r.height > 0);
+
+  // 1. Turning circle in bedrooms and bathrooms
+  for (const room of interior.filter(r => FIXTURE_DEPTH[r.classification] !== undefined)) {
+    const fixtures = FIXTURE_DEPTH[room.classification]!;
+    const needed = TURNING_CIRCLE_DIAMETER + fixtures;
+    const shortSide = Math.min(room.width, room.height);
+    if (shortSide < needed - 0.05) {
+      violations.push({
+        category: 'turning_circle',
+        severity: 'major',
+        roomId: room.id,
+        roomName: room.name,
+        message: `${room.name} is ${shortSide.toFixed(1)}m wide; a ${TURNING_CIRCLE_DIAMETER}m turning circle beside ${fixtures}m of fixtures needs ${needed.toFixed(1)}m`,
+        recommendation: `Widen ${room.name} to at least ${needed.toFixed(1)}m.`,
+      });
+    }
+    complianceItems.push({
+      rule: `Turning Circle: ${room.name}`,
+      status: shortSide < needed - 0.05 ? 'FAIL' : 'PASS',
+      message: `${shortSide.toFixed(1)}m wide (needs ${needed.toFixed(1)}m)`,
+    });
+  }
+
+  // 2. Door clear widths; a door on a shared wall is listed on both rooms, so count it
+  // once and name it after the room it serves rather than the corridor it opens onto
+  const seen: Array<{ floor: number; x: number; y: number }> = [];
+  const narrow: Array<{ room: RoomWithDirection; width: number }> = [];
+  const servedFirst = [...interior].sort((a, b) => Number(a.type === 'circulation') - Number(b.type === 'circulation'));
+  for (const room of servedFirst) {
+    for (const door of room.features.filter(f => f.type !== 'window')) {
+      const point = { floor: room.floor ?? 0, ...featurePoint(room, door) };
+      if (seen.some(p => p.floor === point.floor && Math.hypot(p.x - point.x, p.y - point.y) < 0.3)) continue;
+      seen.push(point);
+      if (door.width < MIN_ACCESSIBLE_DOOR_WIDTH - 0.01) narrow.push({ room, width: door.width });
+    }
+  }
+  for (const { room, width } of narrow) {
+    violations.push({
+      category: 'door_width',
+      severity: 'major',
+      roomId: room.id,
+      roomName: room.name,
+      message: `${room.name} has a ${width}m door (min ${MIN_ACCESSIBLE_DOOR_WIDTH}m clear)`,
+      recommendation: `Widen the ${room.name} door to ${MIN_ACCESSIBLE_DOOR_WIDTH}m.`,
+    });
+  }
+  complianceItems.push(narrow.length === 0
+    ? { rule: 'Door Clear Width', status: 'PASS', message: `All ${seen.length} doors at least ${MIN_ACCESSIBLE_DOOR_WIDTH}m` }
+    : {
+      rule: 'Door Clear Width',
+      status: 'FAIL',
+      message: `Below ${MIN_ACCESSIBLE_DOOR_WIDTH}m: ${narrow.map(n => `${n.room.name} (${n.width}m)`).join(', ')}`,
+      recommendation: `Widen these doors to ${MIN_ACCESSIBLE_DOOR_WIDTH}m.`,
+    });
+
+  // 3. Step-free entrance: level entry, or a ramp against the main door
+  const plinthHeight = accessibility.plinthHeight ?? DEFAULT_PLINTH_HEIGHT;
+  const entrance = findEntrance(interior);
+  if (plinthHeight <= 0) {
+    complianceItems.push({ rule: 'Step-Free Entrance', status: 'PASS', message: 'Level entry from the site' });
+  } else if (entrance) {
+    const mainDoor = findMainDoor(entrance, interior.filter(r => (r.floor ?? 0) === (entrance.floor ?? 0)));
+    const ramp = rooms.find(r =>
+      r.type === 'outdoor' && (r.floor ?? 0) === 0 && /ramp/i.test(r.name)
+      && findSharedWall(entrance, r)?.wallA === mainDoor?.wall
+    );
+    const minRun = plinthHeight / MAX_RAMP_GRADIENT;
+
+    if (!ramp) {
+      violations.push({
+        category: 'step_free_entrance',
+        severity: 'major',
+        roomId: entrance.id,
+        roomName: entrance.name,
+        message: `${entrance.name} is ${plinthHeight}m above the site with no ramp to the main door`,
+        recommendation: `Add an outdoor "Ramp" against the main door, at least ${minRun.toFixed(1)}m long.`,
+      });
+      complianceItems.push({
+        rule: 'Step-Free Entrance',
+        status: 'FAIL',
+        message: `${plinthHeight}m plinth with no ramp`,
+        recommendation: `Add a ramp at least ${minRun.toFixed(1)}m long (1:${Math.round(1 / MAX_RAMP_GRADIENT)}).`,
+      });
+    } else {
+      const run = Math.max(ramp.width, ramp.height);
+      const steep = plinthHeight / run > MAX_RAMP_GRADIENT + 1e-3;
+      complianceItems.push({ rule: 'Step-Free Entrance', status: 'PASS', message: `${ramp.name} up to ${entrance.name}` });
+      if (steep) {
+        violations.push({
+          category: 'ramp_gradient',
+          severity: 'major',
+          roomId: ramp.id,
+          roomName: ramp.name,
+          message: `${ramp.name} rises ${plinthHeight}m over ${run.toFixed(1)}m (1:${(run / plinthHeight).toFixed(1)}), steeper than 1:${Math.round(1 / MAX_RAMP_GRADIENT)}`,
+          recommendation: `Lengthen ${ramp.name} to at least ${minRun.toFixed(1)}m.`,
+        });
+      }
+      complianceItems.push({
+        rule: 'Ramp Gradient',
+        status: steep ? 'FAIL' : 'PASS',
+        message: `1:${(run / plinthHeight).toFixed(1)} (max 1:${Math.round(1 / MAX_RAMP_GRADIENT)})`,
+      });
+    }
+  }
+
+  // 4. Multi-floor homes: a bedroom and a bathroom on the ground floor
+  const byFloor = groupRoomsByFloor(interior);
+  if (byFloor.size > 1) {
+    const ground = byFloor.get(0) ?? [];
+    const missing = [
+      ground.some(r => BEDROOMS.includes(r.classification)) ? null : 'bedroom',
+      ground.some(r => BATHROOMS.includes(r.classification)) ? null : 'bathroom',
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      violations.push({
+        category: 'ground_floor_suite',
+        severity: 'major',
+        message: `No ${missing.join(' or ')} on the ground floor`,
+        recommendation: 'Move a bedroom and a bathroom to the ground floor so the home works without the stairs.',
+      });
+    }
+    complianceItems.push({
+      rule: 'Ground-Floor Bedroom & Bathroom',
+      status: missing.length === 0 ? 'PASS' : 'FAIL',
+      message: missing.length === 0 ? 'Bedroom and bathroom on the ground floor' : `Missing on the ground floor: ${missing.join(', ')}`,
+    });
+  }
+
+  const penaltyMap = { critical: 0.20, major: 0.10, minor: 0.03 };
+  const totalPenalty = violations.reduce((sum, v) => sum + penaltyMap[v.severity], 0);
+
+  return {
+    violations,
+    score: Math.max(0, 1.0 - totalPenalty),
+    complianceItems,
+  };
+}
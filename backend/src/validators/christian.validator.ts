@@ -0,0 +1,111 @@
+import type {
+  RoomWithDirection,
+  RoomClassification,
+  CulturalRulePack,
+} from '../types/agent.types.js';
+import type { WallFeature } from '../types/shared.types.js';
+import { wallFacingBearing, oppositeWall } from '../utils/direction.utils.js';
+import { findSharedWall, hasConnectingOpening, sameFloor } from '../utils/geometry.utils.js';
+
+const EAST_BEARING = 90;
+const WET_AREAS: RoomClassification[] = ['bathroom', 'toilet'];
+const PRIVATE_AREAS: RoomClassification[] = [
+  ...WET_AREAS, 'master_bedroom', 'children_bedroom', 'guest_bedroom', 'bedroom',
+];
+
+function featuresOn(room: RoomWithDirection, wall: WallFeature['wall']): WallFeature[] {
+  return (room.features || []).filter(f => f.wall === wall);
+}
+
+/**
+ * Christian home traditions: an east-facing prayer corner (ad orientem) and an
+ * entrance that welcomes visitors and leaves room for a cross or house blessing.
+ */
+export const christianRulePack: CulturalRulePack = {
+  id: 'christian',
+  name: 'Christian Beliefs',
+  rules: [
+    {
+      id: 'CHRISTIAN_001',
+      description: 'Prayer room should keep its east wall free for the altar or icon corner',
+      appliesTo: ['pooja_room'],
+      severity: 'major',
+      penalty: 0.10,
+      check: (room, _allRooms, plot) => {
+        const eastWall = wallFacingBearing(EAST_BEARING, plot.orientation);
+        const pass = !featuresOn(room, eastWall).some(f => f.type !== 'window');
+        return {
+          pass,
+          message: pass
+            ? `${room.name} keeps its east-facing ${eastWall} wall free for the altar`
+            : `${room.name} has a door on its east-facing ${eastWall} wall, leaving no place to pray facing east`,
+          recommendation: pass ? '' : `Move the door of ${room.name} off the ${eastWall} wall so the altar or icon corner can face east.`,
+        };
+      },
+    },
+    {
+      id: 'CHRISTIAN_002',
+      description: 'Prayer room should not share a wall with a toilet',
+      appliesTo: ['pooja_room'],
+      severity: 'minor',
+      penalty: 0.04,
+      check: (room, allRooms) => {
+        const offending = allRooms.find(other =>
+          WET_AREAS.includes(other.classification) && sameFloor(room, other) && findSharedWall(room, other)
+        );
+        return {
+          pass: !offending,
+          message: offending
+            ? `${room.name} shares a wall with ${offending.name}`
+            : `${room.name} is separated from toilets`,
+          recommendation: offending ? `Place a storage or circulation buffer between ${room.name} and ${offending.name}.` : '',
+        };
+      },
+    },
+    {
+      id: 'CHRISTIAN_003',
+      description: 'Entrance should welcome guests, not open into a toilet or bedroom',
+      appliesTo: ['entrance', 'foyer'],
+      severity: 'major',
+      penalty: 0.08,
+      check: (room, allRooms) => {
+        const offending = allRooms.find(other =>
+          PRIVATE_AREAS.includes(other.classification) && sameFloor(room, other) && hasConnectingOpening(room, other)
+        );
+        return {
+          pass: !offending,
+          message: offending
+            ? `${room.name} opens directly into ${offending.name}`
+            : `${room.name} leads into shared living spaces`,
+          recommendation: offending ? `Connect ${room.name} to the living room or a corridor instead of ${offending.name}.` : '',
+        };
+      },
+    },
+    {
+      id: 'CHRISTIAN_004',
+      description: 'Entrance should face a blank wall for a cross or house blessing',
+      appliesTo: ['entrance', 'foyer'],
+      severity: 'minor',
+      penalty: 0.03,
+      check: (room) => {
+        const entry = (room.features || []).find(f => f.type === 'door');
+        if (!entry) {
+          return {
+            pass: true,
+            message: `${room.name} has no entry door to assess`,
+            recommendation: '',
+          };
+        }
+        const facingWall = oppositeWall(entry.wall);
+        const pass = featuresOn(room, facingWall).length === 0;
+        return {
+          pass,
+          message: pass
+            ? `The ${facingWall} wall of ${room.name} greets visitors with a blank wall for a cross or blessing`
+            : `The ${facingWall} wall of ${room.name}, facing the entry door, is broken by openings`,
+          recommendation: pass ? '' : `Keep the ${facingWall} wall of ${room.name} solid so a cross or house blessing faces the entry.`,
+        };
+      },
+    },
+  ],
+};
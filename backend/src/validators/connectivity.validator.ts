@@ -0,0 +1,152 @@
+import type {
+  RoomWithDirection,
+  RoomAdjacency,
+  AdjacencyPreference,
+  ConnectivityViolation,
+  ConnectivityValidationResult,
+} from '../types/agent.types.js';
+import type { ComplianceItem } from '../types/shared.types.js';
+import { doorDistances, findEntrance } from '../utils/adjacency.utils.js';
+import { classifyRoom } from '../utils/room-classifier.js';
+
+/** "Nearby" rooms are at most this many doors apart */
+const NEARBY_DOORS = 2;
+
+/**
+ * Deterministic connectivity validator. Zero LLM calls.
+ * Checks that every habitable room can be reached through doors from the
+ * entrance and that the parsed adjacency preferences hold in the plan.
+ */
+export function validateConnectivity(
+  rooms: RoomWithDirection[],
+  adjacencies: RoomAdjacency[],
+  preferences: AdjacencyPreference[] = []
+): ConnectivityValidationResult {
+  const violations: ConnectivityViolation[] = [];
+  const complianceItems: ComplianceItem[] = [];
+  const habitable = rooms.filter(r => r.type === 'room');
+
+  // 1. Every habitable room reachable from the entrance
+  const entrance = findEntrance(rooms);
+  if (!entrance) {
+    if (habitable.length > 0) {
+      violations.push({
+        category: 'no_entrance',
+        severity: 'critical',
+        message: 'Plan has no ground-floor entrance, foyer or circulation space',
+        recommendation: 'Add an entrance foyer on the ground floor, facing the road.',
+      });
+      complianceItems.push({
+        rule: 'Entrance',
+        status: 'FAIL',
+        message: 'No entrance found on the ground floor',
+        recommendation: 'Add an entrance foyer facing the road.',
+      });
+    }
+  } else {
+    const reachable = doorDistances([entrance.id], adjacencies);
+    const unreachable = habitable.filter(r => !reachable.has(r.id));
+    for (const room of unreachable) {
+      violations.push({
+        category: 'unreachable',
+        severity: 'major',
+        roomId: room.id,
+        roomName: room.name,
+        message: `${room.name} cannot be reached through doors from ${entrance.name}`,
+        recommendation: `Add a door from ${room.name} to an adjoining corridor or room that connects to ${entrance.name}.`,
+      });
+    }
+    complianceItems.push(unreachable.length === 0
+      ? { rule: 'Room Access', status: 'PASS', message: `All ${habitable.length} rooms reachable from ${entrance.name}` }
+      : {
+        rule: 'Room Access',
+        status: 'FAIL',
+        message: `Unreachable from ${entrance.name}: ${unreachable.map(r => r.name).join(', ')}`,
+        recommendation: 'Add doors so every room connects to the entrance.',
+      });
+  }
+
+  // 2. Adjacency preferences from the project brief
+  const edgeBetween = (a: string, b: string) =>
+    adjacencies.find(e => (e.room1Id === a && e.room2Id === b) || (e.room1Id === b && e.room2Id === a));
+
+  for (const pref of preferences) {
+    const rule = `Adjacency: ${pref.room1} ${pref.relationship === 'separated' ? 'apart from' : `${pref.relationship} to`} ${pref.room2}`;
+    const first = matchRooms(pref.room1, rooms);
+    const second = matchRooms(pref.room2, rooms);
+
+    if (first.length === 0 || second.length === 0) {
+      const missing = first.length === 0 ? pref.room1 : pref.room2;
+      violations.push({
+        category: 'adjacency_preference',
+        severity: 'minor',
+        message: `${missing} from the adjacency preference "${rule}" is not in the plan`,
+        recommendation: `Add a ${missing} or drop the preference.`,
+      });
+      complianceItems.push({ rule, status: 'WARN', message: `${missing} not found in the plan` });
+      continue;
+    }
+
+    const pairs = first.flatMap(a => second.filter(b => b.id !== a.id).map(b => [a, b] as const));
+    let satisfied: boolean;
+    switch (pref.relationship) {
+      case 'adjacent':
+        satisfied = pairs.some(([a, b]) => edgeBetween(a.id, b.id) !== undefined);
+        break;
+      case 'nearby': {
+        const distances = doorDistances(first.map(r => r.id), adjacencies);
+        satisfied = pairs.some(([a, b]) => edgeBetween(a.id, b.id) !== undefined)
+          || second.some(b => (distances.get(b.id) ?? Infinity) <= NEARBY_DOORS);
+        break;
+      }
+      case 'separated':
+        satisfied = pairs.every(([a, b]) => edgeBetween(a.id, b.id) === undefined);
+        break;
+    }
+
+    if (satisfied) {
+      complianceItems.push({ rule, status: 'PASS', message: 'Preference met' });
+      continue;
+    }
+
+    const [a, b] = [first[0], second[0]];
+    const detail = pref.relationship === 'adjacent'
+      ? { message: `${a.name} does not share a wall with ${b.name}`, recommendation: `Move ${a.name} so it shares a wall with ${b.name}.` }
+      : pref.relationship === 'nearby'
+        ? { message: `${a.name} is more than ${NEARBY_DOORS} doors from ${b.name}`, recommendation: `Bring ${a.name} closer to ${b.name}.` }
+        : { message: `${a.name} shares a wall with ${b.name}`, recommendation: `Put a buffer space between ${a.name} and ${b.name}.` };
+    violations.push({
+      category: 'adjacency_preference',
+      severity: pref.relationship === 'nearby' ? 'minor' : 'major',
+      roomId: a.id,
+      roomName: a.name,
+      ...detail,
+    });
+    complianceItems.push({ rule, status: 'FAIL', ...detail });
+  }
+
+  const penaltyMap = { critical: 0.20, major: 0.10, minor: 0.03 };
+  const totalPenalty = violations.reduce((sum, v) => sum + penaltyMap[v.severity], 0);
+
+  return {
+    violations,
+    score: Math.max(0, 1.0 - totalPenalty),
+    entranceId: entrance?.id,
+    complianceItems,
+  };
+}
+
+/**
+ * Rooms a preference names: by name first ("Kitchen" → "Open Kitchen"),
+ * then by room classification for generic names like "Bedroom".
+ */
+function matchRooms(name: string, rooms: RoomWithDirection[]): RoomWithDirection[] {
+  const wanted = name.trim().toLowerCase();
+  const byName = rooms.filter(r => r.type !== 'setback' && r.name.toLowerCase().includes(wanted));
+  if (byName.length > 0) return byName;
+
+  const classification = classifyRoom(name);
+  // classifyRoom falls back to 'bedroom' for names it does not recognise
+  if (classification === 'bedroom' && !/bed/i.test(name)) return [];
+  return rooms.filter(r => r.type !== 'setback' && r.classification === classification);
+}
@@ -0,0 +1,95 @@
+import type {
+  RoomWithDirection,
+  PlotGeometry,
+  CulturalRulePack,
+  CulturalViolation,
+  CulturalValidationResult,
+} from '../types/agent.types.js';
+import type { ComplianceItem } from '../types/shared.types.js';
+import { CulturalSystem } from '../types/shared.types.js';
+
+/**
+ * Deterministic cultural validator. Zero LLM calls.
+ * Runs every rule of the selected pack against the rooms it applies to;
+ * penalties are scaled by strictness (None=0 … Strictly=1.0).
+ */
+export function validateCultural(
+  rooms: RoomWithDirection[],
+  plotGeometry: PlotGeometry,
+  strictness: number,
+  pack: CulturalRulePack | null
+): CulturalValidationResult {
+  if (!pack || strictness === 0) {
+    return {
+      packId: pack?.id ?? null,
+      packName: pack?.name ?? 'None',
+      variant: pack?.variant,
+      violations: [],
+      score: 1.0,
+      complianceItems: [{
+        rule: 'Cultural Compliance',
+        status: 'PASS',
+        message: pack
+          ? `${pack.name} checking disabled (None selected)`
+          : 'No belief system selected',
+      }],
+    };
+  }
+
+  const violations: CulturalViolation[] = [];
+  const complianceItems: ComplianceItem[] = [{
+    rule: 'Cultural Rule Pack',
+    status: 'PASS',
+    message: `Applied ${pack.name} (${pack.rules.length} rules)`,
+  }];
+
+  for (const room of rooms) {
+    for (const rule of pack.rules) {
+      if (!rule.appliesTo.includes(room.classification)) continue;
+
+      const outcome = rule.check(room, rooms, plotGeometry);
+      const result = rule.source
+        ? { ...outcome, message: `${outcome.message} [${rule.source}]` }
+        : outcome;
+
+      complianceItems.push({
+        rule: `${rule.id}: ${rule.description}`,
+        status: result.pass ? 'PASS' : (rule.severity === 'minor' ? 'WARN' : 'FAIL'),
+        message: result.message,
+        recommendation: result.recommendation || undefined,
+      });
+
+      if (!result.pass) {
+        violations.push({
+          ruleId: rule.id,
+          severity: rule.severity,
+          penalty: rule.penalty,
+          roomId: room.id,
+          roomName: room.name,
+          message: result.message,
+          recommendation: result.recommendation,
+        });
+      }
+    }
+  }
+
+  const totalPenalty = violations.reduce((sum, v) => sum + v.penalty * strictness, 0);
+  const score = Math.max(0, 1.0 - totalPenalty);
+
+  return { packId: pack.id, packName: pack.name, variant: pack.variant, violations, score, complianceItems };
+}
+
+/**
+ * Maps the adherence level to numeric strictness. Selecting no belief system
+ * disables cultural checks regardless of level.
+ */
+export function getCulturalStrictness(system?: CulturalSystem, level?: string): number {
+  if (system === CulturalSystem.NONE) return 0;
+  switch (level) {
+    case 'None': return 0;
+    case 'Slightly': return 0.25;
+    case 'Moderately': return 0.5;
+    case 'Strictly': return 1.0;
+    default: return 0;
+  }
+}
@@ -0,0 +1,312 @@
+import type {
+  RoomWithDirection,
+  RoomAdjacency,
+  MunicipalConfig,
+  FireSafetyConfig,
+  EgressViolation,
+  EgressValidationResult,
+} from '../types/agent.types.js';
+import type { ComplianceItem, Point } from '../types/shared.types.js';
+import { BuildingType } from '../types/shared.types.js';
+import { findSharedWall, isFeatureOnSharedWall, groupRoomsByFloor } from '../utils/geometry.utils.js';
+import { featurePoint, roomOutline } from '../utils/polygon.utils.js';
+import { findEntrance, findMainDoor } from '../utils/adjacency.utils.js';
+
+/**
+ * NBC 2016 Part 4 limits per occupancy. Mixed-use buildings take the
+ * stricter figure of the residential and business groups.
+ */
+const NBC_FIRE_SAFETY: Record<BuildingType, FireSafetyConfig> = {
+  [BuildingType.RESIDENTIAL]: {
+    maxTravelDistance: 22.5,
+    maxDeadEndLength: 6,
+    secondStairHeight: 15,
+    secondStairOccupancy: 500,
+    occupantLoadFactor: 12.5,
+    minMainDoorWidth: 1.0,
+    minStairWidth: 1.0,
+  },
+  [BuildingType.COMMERCIAL]: {
+    maxTravelDistance: 30,
+    maxDeadEndLength: 6,
+    secondStairHeight: 15,
+    secondStairOccupancy: 500,
+    occupantLoadFactor: 10,
+    minMainDoorWidth: 1.0,
+    minStairWidth: 1.5,
+  },
+  [BuildingType.MIXED_USE]: {
+    maxTravelDistance: 22.5,
+    maxDeadEndLength: 6,
+    secondStairHeight: 15,
+    secondStairOccupancy: 500,
+    occupantLoadFactor: 10,
+    minMainDoorWidth: 1.0,
+    minStairWidth: 1.5,
+  },
+};
+
+/** NBC Part 4 limits for the occupancy, with the authority's overrides on top */
+export function resolveFireSafety(
+  municipalConfig: MunicipalConfig,
+  projectType: BuildingType = BuildingType.RESIDENTIAL
+): FireSafetyConfig {
+  return {
+    ...(NBC_FIRE_SAFETY[projectType] ?? NBC_FIRE_SAFETY[BuildingType.RESIDENTIAL]),
+    ...municipalConfig.fireSafety,
+  };
+}
+
+/** A door or opening people pass through, on the wall between two rooms (or to the outside) */
+interface Opening {
+  point: Point;
+  roomIds: string[];
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const farthestFrom = (room: RoomWithDirection, point: Point) =>
+  Math.max(...roomOutline(room).map(v => distance(v, point)));
+
+/**
+ * Deterministic egress validator. Zero LLM calls.
+ * Exits are the main door on the ground floor and the staircases above it.
+ * Travel distance runs from the farthest corner of a room through the door
+ * graph to the nearest exit, in straight lines between openings.
+ */
+export function validateEgress(
+  rooms: RoomWithDirection[],
+  adjacencies: RoomAdjacency[],
+  fireSafety: FireSafetyConfig,
+  buildingHeight: number
+): EgressValidationResult {
+  const violations: EgressViolation[] = [];
+  const complianceItems: ComplianceItem[] = [];
+  const interior = rooms.filter(r => ['room', 'circulation', 'service'].includes(r.type) && r.width > 0 && r.height > 0);
+  const byId = new Map(interior.map(r => [r.id, r]));
+  const byFloor = groupRoomsByFloor(interior);
+  const isStair = (room: RoomWithDirection) => room.classification === 'staircase';
+  const isUpperStair = (room: RoomWithDirection) => isStair(room) && (room.floor ?? 0) > 0;
+
+  // 1. Main door: a door or opening on the entrance's outside wall
+  const entrance = findEntrance(interior);
+  const mainDoor = entrance ? findMainDoor(entrance, byFloor.get(entrance.floor ?? 0) ?? []) : undefined;
+  if (!entrance || !mainDoor) {
+    violations.push({
+      category: 'no_exit',
+      severity: 'critical',
+      roomId: entrance?.id,
+      roomName: entrance?.name,
+      message: entrance ? `${entrance.name} has no door to the outside` : 'Plan has no entrance to exit through',
+      recommendation: 'Add a main door on the entrance wall that faces the road.',
+    });
+    complianceItems.push({
+      rule: 'Main Door Width',
+      status: 'FAIL',
+      message: 'No main door found',
+      recommendation: `Add a main door at least ${fireSafety.minMainDoorWidth}m wide.`,
+    });
+  } else if (mainDoor.width < fireSafety.minMainDoorWidth - 0.01) {
+    violations.push({
+      category: 'door_width',
+      severity: 'major',
+      roomId: entrance.id,
+      roomName: entrance.name,
+      message: `Main door is ${mainDoor.width}m wide, below the ${fireSafety.minMainDoorWidth}m minimum`,
+      recommendation: `Widen the main door of ${entrance.name} to at least ${fireSafety.minMainDoorWidth}m.`,
+    });
+    complianceItems.push({
+      rule: 'Main Door Width',
+      status: 'FAIL',
+      message: `${mainDoor.width}m < ${fireSafety.minMainDoorWidth}m minimum`,
+      recommendation: `Widen to at least ${fireSafety.minMainDoorWidth}m.`,
+    });
+  } else {
+    complianceItems.push({
+      rule: 'Main Door Width',
+      status: 'PASS',
+      message: `${mainDoor.width}m >= ${fireSafety.minMainDoorWidth}m minimum`,
+    });
+  }
+
+  // 2. Travel distance to the nearest exit
+  const openings: Opening[] = adjacencies
+    .filter(e => e.connected && byId.has(e.room1Id) && byId.has(e.room2Id))
+    .flatMap(e => {
+      const a = byId.get(e.room1Id)!;
+      const b = byId.get(e.room2Id)!;
+      if ((a.floor ?? 0) !== (b.floor ?? 0)) return [];
+      const point = openingPoint(a, b);
+      return point ? [{ point, roomIds: [a.id, b.id] }] : [];
+    });
+  if (entrance && mainDoor) openings.push({ point: mainDoor.point, roomIds: [entrance.id] });
+
+  // The main door is the only opening with one room; upper staircases are exits in themselves
+  const exitDistance = openings.map(o =>
+    o.roomIds.length === 1 || o.roomIds.some(id => isUpperStair(byId.get(id)!)) ? 0 : Infinity
+  );
+  // Dijkstra over openings; two openings are linked when they open onto the same room
+  const done = new Set<number>();
+  while (done.size < openings.length) {
+    let current = -1;
+    for (let i = 0; i < openings.length; i++) {
+      if (!done.has(i) && (current === -1 || exitDistance[i] < exitDistance[current])) current = i;
+    }
+    if (exitDistance[current] === Infinity) break;
+    done.add(current);
+    for (let i = 0; i < openings.length; i++) {
+      if (done.has(i) || !openings[i].roomIds.some(id => openings[current].roomIds.includes(id))) continue;
+      exitDistance[i] = Math.min(exitDistance[i], exitDistance[current] + distance(openings[current].point, openings[i].point));
+    }
+  }
+
+  const travel = interior
+    .filter(room => !isUpperStair(room))
+    .map(room => {
+      const reachable = openings
+        .map((o, i) => ({ o, d: exitDistance[i] }))
+        .filter(({ o, d }) => o.roomIds.includes(room.id) && d < Infinity);
+      if (reachable.length === 0) return null;
+      return { room, distance: Math.min(...reachable.map(({ o, d }) => d + farthestFrom(room, o.point))) };
+    })
+    .filter((t): t is { room: RoomWithDirection; distance: number } => t !== null);
+
+  const tooFar = travel.filter(t => t.distance > fireSafety.maxTravelDistance + 0.05);
+  for (const { room, distance: d } of tooFar) {
+    violations.push({
+      category: 'travel_distance',
+      severity: 'major',
+      roomId: room.id,
+      roomName: room.name,
+      message: `${room.name} is ${d.toFixed(1)}m from the nearest exit (max ${fireSafety.maxTravelDistance}m)`,
+      recommendation: `Bring ${room.name} closer to the main door or a staircase, or shorten the route to it.`,
+    });
+  }
+  const longest = travel.reduce<{ room: RoomWithDirection; distance: number } | null>(
+    (max, t) => (!max || t.distance > max.distance ? t : max), null
+  );
+  complianceItems.push(longest
+    ? {
+      rule: 'Travel Distance',
+      status: tooFar.length === 0 ? 'PASS' : 'FAIL',
+      message: `Longest travel to an exit: ${longest.distance.toFixed(1)}m from ${longest.room.name} (max ${fireSafety.maxTravelDistance}m)`,
+      recommendation: tooFar.length === 0 ? undefined : `Shorten the escape route from ${tooFar.map(t => t.room.name).join(', ')}.`,
+    }
+    : { rule: 'Travel Distance', status: 'WARN', message: 'No room has a route to an exit' });
+
+  // 3. Dead-end corridors: one way out towards an exit
+  const deadEnds: Array<{ room: RoomWithDirection; length: number }> = [];
+  for (const corridor of interior.filter(r => r.type === 'circulation' && !isStair(r))) {
+    const waysOut = openings.filter(o => o.roomIds.includes(corridor.id) && (
+      o.roomIds.length === 1
+      || o.roomIds.some(id => id !== corridor.id && byId.get(id)!.type === 'circulation')
+    ));
+    if (waysOut.length !== 1) continue;
+
+    const alongX = corridor.width >= corridor.height;
+    const from = waysOut[0].point;
+    const length = Math.max(...roomOutline(corridor).map(v => Math.abs(alongX ? v.x - from.x : v.y - from.y)));
+    if (length > fireSafety.maxDeadEndLength + 0.05) deadEnds.push({ room: corridor, length });
+  }
+  for (const { room, length } of deadEnds) {
+    violations.push({
+      category: 'dead_end',
+      severity: 'major',
+      roomId: room.id,
+      roomName: room.name,
+      message: `${room.name} is a ${length.toFixed(1)}m dead end (max ${fireSafety.maxDeadEndLength}m)`,
+      recommendation: `Connect the far end of ${room.name} to another corridor or staircase, or shorten it.`,
+    });
+  }
+  complianceItems.push(deadEnds.length === 0
+    ? { rule: 'Dead-End Corridors', status: 'PASS', message: `No dead end longer than ${fireSafety.maxDeadEndLength}m` }
+    : {
+      rule: 'Dead-End Corridors',
+      status: 'FAIL',
+      message: deadEnds.map(d => `${d.room.name} ${d.length.toFixed(1)}m`).join(', ') + ` (max ${fireSafety.maxDeadEndLength}m)`,
+      recommendation: 'Give each corridor a second way out or shorten it.',
+    });
+
+  // 4. Staircases: count and flight width
+  if (byFloor.size > 1) {
+    const occupantLoad = Math.max(...[...byFloor.values()].map(floorRooms =>
+      Math.ceil(floorRooms.reduce((sum, r) => sum + r.area, 0) / fireSafety.occupantLoadFactor)
+    ));
+    const stairCount = (byFloor.get(0) ?? []).filter(isStair).length;
+    const reasons = [
+      buildingHeight >= fireSafety.secondStairHeight ? `height ${buildingHeight}m >= ${fireSafety.secondStairHeight}m` : null,
+      occupantLoad > fireSafety.secondStairOccupancy ? `${occupantLoad} people on one floor > ${fireSafety.secondStairOccupancy}` : null,
+    ].filter(Boolean);
+
+    if (reasons.length > 0 && stairCount < 2) {
+      violations.push({
+        category: 'second_staircase',
+        severity: 'critical',
+        message: `A second staircase is required (${reasons.join(', ')}) but the plan has ${stairCount}`,
+        recommendation: 'Add a second staircase at the far end of the building from the first.',
+      });
+    }
+    complianceItems.push({
+      rule: 'Second Staircase',
+      status: reasons.length > 0 && stairCount < 2 ? 'FAIL' : 'PASS',
+      message: reasons.length > 0
+        ? `Required (${reasons.join(', ')}); ${stairCount} provided`
+        : `Not required (height ${buildingHeight}m, up to ${occupantLoad} people per floor)`,
+      recommendation: reasons.length > 0 && stairCount < 2 ? 'Add a second staircase.' : undefined,
+    });
+
+    // Stacked staircases share one footprint, so each flight is checked once
+    const checked = new Set<string>();
+    for (const stair of interior.filter(isStair)) {
+      const key = `${stair.x},${stair.y},${stair.width},${stair.height}`;
+      if (checked.has(key)) continue;
+      checked.add(key);
+
+      // A turning stair fits two flights side by side in its short side
+      const shortSide = Math.min(stair.width, stair.height);
+      const flightWidth = Math.round((stair.stairTurn ? shortSide / 2 : shortSide) * 100) / 100;
+      if (flightWidth < fireSafety.minStairWidth - 0.01) {
+        violations.push({
+          category: 'stair_width',
+          severity: 'major',
+          roomId: stair.id,
+          roomName: stair.name,
+          message: `${stair.name} flights are ${flightWidth}m wide, below the ${fireSafety.minStairWidth}m minimum`,
+          recommendation: `Widen ${stair.name} so each flight is at least ${fireSafety.minStairWidth}m.`,
+        });
+      }
+      complianceItems.push({
+        rule: `Stair Width: ${stair.name}`,
+        status: flightWidth < fireSafety.minStairWidth - 0.01 ? 'FAIL' : 'PASS',
+        message: `${flightWidth}m flights (min ${fireSafety.minStairWidth}m)`,
+      });
+    }
+  }
+
+  const penaltyMap = { critical: 0.20, major: 0.10, minor: 0.03 };
+  const totalPenalty = violations.reduce((sum, v) => sum + penaltyMap[v.severity], 0);
+
+  return {
+    violations,
+    score: Math.max(0, 1.0 - totalPenalty),
+    maxTravelDistance: longest ? Math.round(longest.distance * 10) / 10 : 0,
+    complianceItems,
+  };
+}
+
+/**
+ * Where people pass between two connected rooms: the door on their shared
+ * wall, or the middle of the wall when two circulation spaces are open to
+ * each other.
+ */
+function openingPoint(a: RoomWithDirection, b: RoomWithDirection): Point | null {
+  const wall = findSharedWall(a, b);
+  if (!wall) return null;
+
+  const door = a.features.find(f => f.type !== 'window' && isFeatureOnSharedWall(a, f, wall.wallA, wall));
+  if (door) return featurePoint(a, door);
+  const other = b.features.find(f => f.type !== 'window' && isFeatureOnSharedWall(b, f, wall.wallB, wall));
+  if (other) return featurePoint(b, other);
+
+  const mid = (wall.start + wall.end) / 2;
+  return wall.orientation === 'horizontal' ? { x: mid, y: wall.coord } : { x: wall.coord, y: mid };
+}
@@ -0,0 +1,223 @@
+import type {
+  RoomWithDirection,
+  PlotGeometry,
+  GeometryViolation,
+  GeometryValidationResult,
+} from '../types/agent.types.js';
+import type { ComplianceItem, Room } from '../types/shared.types.js';
+import {
+  rectUnionArea,
+  findSharedWall,
+  featureCenter,
+  isFeatureOnSharedWall,
+  groupRoomsByFloor,
+} from '../utils/geometry.utils.js';
+import {
+  plotArea as getPlotArea,
+  plotPolygon,
+  polygonInPolygon,
+  roomOutline,
+  roomIntersectionArea,
+  roomUnionAreaInPolygon,
+} from '../utils/polygon.utils.js';
+
+const BOUNDS_TOLERANCE = 0.1; // meters
+const MIN_DIMENSION = 0.01; // meters
+const OVERLAP_TOLERANCE = 0.05; // sq.m
+const COVERAGE_TOLERANCE = 0.01; // fraction of plot area
+const FEATURE_ALIGNMENT_TOLERANCE = 0.15; // meters
+
+const INTERIOR_TYPES: Room['type'][] = ['room', 'circulation', 'service'];
+const OPEN_LAND_TYPES: Room['type'][] = ['setback', 'outdoor'];
+
+/**
+ * Deterministic geometry validator. Zero LLM calls.
+ * Runs before the Vastu and regulatory validators, whose results are only
+ * meaningful for a geometrically sound plan.
+ */
+export function validateGeometry(
+  rooms: RoomWithDirection[],
+  plotGeometry: PlotGeometry
+): GeometryValidationResult {
+  const violations: GeometryViolation[] = [];
+  const complianceItems: ComplianceItem[] = [];
+  const plotArea = getPlotArea(plotGeometry);
+  const outline = plotPolygon(plotGeometry);
+  const irregular = !!plotGeometry.boundary;
+
+  // 1. Zero-size rooms
+  const validRooms: RoomWithDirection[] = [];
+  for (const room of rooms) {
+    if (!(room.width > MIN_DIMENSION) || !(room.height > MIN_DIMENSION)) {
+      violations.push({
+        category: 'zero_size',
+        severity: 'critical',
+        roomId: room.id,
+        roomName: room.name,
+        message: `${room.name} has zero or negative size (${room.width}m x ${room.height}m)`,
+        recommendation: `Give ${room.name} real dimensions or remove it from the plan.`,
+      });
+    } else {
+      validRooms.push(room);
+    }
+  }
+  const zeroSizeCount = rooms.length - validRooms.length;
+  complianceItems.push({
+    rule: 'Room Dimensions',
+    status: zeroSizeCount === 0 ? 'PASS' : 'FAIL',
+    message: zeroSizeCount === 0
+      ? 'All zones have positive dimensions'
+      : `${zeroSizeCount} zones have zero or negative size`,
+    recommendation: zeroSizeCount === 0 ? undefined : 'Assign real width and depth to every zone.',
+  });
+
+  // 2. Out-of-bounds rooms. On irregular plots, rectangular setback/outdoor
+  // bands cannot follow a slanted edge, so they are clipped rather than flagged.
+  let outOfBoundsCount = 0;
+  for (const room of validRooms) {
+    const sides: string[] = [];
+    if (room.x < -BOUNDS_TOLERANCE) sides.push('west');
+    if (room.y < -BOUNDS_TOLERANCE) sides.push('north');
+    if (room.x + room.width > plotGeometry.width + BOUNDS_TOLERANCE) sides.push('east');
+    if (room.y + room.height > plotGeometry.depth + BOUNDS_TOLERANCE) sides.push('south');
+    if (irregular && !OPEN_LAND_TYPES.includes(room.type) && sides.length === 0 &&
+        !polygonInPolygon(roomOutline(room), outline, BOUNDS_TOLERANCE)) {
+      sides.push('irregular');
+    }
+
+    if (sides.length > 0) {
+      outOfBoundsCount++;
+      violations.push({
+        category: 'out_of_bounds',
+        severity: 'critical',
+        roomId: room.id,
+        roomName: room.name,
+        message: `${room.name} extends beyond the ${sides.join(', ')} plot boundary`,
+        recommendation: irregular
+          ? `Keep ${room.name} inside the plot outline.`
+          : `Keep ${room.name} within (0, 0) to (${plotGeometry.width}, ${plotGeometry.depth}).`,
+      });
+    }
+  }
+  complianceItems.push({
+    rule: 'Plot Boundary',
+    status: outOfBoundsCount === 0 ? 'PASS' : 'FAIL',
+    message: outOfBoundsCount === 0
+      ? 'All zones lie within the plot'
+      : `${outOfBoundsCount} zones extend beyond the plot boundary`,
+    recommendation: outOfBoundsCount === 0 ? undefined : 'Move or shrink zones to fit the plot.',
+  });
+
+  const byFloor = groupRoomsByFloor(validRooms);
+
+  // 3. Overlapping rooms (setback bands commonly share corners, so they are
+  // left to the regulatory setback check)
+  let overlapCount = 0;
+  for (const floorRooms of byFloor.values()) {
+    const candidates = floorRooms.filter(r => r.type !== 'setback');
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        const a = candidates[i];
+        const b = candidates[j];
+        const overlap = roomIntersectionArea(a, b);
+        if (overlap <= OVERLAP_TOLERANCE) continue;
+
+        overlapCount++;
+        violations.push({
+          category: 'overlap',
+          severity: overlap > 1 ? 'critical' : 'major',
+          roomId: a.id,
+          roomName: a.name,
+          message: `${a.name} overlaps ${b.name} by ${overlap.toFixed(2)} sq.m`,
+          recommendation: `Separate ${a.name} and ${b.name} so they share a wall instead of floor area.`,
+        });
+      }
+    }
+  }
+  complianceItems.push({
+    rule: 'Room Overlaps',
+    status: overlapCount === 0 ? 'PASS' : 'FAIL',
+    message: overlapCount === 0 ? 'No overlapping zones' : `${overlapCount} overlapping zone pairs`,
+    recommendation: overlapCount === 0 ? undefined : 'Resolve overlaps so every square meter belongs to one zone.',
+  });
+
+  // 4. Plot coverage (ground floor must account for the whole plot)
+  const groundRooms = byFloor.get(0) || [];
+  const coveredArea = irregular || groundRooms.some(r => r.polygon)
+    ? roomUnionAreaInPolygon(groundRooms, outline)
+    : rectUnionArea(groundRooms, { x: 0, y: 0, width: plotGeometry.width, height: plotGeometry.depth });
+  const uncoveredArea = Math.max(0, plotArea - coveredArea);
+  const uncoveredRatio = plotArea > 0 ? uncoveredArea / plotArea : 0;
+  const coveragePass = uncoveredRatio <= COVERAGE_TOLERANCE;
+  complianceItems.push({
+    rule: 'Plot Coverage (100%)',
+    status: coveragePass ? 'PASS' : 'FAIL',
+    message: `${(100 - uncoveredRatio * 100).toFixed(1)}% of the plot is assigned to zones (${uncoveredArea.toFixed(1)} sq.m unassigned)`,
+    recommendation: coveragePass ? undefined : 'Assign leftover gaps to adjacent rooms, circulation, setback or outdoor zones.',
+  });
+  if (!coveragePass) {
+    violations.push({
+      category: 'coverage',
+      severity: 'major',
+      message: `${uncoveredArea.toFixed(1)} sq.m (${(uncoveredRatio * 100).toFixed(1)}%) of the plot is not assigned to any zone`,
+      recommendation: 'Extend neighbouring rooms or add outdoor/circulation zones to fill the gaps.',
+    });
+  }
+
+  // 5. Doors/windows on shared walls must line up on both sides
+  let misalignedCount = 0;
+  for (const floorRooms of byFloor.values()) {
+    const interior = floorRooms.filter(r => INTERIOR_TYPES.includes(r.type));
+    for (const a of interior) {
+      for (const b of interior) {
+        if (a === b) continue;
+        const wall = findSharedWall(a, b);
+        if (!wall) continue;
+
+        for (const feature of a.features || []) {
+          if (!isFeatureOnSharedWall(a, feature, wall.wallA, wall)) continue;
+          const center = featureCenter(a, feature);
+
+          const counterpart = (b.features || []).find(f =>
+            f.wall === wall.wallB &&
+            (f.type === feature.type || (f.type !== 'window' && feature.type !== 'window')) &&
+            Math.abs(featureCenter(b, f) - center) <= Math.max(FEATURE_ALIGNMENT_TOLERANCE, feature.width / 4)
+          );
+          if (counterpart) continue;
+
+          misalignedCount++;
+          violations.push({
+            category: 'feature_alignment',
+            severity: feature.type === 'window' ? 'minor' : 'major',
+            roomId: a.id,
+            roomName: a.name,
+            message: `${feature.type} on ${a.name}'s ${feature.wall} wall opens onto ${b.name} with no matching opening on its ${wall.wallB} wall`,
+            recommendation: feature.type === 'window'
+              ? `Move the window in ${a.name} to an exterior wall.`
+              : `Mirror the ${feature.type} on ${b.name}'s ${wall.wallB} wall at the same position, or move it.`,
+          });
+        }
+      }
+    }
+  }
+  complianceItems.push({
+    rule: 'Opening Alignment',
+    status: misalignedCount === 0 ? 'PASS' : 'WARN',
+    message: misalignedCount === 0
+      ? 'Doors and windows on shared walls line up'
+      : `${misalignedCount} openings on shared walls do not line up`,
+    recommendation: misalignedCount === 0 ? undefined : 'Align openings on both faces of shared walls.',
+  });
+
+  // Calculate score
+  const penaltyMap = { critical: 0.20, major: 0.10, minor: 0.03 };
+  const totalPenalty = violations.reduce((sum, v) => sum + penaltyMap[v.severity], 0);
+  const score = Math.max(0, 1.0 - totalPenalty);
+
+  return {
+    violations,
+    score,
+    uncoveredArea,
+    complianceItems,
+  };
+}
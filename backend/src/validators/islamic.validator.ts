@@ -0,0 +1,168 @@
+import type {
+  RoomWithDirection,
+  PlotGeometry,
+  RoomClassification,
+  CulturalRulePack,
+} from '../types/agent.types.js';
+import type { WallFeature } from '../types/shared.types.js';
+import { wallFacingBearing, oppositeWall } from '../utils/direction.utils.js';
+import { findSharedWall, hasConnectingOpening, sameFloor } from '../utils/geometry.utils.js';
+
+/**
+ * Approximate Qibla bearing across India (~266° in Delhi to ~293° in Bengaluru).
+ * Projects elsewhere should pass ProjectConfig.qiblaBearing.
+ */
+export const DEFAULT_QIBLA_BEARING = 285;
+
+const FAMILY_AREAS: RoomClassification[] = [
+  'master_bedroom', 'children_bedroom', 'guest_bedroom', 'bedroom',
+  'kitchen', 'living_room', 'dining_room',
+];
+const WET_AREAS: RoomClassification[] = ['bathroom', 'toilet'];
+const ENTRY_AREAS: RoomClassification[] = ['entrance', 'foyer'];
+
+function doorWalls(room: RoomWithDirection): WallFeature['wall'][] {
+  return (room.features || [])
+    .filter(f => f.type === 'door' || f.type === 'opening')
+    .map(f => f.wall);
+}
+
+/**
+ * A door on an edge of the plot or onto an outdoor/setback zone gives
+ * visitors a way in that bypasses the rest of the house.
+ */
+function hasExteriorDoor(room: RoomWithDirection, allRooms: RoomWithDirection[], plot: PlotGeometry): boolean {
+  const edgeTolerance = 0.3;
+  return doorWalls(room).some(wall => {
+    if (wall === 'top' && room.y <= edgeTolerance) return true;
+    if (wall === 'left' && room.x <= edgeTolerance) return true;
+    if (wall === 'bottom' && room.y + room.height >= plot.depth - edgeTolerance) return true;
+    if (wall === 'right' && room.x + room.width >= plot.width - edgeTolerance) return true;
+    return allRooms.some(other =>
+      (other.type === 'outdoor' || other.type === 'setback') &&
+      sameFloor(room, other) &&
+      findSharedWall(room, other)?.wallA === wall
+    );
+  });
+}
+
+/**
+ * Builds the Islamic rule pack for a given Qibla bearing (degrees clockwise
+ * from North). Rules are checked against room walls, so the plot orientation
+ * decides which wall of each room faces the Qibla.
+ */
+export function createIslamicRulePack(qiblaBearing = DEFAULT_QIBLA_BEARING): CulturalRulePack {
+  return {
+    id: 'islamic',
+    name: 'Islamic Beliefs',
+    rules: [
+      {
+        id: 'ISLAMIC_001',
+        description: 'Prayer space must allow facing the Qibla',
+        appliesTo: ['pooja_room'],
+        severity: 'major',
+        penalty: 0.12,
+        check: (room, _allRooms, plot) => {
+          const qiblaWall = wallFacingBearing(qiblaBearing, plot.orientation);
+          const pass = !doorWalls(room).includes(qiblaWall);
+          return {
+            pass,
+            message: pass
+              ? `${room.name} keeps its ${qiblaWall} wall clear for the Qibla (${qiblaBearing}°)`
+              : `${room.name} has a door on its ${qiblaWall} wall, which is the Qibla wall (${qiblaBearing}°)`,
+            recommendation: pass ? '' : `Move the door of ${room.name} off the ${qiblaWall} wall so worshippers can face the Qibla without facing a doorway.`,
+          };
+        },
+      },
+      {
+        id: 'ISLAMIC_002',
+        description: 'Prayer space must not share its Qibla wall with a toilet',
+        appliesTo: ['pooja_room'],
+        severity: 'major',
+        penalty: 0.08,
+        check: (room, allRooms, plot) => {
+          const qiblaWall = wallFacingBearing(qiblaBearing, plot.orientation);
+          const offending = allRooms.find(other =>
+            WET_AREAS.includes(other.classification) &&
+            sameFloor(room, other) &&
+            findSharedWall(room, other)?.wallA === qiblaWall
+          );
+          return {
+            pass: !offending,
+            message: offending
+              ? `${offending.name} lies directly beyond the Qibla wall of ${room.name}`
+              : `No toilet lies beyond the Qibla wall of ${room.name}`,
+            recommendation: offending ? `Relocate ${offending.name} so it does not back onto the Qibla wall of ${room.name}.` : '',
+          };
+        },
+      },
+      {
+        id: 'ISLAMIC_003',
+        description: 'Toilets must not face or turn their back to the Qibla',
+        appliesTo: ['bathroom', 'toilet'],
+        severity: 'major',
+        penalty: 0.10,
+        check: (room, _allRooms, plot) => {
+          // The WC is set against the wall opposite the door, so a door on the
+          // Qibla axis means the user faces or turns away from the Qibla.
+          const qiblaWall = wallFacingBearing(qiblaBearing, plot.orientation);
+          const axis = [qiblaWall, oppositeWall(qiblaWall)];
+          const doors = doorWalls(room);
+          const pass = doors.length === 0 || !doors.some(w => axis.includes(w));
+          return {
+            pass,
+            message: pass
+              ? `${room.name} is laid out across the Qibla axis`
+              : `${room.name} has its door on the ${doors.find(w => axis.includes(w))} wall, aligning the WC with the Qibla (${qiblaBearing}°)`,
+            recommendation: pass ? '' : `Put the door of ${room.name} on its ${axis.includes('left') ? 'top or bottom' : 'left or right'} wall so the WC sits perpendicular to the Qibla.`,
+          };
+        },
+      },
+      {
+        id: 'ISLAMIC_004',
+        description: 'Majlis must be reachable by guests without crossing family areas',
+        appliesTo: ['majlis'],
+        severity: 'major',
+        penalty: 0.10,
+        check: (room, allRooms, plot) => {
+          const neighbours = allRooms.filter(other => other !== room && sameFloor(room, other) && hasConnectingOpening(room, other));
+          const intrusion = neighbours.find(other => FAMILY_AREAS.includes(other.classification));
+          const reachable = hasExteriorDoor(room, allRooms, plot) ||
+            neighbours.some(other => ENTRY_AREAS.includes(other.classification));
+
+          if (intrusion) {
+            return {
+              pass: false,
+              message: `${room.name} opens directly into ${intrusion.name}, so guests and family areas are not segregated`,
+              recommendation: `Close the opening between ${room.name} and ${intrusion.name}; connect the majlis through the entrance foyer instead.`,
+            };
+          }
+          return {
+            pass: reachable,
+            message: reachable
+              ? `${room.name} is reached directly from the entrance`
+              : `${room.name} has no direct access from the entrance or outside`,
+            recommendation: reachable ? '' : `Give ${room.name} a door onto the entrance foyer or its own external door.`,
+          };
+        },
+      },
+      {
+        id: 'ISLAMIC_005',
+        description: 'Provide a majlis separate from the family living room',
+        appliesTo: ['living_room'],
+        severity: 'minor',
+        penalty: 0.04,
+        check: (room, allRooms) => {
+          const pass = allRooms.some(other => other.classification === 'majlis');
+          return {
+            pass,
+            message: pass
+              ? 'A separate majlis receives guests away from the family living room'
+              : `Guests are received in ${room.name}, which is also the family living space`,
+            recommendation: pass ? '' : 'Add a majlis (guest reception room) near the entrance, separate from the family living room.',
+          };
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,225 @@
+import type {
+  FloorPlanGraph,
+  PlotGeometry,
+  RoomLockViolation,
+  RoomLockValidationResult,
+  RoomWithDirection,
+} from '../types/agent.types.js';
+import type { ComplianceItem, Room, RoomLock, RoomLockMode } from '../types/shared.types.js';
+import { enrichRoomsWithDirection } from '../utils/direction.utils.js';
+import { buildAdjacencyGraph } from '../utils/adjacency.utils.js';
+import { plotArea } from '../utils/polygon.utils.js';
+
+export const ROOM_LOCK_MODES: RoomLockMode[] = ['full', 'position', 'size', 'orientation'];
+
+const LOCK_TOLERANCE = 0.05; // meters
+
+type LockedPart = 'position' | 'size' | 'orientation';
+
+const LOCKED_PARTS: Record<RoomLockMode, LockedPart[]> = {
+  full: ['position', 'size', 'orientation'],
+  position: ['position'],
+  size: ['size'],
+  orientation: ['orientation'],
+};
+
+const PART_CATEGORY: Record<LockedPart, RoomLockViolation['category']> = {
+  position: 'moved',
+  size: 'resized',
+  orientation: 'rotated',
+};
+
+const LOCK_RULES: Record<RoomLockMode, string> = {
+  full: 'do not move, resize, turn or reshape it, and keep its openings',
+  position: 'keep its x, y and floor; it may be resized',
+  size: 'keep its width and height (it may be turned 90°); it may be moved',
+  orientation: 'keep its long side running the same way; it may be moved or resized',
+};
+
+const close = (a: number, b: number) => Math.abs(a - b) <= LOCK_TOLERANCE;
+const isLandscape = (room: Room) => room.width >= room.height;
+const dimensions = (room: Room) => `${room.width}m x ${room.height}m`;
+const corner = (room: Room) => `(${room.x}, ${room.y})${room.floor ? ` on floor ${room.floor}` : ''}`;
+
+/** The plan's room a lock refers to: the same id, or failing that the same name on the same floor */
+export function findLockedRoom<T extends Room>(rooms: T[], lock: RoomLock): T | undefined {
+  return rooms.find(r => r.id === lock.roomId)
+    ?? rooms.find(r => r.name === lock.room.name && (r.floor ?? 0) === (lock.room.floor ?? 0));
+}
+
+function brokenParts(room: Room, lock: RoomLock): LockedPart[] {
+  const approved = lock.room;
+  return LOCKED_PARTS[lock.mode].filter(part => {
+    switch (part) {
+      case 'position':
+        return !close(room.x, approved.x) || !close(room.y, approved.y) || (room.floor ?? 0) !== (approved.floor ?? 0);
+      case 'size': {
+        const [a, b] = [room, approved].map(r => [r.width, r.height].sort((m, n) => m - n));
+        return !close(a[0], b[0]) || !close(a[1], b[1]);
+      }
+      case 'orientation':
+        return !close(approved.width, approved.height) && isLandscape(room) !== isLandscape(approved);
+    }
+  });
+}
+
+/**
+ * Deterministic room lock validator. Zero LLM calls.
+ * Checks that every locked room is still in the plan and that the locked part
+ * of it (corner position, dimensions or long-side direction; all three for a
+ * full lock) matches the approved room.
+ */
+export function validateRoomLocks(
+  rooms: RoomWithDirection[],
+  locks: RoomLock[]
+): RoomLockValidationResult {
+  const violations: RoomLockViolation[] = [];
+  const complianceItems: ComplianceItem[] = [];
+
+  for (const lock of locks) {
+    const approved = lock.room;
+    const room = findLockedRoom(rooms, lock);
+    if (!room) {
+      violations.push({
+        category: 'missing',
+        severity: 'critical',
+        roomId: lock.roomId,
+        roomName: approved.name,
+        message: `Locked room ${approved.name} is missing from the plan`,
+        recommendation: `Put ${approved.name} back: ${dimensions(approved)} at ${corner(approved)}.`,
+      });
+      complianceItems.push({
+        rule: `Room Lock: ${approved.name}`,
+        status: 'FAIL',
+        message: 'Locked room is missing',
+      });
+      continue;
+    }
+
+    const broken = brokenParts(room, lock);
+    for (const part of broken) {
+      violations.push({
+        category: PART_CATEGORY[part],
+        severity: 'major',
+        roomId: room.id,
+        roomName: room.name,
+        message: part === 'position'
+          ? `Locked room ${room.name} moved from ${corner(approved)} to ${corner(room)}`
+          : part === 'size'
+            ? `Locked room ${room.name} changed from ${dimensions(approved)} to ${dimensions(room)}`
+            : `Locked room ${room.name} was turned; its long side must run ${isLandscape(approved) ? 'across the plot' : 'front to back'}`,
+        recommendation: `Restore ${room.name} to ${dimensions(approved)} at ${corner(approved)} and fit the other rooms around it.`,
+      });
+    }
+    complianceItems.push({
+      rule: `Room Lock: ${room.name}`,
+      status: broken.length === 0 ? 'PASS' : 'FAIL',
+      message: broken.length === 0
+        ? `Kept as approved (${lock.mode} lock)`
+        : `${broken.map(p => PART_CATEGORY[p]).join(', ')} despite a ${lock.mode} lock`,
+      recommendation: broken.length === 0 ? undefined : `Restore ${room.name} as approved.`,
+    });
+  }
+
+  const penaltyMap = { critical: 0.20, major: 0.10, minor: 0.03 };
+  const totalPenalty = violations.reduce((sum, v) => sum + penaltyMap[v.severity], 0);
+
+  return {
+    violations,
+    score: Math.max(0, 1.0 - totalPenalty),
+    complianceItems,
+  };
+}
+
+/**
+ * Undoes any change to a locked room: a removed room is put back, and the
+ * locked part of a changed one is reset to the approved room. Outline rooms
+ * and full locks get the approved room back whole.
+ */
+export function restoreLockedRooms<T extends Room>(rooms: T[], locks: RoomLock[]): { rooms: Room[]; reverted: string[] } {
+  let result: Room[] = rooms;
+  const reverted: string[] = [];
+
+  for (const lock of locks) {
+    const approved = lock.room;
+    const room = findLockedRoom(result, lock);
+    if (!room) {
+      result = [...result, { ...approved, id: lock.roomId }];
+      reverted.push(`Restored locked room ${approved.name}, which had been removed`);
+      continue;
+    }
+    const broken = brokenParts(room, lock);
+    if (broken.length === 0) continue;
+
+    let restored: Room;
+    if (lock.mode === 'full' || room.polygon || approved.polygon) {
+      const { polygon: _polygon, ...rest } = room;
+      restored = {
+        ...rest,
+        type: approved.type,
+        x: approved.x,
+        y: approved.y,
+        width: approved.width,
+        height: approved.height,
+        features: approved.features,
+        ...(approved.polygon ? { polygon: approved.polygon } : {}),
+        ...(approved.floor !== undefined ? { floor: approved.floor } : {}),
+      };
+    } else if (lock.mode === 'position') {
+      restored = { ...room, x: approved.x, y: approved.y, ...(approved.floor !== undefined ? { floor: approved.floor } : {}) };
+    } else if (lock.mode === 'size') {
+      const turned = isLandscape(room) !== isLandscape(approved);
+      restored = { ...room, width: turned ? approved.height : approved.width, height: turned ? approved.width : approved.height };
+    } else {
+      restored = { ...room, width: room.height, height: room.width };
+    }
+    result = result.map(r => (r === room ? restored : r));
+    reverted.push(`Reverted the ${broken.join(' and ')} of locked room ${approved.name}`);
+  }
+
+  return { rooms: result, reverted };
+}
+
+/**
+ * Plan-level restoreLockedRooms for the orchestrator: re-derives directions,
+ * adjacencies and areas and logs each revert. Returns the plan unchanged when
+ * every lock held.
+ */
+export function enforceRoomLocks(
+  plan: FloorPlanGraph,
+  locks: RoomLock[] | undefined,
+  plotGeometry: PlotGeometry
+): FloorPlanGraph {
+  if (!locks || locks.length === 0) return plan;
+  const { rooms, reverted } = restoreLockedRooms(plan.rooms, locks);
+  if (reverted.length === 0) return plan;
+
+  const enrichedRooms = enrichRoomsWithDirection(rooms, plotGeometry);
+  const builtUpArea = enrichedRooms
+    .filter(r => r.type === 'room' || r.type === 'service')
+    .reduce((sum, r) => sum + r.area, 0);
+  const circulationArea = enrichedRooms
+    .filter(r => r.type === 'circulation')
+    .reduce((sum, r) => sum + r.area, 0);
+  const setbackArea = enrichedRooms
+    .filter(r => r.type === 'setback')
+    .reduce((sum, r) => sum + r.area, 0);
+
+  return {
+    ...plan,
+    rooms: enrichedRooms,
+    adjacencies: buildAdjacencyGraph(enrichedRooms),
+    designLog: [...plan.designLog, ...reverted],
+    builtUpArea,
+    circulationArea,
+    setbackArea,
+    plotCoverageRatio: builtUpArea / plotArea(plotGeometry),
+  };
+}
+
+/** One prompt line per lock, stating what the model may not change */
+export function describeRoomLocks(locks: RoomLock[]): string {
+  return locks
+    .map(lock => `- ${lock.room.name} (id "${lock.roomId}", ${dimensions(lock.room)} at ${corner(lock.room)}): ${LOCK_RULES[lock.mode]}`)
+    .join('\n');
+}
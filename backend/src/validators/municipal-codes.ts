@@ -0,0 +1,216 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join, extname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type {
+  MunicipalCodeDefinition,
+  MunicipalCodeInfo,
+  MunicipalConfig,
+  SlabBounds,
+  SiteParameters,
+  ResolvedSiteLimits,
+} from '../types/agent.types.js';
+import { logger } from '../utils/logger.js';
+
+const CODES_DIR = process.env.MUNICIPAL_CODES_DIR
+  || fileURLToPath(new URL('../../codes', import.meta.url));
+
+export const DEFAULT_MUNICIPAL_CODE = 'NBC';
+
+const nonNegative = z.number().nonnegative();
+
+const setbacksSchema = z.object({
+  front: nonNegative,
+  left: nonNegative,
+  right: nonNegative,
+  rear: nonNegative,
+});
+
+const slabBoundsSchema = z.object({
+  minPlotArea: nonNegative.optional(),
+  maxPlotArea: nonNegative.optional(),
+  minRoadWidth: nonNegative.optional(),
+  maxRoadWidth: nonNegative.optional(),
+  minHeight: nonNegative.optional(),
+  maxHeight: nonNegative.optional(),
+});
+
+const fireSafetySchema = z.object({
+  maxTravelDistance: z.number().positive(),
+  maxDeadEndLength: nonNegative,
+  secondStairHeight: z.number().positive(),
+  secondStairOccupancy: z.number().int().positive(),
+  occupantLoadFactor: z.number().positive(),
+  minMainDoorWidth: z.number().positive(),
+  minStairWidth: z.number().positive(),
+}).partial();
+
+const municipalCodeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  jurisdiction: z.string().optional(),
+  version: z.string().min(1),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected YYYY-MM-DD'),
+  source: z.string().optional(),
+  maxFAR: z.number().positive(),
+  maxGroundCoverage: z.number().gt(0).lte(1),
+  minRoomSizes: z.record(z.string(), nonNegative),
+  minCorridorWidth: z.number().positive(),
+  minVentilationRatio: z.number().gt(0).lte(1),
+  defaultSetbacks: setbacksSchema,
+  setbackSlabs: z.array(slabBoundsSchema.extend({ setbacks: setbacksSchema })).optional(),
+  farSlabs: z.array(slabBoundsSchema.extend({
+    maxFAR: z.number().positive(),
+    maxGroundCoverage: z.number().gt(0).lte(1).optional(),
+  })).optional(),
+  fireSafety: fireSafetySchema.optional(),
+});
+
+/** All versions per authority id, oldest first */
+let registry: Map<string, MunicipalCodeDefinition[]> | null = null;
+
+/**
+ * Loads every .json/.yaml/.yml file in the codes directory. Each file holds
+ * one version of one authority; publishing a revision means adding a file
+ * with the same id and a later effectiveFrom. Invalid files are logged and
+ * skipped so one bad definition does not take the others down.
+ */
+export function loadMunicipalCodes(dir = CODES_DIR): Map<string, MunicipalCodeDefinition[]> {
+  const loaded = new Map<string, MunicipalCodeDefinition[]>();
+
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter(f => ['.json', '.yaml', '.yml'].includes(extname(f).toLowerCase()));
+  } catch (err) {
+    logger.error({ err, dir }, 'Municipal codes directory could not be read');
+    files = [];
+  }
+
+  for (const file of files.sort()) {
+    try {
+      const text = readFileSync(join(dir, file), 'utf8');
+      const raw = extname(file).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+      const parsed = municipalCodeSchema.safeParse(raw);
+      if (!parsed.success) {
+        logger.error({ file, issues: parsed.error.issues }, 'Invalid municipal code definition, skipping');
+        continue;
+      }
+
+      const definition = parsed.data as MunicipalCodeDefinition;
+      const key = definition.id.toUpperCase();
+      if (!loaded.has(key)) loaded.set(key, []);
+      loaded.get(key)!.push(definition);
+    } catch (err) {
+      logger.error({ err, file }, 'Municipal code file could not be parsed, skipping');
+    }
+  }
+
+  for (const versions of loaded.values()) {
+    versions.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  }
+
+  logger.info({ dir, authorities: loaded.size }, 'Municipal codes loaded');
+  registry = loaded;
+  return loaded;
+}
+
+function getRegistry(): Map<string, MunicipalCodeDefinition[]> {
+  return registry ?? loadMunicipalCodes();
+}
+
+function toDateKey(asOf: Date): string {
+  return asOf.toISOString().slice(0, 10);
+}
+
+/**
+ * Version in force on `asOf`. Falls back to the earliest version when none
+ * has taken effect yet, so a freshly published authority is still usable.
+ */
+function effectiveVersion(versions: MunicipalCodeDefinition[], asOf: Date): MunicipalCodeDefinition | undefined {
+  const key = toDateKey(asOf);
+  const inForce = versions.filter(v => v.effectiveFrom <= key);
+  return inForce[inForce.length - 1] ?? versions[0];
+}
+
+/**
+ * Resolves an authority by id ("BBMP") or display name ("BBMP (Bengaluru)").
+ */
+export function getMunicipalCode(code: string, asOf = new Date()): MunicipalCodeDefinition | undefined {
+  const reg = getRegistry();
+  const needle = code.trim().toUpperCase();
+
+  const versions = reg.get(needle)
+    ?? [...reg.values()].find(vs => vs.some(v => v.name.toUpperCase() === needle));
+  return versions ? effectiveVersion(versions, asOf) : undefined;
+}
+
+/**
+ * Authorities available for selection, one entry per id at the version in force.
+ */
+export function listMunicipalCodes(asOf = new Date()): MunicipalCodeInfo[] {
+  return [...getRegistry().values()]
+    .map(versions => effectiveVersion(versions, asOf)!)
+    .map(({ id, name, jurisdiction, version, effectiveFrom, source }) => ({
+      id, name, jurisdiction, version, effectiveFrom, source,
+    }))
+    .sort((a, b) => (a.id === DEFAULT_MUNICIPAL_CODE ? -1 : b.id === DEFAULT_MUNICIPAL_CODE ? 1 : a.name.localeCompare(b.name)));
+}
+
+function inRange(value: number | undefined, min?: number, max?: number): boolean {
+  if (min === undefined && max === undefined) return true;
+  if (value === undefined) return false;
+  return (min === undefined || value >= min) && (max === undefined || value < max);
+}
+
+function slabMatches(slab: SlabBounds, site: SiteParameters): boolean {
+  return inRange(site.plotArea, slab.minPlotArea, slab.maxPlotArea)
+    && inRange(site.roadWidth, slab.minRoadWidth, slab.maxRoadWidth)
+    && inRange(site.buildingHeight, slab.minHeight, slab.maxHeight);
+}
+
+function describeRange(label: string, unit: string, min?: number, max?: number): string | null {
+  if (min === undefined && max === undefined) return null;
+  if (min === undefined) return `${label} < ${max}${unit}`;
+  if (max === undefined) return `${label} >= ${min}${unit}`;
+  return `${label} ${min}–${max}${unit}`;
+}
+
+function describeSlab(slab: SlabBounds): string {
+  return [
+    describeRange('plot area', ' sq.m', slab.minPlotArea, slab.maxPlotArea),
+    describeRange('road width', 'm', slab.minRoadWidth, slab.maxRoadWidth),
+    describeRange('height', 'm', slab.minHeight, slab.maxHeight),
+  ].filter(Boolean).join(', ') || 'all sites';
+}
+
+/**
+ * Picks the setbacks, FAR and ground coverage that apply to a specific site
+ * from the authority's slab tables, falling back to the flat defaults. Slabs
+ * keyed on road width never match when the road width is unknown. On corner
+ * plots the side facing the second road is treated as a frontage and gets at
+ * least the front setback.
+ */
+export function resolveSiteLimits(config: MunicipalConfig, site: SiteParameters): ResolvedSiteLimits {
+  const notes: string[] = [];
+
+  const setbackSlab = config.setbackSlabs?.find(slab => slabMatches(slab, site));
+  const setbacks = { ...(setbackSlab?.setbacks ?? config.defaultSetbacks) };
+  notes.push(setbackSlab
+    ? `Setbacks from slab (${describeSlab(setbackSlab)})`
+    : 'Setbacks from authority defaults');
+
+  if (site.cornerSide) {
+    setbacks[site.cornerSide] = Math.max(setbacks[site.cornerSide], setbacks.front);
+    notes.push(`Corner plot: ${site.cornerSide} side abuts a road and takes the ${setbacks[site.cornerSide]}m front setback`);
+  }
+
+  const farSlab = config.farSlabs?.find(slab => slabMatches(slab, site));
+  const maxFAR = farSlab?.maxFAR ?? config.maxFAR;
+  const maxGroundCoverage = farSlab?.maxGroundCoverage ?? config.maxGroundCoverage;
+  notes.push(farSlab
+    ? `FAR ${maxFAR} from slab (${describeSlab(farSlab)})`
+    : `FAR ${maxFAR} from authority defaults${site.roadWidth === undefined && config.farSlabs?.length ? ' (road width not given)' : ''}`);
+
+  return { setbacks, maxFAR, maxGroundCoverage, notes };
+}
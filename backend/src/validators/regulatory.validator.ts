@@ -6,98 +6,22 @@ import type {
   RegulatoryViolation,
   RegulatoryValidationResult,
   RoomClassification,
+  MunicipalCodeDefinition,
 } from '../types/agent.types.js';
-import type { ComplianceItem, MunicipalCode } from '../types/shared.types.js';
+import type { ComplianceItem } from '../types/shared.types.js';
+import { getMunicipalCode, DEFAULT_MUNICIPAL_CODE } from './municipal-codes.js';
+import { plotArea as getPlotArea, offsetPolygon, polygonInPolygon, roomOutline } from '../utils/polygon.utils.js';
 
-const municipalConfigs: Record<string, MunicipalConfig> = {
-  'National Building Code': {
-    maxFAR: 2.0,
-    maxGroundCoverage: 0.60,
-    minRoomSizes: {
-      master_bedroom: 12,
-      bedroom: 9,
-      children_bedroom: 9,
-      guest_bedroom: 9,
-      kitchen: 6,
-      living_room: 12,
-      dining_room: 8,
-      bathroom: 3,
-      toilet: 2,
-      pooja_room: 3,
-      study_room: 7,
-      corridor: 1.5,
-    },
-    minCorridorWidth: 1.2,
-    minVentilationRatio: 0.10,
-    defaultSetbacks: { front: 3, left: 1.5, right: 1.5, rear: 2 },
-  },
-  'BBMP (Bengaluru)': {
-    maxFAR: 2.25,
-    maxGroundCoverage: 0.65,
-    minRoomSizes: {
-      master_bedroom: 12,
-      bedroom: 9.5,
-      children_bedroom: 9,
-      guest_bedroom: 9,
-      kitchen: 5.5,
-      living_room: 12,
-      dining_room: 8,
-      bathroom: 2.8,
-      toilet: 1.8,
-      pooja_room: 2.5,
-      study_room: 7,
-      corridor: 1.5,
-    },
-    minCorridorWidth: 1.2,
-    minVentilationRatio: 0.10,
-    defaultSetbacks: { front: 3, left: 1.5, right: 1.5, rear: 1.5 },
-  },
-  'BMC (Mumbai)': {
-    maxFAR: 2.5,
-    maxGroundCoverage: 0.60,
-    minRoomSizes: {
-      master_bedroom: 12,
-      bedroom: 9.5,
-      children_bedroom: 9,
-      guest_bedroom: 9,
-      kitchen: 5.5,
-      living_room: 12,
-      dining_room: 8,
-      bathroom: 3,
-      toilet: 2,
-      pooja_room: 2.5,
-      study_room: 7.5,
-      corridor: 1.5,
-    },
-    minCorridorWidth: 1.2,
-    minVentilationRatio: 0.10,
-    defaultSetbacks: { front: 3, left: 2, right: 2, rear: 2 },
-  },
-  'MCD (Delhi)': {
-    maxFAR: 3.5,
-    maxGroundCoverage: 0.75,
-    minRoomSizes: {
-      master_bedroom: 12,
-      bedroom: 9,
-      children_bedroom: 9,
-      guest_bedroom: 9,
-      kitchen: 5,
-      living_room: 11,
-      dining_room: 7.5,
-      bathroom: 2.5,
-      toilet: 1.5,
-      pooja_room: 2.5,
-      study_room: 7,
-      corridor: 1.2,
-    },
-    minCorridorWidth: 1.2,
-    minVentilationRatio: 0.10,
-    defaultSetbacks: { front: 3, left: 1.5, right: 1.5, rear: 2 },
-  },
-};
-
-export function getMunicipalConfig(code: string): MunicipalConfig {
-  return municipalConfigs[code] || municipalConfigs['National Building Code'];
+/**
+ * Municipal parameters for an authority id or name, from the versioned code
+ * files in backend/codes. Unknown authorities fall back to the National Building Code.
+ */
+export function getMunicipalConfig(code: string): MunicipalCodeDefinition {
+  const definition = getMunicipalCode(code || DEFAULT_MUNICIPAL_CODE) ?? getMunicipalCode(DEFAULT_MUNICIPAL_CODE);
+  if (!definition) {
+    throw new Error(`No municipal code definition found for "${code}" or the ${DEFAULT_MUNICIPAL_CODE} fallback`);
+  }
+  return definition;
 }
 
 /**
@@ -107,18 +31,23 @@ export function validateRegulatory(
   rooms: RoomWithDirection[],
   plotGeometry: PlotGeometry,
   municipalConfig: MunicipalConfig,
-  setbacks: SetbackRequirements,
-  floors: number = 1
+  setbacks: SetbackRequirements
 ): RegulatoryValidationResult {
   const violations: RegulatoryViolation[] = [];
   const complianceItems: ComplianceItem[] = [];
-  const plotArea = plotGeometry.width * plotGeometry.depth;
+  const plotArea = getPlotArea(plotGeometry);
+  // Irregular plots: setbacks are inward offsets of each boundary edge
+  const envelope = plotGeometry.boundary ? offsetPolygon(plotGeometry.boundary, setbacks) : null;
 
   // Separate rooms by type
   const buildingRooms = rooms.filter(r => r.type === 'room' || r.type === 'circulation' || r.type === 'service');
   const setbackRooms = rooms.filter(r => r.type === 'setback');
 
+  // FAR counts the floor area of every storey, ground coverage only the ground floor
   const builtUpArea = buildingRooms.reduce((sum, r) => sum + r.area, 0);
+  const groundFloorArea = buildingRooms
+    .filter(r => (r.floor ?? 0) === 0)
+    .reduce((sum, r) => sum + r.area, 0);
 
   // 1. Setback compliance
   for (const room of buildingRooms) {
@@ -136,6 +65,9 @@ export function validateRegulatory(
     if (room.y + room.height > plotGeometry.depth - setbacks.rear + 0.1) {
       issues.push(`rear setback (${setbacks.rear}m)`);
     }
+    if (envelope && issues.length === 0 && !polygonInPolygon(roomOutline(room), envelope, 0.1)) {
+      issues.push('setback along the irregular boundary');
+    }
 
     if (issues.length > 0) {
       violations.push({
@@ -160,13 +92,13 @@ export function validateRegulatory(
   });
 
   // 2. FAR/FSI check
-  const far = (builtUpArea * floors) / plotArea;
+  const far = builtUpArea / plotArea;
   const farPass = far <= municipalConfig.maxFAR;
   complianceItems.push({
     rule: 'Floor Area Ratio (FAR/FSI)',
     status: farPass ? 'PASS' : 'FAIL',
     message: `FAR: ${far.toFixed(2)} (max: ${municipalConfig.maxFAR})`,
-    recommendation: farPass ? undefined : `Reduce built-up area by ${((far - municipalConfig.maxFAR) * plotArea / floors).toFixed(1)} sq.m`,
+    recommendation: farPass ? undefined : `Reduce built-up area by ${((far - municipalConfig.maxFAR) * plotArea).toFixed(1)} sq.m`,
   });
   if (!farPass) {
     violations.push({
@@ -178,7 +110,7 @@ export function validateRegulatory(
   }
 
   // 3. Ground coverage
-  const coverage = builtUpArea / plotArea;
+  const coverage = groundFloorArea / plotArea;
   const coveragePass = coverage <= municipalConfig.maxGroundCoverage;
   complianceItems.push({
     rule: 'Ground Coverage',
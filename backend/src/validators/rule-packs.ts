@@ -0,0 +1,30 @@
+import type { CulturalRulePack } from '../types/agent.types.js';
+import type { ProjectConfig } from '../types/shared.types.js';
+import { CulturalSystem } from '../types/shared.types.js';
+import { vastuRulePack, vastuNorthRulePack, vastuSouthRulePack } from './vastu.validator.js';
+import { createIslamicRulePack } from './islamic.validator.js';
+import { christianRulePack } from './christian.validator.js';
+
+/**
+ * Selects the cultural rule pack for a project. North/South Vastu get their
+ * regional variants, General Vastu (and legacy configs with no system set)
+ * the base Vastu pack; None disables cultural checks.
+ */
+export function getCulturalRulePack(
+  config: Pick<ProjectConfig, 'culturalSystem' | 'qiblaBearing'>
+): CulturalRulePack | null {
+  switch (config.culturalSystem) {
+    case CulturalSystem.NONE:
+      return null;
+    case CulturalSystem.VASTU_NORTH:
+      return vastuNorthRulePack;
+    case CulturalSystem.VASTU_SOUTH:
+      return vastuSouthRulePack;
+    case CulturalSystem.ISLAMIC:
+      return createIslamicRulePack(config.qiblaBearing);
+    case CulturalSystem.CHRISTIAN:
+      return christianRulePack;
+    default:
+      return vastuRulePack;
+  }
+}
@@ -0,0 +1,182 @@
+import type {
+  RoomWithDirection,
+  RoomClassification,
+  StructuralViolation,
+  StructuralValidationResult,
+} from '../types/agent.types.js';
+import type { ComplianceItem } from '../types/shared.types.js';
+import { groupRoomsByFloor } from '../utils/geometry.utils.js';
+import { roomOutline, roomUnionAreaInPolygon } from '../utils/polygon.utils.js';
+
+const STAIR_TOLERANCE = 0.1; // meters
+const UNSUPPORTED_TOLERANCE = 0.1; // fraction of the room's area
+const WET_STACK_MIN_OVERLAP = 0.5; // fraction of the wet room's area
+
+const WET_AREAS: RoomClassification[] = ['bathroom', 'toilet', 'kitchen', 'utility'];
+const BEDROOMS: RoomClassification[] = ['master_bedroom', 'bedroom', 'children_bedroom', 'guest_bedroom'];
+
+const floorLabel = (floor: number) => floor === 0 ? 'Ground floor' : `Floor ${floor}`;
+
+/**
+ * Deterministic multi-floor consistency validator. Zero LLM calls.
+ * Runs only for multi-floor projects. Checks that every floor is drawn, that
+ * staircases stack, that upper rooms bear on rooms below and that wet areas
+ * sit over wet areas so the drainage stacks run straight down. Balconies and
+ * other outdoor zones may cantilever and are left out.
+ */
+export function validateStructure(
+  rooms: RoomWithDirection[],
+  floorCount: number
+): StructuralValidationResult {
+  const violations: StructuralViolation[] = [];
+  const complianceItems: ComplianceItem[] = [];
+  const interior = rooms.filter(r => ['room', 'circulation', 'service'].includes(r.type) && r.width > 0 && r.height > 0);
+  const byFloor = groupRoomsByFloor(interior);
+
+  // 1. Per-floor coverage: every floor has rooms, and no rooms above the top floor
+  const floorAreas: string[] = [];
+  for (let f = 0; f < floorCount; f++) {
+    const floorRooms = byFloor.get(f) ?? [];
+    const area = floorRooms.reduce((sum, r) => sum + r.area, 0);
+    floorAreas.push(`${floorLabel(f)} ${area.toFixed(1)} sq.m`);
+    if (floorRooms.length === 0) {
+      violations.push({
+        category: 'empty_floor',
+        severity: 'critical',
+        floor: f,
+        message: `${floorLabel(f)} has no rooms`,
+        recommendation: `Give every room a "floor" value and lay out ${floorLabel(f).toLowerCase()}.`,
+      });
+    }
+  }
+  const strays = interior.filter(r => (r.floor ?? 0) < 0 || (r.floor ?? 0) >= floorCount);
+  for (const room of strays) {
+    violations.push({
+      category: 'empty_floor',
+      severity: 'critical',
+      roomId: room.id,
+      roomName: room.name,
+      floor: room.floor,
+      message: `${room.name} is on floor ${room.floor}, but the building has ${floorCount} floors`,
+      recommendation: `Move ${room.name} to a floor between 0 and ${floorCount - 1}.`,
+    });
+  }
+  const emptyFloors = violations.filter(v => v.category === 'empty_floor').length;
+  complianceItems.push({
+    rule: 'Floor Coverage',
+    status: emptyFloors === 0 ? 'PASS' : 'FAIL',
+    message: floorAreas.join(', '),
+    recommendation: emptyFloors === 0 ? undefined : 'Assign every room to one of the building\'s floors.',
+  });
+
+  // 2. Staircases: every floor has one, and each upper flight sits exactly over one below
+  const stairsOn = (f: number) => (byFloor.get(f) ?? []).filter(r => r.classification === 'staircase');
+  const stairIssues: string[] = [];
+  for (let f = 0; f < floorCount; f++) {
+    if (stairsOn(f).length === 0) {
+      stairIssues.push(`no staircase on ${floorLabel(f).toLowerCase()}`);
+      violations.push({
+        category: 'stair_alignment',
+        severity: 'critical',
+        floor: f,
+        message: `${floorLabel(f)} has no staircase`,
+        recommendation: `Add a staircase on ${floorLabel(f).toLowerCase()} with the same rectangle as on the other floors.`,
+      });
+      continue;
+    }
+    if (f === 0) continue;
+    for (const stair of stairsOn(f)) {
+      const below = stairsOn(f - 1);
+      const aligned = below.some(b =>
+        Math.abs(b.x - stair.x) <= STAIR_TOLERANCE && Math.abs(b.y - stair.y) <= STAIR_TOLERANCE
+        && Math.abs(b.width - stair.width) <= STAIR_TOLERANCE && Math.abs(b.height - stair.height) <= STAIR_TOLERANCE
+      );
+      if (aligned || below.length === 0) continue;
+      const target = below[0];
+      stairIssues.push(`${stair.name} on ${floorLabel(f).toLowerCase()}`);
+      violations.push({
+        category: 'stair_alignment',
+        severity: 'critical',
+        roomId: stair.id,
+        roomName: stair.name,
+        floor: f,
+        message: `${stair.name} on ${floorLabel(f).toLowerCase()} (${stair.x}, ${stair.y}, ${stair.width}x${stair.height}m) does not line up with ${target.name} below (${target.x}, ${target.y}, ${target.width}x${target.height}m)`,
+        recommendation: `Give ${stair.name} the same x, y, width and height as ${target.name} on ${floorLabel(f - 1).toLowerCase()}.`,
+      });
+    }
+  }
+  complianceItems.push({
+    rule: 'Staircase Alignment',
+    status: stairIssues.length === 0 ? 'PASS' : 'FAIL',
+    message: stairIssues.length === 0 ? 'Staircases stack on every floor' : `Misaligned: ${stairIssues.join(', ')}`,
+    recommendation: stairIssues.length === 0 ? undefined : 'Use identical staircase rectangles on every floor.',
+  });
+
+  // 3. Upper-floor rooms bear on the floor below
+  const unsupported: string[] = [];
+  for (let f = 1; f < floorCount; f++) {
+    const below = byFloor.get(f - 1) ?? [];
+    for (const room of byFloor.get(f) ?? []) {
+      const supported = below.length > 0 ? roomUnionAreaInPolygon(below, roomOutline(room)) : 0;
+      const share = room.area > 0 ? 1 - supported / room.area : 0;
+      if (share <= UNSUPPORTED_TOLERANCE) continue;
+      unsupported.push(room.name);
+      violations.push({
+        category: 'unsupported',
+        severity: 'major',
+        roomId: room.id,
+        roomName: room.name,
+        floor: f,
+        message: `${Math.round(share * 100)}% of ${room.name} on ${floorLabel(f).toLowerCase()} has no room below it`,
+        recommendation: `Move ${room.name} over the ${floorLabel(f - 1).toLowerCase()} footprint, or make the overhang an outdoor balcony.`,
+      });
+    }
+  }
+  complianceItems.push({
+    rule: 'Upper-Floor Support',
+    status: unsupported.length === 0 ? 'PASS' : 'FAIL',
+    message: unsupported.length === 0 ? 'Every upper-floor room sits over the floor below' : `Overhanging: ${unsupported.join(', ')}`,
+    recommendation: unsupported.length === 0 ? undefined : 'Keep upper-floor rooms inside the footprint of the floor below.',
+  });
+
+  // 4. Wet areas stacked over wet areas
+  const offStack: string[] = [];
+  for (let f = 1; f < floorCount; f++) {
+    const below = byFloor.get(f - 1) ?? [];
+    const wetBelow = below.filter(r => WET_AREAS.includes(r.classification));
+    for (const room of (byFloor.get(f) ?? []).filter(r => WET_AREAS.includes(r.classification))) {
+      const overlap = wetBelow.length > 0 ? roomUnionAreaInPolygon(wetBelow, roomOutline(room)) / room.area : 0;
+      if (overlap >= WET_STACK_MIN_OVERLAP) continue;
+      // Leaks over a bedroom do more harm than a longer drain run
+      const overBedroom = below.find(r => BEDROOMS.includes(r.classification)
+        && roomUnionAreaInPolygon([r], roomOutline(room)) / room.area >= WET_STACK_MIN_OVERLAP);
+      offStack.push(room.name);
+      violations.push({
+        category: 'wet_stack',
+        severity: overBedroom ? 'major' : 'minor',
+        roomId: room.id,
+        roomName: room.name,
+        floor: f,
+        message: overBedroom
+          ? `${room.name} on ${floorLabel(f).toLowerCase()} sits over ${overBedroom.name}`
+          : `${room.name} on ${floorLabel(f).toLowerCase()} is not over a bathroom, kitchen or utility`,
+        recommendation: `Stack ${room.name} over a wet area on ${floorLabel(f - 1).toLowerCase()} so the drainage runs straight down.`,
+      });
+    }
+  }
+  complianceItems.push({
+    rule: 'Wet Area Stacking',
+    status: offStack.length === 0 ? 'PASS' : 'WARN',
+    message: offStack.length === 0 ? 'Upper-floor wet areas sit over wet areas' : `Off the drainage stack: ${offStack.join(', ')}`,
+    recommendation: offStack.length === 0 ? undefined : 'Line bathrooms and kitchens up vertically.',
+  });
+
+  const penaltyMap = { critical: 0.20, major: 0.10, minor: 0.03 };
+  const totalPenalty = violations.reduce((sum, v) => sum + penaltyMap[v.severity], 0);
+
+  return {
+    violations,
+    score: Math.max(0, 1.0 - totalPenalty),
+    complianceItems,
+  };
+}
@@ -1,29 +1,27 @@
 import type {
   RoomWithDirection,
   PlotGeometry,
-  VastuViolation,
   VastuValidationResult,
   RoomClassification,
   CardinalDirection,
+  CulturalRule,
+  CulturalRulePack,
 } from '../types/agent.types.js';
-import type { ComplianceItem } from '../types/shared.types.js';
+import { describePlotRegion } from '../utils/direction.utils.js';
+import { validateCultural, getCulturalStrictness } from './cultural.validator.js';
+import { CulturalSystem } from '../types/shared.types.js';
 
-interface VastuRule {
-  id: string;
-  description: string;
-  appliesTo: RoomClassification[];
-  severity: 'critical' | 'major' | 'minor';
-  penalty: number;
-  check: (
-    room: RoomWithDirection,
-    allRooms: RoomWithDirection[],
-    plotGeometry: PlotGeometry
-  ) => { pass: boolean; message: string; recommendation: string };
+/**
+ * Where a compass direction lies on this plot as drawn, e.g. "rear-left corner".
+ * Keeps recommendations actionable on plots that don't face North.
+ */
+function onPlot(direction: CardinalDirection, plotGeometry: PlotGeometry): string {
+  return describePlotRegion(direction, plotGeometry.orientation);
 }
 
 const FORBIDDEN_CENTER: RoomClassification[] = ['kitchen', 'bathroom', 'toilet', 'staircase', 'storage'];
 
-const vastuRules: VastuRule[] = [
+const vastuRules: CulturalRule[] = [
   {
     id: 'VASTU_001',
     description: 'Brahmasthan must not contain kitchen/toilet/staircase/storage',
@@ -47,7 +45,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['master_bedroom'],
     severity: 'major',
     penalty: 0.10,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['SW'];
       const pass = preferred.includes(room.direction);
       return {
@@ -55,7 +53,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Master Bedroom correctly placed in ${room.direction} (Southwest)`
           : `Master Bedroom is in ${room.direction}, should be in Southwest`,
-        recommendation: pass ? '' : 'Relocate master bedroom to the Southwest quadrant for stability and grounding.',
+        recommendation: pass ? '' : `Relocate master bedroom to the Southwest quadrant (${onPlot('SW', plot)} of this plot) for stability and grounding.`,
       };
     },
   },
@@ -65,7 +63,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['kitchen'],
     severity: 'major',
     penalty: 0.10,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['SE', 'NW'];
       const pass = preferred.includes(room.direction);
       return {
@@ -73,7 +71,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Kitchen correctly placed in ${room.direction}`
           : `Kitchen is in ${room.direction}, should be in Southeast or Northwest`,
-        recommendation: pass ? '' : 'Move kitchen to Southeast (Fire element - Agni) or Northwest as alternative.',
+        recommendation: pass ? '' : `Move kitchen to Southeast (${onPlot('SE', plot)}, Fire element - Agni) or Northwest (${onPlot('NW', plot)}) as alternative.`,
       };
     },
   },
@@ -83,7 +81,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['living_room'],
     severity: 'minor',
     penalty: 0.05,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['NE', 'N', 'E'];
       const pass = preferred.includes(room.direction);
       return {
@@ -91,7 +89,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Living Room correctly placed in ${room.direction}`
           : `Living Room is in ${room.direction}, ideally should be in Northeast/North/East`,
-        recommendation: pass ? '' : 'Consider placing living room in Northeast, North, or East for positive energy flow.',
+        recommendation: pass ? '' : `Consider placing living room in Northeast (${onPlot('NE', plot)}), North, or East for positive energy flow.`,
       };
     },
   },
@@ -101,7 +99,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['pooja_room'],
     severity: 'major',
     penalty: 0.10,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['NE', 'E', 'N'];
       const pass = preferred.includes(room.direction);
       return {
@@ -109,7 +107,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Pooja Room correctly placed in ${room.direction} (most auspicious)`
           : `Pooja Room is in ${room.direction}, should be in Northeast/East/North`,
-        recommendation: pass ? '' : 'Relocate Pooja Room to Northeast (Ishaan Kona) for maximum spiritual benefit.',
+        recommendation: pass ? '' : `Relocate Pooja Room to Northeast (Ishaan Kona, ${onPlot('NE', plot)} of this plot) for maximum spiritual benefit.`,
       };
     },
   },
@@ -119,7 +117,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['bathroom', 'toilet'],
     severity: 'critical',
     penalty: 0.12,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const forbidden: CardinalDirection[] = ['NE', 'CENTER'];
       const pass = !forbidden.includes(room.direction);
       return {
@@ -127,7 +125,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `${room.name} correctly placed away from Northeast/Center`
           : `${room.name} is in ${room.direction} - toilets in NE/Center cause health and financial problems`,
-        recommendation: pass ? '' : `Move ${room.name} to West, South, or Northwest. Never place in Northeast or Center.`,
+        recommendation: pass ? '' : `Move ${room.name} to West, South, or Northwest. Never place in Northeast (${onPlot('NE', plot)}) or Center.`,
       };
     },
   },
@@ -137,7 +135,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['entrance', 'foyer'],
     severity: 'major',
     penalty: 0.08,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['N', 'E', 'NE'];
       const pass = preferred.includes(room.direction);
       return {
@@ -145,7 +143,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Entrance correctly placed in ${room.direction}`
           : `Entrance is in ${room.direction}, should be in North/East/Northeast`,
-        recommendation: pass ? '' : 'Reposition entrance to North or East for prosperity and positive energy.',
+        recommendation: pass ? '' : `Reposition entrance to North (${onPlot('N', plot)}) or East (${onPlot('E', plot)}) for prosperity and positive energy.`,
       };
     },
   },
@@ -155,7 +153,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['children_bedroom'],
     severity: 'minor',
     penalty: 0.05,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['W', 'NW', 'E'];
       const pass = preferred.includes(room.direction);
       return {
@@ -163,7 +161,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Children's Bedroom correctly placed in ${room.direction}`
           : `Children's Bedroom is in ${room.direction}, ideally in West/Northwest/East`,
-        recommendation: pass ? '' : 'Consider placing children\'s bedroom in West, Northwest, or East.',
+        recommendation: pass ? '' : `Consider placing children's bedroom in West (${onPlot('W', plot)}), Northwest, or East.`,
       };
     },
   },
@@ -173,7 +171,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['guest_bedroom'],
     severity: 'minor',
     penalty: 0.04,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['NW'];
       const pass = preferred.includes(room.direction);
       return {
@@ -181,7 +179,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Guest Bedroom correctly placed in Northwest`
           : `Guest Bedroom is in ${room.direction}, ideally in Northwest`,
-        recommendation: pass ? '' : 'Move guest bedroom to Northwest direction.',
+        recommendation: pass ? '' : `Move guest bedroom to Northwest direction (${onPlot('NW', plot)} of this plot).`,
       };
     },
   },
@@ -191,7 +189,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['study_room'],
     severity: 'minor',
     penalty: 0.04,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['W', 'E', 'NE'];
       const pass = preferred.includes(room.direction);
       return {
@@ -199,7 +197,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Study Room correctly placed in ${room.direction}`
           : `Study Room is in ${room.direction}, ideally in West/East/Northeast`,
-        recommendation: pass ? '' : 'Place study room in West (best focus) or East/Northeast.',
+        recommendation: pass ? '' : `Place study room in West (${onPlot('W', plot)}, best focus) or East/Northeast.`,
       };
     },
   },
@@ -209,7 +207,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['dining_room'],
     severity: 'minor',
     penalty: 0.03,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['W', 'NW', 'E'];
       const pass = preferred.includes(room.direction);
       return {
@@ -217,7 +215,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Dining Room correctly placed in ${room.direction}`
           : `Dining Room is in ${room.direction}, ideally in West/Northwest/East`,
-        recommendation: pass ? '' : 'Consider placing dining room in West, Northwest, or East.',
+        recommendation: pass ? '' : `Consider placing dining room in West (${onPlot('W', plot)}), Northwest, or East.`,
       };
     },
   },
@@ -227,7 +225,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['staircase'],
     severity: 'major',
     penalty: 0.08,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const forbidden: CardinalDirection[] = ['NE', 'CENTER'];
       const pass = !forbidden.includes(room.direction);
       return {
@@ -235,7 +233,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Staircase correctly placed away from Northeast/Center`
           : `Staircase is in ${room.direction} - should not be in NE or Center`,
-        recommendation: pass ? '' : 'Move staircase to Southwest, South, or West direction.',
+        recommendation: pass ? '' : `Move staircase to Southwest (${onPlot('SW', plot)}), South, or West direction.`,
       };
     },
   },
@@ -245,7 +243,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['balcony'],
     severity: 'minor',
     penalty: 0.03,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['N', 'E', 'NE'];
       const pass = preferred.includes(room.direction);
       return {
@@ -253,7 +251,7 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Balcony correctly placed in ${room.direction}`
           : `Balcony is in ${room.direction}, ideally in North/East/Northeast`,
-        recommendation: pass ? '' : 'Place balcony in North, East, or Northeast for better light and energy.',
+        recommendation: pass ? '' : `Place balcony in North, East, or Northeast (${onPlot('NE', plot)}) for better light and energy.`,
       };
     },
   },
@@ -263,7 +261,7 @@ const vastuRules: VastuRule[] = [
     appliesTo: ['storage'],
     severity: 'minor',
     penalty: 0.03,
-    check: (room) => {
+    check: (room, _allRooms, plot) => {
       const preferred: CardinalDirection[] = ['SW', 'S', 'W'];
       const pass = preferred.includes(room.direction);
       return {
@@ -271,12 +269,130 @@ const vastuRules: VastuRule[] = [
         message: pass
           ? `Storage correctly placed in ${room.direction}`
           : `Storage is in ${room.direction}, ideally in Southwest/South/West`,
-        recommendation: pass ? '' : 'Place storage and heavy items in Southwest, South, or West.',
+        recommendation: pass ? '' : `Place storage and heavy items in Southwest (${onPlot('SW', plot)}), South, or West.`,
       };
     },
   },
 ];
 
+export const vastuRulePack: CulturalRulePack = {
+  id: 'vastu',
+  name: 'Vastu Shastra',
+  rules: vastuRules,
+};
+
+function kitchenRule(preferred: CardinalDirection[], source: string): CulturalRule {
+  return {
+    id: 'VASTU_003',
+    description: `Kitchen should be in ${preferred.join('/')}`,
+    appliesTo: ['kitchen'],
+    severity: 'major',
+    penalty: 0.10,
+    source,
+    check: (room, _allRooms, plot) => {
+      const pass = preferred.includes(room.direction);
+      return {
+        pass,
+        message: pass
+          ? `Kitchen correctly placed in ${room.direction}`
+          : `Kitchen is in ${room.direction}, should be in ${preferred.join('/')}`,
+        recommendation: pass ? '' : `Move kitchen to ${preferred.map(d => `${d} (${onPlot(d, plot)})`).join(' or ')}.`,
+      };
+    },
+  };
+}
+
+function courtyardRule(
+  preferred: CardinalDirection[],
+  severity: CulturalRule['severity'],
+  term: string,
+  source: string
+): CulturalRule {
+  return {
+    id: 'VASTU_015',
+    description: `${term} should be open to the sky in ${preferred.join('/')}`,
+    appliesTo: ['courtyard'],
+    severity,
+    penalty: severity === 'major' ? 0.08 : 0.04,
+    source,
+    check: (room, _allRooms, plot) => {
+      const placed = preferred.includes(room.direction);
+      const open = room.type === 'outdoor';
+      const pass = placed && open;
+      return {
+        pass,
+        message: pass
+          ? `${room.name} is open in ${room.direction}`
+          : !placed
+            ? `${room.name} is in ${room.direction}, should be in ${preferred.join('/')}`
+            : `${room.name} is roofed over; it should be open to the sky`,
+        recommendation: pass ? '' : `Keep ${room.name} as an unroofed outdoor zone in ${preferred.map(d => onPlot(d, plot)).join(' or ')} of the plot.`,
+      };
+    },
+  };
+}
+
+function stairTurnRule(severity: CulturalRule['severity'], source: string): CulturalRule {
+  return {
+    id: 'VASTU_016',
+    description: 'Staircase should turn clockwise going up',
+    appliesTo: ['staircase'],
+    severity,
+    penalty: severity === 'major' ? 0.06 : 0.03,
+    source,
+    check: (room) => {
+      if (!room.stairTurn) {
+        return {
+          pass: true,
+          message: `${room.name} does not specify its turning direction`,
+          recommendation: '',
+        };
+      }
+      const pass = room.stairTurn === 'clockwise';
+      return {
+        pass,
+        message: pass
+          ? `${room.name} turns clockwise going up`
+          : `${room.name} turns anticlockwise going up`,
+        recommendation: pass ? '' : `Reverse the flight of ${room.name} so it turns clockwise on the way up.`,
+      };
+    },
+  };
+}
+
+/**
+ * Replaces base rules by id and appends rules the base pack does not have.
+ */
+function withOverrides(rules: CulturalRule[], overrides: CulturalRule[]): CulturalRule[] {
+  const byId = new Map(overrides.map(r => [r.id, r]));
+  return [
+    ...rules.map(r => byId.get(r.id) ?? r),
+    ...overrides.filter(o => !rules.some(r => r.id === o.id)),
+  ];
+}
+
+export const vastuNorthRulePack: CulturalRulePack = {
+  id: 'vastu_north',
+  name: 'North Indian Vastu',
+  variant: 'North Indian',
+  rules: withOverrides(vastuRules, [
+    kitchenRule(['SE'], 'Vishwakarma Prakash'),
+    courtyardRule(['CENTER', 'N', 'E', 'NE'], 'minor', 'Aangan', 'Vishwakarma Prakash'),
+    stairTurnRule('major', 'Vishwakarma Prakash'),
+  ]),
+};
+
+export const vastuSouthRulePack: CulturalRulePack = {
+  id: 'vastu_south',
+  name: 'South Indian Vastu',
+  variant: 'South Indian',
+  rules: withOverrides(vastuRules, [
+    kitchenRule(['SE', 'E', 'NW'], 'Mayamata'),
+    courtyardRule(['CENTER'], 'major', 'Nadumuttam', 'Manushyalaya Chandrika'),
+    stairTurnRule('minor', 'Mayamata'),
+  ]),
+};
+
 /**
  * Deterministic Vastu validator. Zero LLM calls.
  * vastuStrictness: None=0, Slightly=0.25, Moderately=0.5, Strictly=1.0
@@ -286,63 +402,12 @@ export function validateVastu(
   plotGeometry: PlotGeometry,
   vastuStrictness: number
 ): VastuValidationResult {
-  if (vastuStrictness === 0) {
-    return {
-      violations: [],
-      score: 1.0,
-      complianceItems: [{
-        rule: 'Vastu Compliance',
-        status: 'PASS',
-        message: 'Vastu checking disabled (None selected)',
-      }],
-    };
-  }
-
-  const violations: VastuViolation[] = [];
-  const complianceItems: ComplianceItem[] = [];
-
-  for (const room of rooms) {
-    for (const rule of vastuRules) {
-      if (!rule.appliesTo.includes(room.classification)) continue;
-
-      const result = rule.check(room, rooms, plotGeometry);
-
-      complianceItems.push({
-        rule: `${rule.id}: ${rule.description}`,
-        status: result.pass ? 'PASS' : (rule.severity === 'minor' ? 'WARN' : 'FAIL'),
-        message: result.message,
-        recommendation: result.recommendation || undefined,
-      });
-
-      if (!result.pass) {
-        violations.push({
-          ruleId: rule.id,
-          severity: rule.severity,
-          penalty: rule.penalty,
-          roomId: room.id,
-          roomName: room.name,
-          message: result.message,
-          recommendation: result.recommendation,
-        });
-      }
-    }
-  }
-
-  const totalPenalty = violations.reduce((sum, v) => sum + v.penalty * vastuStrictness, 0);
-  const score = Math.max(0, 1.0 - totalPenalty);
-
-  return { violations, score, complianceItems };
+  return validateCultural(rooms, plotGeometry, vastuStrictness, vastuRulePack);
 }
 
 /**
  * Maps vastuLevel string to numeric strictness.
  */
 export function getVastuStrictness(level?: string): number {
-  switch (level) {
-    case 'None': return 0;
-    case 'Slightly': return 0.25;
-    case 'Moderately': return 0.5;
-    case 'Strictly': return 1.0;
-    default: return 0;
-  }
+  return getCulturalStrictness(CulturalSystem.VASTU_GENERAL, level);
 }
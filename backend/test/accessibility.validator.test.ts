@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlotGeometry } from '../src/types/agent.types.js';
+import type { AccessibilityConfig, Room, WallFeature } from '../src/types/shared.types.js';
+import { enrichRoomsWithDirection } from '../src/utils/direction.utils.js';
+import { validateAccessibility } from '../src/validators/accessibility.validator.js';
+
+const PLOT: PlotGeometry = { width: 20, depth: 20 };
+const LEVEL: AccessibilityConfig = { plinthHeight: 0 };
+
+const door = (wall: WallFeature['wall'], width = 0.9, position = 0.5): WallFeature => ({ type: 'door', wall, position, width });
+
+/**
+ * Ramp up to a foyer, then a hallway leading to a bedroom and a bathroom.
+ * The hallway lists the doors it shares with the rooms, as plans do.
+ */
+function plan(changes: Record<string, Partial<Room>> = {}): Room[] {
+  const rooms: Room[] = [
+    { id: 'ramp', name: 'Ramp', type: 'outdoor', x: 0, y: 0, width: 6, height: 2, features: [] },
+    { id: 'foyer', name: 'Foyer', type: 'room', x: 0, y: 2, width: 6, height: 3, features: [door('top', 1.2)] },
+    { id: 'hall', name: 'Hallway', type: 'circulation', x: 0, y: 5, width: 6, height: 1.2, features: [door('top'), door('bottom'), door('right')] },
+    { id: 'bedroom', name: 'Bedroom', type: 'room', x: 0, y: 6.2, width: 6, height: 3, features: [door('top')] },
+    { id: 'bath', name: 'Bathroom', type: 'room', x: 6, y: 5, width: 2.2, height: 3, features: [door('left', 0.9, 0.2)] },
+  ];
+  return rooms.map(r => ({ ...r, ...changes[r.name] }));
+}
+
+function validate(rooms: Room[], accessibility: AccessibilityConfig = LEVEL) {
+  return validateAccessibility(enrichRoomsWithDirection(rooms, PLOT), accessibility);
+}
+
+const categories = (rooms: Room[], accessibility?: AccessibilityConfig) =>
+  validate(rooms, accessibility).violations.map(v => [v.category, v.roomName]);
+
+describe('accessibility validator', () => {
+  it('passes a level plan with wide doors and room to turn', () => {
+    const result = validate(plan());
+    assert.deepEqual(result.violations, []);
+    assert.equal(result.score, 1);
+    // The hallway's copies of the bedroom and bathroom doors count once
+    assert.equal(result.complianceItems.find(i => i.rule === 'Door Clear Width')?.message, 'All 4 doors at least 0.9m');
+  });
+
+  it('leaves a turning circle clear of the fixtures', () => {
+    // 1.5m circle beside a 1.5m bed; 5cm of tolerance
+    assert.deepEqual(categories(plan({ Bedroom: { height: 2.96 } })), []);
+    const result = validate(plan({ Bedroom: { height: 2.8 } }));
+    assert.deepEqual(result.violations.map(v => [v.category, v.message]), [
+      ['turning_circle', 'Bedroom is 2.8m wide; a 1.5m turning circle beside 1.5m of fixtures needs 3.0m'],
+    ]);
+    // A master bedroom's bed is deeper; a bathroom needs 0.7m for the WC and basin
+    assert.deepEqual(categories(plan({ Bedroom: { name: 'Master Bedroom' } })), [['turning_circle', 'Master Bedroom']]);
+    assert.deepEqual(categories(plan({ Bathroom: { width: 2 } })), [['turning_circle', 'Bathroom']]);
+  });
+
+  it('needs every door clear to 0.9m, named after the room it serves', () => {
+    const narrow = plan({
+      Hallway: { features: [door('top'), door('bottom', 0.8), door('right')] },
+      Bedroom: { features: [door('top', 0.8)] },
+    });
+    const result = validate(narrow);
+    assert.deepEqual(result.violations.map(v => [v.category, v.message]), [
+      ['door_width', 'Bedroom has a 0.8m door (min 0.9m clear)'],
+    ]);
+    assert.equal(result.complianceItems.find(i => i.rule === 'Door Clear Width')?.message, 'Below 0.9m: Bedroom (0.8m)');
+    assert.deepEqual(categories(plan({ Foyer: { features: [door('top', 0.75)] } })), [['door_width', 'Foyer']]);
+  });
+
+  it('needs a ramp to the main door of a raised plinth, at 1:12 or gentler', () => {
+    // The ramp runs 6m along the front of the foyer
+    assert.deepEqual(categories(plan(), { plinthHeight: 0.45 }), []);
+    assert.deepEqual(categories(plan(), { plinthHeight: 0.5 }), []);
+    const steep = validate(plan(), { plinthHeight: 0.6 });
+    assert.deepEqual(steep.violations.map(v => [v.category, v.message]), [
+      ['ramp_gradient', 'Ramp rises 0.6m over 6.0m (1:10.0), steeper than 1:12'],
+    ]);
+
+    const noRamp = plan().filter(r => r.name !== 'Ramp');
+    assert.deepEqual(categories(noRamp, { plinthHeight: 0.3 }), [['step_free_entrance', 'Foyer']]);
+    // The default plinth is 0.45m
+    assert.match(validate(noRamp, {}).violations[0].message, /^Foyer is 0.45m above the site/);
+    assert.deepEqual(categories(noRamp), []);
+    // A ramp against another wall does not reach the main door
+    const aside: Room = { id: 'ramp', name: 'Ramp', type: 'outdoor', x: 6, y: 2, width: 2, height: 3, features: [] };
+    assert.deepEqual(categories([...noRamp, aside], { plinthHeight: 0.1 }), [['step_free_entrance', 'Foyer']]);
+  });
+
+  it('keeps a bedroom and a bathroom on the ground floor of a multi-storey home', () => {
+    const upstairs = plan({ Bedroom: { floor: 1 } });
+    assert.deepEqual(validate(upstairs).violations.map(v => [v.category, v.message]), [
+      ['ground_floor_suite', 'No bedroom on the ground floor'],
+    ]);
+    const both = plan({ Bedroom: { floor: 1 }, Bathroom: { floor: 1 } });
+    assert.equal(validate(both).violations[0].message, 'No bedroom or bathroom on the ground floor');
+    assert.equal(validate(plan()).complianceItems.some(i => i.rule.startsWith('Ground-Floor')), false);
+  });
+});
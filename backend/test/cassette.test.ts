@@ -0,0 +1,44 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LLMRequest, ModelRouterConfig } from '../src/types/agent.types.js';
+import { LLM_PROVIDERS, setProvider } from '../src/models/llm.provider.js';
+import { ReplayProvider, promptHash } from '../src/models/replay.provider.js';
+import { loadCassette, recordCassette, replayCassette, summarizeOutcome } from './harness/cassette.js';
+
+const modelConfig: ModelRouterConfig = { provider: 'replay', model: 'recorded', temperature: 0, maxOutputTokens: 1024 };
+const request = (prompt: string, extra: Partial<LLMRequest> = {}): LLMRequest => ({ prompt, modelConfig, ...extra });
+
+describe('cassette harness', () => {
+  after(() => {
+    for (const kind of LLM_PROVIDERS) setProvider(kind, null);
+  });
+
+  it('records what the model said, before the agents normalize it', async () => {
+    const original = await loadCassette('strict-vastu');
+    // Stands in for the live model: a fresh response object on every call
+    for (const kind of LLM_PROVIDERS) setProvider(kind, new ReplayProvider(original.fixtures));
+
+    const recorded = await recordCassette('strict-vastu-copy', 'Re-recorded', original.config);
+    assert.deepEqual(recorded.fixtures, original.fixtures);
+    assert.deepEqual(recorded.expected, original.expected);
+    assert.deepEqual(summarizeOutcome(await replayCassette(recorded)), original.expected);
+  });
+
+  it('serves copies by prompt and image, and nothing else', async () => {
+    const image = { inlineData: { mimeType: 'image/png', data: 'AAAA' } };
+    const provider = new ReplayProvider({
+      [promptHash({ prompt: 'plan' })]: { model: 'recorded', prompt: 'plan', response: { rooms: [] } },
+      [promptHash({ prompt: 'plan', imageParts: [image] })]: { model: 'vision', prompt: 'plan', response: { rooms: ['hall'] } },
+    });
+
+    const first = await provider.generate(request('plan'));
+    (first.data as { rooms: string[] }).rooms.push('kitchen');
+    assert.deepEqual((await provider.generate(request('plan'))).data, { rooms: [] });
+    assert.equal((await provider.generate(request('plan', { imageParts: [image] }))).model, 'vision');
+
+    await assert.rejects(provider.generate(request('unplanned')), new RegExp(promptHash({ prompt: 'unplanned' })));
+    const controller = new AbortController();
+    controller.abort(new Error('Generation cancelled'));
+    await assert.rejects(provider.generate(request('plan', { signal: controller.signal })), /Generation cancelled/);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Room } from '../src/types/shared.types.js';
+import { DEFAULT_MAX_SPAN, generateColumnGrid } from '../src/structure/column.grid.js';
+
+const room = (name: string, x: number, y: number, width: number, height: number, changes: Partial<Room> = {}): Room =>
+  ({ id: name.toLowerCase().replace(/\s+/g, '-'), name, type: 'room', x, y, width, height, features: [], ...changes });
+
+const positions = (rooms: Room[], maxSpan?: number) =>
+  generateColumnGrid(rooms, maxSpan).columns.map(c => [c.id, c.x, c.y]);
+const spans = (rooms: Room[], maxSpan?: number) =>
+  generateColumnGrid(rooms, maxSpan).beams.map(b => [b.from, b.to, b.span]);
+
+describe('column grid', () => {
+  it('puts a column at each corner and a beam along each wall', () => {
+    const grid = generateColumnGrid([room('Bedroom', 0, 0, 4, 4)]);
+    // Front row first
+    assert.deepEqual(grid.columns.map(c => [c.id, c.x, c.y]), [['C1', 0, 0], ['C2', 4, 0], ['C3', 0, 4], ['C4', 4, 4]]);
+    assert.deepEqual(grid.beams.map(b => [b.from, b.to, b.span]), [['C1', 'C2', 4], ['C2', 'C4', 4], ['C4', 'C3', 4], ['C3', 'C1', 4]]);
+    assert.deepEqual([grid.maxSpan, grid.longestSpan], [DEFAULT_MAX_SPAN, 4]);
+    // 4m / 12, rounded up to 50mm
+    assert.equal(grid.beams[0].depth, 0.35);
+  });
+
+  it('splits wall runs longer than the span limit into equal bays', () => {
+    // 10m in three 3.33m bays
+    const hall = [room('Living Room', 0, 0, 10, 4)];
+    assert.deepEqual(positions(hall), [
+      ['C1', 0, 0], ['C2', 3.33, 0], ['C3', 6.67, 0], ['C4', 10, 0],
+      ['C5', 0, 4], ['C6', 3.33, 4], ['C7', 6.67, 4], ['C8', 10, 4],
+    ]);
+    const grid = generateColumnGrid(hall);
+    assert.equal(grid.longestSpan, 4);
+    assert.ok(grid.beams.every(b => b.span <= DEFAULT_MAX_SPAN));
+
+    // Exactly the limit needs no extra column; a wider limit takes fewer bays
+    assert.equal(positions([room('Hall', 0, 0, 4.5, 4)]).length, 4);
+    const wide = generateColumnGrid(hall, 6);
+    assert.equal(wide.columns.length, 6);
+    assert.deepEqual([wide.maxSpan, wide.longestSpan], [6, 5]);
+    assert.equal(wide.beams.find(b => b.span === 5)?.depth, 0.45);
+  });
+
+  it('shares columns and beams between rooms that meet', () => {
+    const pair = [room('Living Room', 0, 0, 4, 4), room('Kitchen', 4, 0, 4, 4)];
+    assert.equal(positions(pair).length, 6);
+    // The shared wall carries one beam, not two
+    assert.deepEqual(spans(pair).filter(([from, to]) => [from, to].sort().join() === 'C2,C5'), [['C2', 'C5', 4]]);
+    assert.equal(spans(pair).length, 7);
+
+    // Corners within 30cm of each other merge into one column
+    const offset = [room('Living Room', 0, 0, 4, 4), room('Kitchen', 4.2, 0, 4, 4)];
+    assert.equal(positions(offset).length, 6);
+  });
+
+  it('frames only built rooms', () => {
+    const plan = [
+      room('Bedroom', 0, 0, 4, 4),
+      room('Balcony', 4, 0, 2, 4, { type: 'outdoor' }),
+      room('Front Setback', 0, -3, 10, 3, { type: 'setback' }),
+      room('Store', 0, 4, 0, 3, { type: 'service' }),
+    ];
+    assert.deepEqual(positions(plan), positions([plan[0]]));
+    assert.deepEqual(generateColumnGrid([]), { columns: [], beams: [], maxSpan: DEFAULT_MAX_SPAN, longestSpan: 0 });
+  });
+
+  it('follows the outline of a polygon room', () => {
+    // An L: 8 x 4 along the front, 4 x 4 behind on the left. The two 8m
+    // walls take a column halfway; the inside corner at (4, 4) needs no more
+    const polygon = [{ x: 0, y: 0 }, { x: 8, y: 0 }, { x: 8, y: 4 }, { x: 4, y: 4 }, { x: 4, y: 8 }, { x: 0, y: 8 }];
+    assert.deepEqual(positions([room('Living Room', 0, 0, 8, 8, { polygon })]), [
+      ['C1', 0, 0], ['C2', 4, 0], ['C3', 8, 0], ['C4', 0, 4], ['C5', 4, 4], ['C6', 8, 4], ['C7', 0, 8], ['C8', 4, 8],
+    ]);
+    assert.equal(generateColumnGrid([room('Living Room', 0, 0, 8, 8, { polygon })]).longestSpan, 4);
+  });
+
+  it('runs columns up through the floors and sizes them for the storeys', () => {
+    const stacked = (floors: number) => Array.from({ length: floors }, (_, floor) => room(`Bedroom ${floor}`, 0, 0, 4, 4, { floor }));
+
+    const two = generateColumnGrid(stacked(2));
+    assert.deepEqual(two.columns.map(c => [c.fromFloor, c.toFloor, c.width, c.depth]), Array(4).fill([0, 1, 0.23, 0.3]));
+    // One ring of beams under each slab
+    assert.deepEqual(two.beams.map(b => b.floor), [0, 0, 0, 0, 1, 1, 1, 1]);
+
+    const three = generateColumnGrid(stacked(3));
+    assert.deepEqual([three.columns[0].toFloor, three.columns[0].width, three.columns[0].depth], [2, 0.3, 0.45]);
+
+    // A column under an upper room only starts where that room does
+    const setBack = [...stacked(1), room('Study', 4, 0, 4, 4, { floor: 1 })];
+    const columns = generateColumnGrid(setBack).columns;
+    assert.deepEqual(columns.map(c => [c.x, c.y, c.fromFloor, c.toFloor]), [
+      [0, 0, 0, 0], [4, 0, 0, 1], [8, 0, 1, 1], [0, 4, 0, 0], [4, 4, 0, 1], [8, 4, 1, 1],
+    ]);
+  });
+
+  it('numbers the same plan the same way whatever the room order', () => {
+    const plan = [room('Living Room', 0, 0, 10, 4), room('Kitchen', 0, 4, 4, 3), room('Bedroom', 4, 4, 6, 3)];
+    assert.deepEqual(generateColumnGrid([...plan].reverse()).columns, generateColumnGrid(plan).columns);
+  });
+});
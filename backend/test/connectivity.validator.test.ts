@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AdjacencyPreference, PlotGeometry } from '../src/types/agent.types.js';
+import type { Room, WallFeature } from '../src/types/shared.types.js';
+import { buildAdjacencyGraph } from '../src/utils/adjacency.utils.js';
+import { enrichRoomsWithDirection } from '../src/utils/direction.utils.js';
+import { validateConnectivity } from '../src/validators/connectivity.validator.js';
+
+const PLOT: PlotGeometry = { width: 20, depth: 10 };
+
+type RowRoom = [name: string, options?: { type?: Room['type']; door?: boolean }];
+
+/** 4 m wide rooms side by side, each with a door into the one before unless `door` is false */
+function row(...specs: RowRoom[]): Room[] {
+  return specs.map(([name, { type = 'room', door = true } = {}]: RowRoom, i) => {
+    const features: WallFeature[] = door && i > 0 ? [{ type: 'door', wall: 'left', position: 0.5, width: 0.9 }] : [];
+    return { id: name.toLowerCase().replace(/\s+/g, '-'), name, type, x: i * 4, y: 0, width: 4, height: 5, features };
+  });
+}
+
+const edges = (rooms: Room[]) =>
+  buildAdjacencyGraph(rooms).map(e => [e.room1Id, e.room2Id, e.sharedWallLength, e.connected]);
+
+function validate(rooms: Room[], preferences: AdjacencyPreference[] = []) {
+  const enriched = enrichRoomsWithDirection(rooms, PLOT);
+  return validateConnectivity(enriched, buildAdjacencyGraph(enriched), preferences);
+}
+
+describe('adjacency graph', () => {
+  it('connects rooms through a door on either side of their shared wall', () => {
+    const [foyer, living] = row(['Foyer'], ['Living Room']);
+    assert.deepEqual(edges([foyer, living]), [['foyer', 'living-room', 5, true]]);
+    // Only the foyer has the door
+    const fromFoyer: Room = { ...foyer, features: [{ type: 'door', wall: 'right', position: 0.5, width: 0.9 }] };
+    assert.deepEqual(edges([fromFoyer, { ...living, features: [] }]), [['foyer', 'living-room', 5, true]]);
+  });
+
+  it('keeps a shared wall with no opening as an unconnected edge', () => {
+    assert.deepEqual(edges(row(['Foyer'], ['Living Room', { door: false }])), [['foyer', 'living-room', 5, false]]);
+    // A window does not let anyone through
+    const [foyer, living] = row(['Foyer'], ['Living Room', { door: false }]);
+    const glazed: Room = { ...living, features: [{ type: 'window', wall: 'left', position: 0.5, width: 1 }] };
+    assert.deepEqual(edges([foyer, glazed]), [['foyer', 'living-room', 5, false]]);
+    // A door on a wall the rooms do not share
+    const [a, , c] = row(['Foyer'], ['Living Room'], ['Kitchen']);
+    assert.deepEqual(edges([a, c]), []);
+  });
+
+  it('opens circulation spaces into each other and links stacked staircases', () => {
+    assert.deepEqual(
+      edges(row(['Corridor', { type: 'circulation' }], ['Lobby', { type: 'circulation', door: false }])),
+      [['corridor', 'lobby', 5, true]]
+    );
+    const stairs = (floor: number): Room => ({ id: `stairs-${floor}`, name: 'Staircase', type: 'circulation', x: 0, y: 0, width: 3, height: 4, floor, features: [] });
+    assert.deepEqual(edges([stairs(0), stairs(1), stairs(2)]), [
+      ['stairs-0', 'stairs-1', 0, true],
+      ['stairs-1', 'stairs-2', 0, true],
+    ]);
+  });
+
+  it('leaves out setbacks and rooms on other floors', () => {
+    const [foyer, living] = row(['Foyer'], ['Living Room']);
+    assert.deepEqual(edges([foyer, { ...living, type: 'setback' }]), []);
+    assert.deepEqual(edges([foyer, { ...living, floor: 1 }]), []);
+  });
+});
+
+describe('connectivity validator', () => {
+  it('passes a plan whose rooms all open off the entrance', () => {
+    const result = validate(row(['Foyer'], ['Living Room'], ['Kitchen'], ['Bedroom']));
+    assert.deepEqual(result.violations, []);
+    assert.equal(result.entranceId, 'foyer');
+    assert.equal(result.score, 1);
+    assert.deepEqual(result.complianceItems.map(i => [i.rule, i.status]), [['Room Access', 'PASS']]);
+  });
+
+  it('flags a room behind a wall with no door', () => {
+    const result = validate(row(['Foyer'], ['Living Room'], ['Kitchen'], ['Bedroom', { door: false }]));
+    assert.deepEqual(result.violations.map(v => [v.category, v.severity, v.roomName]), [['unreachable', 'major', 'Bedroom']]);
+    assert.equal(result.violations[0].message, 'Bedroom cannot be reached through doors from Foyer');
+    assert.equal(result.complianceItems[0].message, 'Unreachable from Foyer: Bedroom');
+    assert.equal(result.score, 0.9);
+  });
+
+  it('flags a plan with no way in', () => {
+    const upstairs = row(['Bedroom'], ['Study']).map(r => ({ ...r, floor: 1 }));
+    assert.deepEqual(validate(upstairs).violations.map(v => [v.category, v.severity]), [['no_entrance', 'critical']]);
+  });
+
+  it('checks the adjacency preferences of the brief', () => {
+    const plan = row(['Foyer'], ['Living Room'], ['Kitchen'], ['Bedroom']);
+    const status = (preference: AdjacencyPreference) =>
+      validate(plan, [preference]).complianceItems.find(i => i.rule.startsWith('Adjacency'))!.status;
+
+    assert.equal(status({ room1: 'Kitchen', room2: 'Living Room', relationship: 'adjacent' }), 'PASS');
+    assert.equal(status({ room1: 'Bedroom', room2: 'Foyer', relationship: 'adjacent' }), 'FAIL');
+    assert.equal(status({ room1: 'Bedroom', room2: 'Foyer', relationship: 'separated' }), 'PASS');
+    assert.equal(status({ room1: 'Bedroom', room2: 'Kitchen', relationship: 'separated' }), 'FAIL');
+    // Two doors from the foyer to the kitchen, three to the bedroom
+    assert.equal(status({ room1: 'Foyer', room2: 'Kitchen', relationship: 'nearby' }), 'PASS');
+    assert.equal(status({ room1: 'Foyer', room2: 'Bedroom', relationship: 'nearby' }), 'FAIL');
+    assert.equal(status({ room1: 'Kitchen', room2: 'Dining Room', relationship: 'adjacent' }), 'WARN');
+
+    const result = validate(plan, [
+      { room1: 'Bedroom', room2: 'Kitchen', relationship: 'separated' },
+      { room1: 'Foyer', room2: 'Bedroom', relationship: 'nearby' },
+    ]);
+    assert.deepEqual(result.violations.map(v => [v.severity, v.message]), [
+      ['major', 'Bedroom shares a wall with Kitchen'],
+      ['minor', 'Foyer is more than 2 doors from Bedroom'],
+    ]);
+    assert.equal(result.score, 0.87);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CulturalRulePack, PlotGeometry } from '../src/types/agent.types.js';
+import type { Room, WallFeature } from '../src/types/shared.types.js';
+import { CulturalSystem } from '../src/types/shared.types.js';
+import { enrichRoomsWithDirection } from '../src/utils/direction.utils.js';
+import { validateCultural } from '../src/validators/cultural.validator.js';
+import { getCulturalRulePack } from '../src/validators/rule-packs.js';
+import { christianRulePack } from '../src/validators/christian.validator.js';
+import { DEFAULT_QIBLA_BEARING } from '../src/validators/islamic.validator.js';
+import { vastuNorthRulePack, vastuRulePack, vastuSouthRulePack } from '../src/validators/vastu.validator.js';
+
+const NORTH_FACING: PlotGeometry = { width: 12, depth: 12 };
+const EAST_FACING: PlotGeometry = { width: 12, depth: 12, orientation: 90 };
+
+type Opening = [WallFeature['wall'], WallFeature['type']?];
+
+function room(name: string, x: number, y: number, openings: Opening[] = [], size = 4): Room {
+  return {
+    id: name.toLowerCase().replace(/\s+/g, '-'),
+    name, type: 'room', x, y, width: size, height: size,
+    features: openings.map(([wall, type = 'door']) => ({ type, wall, position: 0.5, width: 0.9 })),
+  };
+}
+
+/** Rule id and room of every violation */
+function violations(pack: CulturalRulePack | null, rooms: Room[], plot = NORTH_FACING): string[] {
+  return validateCultural(enrichRoomsWithDirection(rooms, plot), plot, 1, pack)
+    .violations.map(v => `${v.ruleId} ${v.roomName}`);
+}
+
+const islamic = (qiblaBearing?: number) =>
+  getCulturalRulePack({ culturalSystem: CulturalSystem.ISLAMIC, qiblaBearing });
+
+describe('Islamic rule pack', () => {
+  // The default Qibla (285°) lies on the left (west) wall of a north-facing plot
+  const majlis = room('Majlis', 8, 0, [['top']]);
+
+  it('keeps the door of the prayer space off the Qibla wall', () => {
+    assert.deepEqual(violations(islamic(), [majlis, room('Prayer Room', 4, 4, [['left']])]), ['ISLAMIC_001 Prayer Room']);
+    assert.deepEqual(violations(islamic(), [majlis, room('Prayer Room', 4, 4, [['bottom']])]), []);
+  });
+
+  it('finds the Qibla wall on a rotated plot', () => {
+    // Facing east, the plot's rear edge looks west, so the Qibla is behind the bottom wall
+    assert.deepEqual(violations(islamic(), [majlis, room('Prayer Room', 4, 4, [['bottom']])], EAST_FACING), ['ISLAMIC_001 Prayer Room']);
+    assert.deepEqual(violations(islamic(), [majlis, room('Prayer Room', 4, 4, [['left']])], EAST_FACING), []);
+    // A Qibla due north is behind the front wall of a north-facing plot
+    assert.deepEqual(violations(islamic(0), [majlis, room('Prayer Room', 4, 4, [['top']])]), ['ISLAMIC_001 Prayer Room']);
+  });
+
+  it('keeps toilets from backing onto the Qibla wall', () => {
+    const prayer = room('Prayer Room', 4, 4, [['bottom']]);
+    assert.deepEqual(violations(islamic(), [majlis, prayer, room('Toilet', 0, 4, [['top']])]), ['ISLAMIC_002 Prayer Room']);
+    // Beyond the opposite wall is fine
+    assert.deepEqual(violations(islamic(), [majlis, prayer, room('Toilet', 8, 4, [['top']])]), []);
+    // On the east-facing plot the Qibla wall is the bottom one
+    assert.deepEqual(
+      violations(islamic(), [majlis, room('Prayer Room', 4, 4, [['left']]), room('Toilet', 4, 8, [['right']])], EAST_FACING),
+      ['ISLAMIC_002 Prayer Room']
+    );
+  });
+
+  it('keeps the WC across the Qibla axis', () => {
+    // A door on the Qibla wall or the one opposite aligns the WC with the Qibla
+    assert.deepEqual(violations(islamic(), [majlis, room('Toilet', 0, 4, [['left']])]), ['ISLAMIC_003 Toilet']);
+    assert.deepEqual(violations(islamic(), [majlis, room('Bathroom', 0, 4, [['right']])]), ['ISLAMIC_003 Bathroom']);
+    assert.deepEqual(violations(islamic(), [majlis, room('Toilet', 0, 4, [['top']])]), []);
+    assert.deepEqual(violations(islamic(), [majlis, room('Toilet', 0, 4, [['top']])], EAST_FACING), ['ISLAMIC_003 Toilet']);
+  });
+
+  it('lets guests reach the majlis without crossing family areas', () => {
+    // The majlis at the front edge has its own door, and the foyer leads into another
+    const foyer = room('Foyer', 0, 0, [['top'], ['right']]);
+    const inner = room('Majlis', 4, 0, [['left']]);
+    assert.deepEqual(violations(islamic(), [foyer, inner]), []);
+    assert.deepEqual(violations(islamic(), [majlis]), []);
+
+    const living = room('Living Room', 4, 4, [['top']]);
+    assert.deepEqual(violations(islamic(), [room('Majlis', 4, 0), living]), ['ISLAMIC_004 Majlis']);
+    // Shut in, with no door onto the entrance or outside
+    assert.deepEqual(violations(islamic(), [room('Majlis', 4, 4)]), ['ISLAMIC_004 Majlis']);
+  });
+
+  it('asks for a majlis apart from the family living room', () => {
+    const result = validateCultural(enrichRoomsWithDirection([room('Living Room', 4, 4)], NORTH_FACING), NORTH_FACING, 1, islamic());
+    assert.deepEqual(result.violations.map(v => [v.ruleId, v.severity]), [['ISLAMIC_005', 'minor']]);
+    assert.equal(result.score, 0.96);
+    assert.deepEqual(violations(islamic(), [room('Living Room', 4, 4), majlis]), []);
+  });
+});
+
+describe('Christian rule pack', () => {
+  it('keeps the east wall of the prayer room free for the altar', () => {
+    assert.deepEqual(violations(christianRulePack, [room('Prayer Room', 4, 4, [['right']])]), ['CHRISTIAN_001 Prayer Room']);
+    assert.deepEqual(violations(christianRulePack, [room('Prayer Room', 4, 4, [['right', 'window'], ['left']])]), []);
+    // On an east-facing plot east is the front
+    assert.deepEqual(violations(christianRulePack, [room('Prayer Room', 4, 4, [['top']])], EAST_FACING), ['CHRISTIAN_001 Prayer Room']);
+    assert.deepEqual(violations(christianRulePack, [room('Prayer Room', 4, 4, [['right']])], EAST_FACING), []);
+  });
+
+  it('keeps toilets away from the prayer room', () => {
+    const prayer = room('Prayer Room', 4, 4, [['left']]);
+    assert.deepEqual(violations(christianRulePack, [prayer, room('Bathroom', 4, 8)]), ['CHRISTIAN_002 Prayer Room']);
+    assert.deepEqual(violations(christianRulePack, [prayer, room('Bathroom', 8, 8)]), []);
+    // Only on the same floor
+    assert.deepEqual(violations(christianRulePack, [prayer, { ...room('Bathroom', 4, 8), floor: 1 }]), []);
+  });
+
+  it('opens the entrance onto shared rooms, facing a blank wall', () => {
+    const foyer = room('Foyer', 4, 0, [['top'], ['right']]);
+    assert.deepEqual(violations(christianRulePack, [foyer, room('Living Room', 8, 0)]), []);
+    assert.deepEqual(violations(christianRulePack, [foyer, room('Bedroom', 8, 0)]), ['CHRISTIAN_003 Foyer']);
+    // The wall opposite the entry door has a window in it
+    assert.deepEqual(
+      violations(christianRulePack, [room('Entrance', 4, 0, [['top'], ['bottom', 'window']])]),
+      ['CHRISTIAN_004 Entrance']
+    );
+  });
+});
+
+describe('rule pack selection', () => {
+  it('picks the pack for the cultural system', () => {
+    assert.equal(getCulturalRulePack({ culturalSystem: CulturalSystem.NONE }), null);
+    assert.equal(getCulturalRulePack({ culturalSystem: CulturalSystem.VASTU_GENERAL }), vastuRulePack);
+    assert.equal(getCulturalRulePack({ culturalSystem: CulturalSystem.VASTU_NORTH }), vastuNorthRulePack);
+    assert.equal(getCulturalRulePack({ culturalSystem: CulturalSystem.VASTU_SOUTH }), vastuSouthRulePack);
+    assert.equal(getCulturalRulePack({ culturalSystem: CulturalSystem.CHRISTIAN }), christianRulePack);
+    assert.equal(islamic()?.id, 'islamic');
+    // Configs saved before the belief systems were added
+    assert.equal(getCulturalRulePack({} as Parameters<typeof getCulturalRulePack>[0]), vastuRulePack);
+  });
+
+  it('builds the Islamic pack for the project Qibla', () => {
+    const prayer = room('Prayer Room', 4, 4, [['left']]);
+    const message = (bearing?: number) =>
+      validateCultural(enrichRoomsWithDirection([prayer], NORTH_FACING), NORTH_FACING, 1, islamic(bearing))
+        .complianceItems.find(item => item.rule.startsWith('ISLAMIC_001'))!.message;
+    assert.match(message(), new RegExp(`Qibla wall \\(${DEFAULT_QIBLA_BEARING}°\\)`));
+    assert.match(message(0), /keeps its top wall clear for the Qibla \(0°\)/);
+  });
+});
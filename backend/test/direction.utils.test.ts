@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CardinalDirection } from '../src/types/agent.types.js';
+import {
+  computeDirection,
+  getPreferredDirections,
+  parseFacingDirection,
+  plotToWorldDirection,
+  worldToPlotDirection,
+} from '../src/utils/direction.utils.js';
+
+// Centre of each cell of the 3x3 grid on a 30x30 plot, named in the plot frame
+const PLOT_CELLS: Record<CardinalDirection, [number, number]> = {
+  NW: [5, 5], N: [15, 5], NE: [25, 5],
+  W: [5, 15], CENTER: [15, 15], E: [25, 15],
+  SW: [5, 25], S: [15, 25], SE: [25, 25],
+};
+
+const FACINGS: {
+  facing: string;
+  bearing: number;
+  /** True direction of the plot's front-left corner */
+  frontLeft: CardinalDirection;
+  /** Vastu kitchen zones (SE, NW) in the plot frame */
+  kitchen: CardinalDirection[];
+}[] = [
+  { facing: 'North', bearing: 0, frontLeft: 'NW', kitchen: ['SE', 'NW'] },
+  { facing: 'North-East', bearing: 45, frontLeft: 'N', kitchen: ['E', 'W'] },
+  { facing: 'East', bearing: 90, frontLeft: 'NE', kitchen: ['NE', 'SW'] },
+  { facing: 'SE', bearing: 135, frontLeft: 'E', kitchen: ['N', 'S'] },
+  { facing: 'south', bearing: 180, frontLeft: 'SE', kitchen: ['NW', 'SE'] },
+  { facing: 'South West', bearing: 225, frontLeft: 'S', kitchen: ['W', 'E'] },
+  { facing: 'W', bearing: 270, frontLeft: 'SW', kitchen: ['SW', 'NE'] },
+  { facing: 'north_west', bearing: 315, frontLeft: 'W', kitchen: ['S', 'N'] },
+  { facing: '30°', bearing: 30, frontLeft: 'N', kitchen: ['E', 'W'] },
+];
+
+describe('plot facing', () => {
+  for (const { facing, bearing, frontLeft, kitchen } of FACINGS) {
+    it(`orients a plot facing ${facing}`, () => {
+      assert.equal(parseFacingDirection(facing), bearing);
+      assert.equal(plotToWorldDirection('NW', bearing), frontLeft);
+      assert.equal(worldToPlotDirection(frontLeft, bearing), 'NW');
+
+      assert.equal(computeDirection(...PLOT_CELLS.NW, 30, 30, bearing), frontLeft);
+      assert.equal(computeDirection(...PLOT_CELLS.CENTER, 30, 30, bearing), 'CENTER');
+
+      assert.deepEqual(getPreferredDirections('kitchen', bearing), kitchen);
+      // A master bedroom drawn in its preferred plot cell lands in the true South-West
+      const [zone] = getPreferredDirections('master_bedroom', bearing);
+      assert.equal(computeDirection(...PLOT_CELLS[zone], 30, 30, bearing), 'SW');
+    });
+  }
+
+  it('defaults to North for a missing or unknown facing', () => {
+    assert.equal(parseFacingDirection(undefined), 0);
+    assert.equal(parseFacingDirection('uphill'), 0);
+    assert.equal(parseFacingDirection('-90'), 270);
+  });
+});
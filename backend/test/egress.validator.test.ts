@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MunicipalConfig, PlotGeometry } from '../src/types/agent.types.js';
+import type { Room, WallFeature } from '../src/types/shared.types.js';
+import { BuildingType } from '../src/types/shared.types.js';
+import { buildAdjacencyGraph } from '../src/utils/adjacency.utils.js';
+import { enrichRoomsWithDirection } from '../src/utils/direction.utils.js';
+import { resolveFireSafety, validateEgress } from '../src/validators/egress.validator.js';
+
+const PLOT: PlotGeometry = { width: 30, depth: 30 };
+const AUTHORITY = {} as MunicipalConfig;
+const RESIDENTIAL = resolveFireSafety(AUTHORITY, BuildingType.RESIDENTIAL);
+
+const door = (wall: WallFeature['wall'], width = 0.9): WallFeature => ({ type: 'door', wall, position: 0.5, width });
+const MAIN_DOOR = door('top', 1.2);
+
+/** A foyer with the main door on the front edge, then 4 x 5 m rooms in a row, each entered from the one before */
+function row(...names: string[]): Room[] {
+  return ['Foyer', ...names].map((name, i) => ({
+    id: name.toLowerCase().replace(/\s+/g, '-'),
+    name, type: 'room', x: i * 4, y: 0, width: 4, height: 5,
+    features: i === 0 ? [MAIN_DOOR] : [door('left')],
+  }));
+}
+
+function validate(rooms: Room[], buildingHeight = 3) {
+  const enriched = enrichRoomsWithDirection(rooms, PLOT);
+  return validateEgress(enriched, buildAdjacencyGraph(enriched), RESIDENTIAL, buildingHeight);
+}
+
+const categories = (rooms: Room[], buildingHeight?: number) =>
+  validate(rooms, buildingHeight).violations.map(v => [v.category, v.severity, v.roomName]);
+const item = (rooms: Room[], rule: string) => validate(rooms).complianceItems.find(i => i.rule === rule)!;
+
+describe('egress validator', () => {
+  it('takes the NBC limits for the occupancy, with the authority overrides on top', () => {
+    assert.equal(RESIDENTIAL.maxTravelDistance, 22.5);
+    assert.equal(resolveFireSafety(AUTHORITY, BuildingType.COMMERCIAL).maxTravelDistance, 30);
+    // Mixed use takes the stricter figure of each group
+    const mixed = resolveFireSafety(AUTHORITY, BuildingType.MIXED_USE);
+    assert.deepEqual([mixed.maxTravelDistance, mixed.minStairWidth], [22.5, 1.5]);
+    const local = resolveFireSafety({ fireSafety: { maxTravelDistance: 18 } } as MunicipalConfig);
+    assert.deepEqual([local.maxTravelDistance, local.maxDeadEndLength], [18, 6]);
+  });
+
+  it('measures travel from the farthest corner of each room to the main door', () => {
+    // Entering the bedroom 11.2m from the main door, its far corner is another 4.7m on
+    const near = validate(row('Living Room', 'Dining Room', 'Kitchen', 'Bedroom'));
+    assert.deepEqual(near.violations, []);
+    assert.equal(near.maxTravelDistance, 19.9);
+    assert.equal(near.complianceItems.find(i => i.rule === 'Travel Distance')?.status, 'PASS');
+
+    const far = validate(row('Living Room', 'Dining Room', 'Kitchen', 'Bedroom', 'Study'));
+    assert.deepEqual(far.violations.map(v => [v.category, v.severity, v.message]), [
+      ['travel_distance', 'major', 'Study is 23.9m from the nearest exit (max 22.5m)'],
+    ]);
+    assert.equal(far.complianceItems.find(i => i.rule === 'Travel Distance')?.status, 'FAIL');
+  });
+
+  it('counts an upper-floor staircase as an exit', () => {
+    const stairs = (floor: number): Room => ({
+      id: `stairs-${floor}`, name: 'Staircase', type: 'circulation', x: 4, y: 0, width: 3, height: 5, floor,
+      stairTurn: 'clockwise', features: floor === 0 ? [door('left')] : [],
+    });
+    const bedroom: Room = { id: 'bedroom', name: 'Bedroom', type: 'room', x: 7, y: 0, width: 8, height: 5, floor: 1, features: [door('left')] };
+    const plan = [row()[0], stairs(0), stairs(1), bedroom];
+
+    // From the far corner of the bedroom to its door onto the stairs, not down to the main door
+    const result = validate(plan);
+    assert.deepEqual(result.violations, []);
+    assert.equal(result.maxTravelDistance, 8.4);
+    assert.equal(result.complianceItems.find(i => i.rule === 'Second Staircase')?.status, 'PASS');
+    assert.equal(result.complianceItems.find(i => i.rule === 'Stair Width: Staircase')?.message, '1.5m flights (min 1m)');
+
+    // Two 0.9m flights, in a building tall enough to need a second stair
+    const narrow = plan.map(r => r.name === 'Staircase' ? { ...r, width: 1.8 } : r);
+    assert.deepEqual(categories(narrow, 16), [
+      ['second_staircase', 'critical', undefined],
+      ['stair_width', 'major', 'Staircase'],
+    ]);
+  });
+
+  it('needs a main door of the minimum width on an outside wall', () => {
+    const plan = row('Living Room');
+    assert.equal(item(plan, 'Main Door Width').status, 'PASS');
+    const narrow = plan.map(r => r.name === 'Foyer' ? { ...r, features: [door('top', 0.8)] } : r);
+    assert.deepEqual(categories(narrow), [['door_width', 'major', 'Foyer']]);
+    assert.equal(item(narrow, 'Main Door Width').message, '0.8m < 1m minimum');
+
+    // The only door of the foyer leads into the living room, so nobody gets out
+    const shut = plan.map(r => r.name === 'Foyer' ? { ...r, features: [door('right', 1.2)] } : r);
+    const result = validate(shut);
+    assert.deepEqual(result.violations.map(v => [v.category, v.severity, v.message]), [
+      ['no_exit', 'critical', 'Foyer has no door to the outside'],
+    ]);
+    assert.equal(result.complianceItems.find(i => i.rule === 'Travel Distance')?.status, 'WARN');
+  });
+
+  it('limits corridors with a single way out', () => {
+    // The corridor opens off the foyer at its near end only
+    const plan = (length: number, exit = false): Room[] => [
+      { id: 'foyer', name: 'Foyer', type: 'circulation', x: 0, y: 0, width: 3, height: 3, features: [MAIN_DOOR] },
+      { id: 'corridor', name: 'Corridor', type: 'circulation', x: 3, y: 0, width: length, height: 2, features: [] },
+      ...(exit ? [{ id: 'passage', name: 'Passage', type: 'circulation' as const, x: 3 + length, y: 0, width: 2, height: 3, features: [] }] : []),
+    ];
+    assert.deepEqual(categories(plan(5)), []);
+    const long = validate(plan(9));
+    assert.deepEqual(long.violations.map(v => [v.category, v.message]), [['dead_end', 'Corridor is a 9.0m dead end (max 6m)']]);
+    // A second way out at the far end
+    assert.deepEqual(categories(plan(9, true)), []);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlotGeometry } from '../src/types/agent.types.js';
+import type { Room, WallFeature } from '../src/types/shared.types.js';
+import { enrichRoomsWithDirection } from '../src/utils/direction.utils.js';
+import { validateGeometry } from '../src/validators/geometry.validator.js';
+
+const PLOT: PlotGeometry = { width: 10, depth: 10 };
+
+const door = (wall: WallFeature['wall'], position = 0.5): WallFeature => ({ type: 'door', wall, position, width: 1 });
+
+/** Living room at the front, kitchen behind it, sharing a door */
+function plan(kitchen: Partial<Room> = {}, extra: Room[] = []): Room[] {
+  return [
+    { id: 'living', name: 'Living Room', type: 'room', x: 0, y: 0, width: 10, height: 6, features: [door('bottom')] },
+    { id: 'kitchen', name: 'Kitchen', type: 'room', x: 0, y: 6, width: 10, height: 4, features: [door('top')], ...kitchen },
+    ...extra,
+  ];
+}
+
+function validate(rooms: Room[], plotGeometry = PLOT) {
+  return validateGeometry(enrichRoomsWithDirection(rooms, plotGeometry), plotGeometry);
+}
+
+const categories = (rooms: Room[], plotGeometry?: PlotGeometry) =>
+  validate(rooms, plotGeometry).violations.map(v => [v.category, v.severity, v.roomName]);
+
+describe('geometry validator', () => {
+  it('passes a plan that tiles the plot with matching openings', () => {
+    const result = validate(plan());
+    assert.deepEqual(result.violations, []);
+    assert.equal(result.score, 1);
+    assert.equal(result.uncoveredArea, 0);
+    assert.ok(result.complianceItems.every(item => item.status === 'PASS'));
+  });
+
+  it('flags overlapping rooms, critical beyond a square meter', () => {
+    assert.deepEqual(categories(plan({ y: 5.5, height: 4.5 })), [['overlap', 'critical', 'Living Room']]);
+    assert.deepEqual(categories(plan({ y: 5.95, height: 4.05 })), [['overlap', 'major', 'Living Room']]);
+    // Within the tolerance, and setback bands may overlap anything
+    assert.deepEqual(categories(plan({ y: 5.996, height: 4.004 })), []);
+    const setback: Room = { id: 'sb', name: 'Front Setback', type: 'setback', x: 0, y: 0, width: 10, height: 1, features: [] };
+    assert.deepEqual(categories(plan({}, [setback])), []);
+  });
+
+  it('flags plot area no room accounts for', () => {
+    const result = validate(plan({ height: 3 }));
+    assert.deepEqual(result.violations.map(v => [v.category, v.severity]), [['coverage', 'major']]);
+    assert.equal(result.uncoveredArea, 10);
+    assert.equal(result.complianceItems.find(item => item.rule === 'Plot Coverage (100%)')?.status, 'FAIL');
+  });
+
+  it('flags rooms beyond the plot boundary', () => {
+    const result = validate(plan({ width: 10.5 }));
+    assert.deepEqual(result.violations.map(v => [v.category, v.roomName]), [['out_of_bounds', 'Kitchen']]);
+    assert.match(result.violations[0].message, /east plot boundary/);
+    // Within the tolerance
+    assert.deepEqual(categories(plan({ width: 10.05 })), []);
+
+    // On an irregular plot a room can be inside the bounding box but off the plot
+    const tapered: PlotGeometry = { width: 10, depth: 10, boundary: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 8, y: 10 }, { x: 0, y: 10 }] };
+    const offPlot = validate(plan(), tapered).violations.filter(v => v.category === 'out_of_bounds');
+    assert.deepEqual(offPlot.map(v => v.roomName), ['Living Room', 'Kitchen']);
+    assert.match(offPlot[0].message, /irregular plot boundary/);
+  });
+
+  it('flags zero-size rooms and leaves them out of the other checks', () => {
+    const store: Room = { id: 'store', name: 'Store', type: 'service', x: 4, y: 4, width: 0, height: 2, features: [] };
+    assert.deepEqual(categories(plan({}, [store])), [['zero_size', 'critical', 'Store']]);
+    const result = validate(plan({}, [{ ...store, width: Number.NaN }]));
+    assert.deepEqual(result.violations.map(v => v.category), ['zero_size']);
+    assert.equal(result.complianceItems.find(item => item.rule === 'Room Dimensions')?.status, 'FAIL');
+  });
+
+  it('flags openings on a shared wall that do not line up', () => {
+    // Each side reports the door with no counterpart
+    assert.deepEqual(categories(plan({ features: [door('top', 0.2)] })), [
+      ['feature_alignment', 'major', 'Living Room'],
+      ['feature_alignment', 'major', 'Kitchen'],
+    ]);
+    const window: WallFeature = { type: 'window', wall: 'top', position: 0.2, width: 1 };
+    assert.deepEqual(categories(plan({ features: [door('top'), window] })), [['feature_alignment', 'minor', 'Kitchen']]);
+    // An opening may answer a door
+    assert.deepEqual(categories(plan({ features: [{ ...door('top'), type: 'opening' }] })), []);
+    const result = validate(plan({ features: [door('top', 0.2)] }));
+    assert.equal(result.complianceItems.find(item => item.rule === 'Opening Alignment')?.status, 'WARN');
+    assert.equal(result.score, 0.8);
+  });
+});
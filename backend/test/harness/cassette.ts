@@ -0,0 +1,146 @@
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { LLMFixture, LLMProvider, LLMProviderKind, LLMRequest, LLMResponse, OrchestrationResult } from '../../src/types/agent.types.js';
+import type { ComplianceItem, ProjectConfig } from '../../src/types/shared.types.js';
+import { orchestrate, type OrchestrationOptions, type ProgressCallback } from '../../src/orchestrator/design.orchestrator.js';
+import { LLM_PROVIDERS, getProvider, setProvider } from '../../src/models/llm.provider.js';
+import { ReplayProvider, promptHash } from '../../src/models/replay.provider.js';
+
+export const CASSETTE_DIR = fileURLToPath(new URL('../cassettes', import.meta.url));
+
+/** Outcome of the recorded run; a replay must reproduce it exactly */
+export interface CassetteOutcome {
+  iterationScores: number[];
+  finalScore: number;
+  converged: boolean;
+  roomCount: number;
+  furnitureCount: number;
+  columnCount: number;
+  beamCount: number;
+  /** "STATUS rule" lines, in output order */
+  compliance: {
+    regulatory: string[];
+    cultural: string[];
+    fireSafety: string[];
+    accessibility: string[];
+  };
+}
+
+/** Every model call of one orchestrate() run, keyed by prompt hash */
+export interface Cassette {
+  name: string;
+  description: string;
+  recordedAt: string;
+  config: ProjectConfig;
+  expected: CassetteOutcome;
+  fixtures: Record<string, LLMFixture>;
+}
+
+/** Passes requests through to the real provider and keeps each response */
+class RecordingProvider implements LLMProvider {
+  readonly kind: LLMProviderKind;
+
+  constructor(private readonly inner: LLMProvider, private readonly fixtures: Record<string, LLMFixture>) {
+    this.kind = inner.kind;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.generate(request);
+    // Agents normalize responses in place; keep what the model actually said
+    this.fixtures[promptHash(request)] = {
+      model: response.model,
+      prompt: request.prompt,
+      response: structuredClone(response.data),
+    };
+    return response;
+  }
+}
+
+/** Runs `fn` with every provider kind swapped out, restoring the defaults afterwards */
+async function withProviders<T>(provide: (kind: LLMProviderKind) => LLMProvider, fn: () => Promise<T>): Promise<T> {
+  for (const kind of LLM_PROVIDERS) {
+    setProvider(kind, provide(kind));
+  }
+  try {
+    return await fn();
+  } finally {
+    for (const kind of LLM_PROVIDERS) {
+      setProvider(kind, null);
+    }
+  }
+}
+
+export function summarizeOutcome(result: OrchestrationResult): CassetteOutcome {
+  const lines = (items: ComplianceItem[]) => items.map(item => `${item.status} ${item.rule}`);
+  return {
+    iterationScores: result.iterations.map(i => round(i.score.finalScore)),
+    finalScore: round(result.finalScore.finalScore),
+    converged: result.converged,
+    roomCount: result.finalPlan.rooms.length,
+    furnitureCount: result.finalPlan.furniture?.length ?? 0,
+    columnCount: result.finalPlan.structure?.columns.length ?? 0,
+    beamCount: result.finalPlan.structure?.beams.length ?? 0,
+    compliance: {
+      regulatory: lines(result.finalPlan.compliance.regulatory),
+      cultural: lines(result.finalPlan.compliance.cultural),
+      fireSafety: lines(result.finalPlan.compliance.fireSafety ?? []),
+      accessibility: lines(result.finalPlan.compliance.accessibility ?? []),
+    },
+  };
+}
+
+/**
+ * Runs the full pipeline against the providers the router picks (normally
+ * Gemini) and captures every prompt/response pair into a cassette.
+ */
+export async function recordCassette(name: string, description: string, config: ProjectConfig): Promise<Cassette> {
+  const fixtures: Record<string, LLMFixture> = {};
+  const defaults = new Map(LLM_PROVIDERS.map(kind => [kind, getProvider(kind)]));
+  const result = await withProviders(
+    kind => new RecordingProvider(defaults.get(kind)!, fixtures),
+    () => orchestrate(config)
+  );
+
+  return {
+    name,
+    description,
+    recordedAt: new Date().toISOString(),
+    config,
+    expected: summarizeOutcome(result),
+    fixtures,
+  };
+}
+
+/**
+ * Replays a cassette through the real orchestrator, validators and scorer; no
+ * network. Progress events and options (a checkpoint to resume from, an abort
+ * signal) are passed through to orchestrate().
+ */
+export async function replayCassette(
+  cassette: Cassette,
+  onProgress?: ProgressCallback,
+  options?: OrchestrationOptions
+): Promise<OrchestrationResult> {
+  const replay = new ReplayProvider(cassette.fixtures);
+  return withProviders(() => replay, () => orchestrate(cassette.config, onProgress, options));
+}
+
+export async function loadCassette(name: string): Promise<Cassette> {
+  return JSON.parse(await readFile(join(CASSETTE_DIR, `${name}.json`), 'utf-8')) as Cassette;
+}
+
+export async function listCassettes(): Promise<string[]> {
+  return (await readdir(CASSETTE_DIR))
+    .filter(f => f.endsWith('.json'))
+    .map(f => f.slice(0, -'.json'.length))
+    .sort();
+}
+
+export async function saveCassette(cassette: Cassette): Promise<void> {
+  await writeFile(join(CASSETTE_DIR, `${cassette.name}.json`), JSON.stringify(cassette, null, 2) + '\n');
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
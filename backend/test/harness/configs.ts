@@ -0,0 +1,224 @@
+import type { ProjectConfig } from '../../src/types/shared.types.js';
+import { BuildingType, CulturalSystem } from '../../src/types/shared.types.js';
+
+export interface StarterConfig {
+  name: string;
+  description: string;
+  config: ProjectConfig;
+}
+
+/** Configs the starter cassettes are recorded from (npm run test:record) */
+export const STARTER_CONFIGS: StarterConfig[] = [
+  {
+    name: 'simplex-residential',
+    description: '2BHK single-storey house on a 12x18m north-facing NBC plot, no cultural system',
+    config: {
+      projectType: BuildingType.RESIDENTIAL,
+      width: 12,
+      depth: 18,
+      requirements: ['Master Bedroom', 'Bedroom', 'Dining Area'],
+      adjacency: '',
+      culturalSystem: CulturalSystem.NONE,
+      facingDirection: 'North',
+      floors: 1,
+      floorPlanStyle: 'Simplex',
+      bathrooms: 2,
+      kitchenType: 'Closed',
+      parking: 'None',
+      familyMembers: 4,
+      municipalCode: 'NBC',
+      roadWidth: 9,
+    },
+  },
+  {
+    name: 'duplex-residential',
+    description: '3BHK duplex on a 10x16m BBMP plot with general Vastu and one car park',
+    config: {
+      projectType: BuildingType.RESIDENTIAL,
+      width: 10,
+      depth: 16,
+      requirements: ['Master Bedroom', 'Bedroom', 'Bedroom', 'Study Room', 'Balcony'],
+      adjacency: 'Kitchen next to Dining Room',
+      culturalSystem: CulturalSystem.VASTU_GENERAL,
+      vastuLevel: 'Moderately',
+      facingDirection: 'East',
+      floors: 2,
+      floorPlanStyle: 'Duplex',
+      bathrooms: 3,
+      kitchenType: 'Open',
+      parking: '1 Car',
+      familyMembers: 5,
+      municipalCode: 'BBMP',
+      roadWidth: 12,
+    },
+  },
+  {
+    name: 'commercial-office',
+    description: 'Single-storey commercial office on a 20x30m MCD plot',
+    config: {
+      projectType: BuildingType.COMMERCIAL,
+      width: 20,
+      depth: 30,
+      requirements: ['Open Office', 'Storage', 'Reception'],
+      adjacency: '',
+      culturalSystem: CulturalSystem.NONE,
+      facingDirection: 'South',
+      floors: 1,
+      bathrooms: 2,
+      parking: '2+ Cars',
+      familyMembers: 20,
+      municipalCode: 'MCD',
+      roadWidth: 18,
+    },
+  },
+  {
+    name: 'strict-vastu',
+    description: '2BHK with pooja room on a 15x20m east-facing plot, strictly North Indian Vastu, Vastu-first scoring',
+    config: {
+      projectType: BuildingType.RESIDENTIAL,
+      width: 15,
+      depth: 20,
+      requirements: ['Master Bedroom', 'Bedroom', 'Pooja Room', 'Dining Area'],
+      adjacency: '',
+      culturalSystem: CulturalSystem.VASTU_NORTH,
+      vastuLevel: 'Strictly',
+      facingDirection: 'East',
+      floors: 1,
+      floorPlanStyle: 'Simplex',
+      bathrooms: 2,
+      kitchenType: 'Closed',
+      parking: 'None',
+      familyMembers: 4,
+      municipalCode: 'NBC',
+      roadWidth: 12,
+      scoring: {
+        weights: { regulatory: 0.3, cultural: 0.4, geometry: 0.1, spatial: 0.1, livability: 0.1 },
+        threshold: 0.8,
+      },
+    },
+  },
+  {
+    name: 'stacked-triplex',
+    description: '4BHK triplex on a 12x16m NBC plot; every floor must stack on the one below',
+    config: {
+      projectType: BuildingType.RESIDENTIAL,
+      width: 12,
+      depth: 16,
+      requirements: ['Master Bedroom', 'Bedroom', 'Bedroom', 'Bedroom', 'Family Lounge', 'Study'],
+      adjacency: '',
+      culturalSystem: CulturalSystem.NONE,
+      facingDirection: 'North',
+      floors: 3,
+      floorPlanStyle: 'Triplex',
+      bathrooms: 3,
+      kitchenType: 'Closed',
+      parking: 'None',
+      familyMembers: 6,
+      municipalCode: 'NBC',
+      roadWidth: 9,
+    },
+  },
+  {
+    name: 'accessible-duplex',
+    description: '3BHK duplex on a 12x16m NBC plot for a family with a wheelchair user, 0.45m plinth',
+    config: {
+      projectType: BuildingType.RESIDENTIAL,
+      width: 12,
+      depth: 16,
+      requirements: ['Master Bedroom', 'Bedroom', 'Bedroom'],
+      adjacency: '',
+      culturalSystem: CulturalSystem.NONE,
+      facingDirection: 'North',
+      floors: 2,
+      floorPlanStyle: 'Duplex',
+      bathrooms: 2,
+      kitchenType: 'Open',
+      parking: 'None',
+      familyMembers: 5,
+      municipalCode: 'NBC',
+      roadWidth: 9,
+      accessibility: { plinthHeight: 0.45 },
+      scoring: {
+        weights: { regulatory: 0.35, cultural: 0.05, geometry: 0.15, spatial: 0.15, livability: 0.3 },
+        threshold: 0.8,
+      },
+    },
+  },
+  {
+    name: 'locked-vastu',
+    description: 'The strict Vastu 2BHK with its kitchen locked in place by the client',
+    config: {
+      projectType: BuildingType.RESIDENTIAL,
+      width: 15,
+      depth: 20,
+      requirements: ['Master Bedroom', 'Bedroom', 'Pooja Room', 'Dining Area'],
+      adjacency: '',
+      culturalSystem: CulturalSystem.VASTU_NORTH,
+      vastuLevel: 'Strictly',
+      facingDirection: 'East',
+      floors: 1,
+      floorPlanStyle: 'Simplex',
+      bathrooms: 2,
+      kitchenType: 'Closed',
+      parking: 'None',
+      familyMembers: 4,
+      municipalCode: 'NBC',
+      roadWidth: 12,
+      scoring: {
+        weights: { regulatory: 0.3, cultural: 0.4, geometry: 0.1, spatial: 0.1, livability: 0.1 },
+        threshold: 0.9,
+      },
+      roomLocks: [{
+        roomId: 'kitchen',
+        mode: 'position',
+        room: { id: 'kitchen', name: 'Kitchen', type: 'room', x: 1.5, y: 9, width: 4, height: 4, features: [], floor: 0 },
+      }],
+    },
+  },
+  {
+    name: 'solver-vastu',
+    description: '2BHK with pooja room on a 12x18m north-facing plot, Vastu, first plan drawn by the layout solver',
+    config: {
+      projectType: BuildingType.RESIDENTIAL,
+      width: 12,
+      depth: 18,
+      requirements: ['Master Bedroom', 'Bedroom', 'Pooja Room', 'Dining Area'],
+      adjacency: '',
+      culturalSystem: CulturalSystem.VASTU_NORTH,
+      vastuLevel: 'Moderately',
+      facingDirection: 'North',
+      floors: 1,
+      floorPlanStyle: 'Simplex',
+      bathrooms: 2,
+      kitchenType: 'Closed',
+      parking: 'None',
+      familyMembers: 4,
+      municipalCode: 'NBC',
+      roadWidth: 9,
+      layoutEngine: 'solver',
+    },
+  },
+  {
+    name: 'hybrid-vastu',
+    description: 'The solver-vastu brief, first plan drawn by the layout solver and refined by the LLM',
+    config: {
+      projectType: BuildingType.RESIDENTIAL,
+      width: 12,
+      depth: 18,
+      requirements: ['Master Bedroom', 'Bedroom', 'Pooja Room', 'Dining Area'],
+      adjacency: '',
+      culturalSystem: CulturalSystem.VASTU_NORTH,
+      vastuLevel: 'Moderately',
+      facingDirection: 'North',
+      floors: 1,
+      floorPlanStyle: 'Simplex',
+      bathrooms: 2,
+      kitchenType: 'Closed',
+      parking: 'None',
+      familyMembers: 4,
+      municipalCode: 'NBC',
+      roadWidth: 9,
+      layoutEngine: 'hybrid',
+    },
+  },
+];
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { IterationRecord, OrchestrationCheckpoint } from '../src/types/agent.types.js';
+import type { ProjectConfig } from '../src/types/shared.types.js';
+import { FileJobStore } from '../src/memory/file.job-store.js';
+
+// The store only persists these; their contents do not matter here
+const iteration = (n: number) => ({ iteration: n }) as unknown as IterationRecord;
+const checkpoint = { phase: 'refinement', nextIteration: 2 } as unknown as OrchestrationCheckpoint;
+const config = { width: 12, depth: 15 } as ProjectConfig;
+
+describe('file job store', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'jobs-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps jobs and iterations across restarts', async () => {
+    const store = new FileJobStore(dir);
+    await store.createJob('job-1', 'user-a');
+    await store.updateJob('job-1', { status: 'completed', config });
+    await store.appendIteration('job-1', iteration(1));
+    await store.appendIteration('job-1', iteration(2));
+
+    const restarted = new FileJobStore(dir);
+    const job = await restarted.getJob('job-1');
+    assert.equal(job?.status, 'completed');
+    assert.deepEqual(job?.config, config);
+    assert.deepEqual((await restarted.getIterations('job-1')).map(r => r.iteration), [1, 2]);
+    assert.equal(await restarted.getJob('job-2'), undefined);
+  });
+
+  it('does not lose concurrent updates to one job', async () => {
+    const store = new FileJobStore(dir);
+    await store.createJob('job-1', 'user-a');
+    await Promise.all([
+      ...[1, 2, 3, 4, 5].map(n => store.appendIteration('job-1', iteration(n))),
+      store.updateJob('job-1', { checkpoint }),
+      store.updateJob('job-1', { status: 'running' }),
+    ]);
+
+    const job = await store.getJob('job-1');
+    assert.equal(job?.status, 'running');
+    assert.equal(job?.checkpoint?.phase, 'refinement');
+    assert.deepEqual((await store.getIterations('job-1')).map(r => r.iteration), [1, 2, 3, 4, 5]);
+  });
+
+  it('fails interrupted jobs on startup but keeps what they need to resume', async () => {
+    const store = new FileJobStore(dir);
+    for (const [jobId, status] of [['running', 'running'], ['pending', 'pending'], ['done', 'completed'], ['stopped', 'cancelled']] as const) {
+      await store.createJob(jobId, 'user-a');
+      await store.updateJob(jobId, { status, config, checkpoint });
+    }
+    await store.appendIteration('running', iteration(1));
+
+    const restarted = new FileJobStore(dir);
+    const running = await restarted.getJob('running');
+    assert.equal(running?.status, 'failed');
+    assert.equal(running?.error, 'Interrupted by server restart');
+    assert.deepEqual(running?.config, config);
+    assert.equal(running?.checkpoint?.phase, 'refinement');
+    assert.equal((await restarted.getIterations('running')).length, 1);
+    assert.equal((await restarted.getJob('pending'))?.status, 'failed');
+    assert.equal((await restarted.getJob('done'))?.status, 'completed');
+    assert.equal((await restarted.getJob('stopped'))?.status, 'cancelled');
+
+    // A resumed job that is interrupted again can still be resumed
+    await restarted.updateJob('running', { status: 'pending', resumeCount: 1 });
+    const resumed = await new FileJobStore(dir).getJob('running');
+    assert.equal(resumed?.status, 'failed');
+    assert.equal(resumed?.resumeCount, 1);
+    assert.equal(resumed?.checkpoint?.phase, 'refinement');
+  });
+
+  it('expires finished jobs, but never a running one', async () => {
+    const ttlMs = 60_000;
+    const store = new FileJobStore(dir, ttlMs);
+    const longAgo = Date.now() - 2 * ttlMs;
+    for (const [jobId, status] of [['old', 'completed'], ['old-running', 'running'], ['new', 'completed']] as const) {
+      await store.createJob(jobId, 'user-a');
+      await store.updateJob(jobId, { status, createdAt: jobId.startsWith('old') ? longAgo : Date.now() });
+    }
+
+    assert.equal(await store.getJob('old'), undefined);
+    assert.equal((await store.getJob('old-running'))?.status, 'running');
+    assert.deepEqual((await readdir(dir)).sort(), ['new.json', 'old-running.json']);
+
+    // After a restart the interrupted job has failed, so it expires too
+    const restarted = new FileJobStore(dir, ttlMs);
+    assert.equal(await restarted.getJob('old-running'), undefined);
+    assert.deepEqual(await readdir(dir), ['new.json']);
+  });
+
+  it('lists and purges jobs by owner and status', async () => {
+    const store = new FileJobStore(dir);
+    await store.createJob('a-1', 'user-a');
+    await store.createJob('a-2', 'user-a', 'estimation');
+    await store.createJob('b-1', 'user-b');
+    await store.updateJob('a-1', { status: 'failed', config, checkpoint });
+    await store.appendIteration('a-1', iteration(1));
+
+    const listed = await store.listJobs({ userId: 'user-a' });
+    assert.deepEqual(listed.map(job => job.jobId).sort(), ['a-1', 'a-2']);
+    const summary = listed.find(job => job.jobId === 'a-1')!;
+    assert.equal(summary.iterationCount, 1);
+    assert.equal(summary.checkpointPhase, 'refinement');
+    assert.equal('config' in summary || 'checkpoint' in summary, false);
+    assert.equal(listed.find(job => job.jobId === 'a-2')!.kind, 'estimation');
+
+    assert.equal(await store.purgeJobs({ userId: 'user-a', status: 'failed' }), 1);
+    assert.equal(await store.getJob('a-1'), undefined);
+    assert.deepEqual(await store.getIterations('a-1'), []);
+    assert.equal(await store.purgeJobs({ createdBefore: Date.now() + 1 }), 2);
+    assert.deepEqual(await readdir(dir), []);
+  });
+
+  it('refuses job ids that are not plain file names', async () => {
+    const store = new FileJobStore(dir);
+    await assert.rejects(store.createJob('../escape', 'user-a'), /Invalid job id/);
+    assert.equal(await store.getJob('../escape'), undefined);
+    assert.deepEqual(await readdir(dir), []);
+  });
+});
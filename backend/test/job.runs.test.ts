@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { abortJobRun, endJobRun, startJobRun } from '../src/memory/job.runs.js';
+
+describe('job runs', () => {
+  it('aborts the current run of a job', () => {
+    const run = startJobRun('job-1');
+    assert.equal(abortJobRun('job-1', new Error('Generation cancelled')), true);
+    assert.equal(run.signal.aborted, true);
+    assert.equal(run.signal.reason.message, 'Generation cancelled');
+
+    endJobRun('job-1', run);
+    assert.equal(abortJobRun('job-1', new Error('again')), false);
+  });
+
+  it('keeps a resumed run cancellable after the cancelled run settles', () => {
+    const cancelled = startJobRun('job-2');
+    abortJobRun('job-2', new Error('Generation cancelled'));
+    const resumed = startJobRun('job-2');
+    // The cancelled run's cleanup comes in after the resume
+    endJobRun('job-2', cancelled);
+
+    assert.equal(abortJobRun('job-2', new Error('Generation cancelled')), true);
+    assert.equal(resumed.signal.aborted, true);
+    endJobRun('job-2', resumed);
+    assert.equal(abortJobRun('job-2', new Error('again')), false);
+  });
+});
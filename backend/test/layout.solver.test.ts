@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AdjacencyPreference, FloorPlanGraph, NormalizedSpec } from '../src/types/agent.types.js';
+import type { ProjectConfig } from '../src/types/shared.types.js';
+import { CulturalSystem } from '../src/types/shared.types.js';
+import { InputAgent } from '../src/agents/input.agent.js';
+import { LAYOUT_ENGINES, solveLayout } from '../src/layout/layout.solver.js';
+import { findSharedWall } from '../src/utils/geometry.utils.js';
+import { offsetPolygon, polygonInPolygon, rectToPolygon } from '../src/utils/polygon.utils.js';
+import { validateGeometry } from '../src/validators/geometry.validator.js';
+import { validateRegulatory } from '../src/validators/regulatory.validator.js';
+import { validateStructure } from '../src/validators/structural.validator.js';
+import { STARTER_CONFIGS } from './harness/configs.js';
+
+const starter = (name: string) => STARTER_CONFIGS.find(c => c.name === name)!.config;
+
+/** The input agent's spec for a config; it only calls the LLM for free-text adjacency, so that comes in directly */
+async function specFor(config: ProjectConfig, adjacencyPreferences: AdjacencyPreference[] = []): Promise<NormalizedSpec> {
+  const { data } = await new InputAgent().execute({ ...config, adjacency: '' });
+  return { ...data, adjacencyPreferences };
+}
+
+/** Fails with every geometry and regulatory problem of the plan */
+function assertSound(plan: FloorPlanGraph, spec: NormalizedSpec, label: string): void {
+  const geometry = validateGeometry(plan.rooms, spec.plotGeometry);
+  const regulatory = validateRegulatory(plan.rooms, spec.plotGeometry, spec.municipalConfig, spec.setbackRequirements);
+  const problems = [...geometry.violations, ...regulatory.violations]
+    .filter(v => ['overlap', 'out_of_bounds', 'zero_size', 'setback', 'room_size', 'corridor_width'].includes(v.category))
+    .map(v => v.message);
+  assert.deepEqual(problems, [], label);
+}
+
+const named = (plan: FloorPlanGraph, name: string, floor = 0) => plan.rooms.find(r => r.name === name && (r.floor ?? 0) === floor)!;
+
+describe('layout solver', () => {
+  it('offers the solver and the hybrid engine alongside the LLM', () => {
+    assert.deepEqual(LAYOUT_ENGINES, ['llm', 'solver', 'hybrid']);
+  });
+
+  it('fits the rooms inside the setbacks at their minimum areas, without overlaps', async () => {
+    for (const name of ['simplex-residential', 'commercial-office', 'strict-vastu', 'solver-vastu']) {
+      const spec = await specFor(starter(name));
+      const plan = solveLayout(spec);
+      assertSound(plan, spec, name);
+      // Every required room is drawn
+      for (const req of spec.requiredRooms.filter(r => r.classification !== 'foyer')) {
+        assert.equal(plan.rooms.filter(r => r.name.startsWith(req.name)).length >= req.count, true, `${name}: ${req.name}`);
+      }
+    }
+  });
+
+  it('stacks the staircase and upper rooms of a two-floor house', async () => {
+    const spec = await specFor(starter('duplex-residential'));
+    const plan = solveLayout(spec);
+    assertSound(plan, spec, 'duplex');
+    const stairs = plan.rooms.filter(r => r.name === 'Staircase').map(({ x, y, width, height, floor }) => ({ x, y, width, height, floor }));
+    assert.equal(stairs.length, 2);
+    assert.deepEqual({ ...stairs[1], floor: 0 }, stairs[0]);
+    const structure = validateStructure(plan.rooms, 2);
+    assert.deepEqual(structure.violations.filter(v => v.category !== 'wet_stack').map(v => v.message), []);
+    // The public rooms stay downstairs
+    for (const name of ['Living Room', 'Kitchen']) assert.equal(named(plan, name).floor, 0, name);
+  });
+
+  it('aims the Vastu rooms at the compass, whichever way the plot faces', async () => {
+    for (const facingDirection of ['North', 'East', 'South', 'West']) {
+      const spec = await specFor({ ...starter('solver-vastu'), facingDirection });
+      const plan = solveLayout(spec);
+      assertSound(plan, spec, facingDirection);
+      assert.equal(named(plan, 'Kitchen').direction, 'SE', facingDirection);
+      assert.equal(named(plan, 'Master Bedroom').direction, 'SW', facingDirection);
+      assert.ok(plan.designLog.some(line => line.startsWith('Kitchen in the') && line.endsWith('Vastu SE')), facingDirection);
+    }
+    // Without a cultural system the bedrooms go to the back, away from the entrance
+    const spec = await specFor({ ...starter('solver-vastu'), culturalSystem: CulturalSystem.NONE });
+    const plan = solveLayout(spec);
+    const foyer = named(plan, 'Entrance Foyer');
+    assert.ok(named(plan, 'Master Bedroom').y > named(plan, 'Living Room').y);
+    assert.equal(foyer.y, spec.setbackRequirements.front);
+    assert.ok(!plan.designLog.some(line => line.includes('Vastu')));
+  });
+
+  it('puts adjacent rooms side by side and separated rooms apart', async () => {
+    const config = starter('simplex-residential');
+    const adjacent = solveLayout(await specFor(config, [{ room1: 'Kitchen', room2: 'Dining Room', relationship: 'adjacent' }]));
+    assert.ok(findSharedWall(named(adjacent, 'Kitchen'), named(adjacent, 'Dining Room')));
+    assert.ok(adjacent.designLog.some(line => line.startsWith('Dining Room in the') && line.endsWith('adjacent to Kitchen')));
+
+    const separated = solveLayout(await specFor(config, [{ room1: 'Master Bedroom', room2: 'Living Room', relationship: 'separated' }]));
+    const [bedroom, living] = [named(separated, 'Master Bedroom'), named(separated, 'Living Room')];
+    assert.equal(findSharedWall(bedroom, living), null);
+    // On opposite sides of the corridor spine
+    const spine = named(separated, 'Corridor');
+    assert.notEqual(bedroom.x < spine.x, living.x < spine.x);
+  });
+
+  it('fits the envelope inside the setbacks of an irregular plot', async () => {
+    // A plot whose rear edge is 4m shallower on the right
+    const plotBoundary = [{ x: 0, y: 0 }, { x: 14, y: 0 }, { x: 14, y: 16 }, { x: 0, y: 20 }];
+    for (const floors of [1, 2]) {
+      const base = floors === 1 ? starter('simplex-residential') : starter('duplex-residential');
+      const spec = await specFor({ ...base, width: 14, depth: 20, plotBoundary });
+      const plan = solveLayout(spec);
+      assertSound(plan, spec, `${floors} floor(s)`);
+      const inside = offsetPolygon(spec.plotGeometry.boundary!, spec.setbackRequirements);
+      for (const room of plan.rooms.filter(r => r.type !== 'setback')) {
+        assert.ok(polygonInPolygon(rectToPolygon(room), inside, 0.01), `${room.name} (floor ${room.floor ?? 0})`);
+      }
+    }
+  });
+
+  it('draws the same plan for the same spec', async () => {
+    for (const name of ['duplex-residential', 'solver-vastu']) {
+      const spec = await specFor(starter(name));
+      assert.deepEqual(solveLayout(spec), solveLayout(structuredClone(spec)), name);
+    }
+  });
+});
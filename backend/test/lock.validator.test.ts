@@ -0,0 +1,167 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlotGeometry } from '../src/types/agent.types.js';
+import type { Room, RoomLock, RoomLockMode } from '../src/types/shared.types.js';
+import { buildPlanGraph } from '../src/scoring/plan.evaluation.js';
+import { enrichRoomsWithDirection } from '../src/utils/direction.utils.js';
+import {
+  ROOM_LOCK_MODES,
+  enforceRoomLocks,
+  findLockedRoom,
+  restoreLockedRooms,
+  validateRoomLocks,
+} from '../src/validators/lock.validator.js';
+
+const PLOT: PlotGeometry = { width: 12, depth: 12 };
+
+/** The kitchen as the client approved it: 4m across, 3m deep, in the front-left corner */
+const APPROVED: Room = {
+  id: 'kitchen', name: 'Kitchen', type: 'room', x: 2, y: 3, width: 4, height: 3,
+  features: [{ type: 'door', wall: 'right', position: 0.5, width: 0.9 }],
+};
+const LIVING: Room = { id: 'living', name: 'Living Room', type: 'room', x: 6, y: 3, width: 4, height: 6, features: [] };
+
+const lock = (mode: RoomLockMode, room: Room = APPROVED): RoomLock => ({ roomId: room.id, mode, room });
+const kitchen = (changes: Partial<Room> = {}): Room => ({ ...APPROVED, features: [], ...changes });
+
+function validate(rooms: Room[], locks: RoomLock[]) {
+  return validateRoomLocks(enrichRoomsWithDirection(rooms, PLOT), locks);
+}
+
+const categories = (room: Room, mode: RoomLockMode) => validate([room, LIVING], [lock(mode)]).violations.map(v => v.category);
+
+describe('room lock validator', () => {
+  it('checks only the locked part of the room', () => {
+    const changes: Record<string, Partial<Room>> = {
+      moved: { x: 3 },
+      resized: { width: 5 },
+      turned: { width: 3, height: 4 },
+      upstairs: { floor: 1 },
+    };
+    const expected: Record<RoomLockMode, string[][]> = {
+      full: [['moved'], ['resized'], ['rotated'], ['moved']],
+      position: [['moved'], [], [], ['moved']],
+      // A 90° turn keeps the size
+      size: [[], ['resized'], [], []],
+      orientation: [[], [], ['rotated'], []],
+    };
+    assert.deepEqual(ROOM_LOCK_MODES, Object.keys(expected));
+    for (const mode of ROOM_LOCK_MODES) {
+      assert.deepEqual(Object.values(changes).map(c => categories(kitchen(c), mode)), expected[mode], mode);
+    }
+    assert.deepEqual(categories(kitchen({ x: 3, width: 3, height: 4 }), 'full'), ['moved', 'rotated']);
+  });
+
+  it('allows 5cm of drift', () => {
+    assert.deepEqual(categories(kitchen({ x: 2.05, y: 2.96, width: 4.05 }), 'full'), []);
+    assert.deepEqual(categories(kitchen({ x: 2.06 }), 'position'), ['moved']);
+    assert.deepEqual(categories(kitchen({ height: 2.94 }), 'size'), ['resized']);
+  });
+
+  it('has no orientation to keep for a square room', () => {
+    const square = { ...APPROVED, width: 4, height: 4 };
+    const turned = validate([kitchen({ width: 5, height: 3 }), LIVING], [lock('orientation', square)]);
+    assert.deepEqual(turned.violations, []);
+    assert.deepEqual(validate([kitchen({ width: 3, height: 5 }), LIVING], [lock('orientation')]).violations.map(v => v.message), [
+      'Locked room Kitchen was turned; its long side must run across the plot',
+    ]);
+  });
+
+  it('reports what changed and scores each broken lock', () => {
+    const result = validate([kitchen({ x: 3, floor: 1 }), LIVING], [lock('position')]);
+    assert.deepEqual(result.violations.map(v => [v.severity, v.message]), [
+      ['major', 'Locked room Kitchen moved from (2, 3) to (3, 3) on floor 1'],
+    ]);
+    assert.equal(result.score, 0.9);
+    assert.deepEqual(result.complianceItems.map(i => [i.rule, i.status, i.message]), [
+      ['Room Lock: Kitchen', 'FAIL', 'moved despite a position lock'],
+    ]);
+
+    const held = validate([kitchen(), LIVING], [lock('full')]);
+    assert.deepEqual(held.complianceItems.map(i => [i.status, i.message]), [['PASS', 'Kept as approved (full lock)']]);
+
+    const missing = validate([LIVING], [lock('size')]);
+    assert.deepEqual(missing.violations.map(v => [v.category, v.severity, v.recommendation]), [
+      ['missing', 'critical', 'Put Kitchen back: 4m x 3m at (2, 3).'],
+    ]);
+    assert.equal(missing.score, 0.8);
+  });
+
+  it('finds the locked room by id, then by name on the same floor', () => {
+    const renamed = kitchen({ name: 'Pantry' });
+    const other = kitchen({ id: 'kitchen-2', x: 8 });
+    assert.equal(findLockedRoom([other, renamed], lock('position')), renamed);
+    // The LLM gave the kitchen a new id
+    assert.equal(findLockedRoom([LIVING, other], lock('position')), other);
+    assert.equal(findLockedRoom([LIVING, { ...other, floor: 1 }], lock('position')), undefined);
+    assert.deepEqual(categories(other, 'position'), ['moved']);
+  });
+});
+
+describe('room lock restore', () => {
+  const restore = (room: Room | null, mode: RoomLockMode, approved?: Room) => {
+    const { rooms, reverted } = restoreLockedRooms([LIVING, ...(room ? [room] : [])], [lock(mode, approved)]);
+    return { room: findLockedRoom(rooms, lock(mode, approved))!, rooms, reverted };
+  };
+  const outline = ({ x, y, width, height }: Room) => [x, y, width, height];
+
+  it('resets the locked part and keeps the rest of the change', () => {
+    const moved = restore(kitchen({ x: 7, y: 8, width: 5 }), 'position');
+    assert.deepEqual(outline(moved.room), [2, 3, 5, 3]);
+    assert.deepEqual(moved.reverted, ['Reverted the position of locked room Kitchen']);
+
+    const resized = restore(kitchen({ x: 7, width: 5, height: 2 }), 'size');
+    assert.deepEqual(outline(resized.room), [7, 3, 4, 3]);
+    // Turned as well as resized: the approved size, turned the way the room now runs
+    const turned = restore(kitchen({ width: 2, height: 5 }), 'size');
+    assert.deepEqual(outline(turned.room), [2, 3, 3, 4]);
+
+    const rotated = restore(kitchen({ x: 7, width: 2, height: 5 }), 'orientation');
+    assert.deepEqual(outline(rotated.room), [7, 3, 5, 2]);
+    assert.deepEqual(rotated.reverted, ['Reverted the orientation of locked room Kitchen']);
+  });
+
+  it('puts back a full lock whole, openings and all', () => {
+    const { room, reverted } = restore(kitchen({ id: 'kitchen', x: 7, width: 5, type: 'service' }), 'full');
+    assert.deepEqual(room, APPROVED);
+    assert.deepEqual(reverted, ['Reverted the position and size of locked room Kitchen']);
+  });
+
+  it('puts back a removed room under the lock id', () => {
+    const { rooms, reverted } = restore(null, 'orientation', { ...APPROVED, id: 'k1' });
+    assert.deepEqual(rooms.map(r => r.id), ['living', 'k1']);
+    assert.deepEqual(reverted, ['Restored locked room Kitchen, which had been removed']);
+  });
+
+  it('restores polygon rooms whole, whatever the lock', () => {
+    // An L-shaped kitchen approved in the corner
+    const polygon = [{ x: 2, y: 3 }, { x: 6, y: 3 }, { x: 6, y: 5 }, { x: 4, y: 5 }, { x: 4, y: 6 }, { x: 2, y: 6 }];
+    const approved = { ...APPROVED, polygon };
+    const shifted = restore(kitchen({ x: 3, polygon: polygon.map(p => ({ x: p.x + 1, y: p.y })) }), 'position', approved);
+    assert.deepEqual(shifted.room, approved);
+    // A rectangle drawn over an approved rectangle loses its outline
+    const drawn = restore(kitchen({ width: 5, polygon: [{ x: 2, y: 3 }, { x: 7, y: 3 }, { x: 2, y: 6 }] }), 'size');
+    assert.equal(drawn.room.polygon, undefined);
+    assert.deepEqual(outline(drawn.room), [2, 3, 4, 3]);
+  });
+
+  it('leaves the rooms alone when every lock holds', () => {
+    const rooms = [LIVING, kitchen({ x: 7 })];
+    const result = restoreLockedRooms(rooms, [lock('size'), lock('orientation')]);
+    assert.equal(result.rooms, rooms);
+    assert.deepEqual(result.reverted, []);
+  });
+
+  it('re-derives the plan around the restored rooms', () => {
+    const plan = buildPlanGraph([LIVING, kitchen({ x: 7, y: 8 })], ['Refined'], PLOT);
+    assert.equal(enforceRoomLocks(plan, undefined, PLOT), plan);
+    assert.equal(enforceRoomLocks(plan, [lock('size')], PLOT), plan);
+
+    const enforced = enforceRoomLocks(plan, [lock('position')], PLOT);
+    assert.deepEqual(enforced.designLog, ['Refined', 'Reverted the position of locked room Kitchen']);
+    const restored = enforced.rooms.find(r => r.id === 'kitchen')!;
+    assert.deepEqual([restored.centerX, restored.centerY], [4, 4.5]);
+    assert.notEqual(restored.direction, plan.rooms.find(r => r.id === 'kitchen')!.direction);
+    assert.equal(enforced.builtUpArea, plan.builtUpArea);
+  });
+});
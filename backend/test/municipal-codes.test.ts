@@ -0,0 +1,126 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { MunicipalConfig } from '../src/types/agent.types.js';
+import {
+  DEFAULT_MUNICIPAL_CODE,
+  getMunicipalCode,
+  listMunicipalCodes,
+  loadMunicipalCodes,
+  resolveSiteLimits,
+} from '../src/validators/municipal-codes.js';
+
+const definition = (version: string, effectiveFrom: string, extra = '') => `
+id: TEST
+name: Test Authority
+version: "${version}"
+effectiveFrom: "${effectiveFrom}"
+maxFAR: 2
+maxGroundCoverage: 0.6
+minCorridorWidth: 1
+minVentilationRatio: 0.1
+minRoomSizes: { kitchen: 5 }
+defaultSetbacks: { front: 3, left: 1.5, right: 1.5, rear: 1.5 }
+${extra}`;
+
+describe('municipal code registry', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'codes-'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+    loadMunicipalCodes();
+  });
+
+  it('loads every shipped code file, NBC first', async () => {
+    const files = await readdir(new URL('../codes', import.meta.url));
+    const codes = listMunicipalCodes();
+    assert.equal(codes.length, files.length);
+    assert.equal(codes[0].id, DEFAULT_MUNICIPAL_CODE);
+    assert.equal(getMunicipalCode('BBMP (Bengaluru)')?.id, 'BBMP');
+  });
+
+  it('skips definitions the schema rejects and keeps the rest', async () => {
+    await writeFile(join(dir, 'test-2010.yaml'), definition('2010', '2010-01-01'));
+    await writeFile(join(dir, 'coverage.yaml'), definition('2011', '2011-01-01').replace('0.6', '1.5'));
+    await writeFile(join(dir, 'date.yml'), definition('2012', '01/01/2012'));
+    await writeFile(join(dir, 'missing.yaml'), definition('2013', '2013-01-01').replace(/^maxFAR: 2$/m, ''));
+    await writeFile(join(dir, 'slab.yaml'), definition('2014', '2014-01-01', 'farSlabs:\n  - maxRoadWidth: 12'));
+    await writeFile(join(dir, 'syntax.yaml'), 'id: [TEST\n');
+    await writeFile(join(dir, 'notes.txt'), 'not a code');
+
+    const registry = loadMunicipalCodes(dir);
+    assert.deepEqual([...registry.keys()], ['TEST']);
+    assert.deepEqual(registry.get('TEST')!.map(code => code.version), ['2010']);
+  });
+
+  it('applies the version in force on the given date', async () => {
+    await writeFile(join(dir, 'test-2020.yaml'), definition('2020', '2020-04-01'));
+    loadMunicipalCodes(dir);
+
+    assert.equal(getMunicipalCode('test', new Date('2020-03-31'))?.version, '2010');
+    assert.equal(getMunicipalCode('test', new Date('2020-04-01'))?.version, '2020');
+    assert.equal(getMunicipalCode('Test Authority', new Date('2005-01-01'))?.version, '2010');
+    assert.deepEqual(listMunicipalCodes(new Date('2021-01-01')).map(code => code.version), ['2020']);
+    assert.equal(getMunicipalCode('NBC'), undefined);
+  });
+});
+
+describe('site limits', () => {
+  const config: MunicipalConfig = {
+    maxFAR: 2,
+    maxGroundCoverage: 0.6,
+    minRoomSizes: {},
+    minCorridorWidth: 1,
+    minVentilationRatio: 0.1,
+    defaultSetbacks: { front: 3, left: 1.5, right: 1.5, rear: 1.5 },
+    setbackSlabs: [
+      { minHeight: 15, setbacks: { front: 6, left: 4, right: 4, rear: 4 } },
+      { maxPlotArea: 100, setbacks: { front: 1, left: 0.5, right: 0.5, rear: 0.5 } },
+      { maxPlotArea: 250, setbacks: { front: 2, left: 1, right: 2.5, rear: 1 } },
+    ],
+    farSlabs: [
+      { maxRoadWidth: 9, maxFAR: 1.5 },
+      { minRoadWidth: 9, maxRoadWidth: 18, maxFAR: 2.25, maxGroundCoverage: 0.5 },
+    ],
+  };
+
+  it('takes setbacks from the first slab the site falls in', () => {
+    assert.equal(resolveSiteLimits(config, { plotArea: 80, buildingHeight: 20 }).setbacks.front, 6);
+    assert.equal(resolveSiteLimits(config, { plotArea: 80, buildingHeight: 7 }).setbacks.front, 1);
+    // Upper bounds are exclusive
+    assert.equal(resolveSiteLimits(config, { plotArea: 100, buildingHeight: 7 }).setbacks.front, 2);
+    const large = resolveSiteLimits(config, { plotArea: 400, buildingHeight: 7 });
+    assert.deepEqual(large.setbacks, config.defaultSetbacks);
+    assert.equal(large.notes[0], 'Setbacks from authority defaults');
+  });
+
+  it('takes FAR and coverage from the road-width slab', () => {
+    const narrow = resolveSiteLimits(config, { plotArea: 200, roadWidth: 6, buildingHeight: 7 });
+    assert.deepEqual([narrow.maxFAR, narrow.maxGroundCoverage], [1.5, 0.6]);
+    const wide = resolveSiteLimits(config, { plotArea: 200, roadWidth: 12, buildingHeight: 7 });
+    assert.deepEqual([wide.maxFAR, wide.maxGroundCoverage], [2.25, 0.5]);
+    assert.equal(resolveSiteLimits(config, { plotArea: 200, roadWidth: 18, buildingHeight: 7 }).maxFAR, 2);
+  });
+
+  it('falls back to the default FAR when the road width is unknown', () => {
+    const limits = resolveSiteLimits(config, { plotArea: 200, buildingHeight: 7 });
+    assert.equal(limits.maxFAR, 2);
+    assert.ok(limits.notes.some(note => note.includes('road width not given')));
+  });
+
+  it('gives the road side of a corner plot at least the front setback', () => {
+    const left = resolveSiteLimits(config, { plotArea: 200, buildingHeight: 7, cornerSide: 'left' });
+    assert.deepEqual(left.setbacks, { front: 2, left: 2, right: 2.5, rear: 1 });
+    // A side already wider than the front keeps its setback
+    const right = resolveSiteLimits(config, { plotArea: 200, buildingHeight: 7, cornerSide: 'right' });
+    assert.deepEqual(right.setbacks, { front: 2, left: 1, right: 2.5, rear: 1 });
+    // The slab table itself is left untouched
+    assert.equal(config.setbackSlabs![2].setbacks.left, 1);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { OrchestrationCheckpoint } from '../src/types/agent.types.js';
+import type { ProgressCallback } from '../src/orchestrator/design.orchestrator.js';
+import { loadCassette, replayCassette, summarizeOutcome } from './harness/cassette.js';
+
+/** Records the agents a run starts, in order */
+function agentLog(): { agents: string[]; onProgress: ProgressCallback } {
+  const agents: string[] = [];
+  return {
+    agents,
+    onProgress: (event) => {
+      if (event.type === 'agent_start') agents.push(event.data.agent);
+    },
+  };
+}
+
+describe('orchestrator checkpoints', () => {
+  it('resumes from every checkpoint to the recorded outcome without repeating agents', async () => {
+    const cassette = await loadCassette('strict-vastu');
+    const checkpoints: OrchestrationCheckpoint[] = [];
+    const full = agentLog();
+    await replayCassette(cassette, full.onProgress, {
+      // Stored as the file job store would store it
+      onCheckpoint: (checkpoint) => { checkpoints.push(JSON.parse(JSON.stringify(checkpoint))); },
+    });
+    assert.deepEqual(checkpoints.map(c => c.phase), ['spec', 'spatial', 'iteration', 'refinement', 'iteration', 'cost', 'furniture']);
+
+    for (const [index, checkpoint] of checkpoints.entries()) {
+      const resumed = agentLog();
+      const result = await replayCassette(cassette, resumed.onProgress, { resumeFrom: checkpoint });
+      assert.deepEqual(summarizeOutcome(result), cassette.expected, `resumed after ${checkpoint.phase} #${index}`);
+      assert.ok(resumed.agents.length < full.agents.length && !resumed.agents.includes('InputAgent'), checkpoint.phase);
+      // Only the agents after the checkpoint run again
+      assert.deepEqual(resumed.agents, full.agents.slice(full.agents.length - resumed.agents.length));
+    }
+  });
+
+  it('stops a cancelled run and finishes it on resume', async () => {
+    const cassette = await loadCassette('strict-vastu');
+    const controller = new AbortController();
+    let lastCheckpoint: OrchestrationCheckpoint | undefined;
+    const cancelled = agentLog();
+
+    await assert.rejects(
+      replayCassette(cassette, (event) => {
+        cancelled.onProgress(event);
+        if (event.type === 'agent_start' && event.data.agent === 'RefinementAgent') {
+          controller.abort(new Error('Generation cancelled'));
+        }
+      }, {
+        signal: controller.signal,
+        onCheckpoint: (checkpoint) => { lastCheckpoint = checkpoint; },
+      }),
+      /Generation cancelled/
+    );
+    assert.equal(lastCheckpoint?.phase, 'iteration');
+    assert.equal(cancelled.agents.at(-1), 'RefinementAgent');
+
+    const resumed = agentLog();
+    const result = await replayCassette(cassette, resumed.onProgress, { resumeFrom: lastCheckpoint });
+    assert.deepEqual(summarizeOutcome(result), cassette.expected);
+    // The cancelled refinement runs again, after the repair pass that precedes it
+    assert.deepEqual(resumed.agents.slice(0, 2), ['PlanRepair', 'RefinementAgent']);
+  });
+});
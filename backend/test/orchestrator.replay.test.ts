@@ -0,0 +1,296 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LLMProvider, OrchestrationResult } from '../src/types/agent.types.js';
+import type { ComplianceItem, GeneratedPlan, Room } from '../src/types/shared.types.js';
+import { InputAgent } from '../src/agents/input.agent.js';
+import { LLM_PROVIDERS, setProvider } from '../src/models/llm.provider.js';
+import { modifyPlan } from '../src/orchestrator/plan.modifier.js';
+import { resolveScoringConfig } from '../src/scoring/plan.scorer.js';
+import { buildPlanGraph, evaluatePlan, introducedCriticalViolations } from '../src/scoring/plan.evaluation.js';
+import { listCassettes, loadCassette, replayCassette, summarizeOutcome } from './harness/cassette.js';
+
+const rules = (items: ComplianceItem[], status?: ComplianceItem['status']) =>
+  items.filter(item => !status || item.status === status).map(item => item.rule);
+
+async function replay(name: string): Promise<OrchestrationResult> {
+  return replayCassette(await loadCassette(name));
+}
+
+describe('orchestrator replay', async () => {
+  for (const name of await listCassettes()) {
+    it(`${name} reproduces the recorded outcome`, async () => {
+      const cassette = await loadCassette(name);
+      const result = await replayCassette(cassette);
+      assert.deepEqual(summarizeOutcome(result), cassette.expected);
+    });
+  }
+
+  it('checks setbacks on every starter config', async () => {
+    for (const name of await listCassettes()) {
+      const result = await replay(name);
+      assert.ok(rules(result.finalPlan.compliance.regulatory).includes('Setback Compliance'), name);
+    }
+  });
+
+  it('places a staircase on both floors of the duplex', async () => {
+    const { finalPlan } = await replay('duplex-residential');
+    assert.equal(finalPlan.floors?.length, 2);
+    for (const floor of finalPlan.floors!) {
+      assert.ok(floor.rooms.some(r => r.name === 'Staircase'), floor.floorLabel);
+    }
+  });
+
+  it('refines a strict Vastu plan until it passes', async () => {
+    const { iterations, finalPlan, converged } = await replay('strict-vastu');
+    assert.ok(rules(finalPlan.compliance.cultural).some(rule => rule.startsWith('VASTU_')));
+    assert.ok(iterations.length > 1);
+    assert.equal(iterations[0].score.passesThreshold, false);
+    assert.ok(converged);
+    assert.ok(iterations[iterations.length - 1].score.finalScore > iterations[0].score.finalScore);
+  });
+
+  it('scores with the project weights', async () => {
+    const cassette = await loadCassette('duplex-residential');
+    const weights = { regulatory: 0.5, cultural: 0.1, geometry: 0.2, spatial: 0.1, livability: 0.1 };
+    const { finalScore } = await replayCassette({
+      ...cassette,
+      config: { ...cassette.config, scoring: { weights } },
+    });
+    assert.deepEqual(finalScore.breakdown.map(b => b.weight), Object.values(weights));
+    assert.notEqual(Math.round(finalScore.finalScore * 1e4) / 1e4, cassette.expected.finalScore);
+  });
+
+  it('derives spatial efficiency and livability from the metrics, not the critic', async () => {
+    const { iterations } = await replay('strict-vastu');
+    for (const { score, spatialMetrics } of iterations) {
+      const category = (name: string) => score.breakdown.find(b => b.category === name)!.score;
+      assert.equal(category('Spatial Efficiency'), spatialMetrics.efficiencyScore);
+      assert.equal(category('Livability'), spatialMetrics.livabilityScore);
+    }
+    // The refined plan leaves the second bedroom without an outside wall
+    const refined = iterations[1].spatialMetrics;
+    assert.ok(refined.rooms.some(r => r.roomName === 'Bedroom' && r.exteriorWallLength === 0));
+    assert.ok(refined.exposureScore < 1);
+  });
+
+  it('connects the duplex floors through the staircase', async () => {
+    const { finalPlan, iterations } = await replay('duplex-residential');
+    assert.ok(rules(finalPlan.compliance.regulatory, 'PASS').includes('Room Access'));
+    // The brief asks for a dining room the plan does not have
+    assert.ok(rules(finalPlan.compliance.regulatory, 'WARN').includes('Adjacency: Kitchen adjacent to Dining Room'));
+    const stairs = finalPlan.rooms.filter(r => r.name === 'Staircase').map(r => r.id);
+    const { adjacencies } = iterations[iterations.length - 1].plan;
+    assert.ok(adjacencies.some(e => stairs.includes(e.room1Id) && stairs.includes(e.room2Id) && e.connected));
+  });
+
+  it('checks escape routes on every starter config', async () => {
+    for (const name of await listCassettes()) {
+      const { finalPlan } = await replay(name);
+      assert.ok(rules(finalPlan.compliance.fireSafety ?? [], 'PASS').includes('Main Door Width'), name);
+      assert.ok(rules(finalPlan.compliance.fireSafety ?? [], 'PASS').includes('Travel Distance'), name);
+    }
+    // The office corridor only opens onto the lobby in its middle, leaving 9m either side
+    const { iterations } = await replay('commercial-office');
+    const { egressResult, regulatoryResult, score } = iterations[0];
+    assert.deepEqual(egressResult.violations.map(v => [v.category, v.roomName]), [['dead_end', 'Corridor']]);
+    const regulatory = score.breakdown.find(b => b.category === 'Regulatory & Fire Safety')!;
+    assert.equal(regulatory.score, (regulatoryResult.score + egressResult.score) / 2);
+  });
+
+  it('refines a triplex until its floors stack, whatever the score', async () => {
+    const { iterations, finalPlan, converged } = await replay('stacked-triplex');
+    const first = iterations[0];
+    assert.equal(first.score.passesThreshold, true);
+    assert.deepEqual(
+      first.structuralResult!.violations.map(v => [v.category, v.roomName, v.floor]),
+      [['stair_alignment', 'Staircase', 2], ['wet_stack', 'Bathroom 3', 2]]
+    );
+    assert.equal(iterations.length, 2);
+    assert.ok(converged);
+    for (const rule of ['Floor Coverage', 'Staircase Alignment', 'Upper-Floor Support', 'Wet Area Stacking']) {
+      assert.ok(rules(finalPlan.compliance.regulatory, 'PASS').includes(rule), rule);
+    }
+    assert.deepEqual(finalPlan.floors!.map(f => f.rooms.every(r => r.floor === f.floorNumber)), [true, true, true]);
+  });
+
+  it('lays out a column grid within the span limit and prices it', async () => {
+    for (const name of await listCassettes()) {
+      const { structure, bom } = (await replay(name)).finalPlan;
+      assert.ok(structure!.longestSpan <= structure!.maxSpan, name);
+      const ids = new Set(structure!.columns.map(c => c.id));
+      assert.ok(structure!.beams.every(b => ids.has(b.from) && ids.has(b.to)), name);
+      const columns = bom.find(item => item.material.startsWith('RCC Columns'));
+      assert.equal(columns?.quantity, String(structure!.columns.length), name);
+    }
+    // Every column of the stacked triplex runs from the ground to the top floor
+    const { structure } = (await replay('stacked-triplex')).finalPlan;
+    assert.ok(structure!.columns.every(c => c.fromFloor === 0 && c.toFloor === 2));
+    assert.deepEqual([...new Set(structure!.beams.map(b => b.floor))], [0, 1, 2]);
+  });
+
+  it('checks accessibility only when the project asks for it', async () => {
+    for (const name of await listCassettes()) {
+      const cassette = await loadCassette(name);
+      const { finalPlan } = await replayCassette(cassette);
+      assert.equal(finalPlan.compliance.accessibility !== undefined, cassette.config.accessibility !== undefined, name);
+    }
+    // The first draft puts every bedroom upstairs behind a stepped entrance
+    const { iterations, finalPlan, converged } = await replay('accessible-duplex');
+    const [first, last] = [iterations[0], iterations[iterations.length - 1]];
+    assert.equal(first.score.passesThreshold, false);
+    assert.ok(first.accessibilityResult!.violations.some(v => v.category === 'step_free_entrance'));
+    assert.ok(first.accessibilityResult!.violations.some(v => v.category === 'ground_floor_suite'));
+    assert.ok(converged);
+    assert.deepEqual(rules(finalPlan.compliance.accessibility!, 'FAIL'), []);
+    const livability = last.score.breakdown.find(b => b.category === 'Livability')!;
+    assert.equal(livability.score, (last.spatialMetrics.livabilityScore + last.accessibilityResult!.score) / 2);
+  });
+
+  it('draws the first plan with the layout solver when the project asks for it', async () => {
+    const cassette = await loadCassette('solver-vastu');
+    const prompts = Object.values(cassette.fixtures).map(f => f.prompt);
+    assert.ok(!prompts.some(p => p.includes('Senior Principal Architect')));
+    await assert.rejects(
+      replayCassette({ ...cassette, config: { ...cassette.config, layoutEngine: 'llm' } }),
+      /No recorded response/
+    );
+    const { iterations, converged } = await replayCassette(cassette);
+    const [first] = iterations;
+    assert.ok(converged);
+    assert.deepEqual(first.geometryResult.violations, []);
+    assert.deepEqual(first.culturalResult.violations, []);
+    const room = (name: string) => first.plan.rooms.find(r => r.name === name)!;
+    assert.equal(room('Kitchen').direction, 'SE');
+    assert.equal(room('Master Bedroom').direction, 'SW');
+    assert.ok(room('Master Bedroom').width * room('Master Bedroom').height >= 12);
+  });
+
+  it('hands the solver plan to the LLM as a seed in hybrid mode', async () => {
+    // The hybrid cassette's spatial response is the seed returned unchanged (see its description)
+    const cassette = await loadCassette('hybrid-vastu');
+    const agents: string[] = [];
+    const { iterations, converged } = await replayCassette(cassette, (event) => {
+      if (event.type === 'agent_start') agents.push(event.data.agent);
+    });
+    assert.deepEqual(agents.slice(0, 3), ['InputAgent', 'LayoutSolver', 'SpatialAgent']);
+    assert.ok(converged);
+
+    // The prompt lists every room the solver drew for the same brief, setbacks aside
+    const prompt = Object.values(cassette.fixtures).map(f => f.prompt).find(p => p.includes('Senior Principal Architect'))!;
+    assert.ok(prompt.includes('**SEED LAYOUT**'));
+    const seed = (await replay('solver-vastu')).iterations[0].plan;
+    for (const r of seed.rooms.filter(r => r.type !== 'setback')) {
+      assert.ok(prompt.includes(`- ${r.name} (${r.type}): x=${r.x}, y=${r.y}, ${r.width}m x ${r.height}m`), r.name);
+    }
+    assert.ok(!prompt.includes('Front Setback (setback)'));
+    assert.deepEqual(iterations[0].geometryResult.violations, []);
+  });
+
+  it('repairs what it can before asking the LLM to refine', async () => {
+    const cassette = await loadCassette('strict-vastu');
+    const { iterations, finalPlan } = await replayCassette(cassette);
+    const draftRooms = iterations[0].culturalResult.violations.map(v => v.roomName);
+    assert.ok(draftRooms.includes('Kitchen') && draftRooms.includes('Pooja Room'));
+    // Swapping rooms puts the kitchen in the south-east; the pooja room has no partner to swap with
+    const prompt = Object.values(cassette.fixtures).map(f => f.prompt).find(p => p.includes('REFINING an existing floor plan'))!;
+    assert.ok(!prompt.includes('cultural: Kitchen'));
+    assert.ok(prompt.includes('cultural: Pooja Room is in CENTER'));
+    const log = finalPlan.designLog!;
+    assert.ok(log.indexOf('--- Auto-Repair Pass ---') < log.indexOf('--- Refinement Pass ---'));
+    assert.ok(log.includes('Auto-repair: swapped Kitchen and Master Bedroom to move Kitchen to SE'));
+  });
+
+  it('keeps locked rooms where the client approved them', async () => {
+    const cassette = await loadCassette('locked-vastu');
+    const [lock] = cassette.config.roomLocks!;
+    const prompts = Object.values(cassette.fixtures).map(f => f.prompt);
+    assert.ok(prompts.filter(p => p.includes('REFINING an existing floor plan')).every(p => p.includes('**LOCKED ROOMS**')));
+    // The first refinement moves the kitchen to the south-east anyway; the move is undone before scoring
+    const { iterations, finalPlan, converged } = await replayCassette(cassette);
+    assert.ok(converged);
+    assert.ok(finalPlan.designLog!.includes('Reverted the position of locked room Kitchen'));
+    for (const { plan, lockResult } of iterations) {
+      const kitchen = plan.rooms.find(r => r.name === 'Kitchen')!;
+      assert.deepEqual([kitchen.x, kitchen.y], [lock.room.x, lock.room.y]);
+      assert.deepEqual(lockResult!.violations, []);
+    }
+    assert.ok(rules(finalPlan.compliance.regulatory, 'PASS').includes('Room Lock: Kitchen'));
+    assert.ok(!finalPlan.designLog!.some(line => line.startsWith('Auto-repair: swapped Kitchen')));
+
+    // A position lock leaves the refinement free to resize the kitchen where it stands
+    const refined = Object.values(cassette.fixtures)
+      .filter(f => f.prompt.includes('REFINING an existing floor plan'))
+      .map(f => (f.response as { rooms: Room[] }).rooms.find(r => r.name === 'Kitchen')!);
+    assert.deepEqual([refined[0].x, refined[0].y, refined[0].height], [9.5, 3, 4.5]);
+    const kitchen = iterations[1].plan.rooms.find(r => r.name === 'Kitchen')!;
+    assert.deepEqual([kitchen.x, kitchen.y, kitchen.width, kitchen.height], [lock.room.x, lock.room.y, 4, 4.5]);
+    assert.deepEqual(finalPlan.rooms.filter(r => r.name === 'Kitchen').map(r => [r.x, r.y]), [[lock.room.x, lock.room.y]]);
+  });
+
+  it('re-scores a plan sent back by the client as the loop scored it', async () => {
+    const cassette = await loadCassette('strict-vastu');
+    const { iterations } = await replayCassette(cassette);
+    const { data: spec } = await new InputAgent().execute(cassette.config);
+    const scoring = resolveScoringConfig(cassette.config.scoring);
+    const evaluations = iterations.map(({ plan, score }) => {
+      const evaluation = evaluatePlan(buildPlanGraph(plan.rooms, plan.designLog, spec.plotGeometry), spec, scoring);
+      assert.deepEqual(evaluation.score, score);
+      return evaluation;
+    });
+    // Going back to the first draft would put a bathroom in the Brahmasthan again
+    const [first, last] = [evaluations[0], evaluations[evaluations.length - 1]];
+    assert.deepEqual(introducedCriticalViolations(first, last), []);
+    assert.ok(introducedCriticalViolations(last, first).some(message => message.includes('Brahmasthan')));
+  });
+
+  it('applies a modification to a plan read from an image', async () => {
+    const cassette = await loadCassette('strict-vastu');
+    const { finalPlan, iterations } = await replay('strict-vastu');
+    // What /analyze-image returns: rooms without features or classification, one it could not place
+    const imagePlan: GeneratedPlan = {
+      ...finalPlan,
+      rooms: [
+        ...finalPlan.rooms.map(({ features: _features, ...room }) => room as Room),
+        { id: 'garden', name: 'Garden', type: 'outdoor', guidance: 'Lawn along the rear' } as Room,
+      ],
+    };
+    // The modifier hands back the generated plan, doors and windows included; the estimate is the recorded one
+    const cost = Object.values(cassette.fixtures).find(f => f.prompt.includes('Construction Cost Analyst'))!;
+    const model: LLMProvider = {
+      kind: 'replay',
+      generate: async ({ prompt }) => prompt.includes('**MODIFICATION REQUEST**')
+        ? { data: { designLog: ['Added the doors and windows'], rooms: structuredClone(finalPlan.rooms) }, model: 'modifier' }
+        : { data: structuredClone(cost.response), model: cost.model },
+    };
+
+    const agents: string[] = [];
+    for (const kind of LLM_PROVIDERS) setProvider(kind, model);
+    try {
+      const { plan, review } = await modifyPlan(imagePlan, 'Add the doors and windows', cassette.config, (event) => {
+        if (event.type === 'agent_start') agents.push(event.data.agent);
+      }, { rejectNewCritical: true });
+
+      assert.deepEqual(agents, ['InputAgent', 'PlanModifier', 'PlanValidator', 'CostAgent']);
+      assert.equal(plan.rooms.length, finalPlan.rooms.length);
+      assert.equal(review.scoreAfter, iterations[iterations.length - 1].score.finalScore);
+      assert.ok(review.scoreBefore < review.scoreAfter);
+      assert.deepEqual(review.newCriticalViolations, []);
+      assert.deepEqual(plan.bom, (cost.response as GeneratedPlan).bom);
+    } finally {
+      for (const kind of LLM_PROVIDERS) setProvider(kind, null);
+    }
+  });
+
+  it('reports no cultural rules when none are selected', async () => {
+    for (const name of ['simplex-residential', 'commercial-office']) {
+      const { finalPlan } = await replay(name);
+      assert.deepEqual(rules(finalPlan.compliance.cultural), ['Cultural Compliance'], name);
+    }
+  });
+
+  it('fails on a prompt the cassette does not cover', async () => {
+    const cassette = await loadCassette('simplex-residential');
+    const changed = { ...cassette, config: { ...cassette.config, width: cassette.config.width + 1 } };
+    await assert.rejects(replayCassette(changed), /No recorded response/);
+  });
+});
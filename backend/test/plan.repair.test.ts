@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FloorPlanGraph, NormalizedSpec } from '../src/types/agent.types.js';
+import type { ProjectConfig, Room, WallFeature } from '../src/types/shared.types.js';
+import { InputAgent } from '../src/agents/input.agent.js';
+import { solveLayout } from '../src/layout/layout.solver.js';
+import { repairPlan } from '../src/repair/plan.repair.js';
+import { buildPlanGraph } from '../src/scoring/plan.evaluation.js';
+import { STARTER_CONFIGS } from './harness/configs.js';
+
+// Both briefs: a 12x18m NBC plot, setbacks 3m front, 2m rear, 1.5m either side
+const starter = (name: string) => STARTER_CONFIGS.find(c => c.name === name)!.config;
+
+async function specFor(config: ProjectConfig): Promise<NormalizedSpec> {
+  return (await new InputAgent().execute({ ...config, adjacency: '' })).data;
+}
+
+const plan = (rooms: Room[], spec: NormalizedSpec) => buildPlanGraph(rooms, ['Drawn for the test'], spec.plotGeometry);
+const named = (plan: FloorPlanGraph, name: string) => plan.rooms.find(r => r.name === name)!;
+const outline = ({ x, y, width, height }: Room) => [x, y, width, height];
+
+/** The solver's plan for a brief, with some rooms moved or reshaped */
+function solved(spec: NormalizedSpec, changes: Record<string, Partial<Room>> = {}): FloorPlanGraph {
+  const rooms = solveLayout(spec).rooms.map(({ id, name, type, x, y, width, height, features, floor }): Room =>
+    ({ id, name, type, x, y, width, height, features, floor, ...changes[name] }));
+  return plan(rooms, spec);
+}
+
+/** Changes that put a room in another room's place, openings included */
+const at = (spot: Room): Partial<Room> => ({ x: spot.x, y: spot.y, width: spot.width, height: spot.height, features: spot.features });
+
+const door = (wall: WallFeature['wall'], position = 0.5, width = 0.9): WallFeature => ({ type: 'door', wall, position, width });
+
+/**
+ * A 2m corridor across the envelope: living room and kitchen in front of it,
+ * an undersized 3 x 2.5m bedroom and the master bedroom behind it
+ */
+function corridorPlan(spec: NormalizedSpec, changes: Record<string, Partial<Room>> = {}): FloorPlanGraph {
+  const rooms: Room[] = [
+    { id: 'living', name: 'Living Room', type: 'room', x: 1.5, y: 3, width: 5, height: 4, features: [door('top', 0.5, 1.2), door('bottom', 0.8)] },
+    { id: 'kitchen', name: 'Kitchen', type: 'room', x: 6.5, y: 3, width: 4, height: 4, features: [door('bottom')] },
+    { id: 'corridor', name: 'Corridor', type: 'circulation', x: 1.5, y: 7, width: 9, height: 2, features: [door('left', 0.25)] },
+    { id: 'bedroom', name: 'Bedroom', type: 'room', x: 1.5, y: 9, width: 3, height: 2.5, features: [door('top', 0.4)] },
+    { id: 'master', name: 'Master Bedroom', type: 'room', x: 4.5, y: 9, width: 6, height: 7, features: [door('top', 0.3), door('right', 0.2)] },
+  ];
+  return plan(rooms.map(r => ({ ...r, ...changes[r.name] })), spec);
+}
+
+describe('plan repair', () => {
+  it('cuts a room back to the setback line, keeping its openings where they were', async () => {
+    const spec = await specFor(starter('simplex-residential'));
+    // The living room reaches 0.5m into the front setback; its corridor door is 6.76m from the front either way
+    const draft = solved(spec, {
+      'Living Room': { y: 2.5, height: 6.2, features: [door('right', 0.687), { type: 'window', wall: 'left', position: 0.5, width: 2.29 }] },
+    });
+    const { plan: repaired, repairs } = repairPlan(draft, spec);
+    assert.deepEqual(repairs, ['Auto-repair: cut Living Room back to the setback line (now 3.85m x 5.7m)']);
+    const living = named(repaired, 'Living Room');
+    assert.deepEqual(outline(living), [1.5, 3, 3.85, 5.7]);
+    // Door and window stay where they were on their walls: 6.76m and 5.6m from the front
+    assert.deepEqual(living.features.map(f => [f.wall, f.position]), [['right', 0.66], ['left', 0.456]]);
+    assert.deepEqual(repaired.designLog, ['Drawn for the test', '--- Auto-Repair Pass ---', ...repairs]);
+  });
+
+  it('grows an undersized room into the corridor, moving the whole side of it', async () => {
+    const spec = await specFor(starter('simplex-residential'));
+    const { plan: repaired, repairs } = repairPlan(corridorPlan(spec), spec);
+    // 1.5 sq.m short over a 3m wall
+    assert.deepEqual(repairs, ['Auto-repair: grew Bedroom to 9 sq.m by narrowing Corridor']);
+    assert.deepEqual(outline(named(repaired, 'Corridor')), [1.5, 7, 9, 1.5]);
+    assert.deepEqual(outline(named(repaired, 'Bedroom')), [1.5, 8.5, 3, 3]);
+    assert.deepEqual(outline(named(repaired, 'Master Bedroom')), [4.5, 8.5, 6, 7.5]);
+    // The far side of the corridor stays put
+    assert.deepEqual(outline(named(repaired, 'Kitchen')), [6.5, 3, 4, 4]);
+    // Doors on the lengthened side walls stay put: 10.4m and 7.5m from the front
+    assert.deepEqual(named(repaired, 'Master Bedroom').features.map(f => [f.wall, f.position]), [['top', 0.3], ['right', 0.253]]);
+    assert.deepEqual(named(repaired, 'Corridor').features.map(f => [f.wall, f.position]), [['left', 0.333]]);
+    assert.ok(repaired.designLog.includes('Auto-repair: grew Bedroom to 9 sq.m by narrowing Corridor'));
+  });
+
+  it('leaves the corridor alone when it would get too narrow or the rooms do not tile its side', async () => {
+    const spec = await specFor(starter('simplex-residential'));
+    // 1.6 - 0.5 leaves 1.1m, under the 1.2m minimum
+    const narrow = corridorPlan(spec, {
+      Corridor: { height: 1.6 },
+      Bedroom: { y: 8.6 },
+      'Master Bedroom': { y: 8.6, height: 7.4 },
+    });
+    const result = repairPlan(narrow, spec);
+    assert.deepEqual(result.repairs, []);
+    assert.equal(result.plan, narrow);
+    // A 0.5m gap between the rooms behind the corridor
+    const gapped = corridorPlan(spec, { 'Master Bedroom': { x: 5, width: 5.5 } });
+    assert.deepEqual(repairPlan(gapped, spec).repairs, []);
+  });
+
+  it('swaps a room into its Vastu zone with a room of the same type', async () => {
+    const spec = await specFor(starter('solver-vastu'));
+    const original = solved(spec);
+    const [kitchen, master] = [named(original, 'Kitchen'), named(original, 'Master Bedroom')];
+    assert.deepEqual([kitchen.direction, master.direction], ['SE', 'SW']);
+    // The kitchen and master bedroom trade places, each taking the other's openings
+    const draft = solved(spec, { Kitchen: at(master), 'Master Bedroom': at(kitchen) });
+
+    const { plan: repaired, repairs } = repairPlan(draft, spec);
+    // One swap fixes both rooms
+    assert.deepEqual(repairs, ['Auto-repair: swapped Master Bedroom and Kitchen to move Master Bedroom to SW']);
+    for (const name of ['Kitchen', 'Master Bedroom']) {
+      const [before, after] = [named(original, name), named(repaired, name)];
+      assert.deepEqual([outline(after), after.features, after.direction], [outline(before), before.features, before.direction], name);
+    }
+  });
+
+  it('rejects a swap that moves a locked room or lowers another score', async () => {
+    const config = starter('solver-vastu');
+    const spec = await specFor(config);
+    const original = solved(spec);
+    const [kitchen, master, bedroom] = ['Kitchen', 'Master Bedroom', 'Bedroom'].map(name => named(original, name));
+
+    // The client approved the master bedroom where the draft has it
+    const draft = solved(spec, { Kitchen: at(master), 'Master Bedroom': at(kitchen) });
+    const approved = named(draft, 'Master Bedroom');
+    const locked = await specFor({ ...config, roomLocks: [{ roomId: approved.id, mode: 'position', room: approved }] });
+    const result = repairPlan(draft, locked);
+    assert.deepEqual(result.repairs, []);
+    assert.deepEqual(outline(named(result.plan, 'Kitchen')), outline(master));
+
+    // The kitchen next to the dining room, as the brief asks; the bedroom in the south-east
+    const beside = solved(spec, { Kitchen: at(bedroom), Bedroom: at(kitchen) });
+    assert.deepEqual(repairPlan(beside, spec).repairs, ['Auto-repair: swapped Kitchen and Bedroom to move Kitchen to SE']);
+    const paired = { ...spec, adjacencyPreferences: [{ room1: 'Kitchen', room2: 'Dining Room', relationship: 'adjacent' as const }] };
+    assert.deepEqual(repairPlan(beside, paired).repairs, []);
+  });
+});
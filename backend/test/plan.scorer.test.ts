@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ScoringConfig } from '../src/types/shared.types.js';
+import { DEFAULT_SCORING, MAX_ITERATION_BUDGET, resolveScoringConfig, scorePlan } from '../src/scoring/plan.scorer.js';
+import { loadCassette, replayCassette } from './harness/cassette.js';
+
+const WEIGHTS = { regulatory: 0.4, cultural: 0.1, geometry: 0.2, spatial: 0.2, livability: 0.1 };
+
+describe('scoring config', () => {
+  it('uses the defaults when the project sets none', () => {
+    assert.equal(resolveScoringConfig(undefined), DEFAULT_SCORING);
+    assert.deepEqual(resolveScoringConfig({}), DEFAULT_SCORING);
+  });
+
+  it('fills in what the project leaves out', () => {
+    assert.deepEqual(resolveScoringConfig({ threshold: 0.8 }), { ...DEFAULT_SCORING, threshold: 0.8 });
+    assert.deepEqual(resolveScoringConfig({ weights: WEIGHTS, maxIterations: 2 }), { ...DEFAULT_SCORING, weights: WEIGHTS, maxIterations: 2 });
+  });
+
+  it('requires the weights to sum to 1', () => {
+    assert.throws(() => resolveScoringConfig({ weights: { ...WEIGHTS, cultural: 0.2 } }), /scoring\.weights: weights must sum to 1/);
+    // Rounding in a client's sliders is tolerated
+    assert.deepEqual(resolveScoringConfig({ weights: { ...WEIGHTS, cultural: 0.1004 } }).weights, { ...WEIGHTS, cultural: 0.1004 });
+    assert.throws(() => resolveScoringConfig({ weights: { ...WEIGHTS, regulatory: 1.3, cultural: -0.8 } }), /scoring\.weights\.cultural/);
+    const { livability: _livability, ...missing } = WEIGHTS;
+    assert.throws(() => resolveScoringConfig({ weights: missing } as ScoringConfig), /scoring\.weights\.livability/);
+  });
+
+  it('keeps the threshold within (0, 1]', () => {
+    assert.equal(resolveScoringConfig({ threshold: 1 }).threshold, 1);
+    assert.throws(() => resolveScoringConfig({ threshold: 0 }), /scoring\.threshold/);
+    assert.throws(() => resolveScoringConfig({ threshold: 1.2 }), /scoring\.threshold/);
+  });
+
+  it(`caps the iteration budget at ${MAX_ITERATION_BUDGET}`, () => {
+    assert.equal(resolveScoringConfig({ maxIterations: MAX_ITERATION_BUDGET }).maxIterations, MAX_ITERATION_BUDGET);
+    assert.throws(() => resolveScoringConfig({ maxIterations: MAX_ITERATION_BUDGET + 1 }), /scoring\.maxIterations/);
+    assert.throws(() => resolveScoringConfig({ maxIterations: 0 }), /scoring\.maxIterations/);
+    assert.throws(() => resolveScoringConfig({ maxIterations: 2.5 }), /scoring\.maxIterations/);
+  });
+
+  it('lists every problem and refuses unknown settings', () => {
+    assert.throws(
+      () => resolveScoringConfig({ threshold: 2, maxIterations: 9 }),
+      /scoring\.threshold: .*; scoring\.maxIterations: /
+    );
+    assert.throws(() => resolveScoringConfig({ passes: 2 } as ScoringConfig), /Unrecognized key/);
+  });
+
+  it('weighs each category and compares with the threshold', () => {
+    const score = scorePlan(1, 0.5, 1, 0.5, 0, WEIGHTS, 0.7);
+    assert.deepEqual(score.breakdown.map(b => b.weightedScore), [0.4, 0.05, 0.2, 0.1, 0]);
+    assert.ok(Math.abs(score.finalScore - 0.75) < 1e-9);
+    assert.equal(score.passesThreshold, true);
+    assert.equal(scorePlan(1, 0.5, 1, 0.5, 0, WEIGHTS, 0.8).passesThreshold, false);
+  });
+});
+
+/**
+ * Runs the design loop on a recorded project with its scoring config changed,
+ * stopping it once the loop is done; the cost estimate for an unrecorded
+ * final plan has no response to replay.
+ */
+async function runLoop(changes: ScoringConfig) {
+  const cassette = await loadCassette('strict-vastu');
+  const controller = new AbortController();
+  const agents: string[] = [];
+  const scores: { finalScore: number; passesThreshold: boolean }[] = [];
+  await assert.rejects(
+    replayCassette({ ...cassette, config: { ...cassette.config, scoring: { ...cassette.config.scoring, ...changes } } }, (event) => {
+      if (event.type === 'score_update') scores.push(event.data);
+      if (event.type !== 'agent_start') return;
+      agents.push(event.data.agent);
+      if (event.data.agent === 'CostAgent') controller.abort(new Error('Loop finished'));
+    }, { signal: controller.signal }),
+    /Loop finished/
+  );
+  return { agents, scores };
+}
+
+describe('scoring config in the design loop', () => {
+  // The strict Vastu draft misses the project's 0.8 threshold and is refined once before it passes
+  it('stops at the project threshold', async () => {
+    const { agents, scores } = await runLoop({ threshold: 0.7 });
+    assert.equal(scores.length, 1);
+    assert.ok(scores[0].passesThreshold && scores[0].finalScore < 0.8);
+    assert.ok(!agents.includes('RefinementAgent'));
+  });
+
+  it('stops at the project iteration budget', async () => {
+    const { agents, scores } = await runLoop({ maxIterations: 1 });
+    assert.deepEqual(scores.map(s => s.passesThreshold), [false]);
+    assert.ok(!agents.includes('RefinementAgent'));
+  });
+
+  it('refuses to start with an invalid config', async () => {
+    const cassette = await loadCassette('strict-vastu');
+    await assert.rejects(
+      replayCassette({ ...cassette, config: { ...cassette.config, scoring: { maxIterations: MAX_ITERATION_BUDGET + 1 } } }),
+      /Invalid scoring config/
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Point } from '../src/types/shared.types.js';
+import {
+  clipToConvex,
+  normalizeRoomShape,
+  offsetPolygon,
+  plotArea,
+  pointInPolygon,
+  polygonArea,
+  polygonInPolygon,
+  rectPolygonIntersectionArea,
+  rectToPolygon,
+  roomUnionAreaInPolygon,
+} from '../src/utils/polygon.utils.js';
+
+const points = (...coords: [number, number][]): Point[] => coords.map(([x, y]) => ({ x, y }));
+
+/** 20 m frontage, rear-right quarter cut away */
+const L_PLOT = points([0, 0], [20, 0], [20, 10], [10, 10], [10, 20], [0, 20]);
+/** Right side narrows from 12 m at the front to 10 m at the rear */
+const TAPERED_PLOT = points([0, 0], [12, 0], [10, 15], [0, 15]);
+
+function distanceToLine(p: Point, a: Point, b: Point): number {
+  return Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function assertPointsClose(actual: Point[], expected: Point[]): void {
+  assert.equal(actual.length, expected.length);
+  actual.forEach((p, i) => {
+    assert.ok(Math.abs(p.x - expected[i].x) < 1e-9 && Math.abs(p.y - expected[i].y) < 1e-9,
+      `vertex ${i}: (${p.x}, ${p.y}) != (${expected[i].x}, ${expected[i].y})`);
+  });
+}
+
+describe('irregular plots', () => {
+  it('measures a concave plot', () => {
+    assert.equal(plotArea({ width: 20, depth: 20, boundary: L_PLOT }), 300);
+    assert.equal(plotArea({ width: 20, depth: 20 }), 400);
+    assert.ok(pointInPolygon({ x: 5, y: 15 }, L_PLOT));
+    assert.ok(!pointInPolygon({ x: 15, y: 15 }, L_PLOT));
+    // Half of this rectangle lies in the cut-away corner
+    assert.equal(rectPolygonIntersectionArea({ x: 5, y: 5, width: 10, height: 10 }, L_PLOT), 75);
+  });
+
+  it('sets back each edge of a concave plot by the side it faces', () => {
+    const envelope = offsetPolygon(L_PLOT, { front: 3, rear: 1, left: 2, right: 1.5 });
+    // The inner corner's edges face the rear and the right
+    assertPointsClose(envelope, points([2, 3], [18.5, 3], [18.5, 9], [8.5, 9], [8.5, 19], [2, 19]));
+    assert.equal(polygonArea(envelope), 164);
+  });
+
+  it('sets back a slanted edge along its normal', () => {
+    const envelope = offsetPolygon(TAPERED_PLOT, { front: 2, rear: 1, left: 1, right: 1.5 });
+    assert.equal(envelope.length, 4);
+    assert.ok(envelope.every(p => pointInPolygon(p, TAPERED_PLOT)));
+    // Vertices 1 and 2 lie on the slanted edge's offset line
+    for (const p of [envelope[1], envelope[2]]) {
+      assert.ok(Math.abs(distanceToLine(p, TAPERED_PLOT[1], TAPERED_PLOT[2]) - 1.5) < 1e-9);
+    }
+    assert.ok(Math.abs(envelope[1].y - 2) < 1e-9 && Math.abs(envelope[2].y - 14) < 1e-9);
+    assert.ok(Math.abs(envelope[0].x - 1) < 1e-9 && Math.abs(envelope[3].x - 1) < 1e-9);
+  });
+
+  it('gives the same envelope whichever way the outline winds', () => {
+    const setbacks = { front: 3, rear: 1, left: 2, right: 1.5 };
+    const clockwise = offsetPolygon(L_PLOT, setbacks);
+    const anticlockwise = offsetPolygon([...L_PLOT].reverse(), setbacks);
+    assert.equal(polygonArea(anticlockwise), polygonArea(clockwise));
+    assert.ok(anticlockwise.every(p => clockwise.some(q => Math.hypot(p.x - q.x, p.y - q.y) < 1e-9)));
+  });
+});
+
+describe('polygon rooms', () => {
+  const room = (x: number, y: number, width: number, height: number, polygon?: Point[]) => ({ x, y, width, height, polygon });
+
+  it('clips a concave outline to a convex one of either winding', () => {
+    assert.equal(polygonArea(clipToConvex(L_PLOT, rectToPolygon({ x: 5, y: 5, width: 10, height: 10 }))), 75);
+    // Everything of the L on the near side of x + y = 20
+    const triangle = points([0, 0], [0, 20], [20, 0]);
+    assert.equal(polygonArea(clipToConvex(L_PLOT, triangle)), 200);
+    assert.equal(polygonArea(clipToConvex(L_PLOT, [...triangle].reverse())), 200);
+    assert.deepEqual(clipToConvex(L_PLOT, rectToPolygon({ x: 12, y: 12, width: 5, height: 5 })), []);
+  });
+
+  it('rejects a room that straddles the notch of a concave plot', () => {
+    assert.ok(polygonInPolygon(rectToPolygon({ x: 1, y: 1, width: 8, height: 8 }), L_PLOT));
+    // All three corners are on the plot, but the inner corner (10, 10) is inside the room
+    assert.ok(!polygonInPolygon(points([1, 1], [19, 2], [2, 19]), L_PLOT));
+    assert.ok(!polygonInPolygon(rectToPolygon({ x: 15, y: 5, width: 5.05, height: 4 }), L_PLOT));
+    assert.ok(polygonInPolygon(rectToPolygon({ x: 15, y: 5, width: 5.05, height: 4 }), L_PLOT, 0.1));
+  });
+
+  it('counts the built-up area of rooms within a concave plot', () => {
+    // Overlapping rooms count once; the part over the cut-away corner not at all
+    const rects = [room(0, 0, 20, 10), room(0, 10, 10, 10), room(5, 5, 10, 10)];
+    assert.equal(roomUnionAreaInPolygon(rects, L_PLOT), 300);
+    assert.equal(roomUnionAreaInPolygon([room(5, 5, 10, 10)], L_PLOT), 75);
+    assert.equal(roomUnionAreaInPolygon([room(5, 5, 0, 10)], L_PLOT), 0);
+  });
+
+  it('counts an L-shaped room by its outline', () => {
+    const square = rectToPolygon({ x: 0, y: 0, width: 20, height: 20 });
+    const lRoom = room(0, 0, 20, 20, L_PLOT);
+    assert.equal(roomUnionAreaInPolygon([lRoom], square), 300);
+    assert.equal(roomUnionAreaInPolygon([lRoom, room(10, 10, 10, 10)], square), 400);
+    // The front arm up to the slanted side (120 - 20/3) and the whole rear arm (50)
+    assert.ok(Math.abs(roomUnionAreaInPolygon([lRoom], TAPERED_PLOT) - 490 / 3) < 1e-9);
+  });
+
+  it('derives the bounding box and feature walls from the outline', () => {
+    const normalized = normalizeRoomShape({
+      id: 'living', name: 'Living Room', type: 'room', x: 3, y: 3, width: 1, height: 1,
+      polygon: L_PLOT,
+      features: [
+        { type: 'door', wall: 'top', position: 0.5, width: 1, edge: 2 },
+        { type: 'window', wall: 'top', position: 0.5, width: 1.5, edge: 9 },
+        { type: 'window', wall: 'left', position: 0.5, width: 1 },
+      ],
+    });
+    assert.deepEqual([normalized.x, normalized.y, normalized.width, normalized.height], [0, 0, 20, 20]);
+    assert.deepEqual(normalized.features.map(f => [f.edge, f.wall]), [[2, 'bottom'], [3, 'right'], [undefined, 'left']]);
+
+    const flat = normalizeRoomShape({
+      id: 'hall', name: 'Hall', type: 'circulation', x: 0, y: 0, width: 2, height: 5,
+      polygon: points([0, 0], [2, 5]),
+      features: [],
+    });
+    assert.equal('polygon' in flat, false);
+  });
+});
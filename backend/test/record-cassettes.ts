@@ -0,0 +1,27 @@
+/**
+ * Re-records the starter cassettes against the configured providers
+ * (normally Gemini; needs GEMINI_API_KEY in the environment).
+ *
+ *   npm run test:record                       # all starter configs
+ *   npm run test:record -- strict-vastu       # selected cassettes only
+ */
+import 'dotenv/config';
+import { STARTER_CONFIGS } from './harness/configs.js';
+import { recordCassette, saveCassette } from './harness/cassette.js';
+
+const only = process.argv.slice(2);
+const selected = only.length > 0 ? STARTER_CONFIGS.filter(c => only.includes(c.name)) : STARTER_CONFIGS;
+
+if (selected.length === 0) {
+  console.error(`No starter config named ${only.join(', ')}`);
+  process.exit(1);
+}
+
+for (const { name, description, config } of selected) {
+  const cassette = await recordCassette(name, description, config);
+  await saveCassette(cassette);
+  console.log(
+    `${name}: ${Object.keys(cassette.fixtures).length} responses, score ${cassette.expected.finalScore}` +
+    `${cassette.expected.converged ? ' (converged)' : ''}`
+  );
+}
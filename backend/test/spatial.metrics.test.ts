@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlotGeometry } from '../src/types/agent.types.js';
+import type { Room, WallFeature } from '../src/types/shared.types.js';
+import { BuildingType } from '../src/types/shared.types.js';
+import { computeSpatialMetrics } from '../src/scoring/spatial.metrics.js';
+import { buildAdjacencyGraph } from '../src/utils/adjacency.utils.js';
+import { enrichRoomsWithDirection } from '../src/utils/direction.utils.js';
+
+const PLOT: PlotGeometry = { width: 30, depth: 30 };
+const DEPTH = 5;
+
+type RowRoom = [name: string, width: number, options?: { type?: Room['type']; window?: number }];
+
+/** Rooms side by side along the front edge, each with a door into the next */
+function row(...specs: RowRoom[]): Room[] {
+  let x = 0;
+  return specs.map(([name, width, { type = 'room', window = 0 } = {}]: RowRoom, i) => {
+    const features: WallFeature[] = [];
+    if (i > 0) features.push({ type: 'door', wall: 'left', position: 0.5, width: 0.9 });
+    if (i < specs.length - 1) features.push({ type: 'door', wall: 'right', position: 0.5, width: 0.9 });
+    if (window > 0) features.push({ type: 'window', wall: 'top', position: 0.5, width: window });
+    const room: Room = { id: name.toLowerCase().replace(/\s+/g, '-'), name, type, x, y: 0, width, height: DEPTH, features };
+    x += width;
+    return room;
+  });
+}
+
+function metrics(rooms: Room[], projectType?: BuildingType) {
+  const enriched = enrichRoomsWithDirection(rooms, PLOT);
+  return computeSpatialMetrics(enriched, buildAdjacencyGraph(enriched), projectType);
+}
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+describe('spatial metrics', () => {
+  it('charges for circulation beyond a fifth of the usable area', () => {
+    const plan = (hallway: number) => metrics(row(['Living Room', 8], ['Hallway', hallway, { type: 'circulation' }], ['Bedroom', 8]));
+
+    const lean = plan(2);
+    assert.equal(lean.circulationRatio, 0.125);
+    assert.equal(lean.circulationScore, 1);
+    assert.ok(!lean.findings.some(f => f.startsWith('Circulation')));
+
+    const generous = plan(4);
+    assert.equal(generous.circulationRatio, 0.25);
+    close(generous.circulationScore, 0.8);
+    assert.ok(generous.findings.includes('Circulation is 25% of usable area (aim for at most 20%)'));
+    assert.equal(plan(8).circulationScore, 0);
+  });
+
+  it('measures daylight in habitable rooms against an eighth of the floor', () => {
+    const result = metrics(row(['Foyer', 3], ['Living Room', 4, { window: 2.5 }], ['Bedroom', 4, { window: 1 }]));
+    assert.deepEqual(result.rooms.map(r => [r.roomName, r.windowToFloorRatio]), [['Living Room', 0.15], ['Bedroom', 0.06]]);
+    // The living room counts in full, the bedroom for 0.06 / 0.125
+    close(result.lightingScore, 0.74);
+    assert.ok(result.findings.includes('Bedroom: window-to-floor ratio 6% (target 12.5%)'));
+    assert.ok(!result.findings.some(f => f.startsWith('Living Room: window')));
+  });
+
+  it('finds habitable rooms with no outside wall', () => {
+    // A bedroom in the middle of a 3 x 3 block of stores
+    const block: Room[] = [];
+    for (let col = 0; col < 3; col++) {
+      for (let line = 0; line < 3; line++) {
+        const name = col === 1 && line === 1 ? 'Bedroom' : `Store ${col}${line}`;
+        block.push({ id: name, name, type: col === 1 && line === 1 ? 'room' : 'service', x: col * 3, y: line * 3, width: 3, height: 3, features: [] });
+      }
+    }
+    const enclosed = metrics(block);
+    assert.equal(enclosed.rooms[0].exteriorWallLength, 0);
+    assert.equal(enclosed.exposureScore, 0);
+    assert.ok(enclosed.findings.includes('Bedroom has 0.0m of exterior wall (needs 1.5m)'));
+
+    const opened = metrics(block.filter(r => r.name !== 'Store 10'));
+    assert.equal(opened.rooms[0].exteriorWallLength, 3);
+    assert.equal(opened.exposureScore, 1);
+  });
+
+  it('wants bedrooms deeper from the entrance than the public rooms', () => {
+    const ordered = metrics(row(['Foyer', 3], ['Living Room', 4], ['Bedroom', 4]));
+    assert.deepEqual(ordered.rooms.map(r => r.depthFromEntrance), [1, 2]);
+    assert.equal(ordered.privacyScore, 1);
+
+    // Behind the foyer but in front of the living room
+    const exposed = metrics(row(['Foyer', 3], ['Bedroom', 4], ['Living Room', 4]));
+    assert.equal(exposed.privacyScore, 0.5);
+    assert.ok(exposed.findings.includes('Bedroom is no deeper from the entrance than Living Room'));
+    // Offices have no private zone to order
+    const office = metrics(row(['Foyer', 3], ['Bedroom', 4], ['Living Room', 4]), BuildingType.COMMERCIAL);
+    assert.equal(office.privacyScore, 1);
+    assert.ok(!office.findings.some(f => f.includes('no deeper')));
+  });
+
+  it('penalises rooms and service spaces that are too narrow for their length', () => {
+    const result = metrics([
+      { id: 'study', name: 'Study', type: 'room', x: 0, y: 0, width: 2, height: 6, features: [] },
+      { id: 'utility', name: 'Utility', type: 'service', x: 2, y: 0, width: 2, height: 5, features: [] },
+      { id: 'hall', name: 'Hallway', type: 'circulation', x: 4, y: 0, width: 1, height: 8, features: [] },
+    ]);
+    // 3:1 against 2:1 halves the study's score; the 2.5:1 utility and the corridor are fine
+    close(result.proportionScore, 0.75);
+    assert.deepEqual(result.findings.filter(f => f.includes(':1 (at most')), ['Study is 3.0:1 (at most 2:1 for a room)']);
+    close(result.efficiencyScore, (result.circulationScore + 0.75) / 2);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlotGeometry } from '../src/types/agent.types.js';
+import type { Room } from '../src/types/shared.types.js';
+import { enrichRoomsWithDirection } from '../src/utils/direction.utils.js';
+import { validateStructure } from '../src/validators/structural.validator.js';
+
+const PLOT: PlotGeometry = { width: 20, depth: 20 };
+
+const room = (name: string, floor: number, x: number, y: number, width: number, height: number, type: Room['type'] = 'room'): Room =>
+  ({ id: `${name.toLowerCase().replace(/\s+/g, '-')}-${floor}`, name, type, x, y, width, height, floor, features: [] });
+
+/** A 10 x 8 m ground floor: staircase and bathroom on the left, living room and bedroom on the right */
+const GROUND: Room[] = [
+  room('Staircase', 0, 0, 0, 3, 4, 'circulation'),
+  room('Living Room', 0, 3, 0, 7, 4),
+  room('Bathroom', 0, 0, 4, 3, 4),
+  room('Bedroom', 0, 3, 4, 7, 4),
+];
+
+/** The same footprint one floor up, with any rooms moved or renamed by `changes` */
+function upper(changes: Record<string, Partial<Room>> = {}): Room[] {
+  return [
+    room('Staircase', 1, 0, 0, 3, 4, 'circulation'),
+    room('Bedroom 2', 1, 3, 0, 7, 4),
+    room('Bathroom 2', 1, 0, 4, 3, 4),
+    room('Study', 1, 3, 4, 7, 4),
+  ].map(r => ({ ...r, ...changes[r.name] }));
+}
+
+function validate(rooms: Room[], floors = 2) {
+  return validateStructure(enrichRoomsWithDirection(rooms, PLOT), floors);
+}
+
+const categories = (rooms: Room[], floors?: number) =>
+  validate(rooms, floors).violations.map(v => [v.category, v.severity, v.roomName]);
+
+describe('structural validator', () => {
+  it('passes floors that stack', () => {
+    const result = validate([...GROUND, ...upper()]);
+    assert.deepEqual(result.violations, []);
+    assert.equal(result.score, 1);
+    assert.equal(result.complianceItems.find(i => i.rule === 'Floor Coverage')?.message, 'Ground floor 80.0 sq.m, Floor 1 80.0 sq.m');
+  });
+
+  it('keeps upper wet areas over wet areas, above all over bedrooms', () => {
+    // Half over the bathroom below is enough
+    assert.deepEqual(categories([...GROUND, ...upper({ 'Bathroom 2': { x: 1.5 } })]), []);
+
+    const overBedroom = validate([...GROUND, ...upper({ 'Bathroom 2': { x: 7 } })]);
+    assert.deepEqual(overBedroom.violations.map(v => [v.category, v.severity, v.message]), [
+      ['wet_stack', 'major', 'Bathroom 2 on floor 1 sits over Bedroom'],
+    ]);
+    assert.equal(overBedroom.complianceItems.find(i => i.rule === 'Wet Area Stacking')?.status, 'WARN');
+
+    const overLiving = validate([...GROUND, ...upper({ 'Bathroom 2': { x: 7, y: 0 } })]);
+    assert.deepEqual(overLiving.violations.map(v => [v.category, v.severity, v.message]), [
+      ['wet_stack', 'minor', 'Bathroom 2 on floor 1 is not over a bathroom, kitchen or utility'],
+    ]);
+    // A kitchen upstairs drains the same way
+    assert.deepEqual(categories([...GROUND, ...upper({ Study: { name: 'Kitchen' } })]), [['wet_stack', 'major', 'Kitchen']]);
+  });
+
+  it('needs each floor\'s staircase exactly over the one below', () => {
+    assert.deepEqual(categories([...GROUND, ...upper({ Staircase: { x: 0.05, width: 2.95 } })]), []);
+
+    const shifted = validate([...GROUND, ...upper({ Staircase: { y: 0.5 } })]);
+    assert.deepEqual(shifted.violations.map(v => [v.category, v.severity, v.message]), [
+      ['stair_alignment', 'critical', 'Staircase on floor 1 (0, 0.5, 3x4m) does not line up with Staircase below (0, 0, 3x4m)'],
+    ]);
+    assert.equal(shifted.complianceItems.find(i => i.rule === 'Staircase Alignment')?.message, 'Misaligned: Staircase on floor 1');
+
+    const missing = validate([...GROUND, ...upper().filter(r => r.name !== 'Staircase')]);
+    assert.deepEqual(missing.violations.map(v => [v.category, v.message]), [['stair_alignment', 'Floor 1 has no staircase']]);
+  });
+
+  it('needs upper rooms to bear on the floor below, except balconies', () => {
+    const overhang = validate([...GROUND, ...upper({ 'Bedroom 2': { width: 9 } })]);
+    assert.deepEqual(overhang.violations.map(v => [v.category, v.severity, v.message]), [
+      ['unsupported', 'major', '22% of Bedroom 2 on floor 1 has no room below it'],
+    ]);
+    assert.deepEqual(categories([...GROUND, ...upper(), room('Balcony', 1, 10, 0, 2, 4, 'outdoor')]), []);
+  });
+
+  it('needs every floor drawn and no rooms above the top floor', () => {
+    assert.deepEqual(categories([...GROUND, ...upper()], 3), [
+      ['empty_floor', 'critical', undefined],
+      ['stair_alignment', 'critical', undefined],
+    ]);
+    const stray = validate([...GROUND, ...upper(), room('Terrace Room', 2, 3, 0, 7, 4)]);
+    assert.deepEqual(stray.violations.map(v => [v.category, v.message]), [
+      ['empty_floor', 'Terrace Room is on floor 2, but the building has 2 floors'],
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CardinalDirection, CulturalRulePack, PlotGeometry } from '../src/types/agent.types.js';
+import type { ComplianceItem, Room } from '../src/types/shared.types.js';
+import { enrichRoomsWithDirection } from '../src/utils/direction.utils.js';
+import { validateCultural } from '../src/validators/cultural.validator.js';
+import { vastuNorthRulePack, vastuRulePack, vastuSouthRulePack } from '../src/validators/vastu.validator.js';
+
+const PLOT: PlotGeometry = { width: 12, depth: 12 };
+
+/** Plan-frame cells of the 3x3 grid on a north-facing plot */
+const CELLS: Partial<Record<CardinalDirection, [number, number]>> = {
+  NW: [0, 0], N: [1, 0], E: [2, 1], CENTER: [1, 1], SW: [0, 2], SE: [2, 2],
+};
+
+function at(name: string, direction: CardinalDirection, extra: Partial<Room> = {}): Room {
+  const [col, row] = CELLS[direction]!;
+  return { id: name.toLowerCase(), name, type: 'room', x: col * 4 + 1, y: row * 4 + 1, width: 2, height: 2, features: [], ...extra };
+}
+
+/** The pack's verdict on one rule for a single room */
+function verdict(pack: CulturalRulePack, ruleId: string, room: Room): ComplianceItem | undefined {
+  return validateCultural(enrichRoomsWithDirection([room], PLOT), PLOT, 1, pack)
+    .complianceItems.find(item => item.rule.startsWith(`${ruleId}:`));
+}
+
+const status = (pack: CulturalRulePack, ruleId: string, room: Room) => verdict(pack, ruleId, room)?.status;
+
+describe('regional Vastu packs', () => {
+  const courtyard = (direction: CardinalDirection, type: Room['type'] = 'outdoor') => at('Courtyard', direction, { type });
+  const stairs = at('Staircase', 'SW', { stairTurn: 'anticlockwise' });
+
+  it('North: allows the kitchen only in the south-east (Vishwakarma Prakash)', () => {
+    assert.equal(status(vastuRulePack, 'VASTU_003', at('Kitchen', 'NW')), 'PASS');
+    const north = verdict(vastuNorthRulePack, 'VASTU_003', at('Kitchen', 'NW'));
+    assert.equal(north?.status, 'FAIL');
+    assert.match(north!.message, /should be in SE \[Vishwakarma Prakash\]$/);
+    assert.equal(status(vastuNorthRulePack, 'VASTU_003', at('Kitchen', 'SE')), 'PASS');
+  });
+
+  it('North: wants an open aangan in the centre, north or east (Vishwakarma Prakash)', () => {
+    assert.equal(status(vastuRulePack, 'VASTU_015', courtyard('SW')), undefined);
+    assert.equal(status(vastuNorthRulePack, 'VASTU_015', courtyard('N')), 'PASS');
+    assert.equal(status(vastuNorthRulePack, 'VASTU_015', courtyard('SW')), 'WARN');
+    assert.equal(status(vastuNorthRulePack, 'VASTU_015', courtyard('CENTER', 'room')), 'WARN');
+  });
+
+  it('North: fails a staircase that turns anticlockwise (Vishwakarma Prakash)', () => {
+    assert.equal(status(vastuRulePack, 'VASTU_016', stairs), undefined);
+    assert.equal(status(vastuNorthRulePack, 'VASTU_016', stairs), 'FAIL');
+    assert.equal(status(vastuNorthRulePack, 'VASTU_016', { ...stairs, stairTurn: 'clockwise' }), 'PASS');
+  });
+
+  it('South: also allows the kitchen in the east (Mayamata)', () => {
+    assert.equal(status(vastuRulePack, 'VASTU_003', at('Kitchen', 'E')), 'FAIL');
+    const south = verdict(vastuSouthRulePack, 'VASTU_003', at('Kitchen', 'E'));
+    assert.equal(south?.status, 'PASS');
+    assert.match(south!.message, /\[Mayamata\]$/);
+    assert.equal(status(vastuSouthRulePack, 'VASTU_003', at('Kitchen', 'NW')), 'PASS');
+  });
+
+  it('South: wants the nadumuttam open in the centre (Manushyalaya Chandrika)', () => {
+    assert.equal(status(vastuRulePack, 'VASTU_015', courtyard('N')), undefined);
+    assert.equal(status(vastuSouthRulePack, 'VASTU_015', courtyard('CENTER')), 'PASS');
+    // North of centre suits the North Indian aangan, not the nadumuttam
+    assert.equal(status(vastuSouthRulePack, 'VASTU_015', courtyard('N')), 'FAIL');
+    assert.equal(status(vastuSouthRulePack, 'VASTU_015', courtyard('CENTER', 'room')), 'FAIL');
+  });
+
+  it('South: only warns about an anticlockwise staircase (Mayamata)', () => {
+    assert.equal(status(vastuRulePack, 'VASTU_016', stairs), undefined);
+    assert.equal(status(vastuSouthRulePack, 'VASTU_016', stairs), 'WARN');
+    const [north, south] = [vastuNorthRulePack, vastuSouthRulePack].map(pack =>
+      validateCultural(enrichRoomsWithDirection([stairs], PLOT), PLOT, 1, pack).score);
+    assert.ok(south > north);
+  });
+
+  it('keeps every other rule of the base pack', () => {
+    const overridden = ['VASTU_003', 'VASTU_015', 'VASTU_016'];
+    for (const pack of [vastuNorthRulePack, vastuSouthRulePack]) {
+      const kept = pack.rules.filter(rule => !overridden.includes(rule.id));
+      assert.deepEqual(kept, vastuRulePack.rules.filter(rule => !overridden.includes(rule.id)), pack.id);
+      assert.deepEqual(pack.rules.map(rule => rule.id).slice(0, vastuRulePack.rules.length), vastuRulePack.rules.map(rule => rule.id));
+    }
+  });
+});